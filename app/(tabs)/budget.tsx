@@ -10,75 +10,157 @@ import {
   Alert
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
+import { router } from 'expo-router'
 import { useDatabase } from '@/contexts/DatabaseContext'
-import type { BudgetCategory } from '@/db/schema'
+import type { ExchangeRate } from '@/db/schema'
+import type { BudgetAllocationWithCategory } from '@/db/repositories'
 import Card from '@/components/Card'
 import ProgressBar from '@/components/ProgressBar'
+import CurrencyPicker from '@/components/CurrencyPicker'
+import AccountPicker from '@/components/AccountPicker'
+import ExportModal from '@/components/ExportModal'
+import BackupModal from '@/components/BackupModal'
+import SyncModal from '@/components/SyncModal'
+import MembersModal from '@/components/MembersModal'
+import HistoryModal from '@/components/HistoryModal'
+import TrashModal from '@/components/TrashModal'
+import RemindersModal from '@/components/RemindersModal'
+import { parseExchangeRates } from '@/db/currency'
+import { formatMoney, parseMoney, centsToInput } from '@/db/money'
 import {
   DollarSign,
   Target,
   TrendingUp,
   Plus,
   CreditCard as Edit3,
-  ChartPie as PieChart
+  ChartPie as PieChart,
+  Repeat,
+  Trash2,
+  Download,
+  DatabaseBackup,
+  RefreshCw,
+  Tag,
+  Users,
+  ChevronLeft,
+  ChevronRight,
+  History,
+  Bell,
+  Landmark
 } from 'lucide-react-native'
 
+const getCurrentMonth = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${(now.getMonth() + 1)
+    .toString()
+    .padStart(2, '0')}`
+}
+
+const getMonthName = (monthStr: string) => {
+  const [year, month] = monthStr.split('-')
+  const date = new Date(parseInt(year), parseInt(month) - 1)
+  return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+}
+
 function BudgetContent () {
   const {
-    budgetCategories,
+    budgetAllocations,
     financialSettings,
-    addBudgetCategory,
-    updateBudgetCategory,
-    deleteBudgetCategory,
+    addBudgetAllocation,
+    updateBudgetAllocation,
+    deleteBudgetAllocation,
     updateFinancialSettings,
     getTotalMonthlyExpenses,
     getRemainingBudget,
-    getSavingsProgress
+    getSavingsProgress,
+    baseCurrency,
+    exchangeRates,
+    saveExchangeRate,
+    deleteExchangeRate,
+    importExchangeRates,
+    categorizationRules,
+    members,
+    accounts,
+    currentSavings
   } = useDatabase()
 
   const [showIncomeModal, setShowIncomeModal] = useState(false)
   const [showSavingsModal, setShowSavingsModal] = useState(false)
   const [showCategoryModal, setShowCategoryModal] = useState(false)
-  const [editingCategory, setEditingCategory] = useState<BudgetCategory | null>(
-    null
-  )
+  const [showCurrencyModal, setShowCurrencyModal] = useState(false)
+  const [showExportModal, setShowExportModal] = useState(false)
+  const [showBackupModal, setShowBackupModal] = useState(false)
+  const [showSyncModal, setShowSyncModal] = useState(false)
+  const [showTrashModal, setShowTrashModal] = useState(false)
+  const [showRemindersModal, setShowRemindersModal] = useState(false)
+  const [showMembersModal, setShowMembersModal] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [editingCategory, setEditingCategory] =
+    useState<BudgetAllocationWithCategory | null>(null)
+  const [currentMonth, setCurrentMonth] = useState(getCurrentMonth())
   const [totalExpenses, setTotalExpenses] = useState(0)
 
   const [incomeForm, setIncomeForm] = useState(
-    financialSettings?.monthlyIncome?.toString() || '0'
+    centsToInput(financialSettings?.monthlyIncome ?? 0)
   )
   const [savingsForm, setSavingsForm] = useState({
-    goal: financialSettings?.savingsGoal?.toString() || '0',
-    current: financialSettings?.currentSavings?.toString() || '0'
+    goal: centsToInput(financialSettings?.savingsGoal ?? 0),
+    current: centsToInput(financialSettings?.currentSavings ?? 0),
+    accountId: financialSettings?.savingsAccountId ?? null
   })
   const [categoryForm, setCategoryForm] = useState({
     name: '',
-    limit: '',
-    spent: ''
+    limit: ''
   })
+  const [rateForm, setRateForm] = useState({
+    fromCurrency: '',
+    rate: ''
+  })
+  const [importText, setImportText] = useState('')
 
   useEffect(() => {
     const loadTotalExpenses = async () => {
-      const total = await getTotalMonthlyExpenses()
+      const total = await getTotalMonthlyExpenses(currentMonth)
       setTotalExpenses(total)
     }
     loadTotalExpenses()
-  }, [getTotalMonthlyExpenses])
+  }, [getTotalMonthlyExpenses, currentMonth])
+
+  const navigateMonth = (direction: 'prev' | 'next') => {
+    const [year, month] = currentMonth.split('-').map(Number)
+    const date = new Date(year, month - 1)
+
+    if (direction === 'prev') {
+      date.setMonth(date.getMonth() - 1)
+    } else {
+      date.setMonth(date.getMonth() + 1)
+    }
 
-  const remainingBudget = getRemainingBudget()
+    const newMonth = `${date.getFullYear()}-${(date.getMonth() + 1)
+      .toString()
+      .padStart(2, '0')}`
+    setCurrentMonth(newMonth)
+  }
+
+  // Income, limits and savings are kept in the household base currency
+  const money = (amount: number) => formatMoney(amount, baseCurrency)
+
+  const remainingBudget = getRemainingBudget(currentMonth)
   const savingsProgress = getSavingsProgress()
-  const totalBudgetAllocated = budgetCategories.reduce(
-    (sum: number, cat: BudgetCategory) => sum + cat.limit,
+  const monthBudgets = budgetAllocations.filter(
+    allocation => allocation.month === currentMonth
+  )
+  const totalBudgetAllocated = monthBudgets.reduce(
+    (sum, allocation) => sum + allocation.limit,
     0
   )
-  const totalSpent = budgetCategories.reduce(
-    (sum: number, cat: BudgetCategory) => sum + (cat.spent || 0),
+  const totalSpent = monthBudgets.reduce(
+    (sum, allocation) => sum + (allocation.spent || 0),
     0
   )
 
   const handleUpdateIncome = async () => {
-    const income = parseFloat(incomeForm)
-    if (isNaN(income) || income < 0) {
+    const income = parseMoney(incomeForm)
+    if (income === null || income < 0) {
       Alert.alert('Error', 'Please enter a valid income amount')
       return
     }
@@ -92,10 +174,10 @@ function BudgetContent () {
   }
 
   const handleUpdateSavings = async () => {
-    const goal = parseFloat(savingsForm.goal)
-    const current = parseFloat(savingsForm.current)
+    const goal = parseMoney(savingsForm.goal)
+    const current = parseMoney(savingsForm.current)
 
-    if (isNaN(goal) || goal < 0 || isNaN(current) || current < 0) {
+    if (goal === null || goal < 0 || current === null || current < 0) {
       Alert.alert('Error', 'Please enter valid amounts')
       return
     }
@@ -103,7 +185,8 @@ function BudgetContent () {
     try {
       await updateFinancialSettings({
         savingsGoal: goal,
-        currentSavings: current
+        currentSavings: current,
+        savingsAccountId: savingsForm.accountId
       })
       setShowSavingsModal(false)
     } catch (error) {
@@ -112,77 +195,136 @@ function BudgetContent () {
     }
   }
 
+  const handleChangeBaseCurrency = async (currency: string) => {
+    if (currency === baseCurrency) return
+    try {
+      await updateFinancialSettings({ baseCurrency: currency })
+    } catch (error) {
+      console.error('Error updating base currency:', error)
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to update base currency'
+      )
+    }
+  }
+
+  const handleSaveRate = async () => {
+    const rate = parseFloat(rateForm.rate)
+    if (!rateForm.fromCurrency || isNaN(rate) || rate <= 0) {
+      Alert.alert('Error', 'Please pick a currency and enter a valid rate')
+      return
+    }
+    if (rateForm.fromCurrency === baseCurrency) {
+      Alert.alert('Error', 'Pick a currency other than the base currency')
+      return
+    }
+    await saveExchangeRate({
+      fromCurrency: rateForm.fromCurrency,
+      toCurrency: baseCurrency,
+      rate
+    })
+    setRateForm({ fromCurrency: '', rate: '' })
+  }
+
+  const handleImportRates = async () => {
+    let rates
+    try {
+      rates = parseExchangeRates(importText)
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Could not read the rates'
+      )
+      return
+    }
+    if (rates.length === 0) {
+      Alert.alert('Error', 'Paste at least one rate, e.g. EUR,USD,1.08')
+      return
+    }
+    const count = await importExchangeRates(rates)
+    Alert.alert('Rates Imported', `${count} exchange rates saved`)
+    setImportText('')
+  }
+
+  const handleDeleteRate = (rate: ExchangeRate) => {
+    Alert.alert(
+      'Delete Rate',
+      `Delete the ${rate.fromCurrency}/${rate.toCurrency} rate?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteExchangeRate(rate.id)
+        }
+      ]
+    )
+  }
+
   const handleSaveCategory = async () => {
     if (!categoryForm.name || !categoryForm.limit) {
       Alert.alert('Error', 'Please fill in category name and limit')
       return
     }
 
-    const limit = parseFloat(categoryForm.limit)
-    const spent = parseFloat(categoryForm.spent) || 0
+    const limit = parseMoney(categoryForm.limit)
 
-    if (isNaN(limit) || limit < 0 || isNaN(spent) || spent < 0) {
-      Alert.alert('Error', 'Please enter valid amounts')
+    if (limit === null || limit < 0) {
+      Alert.alert('Error', 'Please enter a valid limit')
+      return
+    }
+
+    const name = categoryForm.name.trim()
+    const duplicate = monthBudgets.find(
+      allocation =>
+        allocation.id !== editingCategory?.id &&
+        allocation.name.toLowerCase() === name.toLowerCase()
+    )
+    if (duplicate) {
+      Alert.alert('Error', `${duplicate.name} already has a budget this month`)
       return
     }
 
+    // Spent is derived from the month's expenses, so only the limit is edited
     try {
       if (editingCategory) {
-        await updateBudgetCategory(editingCategory.id, {
-          name: categoryForm.name,
-          limit,
-          spent
-        })
+        await updateBudgetAllocation(
+          editingCategory.id,
+          name === editingCategory.name ? { limit } : { name, limit }
+        )
       } else {
-        await addBudgetCategory({
-          name: categoryForm.name,
-          limit,
-          spent
-        })
+        await addBudgetAllocation({ name, limit, month: currentMonth })
       }
       resetCategoryForm()
     } catch (error) {
       console.error('Error saving category:', error)
-      Alert.alert('Error', 'Failed to save category')
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save category')
     }
   }
 
   const resetCategoryForm = () => {
-    setCategoryForm({ name: '', limit: '', spent: '' })
+    setCategoryForm({ name: '', limit: '' })
     setEditingCategory(null)
     setShowCategoryModal(false)
   }
 
-  const handleEditCategory = (category: BudgetCategory) => {
+  const handleEditCategory = (category: BudgetAllocationWithCategory) => {
     setEditingCategory(category)
     setCategoryForm({
       name: category.name,
-      limit: category.limit.toString(),
-      spent: (category.spent || 0).toString()
+      limit: centsToInput(category.limit)
     })
     setShowCategoryModal(true)
   }
 
+  // The budget goes to the trash, and the undo bar offers to bring it back
   const handleDeleteCategory = async (categoryId: string) => {
-    Alert.alert(
-      'Delete Category',
-      'Are you sure you want to delete this budget category?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await deleteBudgetCategory(categoryId)
-            } catch (error) {
-              console.error('Error deleting category:', error)
-              Alert.alert('Error', 'Failed to delete category')
-            }
-          }
-        }
-      ]
-    )
+    try {
+      await deleteBudgetAllocation(categoryId)
+    } catch (error) {
+      console.error('Error deleting category:', error)
+      Alert.alert('Error', 'Failed to delete category')
+    }
   }
 
   return (
@@ -197,6 +339,23 @@ function BudgetContent () {
         </TouchableOpacity>
       </View>
 
+      {/* Month Navigation */}
+      <View style={styles.monthNavigation}>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => navigateMonth('prev')}
+        >
+          <ChevronLeft size={20} color='#EA580C' />
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>{getMonthName(currentMonth)}</Text>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => navigateMonth('next')}
+        >
+          <ChevronRight size={20} color='#EA580C' />
+        </TouchableOpacity>
+      </View>
+
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {/* Financial Overview */}
         <Card>
@@ -211,7 +370,7 @@ function BudgetContent () {
               <View>
                 <Text style={styles.overviewLabel}>Monthly Income</Text>
                 <Text style={styles.overviewAmount}>
-                  ${(financialSettings?.monthlyIncome || 0).toLocaleString()}
+                  {money(financialSettings?.monthlyIncome || 0)}
                 </Text>
               </View>
             </View>
@@ -224,7 +383,7 @@ function BudgetContent () {
               <View>
                 <Text style={styles.overviewLabel}>Total Expenses</Text>
                 <Text style={styles.overviewAmount}>
-                  ${totalExpenses.toLocaleString()}
+                  {money(totalExpenses)}
                 </Text>
               </View>
             </View>
@@ -243,11 +402,144 @@ function BudgetContent () {
                     { color: remainingBudget >= 0 ? '#059669' : '#DC2626' }
                   ]}
                 >
-                  ${Math.abs(remainingBudget).toLocaleString()}
+                  {money(Math.abs(remainingBudget))}
                 </Text>
               </View>
             </View>
           </View>
+
+          <TouchableOpacity
+            style={styles.overviewItem}
+            onPress={() => setShowCurrencyModal(true)}
+          >
+            <View style={styles.overviewLeft}>
+              <Repeat size={20} color='#7C3AED' />
+              <View>
+                <Text style={styles.overviewLabel}>Base Currency</Text>
+                <Text style={styles.overviewAmount}>
+                  {baseCurrency} · {exchangeRates.length} exchange rates
+                </Text>
+              </View>
+            </View>
+            <Edit3 size={16} color='#6B7280' />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.overviewItem}
+            onPress={() => router.push('/accounts')}
+          >
+            <View style={styles.overviewLeft}>
+              <Landmark size={20} color='#0D9488' />
+              <View>
+                <Text style={styles.overviewLabel}>Accounts</Text>
+                <Text style={styles.overviewAmount}>
+                  {accounts.length > 0
+                    ? accounts.map(account => account.name).join(', ')
+                    : 'Balances, incomes and transfers'}
+                </Text>
+              </View>
+            </View>
+            <Edit3 size={16} color='#6B7280' />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.overviewItem}
+            onPress={() => setShowMembersModal(true)}
+          >
+            <View style={styles.overviewLeft}>
+              <Users size={20} color='#DB2777' />
+              <View>
+                <Text style={styles.overviewLabel}>Household Members</Text>
+                <Text style={styles.overviewAmount}>
+                  {members.length > 0
+                    ? members.map(member => member.name).join(', ')
+                    : 'Track who paid what'}
+                </Text>
+              </View>
+            </View>
+            <Edit3 size={16} color='#6B7280' />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.overviewItem}
+            onPress={() => setShowExportModal(true)}
+          >
+            <View style={styles.overviewLeft}>
+              <Download size={20} color='#EA580C' />
+              <View>
+                <Text style={styles.overviewLabel}>Export Data</Text>
+                <Text style={styles.overviewAmount}>JSON or CSV</Text>
+              </View>
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.overviewItem}
+            onPress={() => setShowBackupModal(true)}
+          >
+            <View style={styles.overviewLeft}>
+              <DatabaseBackup size={20} color='#059669' />
+              <View>
+                <Text style={styles.overviewLabel}>Backups</Text>
+                <Text style={styles.overviewAmount}>Back up or restore</Text>
+              </View>
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.overviewItem}
+            onPress={() => setShowSyncModal(true)}
+          >
+            <View style={styles.overviewLeft}>
+              <RefreshCw size={20} color='#2563EB' />
+              <View>
+                <Text style={styles.overviewLabel}>Sync Devices</Text>
+                <Text style={styles.overviewAmount}>Share data on your network</Text>
+              </View>
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.overviewItem}
+            onPress={() => setShowTrashModal(true)}
+          >
+            <View style={styles.overviewLeft}>
+              <Trash2 size={20} color='#6B7280' />
+              <View>
+                <Text style={styles.overviewLabel}>Trash</Text>
+                <Text style={styles.overviewAmount}>Restore deleted records</Text>
+              </View>
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.overviewItem}
+            onPress={() => setShowRemindersModal(true)}
+          >
+            <View style={styles.overviewLeft}>
+              <Bell size={20} color='#D97706' />
+              <View>
+                <Text style={styles.overviewLabel}>Bill Reminders</Text>
+                <Text style={styles.overviewAmount}>Lead time per category</Text>
+              </View>
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.overviewItem}
+            onPress={() => router.push('/rules')}
+          >
+            <View style={styles.overviewLeft}>
+              <Tag size={20} color='#0891B2' />
+              <View>
+                <Text style={styles.overviewLabel}>Categorization Rules</Text>
+                <Text style={styles.overviewAmount}>
+                  {categorizationRules.length} rules
+                </Text>
+              </View>
+            </View>
+            <Edit3 size={16} color='#6B7280' />
+          </TouchableOpacity>
         </Card>
 
         {/* Savings Goal */}
@@ -263,8 +555,8 @@ function BudgetContent () {
 
             <View style={styles.savingsContent}>
               <Text style={styles.savingsAmount}>
-                ${financialSettings?.currentSavings || 0} / $
-                {financialSettings?.savingsGoal || 0}
+                {money(currentSavings)} /{' '}
+                {money(financialSettings?.savingsGoal || 0)}
               </Text>
               <ProgressBar
                 progress={savingsProgress}
@@ -272,11 +564,11 @@ function BudgetContent () {
                 showPercentage={true}
               />
               <Text style={styles.savingsRemaining}>
-                $
-                {Math.max(
-                  0,
-                  (financialSettings?.savingsGoal || 0) -
-                    (financialSettings?.currentSavings || 0)
+                {money(
+                  Math.max(
+                    0,
+                    (financialSettings?.savingsGoal || 0) - currentSavings
+                  )
                 )}{' '}
                 remaining
               </Text>
@@ -290,14 +582,14 @@ function BudgetContent () {
 
           <View style={styles.budgetSummary}>
             <Text style={styles.budgetSummaryText}>
-              Total Allocated: ${totalBudgetAllocated.toLocaleString()}
+              Total Allocated: {money(totalBudgetAllocated)}
             </Text>
             <Text style={styles.budgetSummaryText}>
-              Total Spent: ${totalSpent.toLocaleString()}
+              Total Spent: {money(totalSpent)}
             </Text>
           </View>
 
-          {budgetCategories.map((category: BudgetCategory) => {
+          {monthBudgets.map(category => {
             const spent = category.spent || 0
             const progress = (spent / category.limit) * 100
             const isOverBudget = spent > category.limit
@@ -318,7 +610,7 @@ function BudgetContent () {
 
                 <View style={styles.categoryDetails}>
                   <Text style={styles.categoryAmount}>
-                    ${spent} / ${category.limit}
+                    {money(spent)} / {money(category.limit)}
                   </Text>
                   <Text
                     style={[
@@ -327,8 +619,8 @@ function BudgetContent () {
                     ]}
                   >
                     {isOverBudget
-                      ? `$${Math.abs(remaining)} over budget`
-                      : `$${remaining} remaining`}
+                      ? `${money(Math.abs(remaining))} over budget`
+                      : `${money(remaining)} remaining`}
                   </Text>
                 </View>
 
@@ -340,9 +632,9 @@ function BudgetContent () {
             )
           })}
 
-          {budgetCategories.length === 0 && (
+          {monthBudgets.length === 0 && (
             <View style={styles.emptyState}>
-              <Text style={styles.emptyText}>No budget categories yet</Text>
+              <Text style={styles.emptyText}>No budget for this month yet</Text>
               <Text style={styles.emptySubtext}>
                 Add categories to track your spending
               </Text>
@@ -399,16 +691,27 @@ function BudgetContent () {
               keyboardType='numeric'
             />
 
-            <TextInput
-              style={styles.input}
-              placeholder='Current savings'
-              value={savingsForm.current}
-              onChangeText={text =>
-                setSavingsForm({ ...savingsForm, current: text })
+            <AccountPicker
+              label='Savings account'
+              value={savingsForm.accountId}
+              onChange={accountId =>
+                setSavingsForm({ ...savingsForm, accountId })
               }
-              keyboardType='numeric'
             />
 
+            {/* With a savings account, current savings is its balance */}
+            {savingsForm.accountId === null && (
+              <TextInput
+                style={styles.input}
+                placeholder='Current savings'
+                value={savingsForm.current}
+                onChangeText={text =>
+                  setSavingsForm({ ...savingsForm, current: text })
+                }
+                keyboardType='numeric'
+              />
+            )}
+
             <View style={styles.modalButtons}>
               <TouchableOpacity
                 style={styles.cancelButton}
@@ -427,6 +730,84 @@ function BudgetContent () {
         </View>
       </Modal>
 
+      {/* Currency Modal */}
+      <Modal visible={showCurrencyModal} animationType='slide' transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Currency & Exchange Rates</Text>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <CurrencyPicker
+                label='Base currency'
+                value={baseCurrency}
+                onChange={handleChangeBaseCurrency}
+              />
+              <Text style={styles.spentNote}>
+                Totals are converted to {baseCurrency}. Income, budget limits
+                and savings are entered in {baseCurrency}.
+              </Text>
+
+              {exchangeRates.map(rate => (
+                <View key={rate.id} style={styles.rateRow}>
+                  <Text style={styles.rateText}>
+                    1 {rate.fromCurrency} = {rate.rate} {rate.toCurrency}
+                  </Text>
+                  <TouchableOpacity onPress={() => handleDeleteRate(rate)}>
+                    <Trash2 size={16} color='#DC2626' />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <CurrencyPicker
+                label={`Add a rate to ${baseCurrency}`}
+                value={rateForm.fromCurrency}
+                onChange={currency =>
+                  setRateForm({ ...rateForm, fromCurrency: currency })
+                }
+              />
+              <View style={styles.rateForm}>
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  placeholder={`1 ${rateForm.fromCurrency || '...'} in ${baseCurrency}`}
+                  value={rateForm.rate}
+                  onChangeText={text => setRateForm({ ...rateForm, rate: text })}
+                  keyboardType='numeric'
+                />
+                <TouchableOpacity
+                  style={styles.rateButton}
+                  onPress={handleSaveRate}
+                >
+                  <Plus size={20} color='#FFFFFF' />
+                </TouchableOpacity>
+              </View>
+
+              <TextInput
+                style={[styles.input, styles.importInput]}
+                placeholder={'Import rates, one per line:\nEUR,USD,1.08'}
+                value={importText}
+                onChangeText={setImportText}
+                multiline
+              />
+              <TouchableOpacity
+                style={[styles.cancelButton, { marginBottom: 16 }]}
+                onPress={handleImportRates}
+              >
+                <Text style={styles.cancelButtonText}>Import Rates</Text>
+              </TouchableOpacity>
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={() => setShowCurrencyModal(false)}
+              >
+                <Text style={styles.saveButtonText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Category Modal */}
       <Modal visible={showCategoryModal} animationType='slide' transparent>
         <View style={styles.modalOverlay}>
@@ -434,6 +815,15 @@ function BudgetContent () {
             <Text style={styles.modalTitle}>
               {editingCategory ? 'Edit Category' : 'Add Category'}
             </Text>
+            {editingCategory && (
+              <TouchableOpacity
+                style={styles.historyButton}
+                onPress={() => setShowHistory(true)}
+              >
+                <History size={16} color='#2563EB' />
+                <Text style={styles.historyButtonText}>View history</Text>
+              </TouchableOpacity>
+            )}
 
             <TextInput
               style={styles.input}
@@ -454,15 +844,12 @@ function BudgetContent () {
               keyboardType='numeric'
             />
 
-            <TextInput
-              style={styles.input}
-              placeholder='Amount spent (optional)'
-              value={categoryForm.spent}
-              onChangeText={text =>
-                setCategoryForm({ ...categoryForm, spent: text })
-              }
-              keyboardType='numeric'
-            />
+            {editingCategory && (
+              <Text style={styles.spentNote}>
+                Spent this month: {money(editingCategory.spent || 0)} (from
+                expenses)
+              </Text>
+            )}
 
             <View style={styles.modalButtons}>
               <TouchableOpacity
@@ -490,9 +877,47 @@ function BudgetContent () {
                 </Text>
               </TouchableOpacity>
             </View>
+
+            <HistoryModal
+              visible={showHistory}
+              onClose={() => setShowHistory(false)}
+              entity='budgetAllocations'
+              entityId={editingCategory?.id ?? null}
+            />
           </View>
         </View>
       </Modal>
+
+      <ExportModal
+        visible={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        month={currentMonth}
+      />
+
+      <BackupModal
+        visible={showBackupModal}
+        onClose={() => setShowBackupModal(false)}
+      />
+
+      <SyncModal
+        visible={showSyncModal}
+        onClose={() => setShowSyncModal(false)}
+      />
+
+      <TrashModal
+        visible={showTrashModal}
+        onClose={() => setShowTrashModal(false)}
+      />
+
+      <RemindersModal
+        visible={showRemindersModal}
+        onClose={() => setShowRemindersModal(false)}
+      />
+
+      <MembersModal
+        visible={showMembersModal}
+        onClose={() => setShowMembersModal(false)}
+      />
     </SafeAreaView>
   )
 }
@@ -526,6 +951,32 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center'
   },
+  monthNavigation: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 20,
+    marginBottom: 12,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2
+  },
+  navButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6'
+  },
+  monthTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827'
+  },
   content: {
     flex: 1,
     paddingHorizontal: 20
@@ -661,6 +1112,19 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: 'center'
   },
+  historyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    marginTop: -12,
+    marginBottom: 16
+  },
+  historyButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2563EB'
+  },
   input: {
     backgroundColor: '#F9FAFB',
     borderRadius: 8,
@@ -670,6 +1134,39 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E5E7EB'
   },
+  spentNote: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16
+  },
+  rateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6'
+  },
+  rateText: {
+    fontSize: 14,
+    color: '#374151'
+  },
+  rateForm: {
+    flexDirection: 'row',
+    gap: 8
+  },
+  rateButton: {
+    backgroundColor: '#EA580C',
+    borderRadius: 8,
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  importInput: {
+    minHeight: 80,
+    textAlignVertical: 'top'
+  },
   modalButtons: {
     flexDirection: 'row',
     gap: 12
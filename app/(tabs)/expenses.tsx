@@ -11,8 +11,25 @@ import {
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { useDatabase } from '@/contexts/DatabaseContext'
-import type { Expense } from '@/db/schema'
+import type { Expense, RecurrenceFrequency } from '@/db/schema'
 import Card from '@/components/Card'
+import CurrencyPicker from '@/components/CurrencyPicker'
+import MemberPicker from '@/components/MemberPicker'
+import AccountPicker from '@/components/AccountPicker'
+import SplitEditor, {
+  emptySplitDraft,
+  toSplitDraft,
+  toSplitInput,
+  type SplitDraft
+} from '@/components/SplitEditor'
+import SettleUpModal from '@/components/SettleUpModal'
+import HistoryModal from '@/components/HistoryModal'
+import StatementImportModal from '@/components/StatementImportModal'
+import PaymentsModal from '@/components/PaymentsModal'
+import { formatMoney, parseMoney, centsToInput } from '@/db/money'
+import { categorize } from '@/db/categorization'
+import { validateSplit, type ExpenseSplitInput } from '@/db/splits'
+import { getAmountPaid, getPaymentStatus } from '@/db/payments'
 import {
   Plus,
   CreditCard as Edit3,
@@ -22,7 +39,11 @@ import {
   Circle,
   Filter,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  FileUp,
+  ArrowLeftRight,
+  History,
+  Wallet
 } from 'lucide-react-native'
 
 const getCurrentMonth = () => {
@@ -38,34 +59,85 @@ const getMonthName = (monthStr: string) => {
   return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
 }
 
+const frequencies: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' }
+]
+
+const isWeekBased = (frequency: RecurrenceFrequency) =>
+  frequency === 'weekly' || frequency === 'biweekly'
+
+// Member filter values besides member ids
+const ALL_MEMBERS = 'all'
+const UNASSIGNED = 'unassigned'
+
 function ExpensesContent () {
-  const { expenses, addExpense, updateExpense, deleteExpense } = useDatabase()
+  const {
+    expenses,
+    addExpense,
+    updateExpense,
+    toggleExpensePaid,
+    deleteExpense,
+    addRecurringExpense,
+    updateRecurringExpense,
+    baseCurrency,
+    convertToBase,
+    categorizationRules,
+    categories: expenseCategories,
+    members,
+    expenseSplits,
+    setExpenseSplit,
+    payments
+  } = useDatabase()
   const [showAddModal, setShowAddModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
+  const [showSettleUpModal, setShowSettleUpModal] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [paymentsExpenseId, setPaymentsExpenseId] = useState<string | null>(
+    null
+  )
+  // Once the user picks a category or the recurring flag, rules stop
+  // overriding the form
+  const [ruleOverridden, setRuleOverridden] = useState(false)
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null)
   const [filterCategory, setFilterCategory] = useState('All')
+  const [filterMember, setFilterMember] = useState(ALL_MEMBERS)
   const [searchQuery, setSearchQuery] = useState('')
   const [currentMonth, setCurrentMonth] = useState(getCurrentMonth())
+  const [splitDraft, setSplitDraft] = useState<SplitDraft>(emptySplitDraft)
 
   const [formData, setFormData] = useState({
     name: '',
     amount: '',
+    currency: baseCurrency,
     category: 'Utilities',
+    paidBy: null as string | null,
+    accountId: null as string | null,
     dueDate: '',
     chargeDay: '',
-    isRecurring: false
+    isRecurring: false,
+    frequency: 'monthly' as RecurrenceFrequency,
+    startDate: '',
+    endDate: ''
   })
 
   const categories = [
     'All',
-    'Housing',
-    'Utilities',
-    'Groceries',
-    'Transportation',
-    'Entertainment',
-    'Healthcare',
-    'Other'
+    ...expenseCategories.map(category => category.name)
   ]
 
+  const memberFilters = [
+    { id: ALL_MEMBERS, name: 'Everyone' },
+    ...members.map(member => ({ id: member.id, name: member.name })),
+    { id: UNASSIGNED, name: 'Unassigned' }
+  ]
+
+  const getMemberName = (memberId: string | null) =>
+    members.find(member => member.id === memberId)?.name
+
   // Filter expenses by current month
   const monthlyExpenses = expenses.filter(
     expense => expense.month === currentMonth
@@ -74,10 +146,15 @@ function ExpensesContent () {
   const filteredExpenses = monthlyExpenses.filter(expense => {
     const matchesCategory =
       filterCategory === 'All' || expense.category === filterCategory
+    const matchesMember =
+      filterMember === ALL_MEMBERS ||
+      (filterMember === UNASSIGNED
+        ? !expense.paidBy
+        : expense.paidBy === filterMember)
     const matchesSearch = expense.name
       .toLowerCase()
       .includes(searchQuery.toLowerCase())
-    return matchesCategory && matchesSearch
+    return matchesCategory && matchesMember && matchesSearch
   })
 
   const navigateMonth = (direction: 'prev' | 'next') => {
@@ -102,7 +179,20 @@ function ExpensesContent () {
       return
     }
 
-    if (formData.isRecurring && !formData.chargeDay) {
+    const amount = parseMoney(formData.amount)
+    if (amount === null) {
+      Alert.alert('Error', 'Please enter a valid amount')
+      return
+    }
+
+    const isNewRecurring = formData.isRecurring && !editingExpense
+
+    if (isNewRecurring && isWeekBased(formData.frequency)) {
+      if (!formData.startDate) {
+        Alert.alert('Error', 'Please set a start date for weekly expenses')
+        return
+      }
+    } else if (formData.isRecurring && !formData.chargeDay) {
       Alert.alert('Error', 'Please set charge day for recurring expenses')
       return
     }
@@ -112,6 +202,47 @@ function ExpensesContent () {
       return
     }
 
+    // Templates are not split; their generated expenses can be
+    const split = isNewRecurring ? null : toSplitInput(splitDraft)
+    if (split) {
+      if (!formData.paidBy) {
+        Alert.alert('Error', 'Please choose who paid for a split expense')
+        return
+      }
+      try {
+        validateSplit(amount, split)
+      } catch (error) {
+        Alert.alert(
+          'Error',
+          error instanceof Error ? error.message : String(error)
+        )
+        return
+      }
+    }
+
+    if (isNewRecurring) {
+      addRecurringExpense(
+        {
+          name: formData.name,
+          amount,
+          currency: formData.currency,
+          category: formData.category,
+          paidBy: formData.paidBy,
+          accountId: formData.accountId,
+          frequency: formData.frequency,
+          dayOfMonth: isWeekBased(formData.frequency)
+            ? null
+            : parseInt(formData.chargeDay),
+          startDate: formData.startDate || `${currentMonth}-01`,
+          endDate: formData.endDate || null,
+          isActive: true
+        },
+        currentMonth
+      )
+      resetForm()
+      return
+    }
+
     let dueDate = formData.dueDate
 
     // For recurring expenses, calculate due date from charge day
@@ -123,8 +254,11 @@ function ExpensesContent () {
 
     const expenseData = {
       name: formData.name,
-      amount: parseFloat(formData.amount),
+      amount,
+      currency: formData.currency,
       category: formData.category,
+      paidBy: formData.paidBy,
+      accountId: formData.accountId,
       dueDate,
       month: currentMonth,
       chargeDay: formData.isRecurring ? parseInt(formData.chargeDay) : null,
@@ -132,70 +266,205 @@ function ExpensesContent () {
       isRecurring: formData.isRecurring
     }
 
-    if (editingExpense) {
-      updateExpense(editingExpense.id, expenseData)
+    if (editingExpense?.templateId) {
+      const expense = editingExpense
+      const templateId = editingExpense.templateId
+      Alert.alert(
+        'Update Recurring Expense',
+        'Apply these changes to future unpaid expenses as well?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Only this expense',
+            onPress: async () => {
+              await updateExpense(expense.id, expenseData)
+              await saveSplit(expense, split)
+            }
+          },
+          {
+            text: 'This and future unpaid',
+            onPress: async () => {
+              await updateExpense(expense.id, expenseData)
+              await saveSplit(expense, split)
+              await updateRecurringExpense(
+                templateId,
+                {
+                  name: expenseData.name,
+                  amount: expenseData.amount,
+                  currency: expenseData.currency,
+                  category: expenseData.category,
+                  paidBy: expenseData.paidBy,
+                  accountId: expenseData.accountId,
+                  ...(expenseData.chargeDay && {
+                    dayOfMonth: expenseData.chargeDay
+                  })
+                },
+                { applyToUnpaidFrom: expense.month }
+              )
+            }
+          }
+        ]
+      )
+    } else if (editingExpense) {
+      const expense = editingExpense
+      updateExpense(expense.id, expenseData).then(() =>
+        saveSplit(expense, split)
+      )
     } else {
-      addExpense(expenseData)
+      addExpense(expenseData).then(created => saveSplit(created, split))
     }
 
     resetForm()
   }
 
+  // Splits are saved once the expense itself is, since a new expense needs
+  // its id first
+  const saveSplit = async (
+    expense: Expense | null,
+    split: ExpenseSplitInput | null
+  ) => {
+    if (!expense || (!split && !expense.splitType)) return
+    try {
+      await setExpenseSplit(expense.id, split)
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        `The expense was saved, but not its split: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+
   const resetForm = () => {
     setFormData({
       name: '',
       amount: '',
+      currency: baseCurrency,
       category: 'Utilities',
+      paidBy: null,
+      accountId: null,
       dueDate: '',
       chargeDay: '',
-      isRecurring: false
+      isRecurring: false,
+      frequency: 'monthly',
+      startDate: '',
+      endDate: ''
     })
+    setSplitDraft(emptySplitDraft)
     setShowAddModal(false)
     setEditingExpense(null)
+    setRuleOverridden(false)
+  }
+
+  // Suggests category and recurring flag from the rules while a new expense
+  // is typed
+  const updateNameOrAmount = (changes: { name?: string; amount?: string }) => {
+    const next = { ...formData, ...changes }
+    if (!editingExpense && !ruleOverridden) {
+      const result = categorize(categorizationRules, {
+        name: next.name,
+        amount: parseMoney(next.amount) ?? 0
+      })
+      if (result) {
+        next.category = result.category
+        if (result.isRecurring !== undefined) {
+          next.isRecurring = result.isRecurring
+        }
+      }
+    }
+    setFormData(next)
   }
 
   const handleEdit = (expense: Expense) => {
     setEditingExpense(expense)
     setFormData({
       name: expense.name,
-      amount: expense.amount.toString(),
+      amount: centsToInput(expense.amount),
+      currency: expense.currency,
       category: expense.category,
+      paidBy: expense.paidBy,
+      accountId: expense.accountId,
       dueDate: expense.dueDate,
       chargeDay: expense.chargeDay?.toString() || '',
-      isRecurring: Boolean(expense.isRecurring)
+      isRecurring: Boolean(expense.isRecurring),
+      frequency: 'monthly',
+      startDate: '',
+      endDate: ''
     })
+    setSplitDraft(
+      toSplitDraft(
+        expense.splitType,
+        expenseSplits.filter(split => split.expenseId === expense.id)
+      )
+    )
     setShowAddModal(true)
   }
 
+  const getExpensePayments = (expense: Expense) =>
+    payments.filter(payment => payment.expenseId === expense.id)
+
+  // Once payments are recorded, the expense is paid through them
   const togglePaidStatus = (expense: Expense) => {
-    updateExpense(expense.id, { isPaid: !expense.isPaid })
+    if (getExpensePayments(expense).length > 0) {
+      setPaymentsExpenseId(expense.id)
+    } else {
+      toggleExpensePaid(expense.id)
+    }
+  }
+
+  const describePayments = (expense: Expense) => {
+    const expensePayments = getExpensePayments(expense)
+    const status = getPaymentStatus(expense, expensePayments)
+    if (status === 'partial') {
+      return `Partly paid · ${formatMoney(
+        getAmountPaid(expense, expensePayments),
+        expense.currency
+      )} of ${formatMoney(expense.amount, expense.currency)}`
+    }
+    if (status === 'overpaid') {
+      return `Overpaid · ${formatMoney(
+        getAmountPaid(expense, expensePayments),
+        expense.currency
+      )} paid`
+    }
+    return null
   }
 
+  // The expense goes to the trash, and the undo bar offers to bring it back
   const handleDelete = (expense: Expense) => {
-    Alert.alert(
-      'Delete Expense',
-      `Are you sure you want to delete "${expense.name}"?`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: () => deleteExpense(expense.id)
-        }
-      ]
-    )
+    deleteExpense(expense.id)
   }
 
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Expenses</Text>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => setShowAddModal(true)}
-        >
-          <Plus size={20} color='#FFFFFF' />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          {members.length > 1 && (
+            <TouchableOpacity
+              style={[styles.addButton, styles.secondaryButton]}
+              onPress={() => setShowSettleUpModal(true)}
+            >
+              <ArrowLeftRight size={20} color='#2563EB' />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.addButton, styles.secondaryButton]}
+            onPress={() => setShowImportModal(true)}
+          >
+            <FileUp size={20} color='#2563EB' />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => {
+              setFormData({ ...formData, currency: baseCurrency })
+              setShowAddModal(true)
+            }}
+          >
+            <Plus size={20} color='#FFFFFF' />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Month Navigation */}
@@ -248,6 +517,33 @@ function ExpensesContent () {
             </TouchableOpacity>
           ))}
         </ScrollView>
+        {members.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={[styles.filterScroll, styles.memberFilterScroll]}
+          >
+            {memberFilters.map(member => (
+              <TouchableOpacity
+                key={member.id}
+                style={[
+                  styles.filterChip,
+                  filterMember === member.id && styles.activeFilterChip
+                ]}
+                onPress={() => setFilterMember(member.id)}
+              >
+                <Text
+                  style={[
+                    styles.filterText,
+                    filterMember === member.id && styles.activeFilterText
+                  ]}
+                >
+                  {member.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
@@ -283,7 +579,28 @@ function ExpensesContent () {
                     </Text>
                   </View>
                 </View>
-                {expense.isRecurring && (
+                {getMemberName(expense.paidBy) && (
+                  <Text style={styles.expensePayer}>
+                    Paid by {getMemberName(expense.paidBy)}
+                  </Text>
+                )}
+                {expense.splitType && (
+                  <Text style={styles.splitBadge}>
+                    Split{' '}
+                    {
+                      expenseSplits.filter(
+                        split => split.expenseId === expense.id
+                      ).length
+                    }{' '}
+                    ways
+                  </Text>
+                )}
+                {describePayments(expense) && (
+                  <Text style={styles.paymentBadge}>
+                    {describePayments(expense)}
+                  </Text>
+                )}
+                {(expense.isRecurring || expense.templateId) && (
                   <Text style={styles.recurringBadge}>Recurring</Text>
                 )}
               </View>
@@ -295,9 +612,24 @@ function ExpensesContent () {
                     expense.isPaid && styles.paidAmount
                   ]}
                 >
-                  ${expense.amount.toFixed(2)}
+                  {formatMoney(expense.amount, expense.currency)}
                 </Text>
+                {expense.currency !== baseCurrency && (
+                  <Text style={styles.convertedAmount}>
+                    ≈{' '}
+                    {formatMoney(
+                      convertToBase(expense.amount, expense.currency),
+                      baseCurrency
+                    )}
+                  </Text>
+                )}
                 <View style={styles.actionButtons}>
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => setPaymentsExpenseId(expense.id)}
+                  >
+                    <Wallet size={16} color='#059669' />
+                  </TouchableOpacity>
                   <TouchableOpacity
                     style={styles.actionButton}
                     onPress={() => handleEdit(expense)}
@@ -321,7 +653,9 @@ function ExpensesContent () {
             <View style={styles.emptyState}>
               <Text style={styles.emptyText}>No expenses found</Text>
               <Text style={styles.emptySubtext}>
-                {searchQuery || filterCategory !== 'All'
+                {searchQuery ||
+                filterCategory !== 'All' ||
+                filterMember !== ALL_MEMBERS
                   ? 'Try adjusting your search or filters'
                   : 'Add your first expense to get started'}
               </Text>
@@ -337,97 +671,205 @@ function ExpensesContent () {
             <Text style={styles.modalTitle}>
               {editingExpense ? 'Edit Expense' : 'Add New Expense'}
             </Text>
+            {editingExpense && (
+              <TouchableOpacity
+                style={styles.historyButton}
+                onPress={() => setShowHistory(true)}
+              >
+                <History size={16} color='#2563EB' />
+                <Text style={styles.historyButtonText}>View history</Text>
+              </TouchableOpacity>
+            )}
 
-            <TextInput
-              style={styles.input}
-              placeholder='Expense name'
-              value={formData.name}
-              onChangeText={text => setFormData({ ...formData, name: text })}
-            />
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <TextInput
+                style={styles.input}
+                placeholder='Expense name'
+                value={formData.name}
+                onChangeText={text => updateNameOrAmount({ name: text })}
+              />
 
-            <TextInput
-              style={styles.input}
-              placeholder='Amount'
-              value={formData.amount}
-              onChangeText={text => setFormData({ ...formData, amount: text })}
-              keyboardType='numeric'
-            />
+              <TextInput
+                style={styles.input}
+                placeholder='Amount'
+                value={formData.amount}
+                onChangeText={text => updateNameOrAmount({ amount: text })}
+                keyboardType='numeric'
+              />
 
-            <View style={styles.pickerContainer}>
-              <Text style={styles.inputLabel}>Category</Text>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                {categories.slice(1).map(category => (
-                  <TouchableOpacity
-                    key={category}
-                    style={[
-                      styles.categoryOption,
-                      formData.category === category && styles.selectedCategory
-                    ]}
-                    onPress={() => setFormData({ ...formData, category })}
-                  >
-                    <Text
+              <CurrencyPicker
+                value={formData.currency}
+                onChange={currency => setFormData({ ...formData, currency })}
+              />
+
+              <MemberPicker
+                value={formData.paidBy}
+                onChange={paidBy => setFormData({ ...formData, paidBy })}
+              />
+
+              <AccountPicker
+                value={formData.accountId}
+                onChange={accountId => setFormData({ ...formData, accountId })}
+              />
+
+              {!(formData.isRecurring && !editingExpense) && (
+                <SplitEditor value={splitDraft} onChange={setSplitDraft} />
+              )}
+
+              <View style={styles.pickerContainer}>
+                <Text style={styles.inputLabel}>Category</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {categories.slice(1).map(category => (
+                    <TouchableOpacity
+                      key={category}
                       style={[
-                        styles.categoryText,
-                        formData.category === category &&
-                          styles.selectedCategoryText
+                        styles.categoryOption,
+                        formData.category === category && styles.selectedCategory
                       ]}
+                      onPress={() => {
+                        setRuleOverridden(true)
+                        setFormData({ ...formData, category })
+                      }}
                     >
-                      {category}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </ScrollView>
-            </View>
-
-            <TouchableOpacity
-              style={styles.recurringToggle}
-              onPress={() =>
-                setFormData({ ...formData, isRecurring: !formData.isRecurring })
-              }
-            >
-              <View
-                style={[
-                  styles.checkbox,
-                  formData.isRecurring && styles.checkedBox
-                ]}
-              >
-                {formData.isRecurring && (
-                  <Text style={styles.checkmark}>✓</Text>
-                )}
+                      <Text
+                        style={[
+                          styles.categoryText,
+                          formData.category === category &&
+                            styles.selectedCategoryText
+                        ]}
+                      >
+                        {category}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
               </View>
-              <Text style={styles.recurringText}>
-                Recurring monthly expense
-              </Text>
-            </TouchableOpacity>
 
-            {formData.isRecurring ? (
-              <View>
-                <Text style={styles.inputLabel}>
-                  Charge day of month (1-31)
+              {editingExpense?.templateId ? (
+                <Text style={styles.templateNote}>
+                  Generated from a recurring expense. You can choose to update
+                  future unpaid expenses when saving.
                 </Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder='15'
-                  value={formData.chargeDay}
-                  onChangeText={text =>
-                    setFormData({ ...formData, chargeDay: text })
-                  }
-                  keyboardType='numeric'
-                />
-              </View>
-            ) : (
-              <View>
-                <Text style={styles.inputLabel}>Due date</Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder='YYYY-MM-DD'
-                  value={formData.dueDate}
-                  onChangeText={text =>
-                    setFormData({ ...formData, dueDate: text })
-                  }
-                />
-              </View>
-            )}
+              ) : (
+                <TouchableOpacity
+                  style={styles.recurringToggle}
+                  onPress={() => {
+                    setRuleOverridden(true)
+                    setFormData({ ...formData, isRecurring: !formData.isRecurring })
+                  }}
+                >
+                  <View
+                    style={[
+                      styles.checkbox,
+                      formData.isRecurring && styles.checkedBox
+                    ]}
+                  >
+                    {formData.isRecurring && (
+                      <Text style={styles.checkmark}>✓</Text>
+                    )}
+                  </View>
+                  <Text style={styles.recurringText}>Recurring expense</Text>
+                </TouchableOpacity>
+              )}
+
+              {formData.isRecurring && !editingExpense && (
+                <View style={styles.pickerContainer}>
+                  <Text style={styles.inputLabel}>Repeats</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {frequencies.map(frequency => (
+                      <TouchableOpacity
+                        key={frequency.value}
+                        style={[
+                          styles.categoryOption,
+                          formData.frequency === frequency.value &&
+                            styles.selectedCategory
+                        ]}
+                        onPress={() =>
+                          setFormData({ ...formData, frequency: frequency.value })
+                        }
+                      >
+                        <Text
+                          style={[
+                            styles.categoryText,
+                            formData.frequency === frequency.value &&
+                              styles.selectedCategoryText
+                          ]}
+                        >
+                          {frequency.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </View>
+              )}
+
+              {formData.isRecurring ? (
+                <View>
+                  {!isWeekBased(formData.frequency) || editingExpense ? (
+                    <>
+                      <Text style={styles.inputLabel}>
+                        Charge day of month (1-31)
+                      </Text>
+                      <TextInput
+                        style={styles.input}
+                        placeholder='15'
+                        value={formData.chargeDay}
+                        onChangeText={text =>
+                          setFormData({ ...formData, chargeDay: text })
+                        }
+                        keyboardType='numeric'
+                      />
+                    </>
+                  ) : null}
+                  {!editingExpense && (
+                    <View style={styles.dateRow}>
+                      <View style={styles.dateField}>
+                        <Text style={styles.inputLabel}>
+                          {isWeekBased(formData.frequency)
+                            ? 'First due date'
+                            : 'Starts'}
+                        </Text>
+                        <TextInput
+                          style={styles.input}
+                          placeholder={
+                            isWeekBased(formData.frequency)
+                              ? 'YYYY-MM-DD'
+                              : `${currentMonth}-01`
+                          }
+                          value={formData.startDate}
+                          onChangeText={text =>
+                            setFormData({ ...formData, startDate: text })
+                          }
+                        />
+                      </View>
+                      <View style={styles.dateField}>
+                        <Text style={styles.inputLabel}>Ends (optional)</Text>
+                        <TextInput
+                          style={styles.input}
+                          placeholder='YYYY-MM-DD'
+                          value={formData.endDate}
+                          onChangeText={text =>
+                            setFormData({ ...formData, endDate: text })
+                          }
+                        />
+                      </View>
+                    </View>
+                  )}
+                </View>
+              ) : (
+                <View>
+                  <Text style={styles.inputLabel}>Due date</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder='YYYY-MM-DD'
+                    value={formData.dueDate}
+                    onChangeText={text =>
+                      setFormData({ ...formData, dueDate: text })
+                    }
+                  />
+                </View>
+              )}
+            </ScrollView>
 
             <View style={styles.modalButtons}>
               <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
@@ -439,9 +881,33 @@ function ExpensesContent () {
                 </Text>
               </TouchableOpacity>
             </View>
+
+            <HistoryModal
+              visible={showHistory}
+              onClose={() => setShowHistory(false)}
+              entity='expenses'
+              entityId={editingExpense?.id ?? null}
+              currency={editingExpense?.currency}
+            />
           </View>
         </View>
       </Modal>
+
+      <StatementImportModal
+        visible={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        categories={categories.slice(1)}
+      />
+
+      <SettleUpModal
+        visible={showSettleUpModal}
+        onClose={() => setShowSettleUpModal(false)}
+      />
+
+      <PaymentsModal
+        expenseId={paymentsExpenseId}
+        onClose={() => setPaymentsExpenseId(null)}
+      />
     </SafeAreaView>
   )
 }
@@ -467,6 +933,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#111827'
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8
+  },
   addButton: {
     backgroundColor: '#2563EB',
     borderRadius: 50,
@@ -475,6 +945,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center'
   },
+  secondaryButton: {
+    backgroundColor: '#DBEAFE'
+  },
   monthNavigation: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -517,6 +990,9 @@ const styles = StyleSheet.create({
   filterScroll: {
     flexDirection: 'row'
   },
+  memberFilterScroll: {
+    marginTop: 8
+  },
   filterChip: {
     backgroundColor: '#FFFFFF',
     paddingHorizontal: 16,
@@ -586,6 +1062,31 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6B7280'
   },
+  expensePayer: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4
+  },
+  splitBadge: {
+    fontSize: 10,
+    color: '#7C3AED',
+    backgroundColor: '#EDE9FE',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    alignSelf: 'flex-start',
+    marginBottom: 4
+  },
+  paymentBadge: {
+    fontSize: 10,
+    color: '#D97706',
+    backgroundColor: '#FEF3C7',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    alignSelf: 'flex-start',
+    marginBottom: 4
+  },
   recurringBadge: {
     fontSize: 10,
     color: '#059669',
@@ -607,6 +1108,12 @@ const styles = StyleSheet.create({
   paidAmount: {
     color: '#6B7280'
   },
+  convertedAmount: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: -6,
+    marginBottom: 8
+  },
   actionButtons: {
     flexDirection: 'row',
     gap: 8
@@ -650,6 +1157,19 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: 'center'
   },
+  historyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    marginTop: -12,
+    marginBottom: 16
+  },
+  historyButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2563EB'
+  },
   input: {
     backgroundColor: '#F9FAFB',
     borderRadius: 8,
@@ -714,6 +1234,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#374151'
   },
+  templateNote: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 20
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12
+  },
+  dateField: {
+    flex: 1
+  },
   modalButtons: {
     flexDirection: 'row',
     gap: 12
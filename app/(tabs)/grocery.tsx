@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import {
   View,
   Text,
@@ -13,6 +13,11 @@ import { SafeAreaView } from 'react-native-safe-area-context'
 import { useDatabase } from '@/contexts/DatabaseContext'
 import type { GroceryList, GroceryItem } from '@/db/schema'
 import Card from '@/components/Card'
+import CurrencyPicker from '@/components/CurrencyPicker'
+import MemberPicker from '@/components/MemberPicker'
+import UndoSnackbar from '@/components/UndoSnackbar'
+import { formatMoney, parseMoney, multiplyMoney } from '@/db/money'
+import type { GroceryItemDraft } from '@/db/grocery'
 import {
   Plus,
   ShoppingCart,
@@ -21,7 +26,8 @@ import {
   CircleCheck as CheckCircle,
   Circle,
   CreditCard as Edit3,
-  Trash2
+  Trash2,
+  User
 } from 'lucide-react-native'
 
 function GroceryContent () {
@@ -30,10 +36,9 @@ function GroceryContent () {
     addGroceryList,
     updateGroceryList,
     deleteGroceryList,
-    addGroceryItem,
-    updateGroceryItem,
-    deleteGroceryItem,
-    toggleGroceryItemPurchased
+    toggleGroceryItemPurchased,
+    baseCurrency,
+    members
   } = useDatabase()
 
   const [showAddModal, setShowAddModal] = useState(false)
@@ -47,7 +52,9 @@ function GroceryContent () {
 
   const [listForm, setListForm] = useState({
     name: '',
-    storeLocation: ''
+    storeLocation: '',
+    currency: baseCurrency,
+    paidBy: null as string | null
   })
 
   const [itemForm, setItemForm] = useState({
@@ -56,15 +63,10 @@ function GroceryContent () {
     pricePerUnit: ''
   })
 
-  const [currentItems, setCurrentItems] = useState<
-    Array<{
-      name: string
-      quantity: number
-      pricePerUnit: number
-      totalCost: number
-      storeLocation: string
-    }>
-  >([])
+  const [currentItems, setCurrentItems] = useState<GroceryItemDraft[]>([])
+
+  const getMemberName = (memberId: string | null) =>
+    members.find(member => member.id === memberId)?.name
 
   const handleCreateList = async () => {
     if (!listForm.name) {
@@ -74,49 +76,25 @@ function GroceryContent () {
 
     try {
       if (editingList) {
-        // Update existing list
-        await updateGroceryList(editingList.id, {
-          name: listForm.name
-        })
-
-        // Delete existing items and add new ones
-        for (const item of editingList.items) {
-          await deleteGroceryItem(item.id)
-        }
-
-        for (const item of currentItems) {
-          await addGroceryItem({
-            listId: editingList.id,
-            name: item.name,
-            quantity: item.quantity,
-            pricePerUnit: item.pricePerUnit,
-            totalCost: item.totalCost,
-            storeLocation: item.storeLocation || null,
-            isPurchased: false
-          })
-        }
+        // Items keep their ids, so only what changed is saved
+        await updateGroceryList(
+          editingList.id,
+          {
+            name: listForm.name,
+            currency: listForm.currency,
+            paidBy: listForm.paidBy
+          },
+          currentItems
+        )
       } else {
-        // Create new list
-        await addGroceryList({
-          name: listForm.name,
-          totalCost: currentItems.reduce((sum, item) => sum + item.totalCost, 0)
-        })
-
-        // Find the newly created list to get its ID
-        const newList = groceryLists.find(list => list.name === listForm.name)
-        if (newList) {
-          for (const item of currentItems) {
-            await addGroceryItem({
-              listId: newList.id,
-              name: item.name,
-              quantity: item.quantity,
-              pricePerUnit: item.pricePerUnit,
-              totalCost: item.totalCost,
-              storeLocation: item.storeLocation || null,
-              isPurchased: false
-            })
-          }
-        }
+        await addGroceryList(
+          {
+            name: listForm.name,
+            currency: listForm.currency,
+            paidBy: listForm.paidBy
+          },
+          currentItems
+        )
       }
       resetForm()
     } catch (error) {
@@ -132,8 +110,12 @@ function GroceryContent () {
     }
 
     const quantity = parseInt(itemForm.quantity) || 1
-    const pricePerUnit = parseFloat(itemForm.pricePerUnit)
-    const totalCost = quantity * pricePerUnit
+    const pricePerUnit = parseMoney(itemForm.pricePerUnit)
+    if (pricePerUnit === null) {
+      Alert.alert('Error', 'Please enter a valid price')
+      return
+    }
+    const totalCost = multiplyMoney(pricePerUnit, quantity)
 
     const newItem = {
       name: itemForm.name,
@@ -152,7 +134,12 @@ function GroceryContent () {
   }
 
   const resetForm = () => {
-    setListForm({ name: '', storeLocation: '' })
+    setListForm({
+      name: '',
+      storeLocation: '',
+      currency: baseCurrency,
+      paidBy: null
+    })
     setItemForm({ name: '', quantity: '1', pricePerUnit: '' })
     setCurrentItems([])
     setShowAddModal(false)
@@ -166,18 +153,18 @@ function GroceryContent () {
     setShowListModal(true)
   }
 
+  // Keep the open list in step with the data, including after an undo
+  useEffect(() => {
+    if (!selectedList) return
+    const updatedList = groceryLists.find(list => list.id === selectedList.id)
+    if (updatedList) {
+      setSelectedList(updatedList)
+    }
+  }, [groceryLists])
+
   const handleToggleItemPurchased = async (itemId: string) => {
     try {
       await toggleGroceryItemPurchased(itemId)
-      // Update the selected list if it's open
-      if (selectedList) {
-        const updatedList = groceryLists.find(
-          list => list.id === selectedList.id
-        )
-        if (updatedList) {
-          setSelectedList(updatedList)
-        }
-      }
     } catch (error) {
       console.error('Error toggling item:', error)
     }
@@ -189,10 +176,13 @@ function GroceryContent () {
     setEditingList(list)
     setListForm({
       name: list.name,
-      storeLocation: list.items[0]?.storeLocation || ''
+      storeLocation: list.items[0]?.storeLocation || '',
+      currency: list.currency,
+      paidBy: list.paidBy
     })
     setCurrentItems(
       list.items.map(item => ({
+        id: item.id,
         name: item.name,
         quantity: item.quantity,
         pricePerUnit: item.pricePerUnit,
@@ -203,21 +193,11 @@ function GroceryContent () {
     setShowAddModal(true)
   }
 
+  // The list goes to the trash, and the undo bar offers to bring it back
   const handleDeleteList = (
     list: GroceryList & { items: (GroceryItem & { priceHistory: any[] })[] }
   ) => {
-    Alert.alert(
-      'Delete List',
-      `Are you sure you want to delete "${list.name}"?`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: () => deleteGroceryList(list.id)
-        }
-      ]
-    )
+    deleteGroceryList(list.id)
   }
 
   return (
@@ -226,7 +206,10 @@ function GroceryContent () {
         <Text style={styles.title}>Grocery Lists</Text>
         <TouchableOpacity
           style={styles.addButton}
-          onPress={() => setShowAddModal(true)}
+          onPress={() => {
+            setListForm({ ...listForm, currency: baseCurrency })
+            setShowAddModal(true)
+          }}
         >
           <Plus size={20} color='#FFFFFF' />
         </TouchableOpacity>
@@ -259,12 +242,20 @@ function GroceryContent () {
                           {completedItems}/{list.items.length} items
                         </Text>
                       </View>
+                      {getMemberName(list.paidBy) && (
+                        <View style={styles.metaItem}>
+                          <User size={12} color='#6B7280' />
+                          <Text style={styles.metaText}>
+                            {getMemberName(list.paidBy)}
+                          </Text>
+                        </View>
+                      )}
                     </View>
                   </View>
 
                   <View style={styles.listStats}>
                     <Text style={styles.totalCost}>
-                      ${(list.totalCost || 0).toFixed(2)}
+                      {formatMoney(list.totalCost || 0, list.currency)}
                     </Text>
                     <View style={styles.progressBar}>
                       <View
@@ -337,6 +328,16 @@ function GroceryContent () {
               }
             />
 
+            <CurrencyPicker
+              value={listForm.currency}
+              onChange={currency => setListForm({ ...listForm, currency })}
+            />
+
+            <MemberPicker
+              value={listForm.paidBy}
+              onChange={paidBy => setListForm({ ...listForm, paidBy })}
+            />
+
             <Text style={styles.sectionTitle}>Items</Text>
 
             <View style={styles.itemForm}>
@@ -380,8 +381,9 @@ function GroceryContent () {
                 <View key={index} style={styles.itemRow}>
                   <Text style={styles.itemName}>{item.name}</Text>
                   <Text style={styles.itemDetails}>
-                    {item.quantity} × ${item.pricePerUnit.toFixed(2)} = $
-                    {item.totalCost.toFixed(2)}
+                    {item.quantity} ×{' '}
+                    {formatMoney(item.pricePerUnit, listForm.currency)} ={' '}
+                    {formatMoney(item.totalCost, listForm.currency)}
                   </Text>
                   <TouchableOpacity onPress={() => removeItemFromList(index)}>
                     <Trash2 size={16} color='#DC2626' />
@@ -444,8 +446,9 @@ function GroceryContent () {
                           {item.name}
                         </Text>
                         <Text style={styles.itemPrice}>
-                          {item.quantity} × ${item.pricePerUnit.toFixed(2)} = $
-                          {item.totalCost.toFixed(2)}
+                          {item.quantity} ×{' '}
+                          {formatMoney(item.pricePerUnit, selectedList.currency)}{' '}
+                          = {formatMoney(item.totalCost, selectedList.currency)}
                         </Text>
                       </View>
                     </View>
@@ -454,13 +457,17 @@ function GroceryContent () {
                   <View style={styles.totalSection}>
                     <Text style={styles.totalLabel}>Total Cost:</Text>
                     <Text style={styles.totalAmount}>
-                      ${(selectedList.totalCost || 0).toFixed(2)}
+                      {formatMoney(
+                        selectedList.totalCost || 0,
+                        selectedList.currency
+                      )}
                     </Text>
                   </View>
                 </ScrollView>
               </>
             )}
           </View>
+          <UndoSnackbar bottom={24} />
         </View>
       </Modal>
     </SafeAreaView>
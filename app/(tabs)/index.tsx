@@ -8,11 +8,13 @@ import {
   Dimensions
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
+import { router } from 'expo-router'
 import { useDatabase } from '@/contexts/DatabaseContext'
-import { monthlySavingsService } from '@/db/services'
 import type { MonthlySavings } from '@/db/schema'
+import type { MemberTotal } from '@/db/repositories'
 import Card from '@/components/Card'
 import ProgressBar from '@/components/ProgressBar'
+import { formatMoney } from '@/db/money'
 import {
   TrendingUp,
   TrendingDown,
@@ -45,44 +47,64 @@ const getMonthName = (monthStr: string) => {
 function DashboardContent () {
   const {
     expenses,
-    budgetCategories,
+    budgetAllocations,
     financialSettings,
     getTotalMonthlyExpenses,
     getRemainingBudget,
     getSavingsProgress,
-    refreshData
+    initializeCurrentMonth,
+    getMonthlySavings,
+    getSavingsHistory,
+    refreshData,
+    getDashboardData,
+    members,
+    payments,
+    baseCurrency
   } = useDatabase()
   const [totalExpenses, setTotalExpenses] = useState(0)
   const [currentMonth, setCurrentMonth] = useState(getCurrentMonth())
   const [monthlyData, setMonthlyData] = useState<MonthlySavings | null>(null)
   const [savingsHistory, setSavingsHistory] = useState<MonthlySavings[]>([])
+  const [memberTotals, setMemberTotals] = useState<MemberTotal[]>([])
+  const [totalPaid, setTotalPaid] = useState(0)
   const [isLoading, setIsLoading] = useState(true)
 
   useEffect(() => {
     const loadTotalExpenses = async () => {
-      const total = await getTotalMonthlyExpenses()
+      const total = await getTotalMonthlyExpenses(currentMonth)
       setTotalExpenses(total)
     }
     loadTotalExpenses()
-  }, [getTotalMonthlyExpenses])
+  }, [getTotalMonthlyExpenses, currentMonth])
 
   useEffect(() => {
     loadMonthlyData()
   }, [currentMonth])
 
+  // Reloaded with the expenses and payments, so a changed payer or a new
+  // payment shows up right away
+  useEffect(() => {
+    const loadDashboard = async () => {
+      const dashboard = await getDashboardData(currentMonth)
+      setMemberTotals(dashboard?.memberTotals ?? [])
+      setTotalPaid(dashboard?.totalPaid ?? 0)
+    }
+    loadDashboard()
+  }, [expenses, payments, members, currentMonth])
+
   const loadMonthlyData = async () => {
     try {
       setIsLoading(true)
 
       // Initialize current month if needed
-      await monthlySavingsService.initializeCurrentMonth()
+      await initializeCurrentMonth()
 
       // Get current month data
-      const monthData = await monthlySavingsService.getByMonth(currentMonth)
+      const monthData = await getMonthlySavings(currentMonth)
       setMonthlyData(monthData)
 
       // Get savings history
-      const history = await monthlySavingsService.getSavingsByMonths(6)
+      const history = await getSavingsHistory(6)
       setSavingsHistory(history)
 
       // Refresh dashboard data
@@ -110,9 +132,24 @@ function DashboardContent () {
     setCurrentMonth(newMonth)
   }
 
-  const remainingBudget = getRemainingBudget()
+  // Totals are stored in the household base currency
+  const money = (amount: number) => formatMoney(amount, baseCurrency)
+
+  const remainingBudget = getRemainingBudget(currentMonth)
+  const monthBudgets = budgetAllocations.filter(
+    allocation => allocation.month === currentMonth
+  )
   const savingsProgress = getSavingsProgress()
-  const upcomingPayments = expenses.filter(expense => !expense.isPaid).length
+  const upcomingPayments = expenses.filter(
+    expense => !expense.isPaid && expense.month === currentMonth
+  ).length
+
+  const memberSpendingTotal = memberTotals.reduce(
+    (sum, memberTotal) => sum + memberTotal.total,
+    0
+  )
+  const getMemberName = (memberId: string | null) =>
+    members.find(member => member.id === memberId)?.name ?? 'Unassigned'
 
   const currentMonthSavings = monthlyData?.totalSaved || 0
   const savingsGoal =
@@ -152,7 +189,7 @@ function DashboardContent () {
               <DollarSign size={24} color='#059669' />
               <View style={styles.summaryText}>
                 <Text style={styles.summaryAmount}>
-                  ${(financialSettings?.monthlyIncome || 0).toLocaleString()}
+                  {money(financialSettings?.monthlyIncome || 0)}
                 </Text>
                 <Text style={styles.summaryLabel}>Monthly Income</Text>
               </View>
@@ -164,7 +201,7 @@ function DashboardContent () {
               <TrendingDown size={24} color='#DC2626' />
               <View style={styles.summaryText}>
                 <Text style={styles.summaryAmount}>
-                  ${totalExpenses.toLocaleString()}
+                  {money(totalExpenses)}
                 </Text>
                 <Text style={styles.summaryLabel}>Total Expenses</Text>
               </View>
@@ -181,7 +218,7 @@ function DashboardContent () {
                     { color: remainingBudget >= 0 ? '#059669' : '#DC2626' }
                   ]}
                 >
-                  ${Math.abs(remainingBudget).toLocaleString()}
+                  {money(Math.abs(remainingBudget))}
                 </Text>
                 <Text style={styles.summaryLabel}>
                   {remainingBudget >= 0 ? 'Remaining' : 'Over Budget'}
@@ -191,13 +228,17 @@ function DashboardContent () {
           </Card>
 
           <Card style={styles.summaryCard}>
-            <View style={styles.summaryContent}>
+            <TouchableOpacity
+              style={styles.summaryContent}
+              onPress={() => router.push('/bills')}
+            >
               <AlertCircle size={24} color='#EA580C' />
               <View style={styles.summaryText}>
                 <Text style={styles.summaryAmount}>{upcomingPayments}</Text>
                 <Text style={styles.summaryLabel}>Pending Payments</Text>
               </View>
-            </View>
+              <ChevronRight size={16} color='#9CA3AF' />
+            </TouchableOpacity>
           </Card>
         </View>
 
@@ -214,7 +255,7 @@ function DashboardContent () {
                 <DollarSign size={20} color='#059669' />
               </View>
               <Text style={styles.summaryValue}>
-                ${monthlyData?.income?.toFixed(2) || '0.00'}
+                {money(monthlyData?.income || 0)}
               </Text>
               <Text style={styles.summaryLabel}>Income</Text>
             </View>
@@ -229,7 +270,7 @@ function DashboardContent () {
                 <ArrowDown size={20} color='#DC2626' />
               </View>
               <Text style={styles.summaryValue}>
-                ${monthlyData?.totalExpenses?.toFixed(2) || '0.00'}
+                {money(monthlyData?.totalExpenses || 0)}
               </Text>
               <Text style={styles.summaryLabel}>Expenses</Text>
             </View>
@@ -249,11 +290,19 @@ function DashboardContent () {
                   { color: currentMonthSavings >= 0 ? '#059669' : '#DC2626' }
                 ]}
               >
-                ${currentMonthSavings.toFixed(2)}
+                {money(currentMonthSavings)}
               </Text>
               <Text style={styles.summaryLabel}>Saved</Text>
             </View>
           </View>
+
+          <View style={styles.paidRow}>
+            <Text style={styles.paidLabel}>Paid so far</Text>
+            <Text style={styles.paidValue}>
+              {money(totalPaid)} of {money(monthlyData?.totalExpenses || 0)}{' '}
+              billed
+            </Text>
+          </View>
         </Card>
 
         {/* Savings Progress */}
@@ -279,11 +328,10 @@ function DashboardContent () {
 
           <View style={styles.progressDetails}>
             <Text style={styles.progressText}>
-              ${currentMonthSavings.toFixed(2)} of ${savingsGoal.toFixed(2)}
+              {money(currentMonthSavings)} of {money(savingsGoal)}
             </Text>
             <Text style={styles.progressRemaining}>
-              ${Math.max(0, savingsGoal - currentMonthSavings).toFixed(2)}{' '}
-              remaining
+              {money(Math.max(0, savingsGoal - currentMonthSavings))} remaining
             </Text>
           </View>
         </Card>
@@ -301,7 +349,7 @@ function DashboardContent () {
                       {getMonthName(item.month)}
                     </Text>
                     <Text style={styles.historyIncome}>
-                      Income: ${item.income.toFixed(2)}
+                      Income: {money(item.income)}
                     </Text>
                   </View>
                   <View style={styles.historyRight}>
@@ -311,8 +359,8 @@ function DashboardContent () {
                         { color: isPositive ? '#059669' : '#DC2626' }
                       ]}
                     >
-                      {isPositive ? '+' : ''}$
-                      {(item.totalSaved || 0).toFixed(2)}
+                      {isPositive ? '+' : ''}
+                      {money(item.totalSaved || 0)}
                     </Text>
                     <View
                       style={[
@@ -353,7 +401,7 @@ function DashboardContent () {
         {/* Budget Categories */}
         <Card>
           <Text style={styles.sectionTitle}>Budget Categories</Text>
-          {budgetCategories.map((category: any) => {
+          {monthBudgets.map(category => {
             const progress = ((category.spent || 0) / category.limit) * 100
             const isOverBudget = (category.spent || 0) > category.limit
 
@@ -367,7 +415,7 @@ function DashboardContent () {
                       isOverBudget && styles.overBudget
                     ]}
                   >
-                    ${category.spent} / ${category.limit}
+                    {money(category.spent || 0)} / {money(category.limit)}
                   </Text>
                 </View>
                 <ProgressBar
@@ -379,6 +427,39 @@ function DashboardContent () {
           })}
         </Card>
 
+        {/* Spending by Member */}
+        {members.length > 0 && (
+          <Card>
+            <Text style={styles.sectionTitle}>Spending by Member</Text>
+            {memberTotals.map(memberTotal => (
+              <View
+                key={memberTotal.memberId ?? 'unassigned'}
+                style={styles.categoryItem}
+              >
+                <View style={styles.categoryHeader}>
+                  <Text style={styles.categoryName}>
+                    {getMemberName(memberTotal.memberId)}
+                  </Text>
+                  <Text style={styles.categoryAmount}>
+                    {money(memberTotal.total)}
+                  </Text>
+                </View>
+                <ProgressBar
+                  progress={
+                    memberSpendingTotal > 0
+                      ? (memberTotal.total / memberSpendingTotal) * 100
+                      : 0
+                  }
+                  color='#DB2777'
+                />
+              </View>
+            ))}
+            {memberTotals.length === 0 && (
+              <Text style={styles.noHistory}>No expenses this month</Text>
+            )}
+          </Card>
+        )}
+
         {/* Recent Expenses */}
         <Card>
           <Text style={styles.sectionTitle}>Recent Expenses</Text>
@@ -389,7 +470,9 @@ function DashboardContent () {
                 <Text style={styles.expenseCategory}>{expense.category}</Text>
               </View>
               <View style={styles.expenseRight}>
-                <Text style={styles.expenseAmount}>${expense.amount}</Text>
+                <Text style={styles.expenseAmount}>
+                  {formatMoney(expense.amount, expense.currency)}
+                </Text>
                 <View
                   style={[
                     styles.statusBadge,
@@ -466,6 +549,24 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginTop: 2
   },
+  paidRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6'
+  },
+  paidLabel: {
+    fontSize: 14,
+    color: '#6B7280'
+  },
+  paidValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827'
+  },
   progressHeader: {
     flexDirection: 'row',
     alignItems: 'center',
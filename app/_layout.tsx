@@ -1,19 +1,42 @@
 import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
-import { DatabaseProvider } from '@/contexts/DatabaseContext';
+import { DatabaseProvider, useDatabase } from '@/contexts/DatabaseContext';
+import DatabaseRecovery from '@/components/DatabaseRecovery';
+import UndoSnackbar from '@/components/UndoSnackbar';
 
-export default function RootLayout() {
-  useFrameworkReady();
+function RootNavigator() {
+  const { initError } = useDatabase();
+
+  if (initError) {
+    return <DatabaseRecovery />;
+  }
 
   return (
-    <DatabaseProvider>
+    <>
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="rules" />
+        <Stack.Screen name="bills" />
+        <Stack.Screen name="accounts" />
         <Stack.Screen name="+not-found" />
       </Stack>
-      <StatusBar style="auto" />
-    </DatabaseProvider>
+      <UndoSnackbar />
+    </>
+  );
+}
+
+export default function RootLayout() {
+  useFrameworkReady();
+
+  return (
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <DatabaseProvider>
+        <RootNavigator />
+        <StatusBar style="auto" />
+      </DatabaseProvider>
+    </GestureHandlerRootView>
   );
-}
\ No newline at end of file
+}
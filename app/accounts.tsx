@@ -0,0 +1,921 @@
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { router } from 'expo-router'
+import { useDatabase } from '@/contexts/DatabaseContext'
+import { accountTypes, type Account, type AccountType } from '@/db/schema'
+import Card from '@/components/Card'
+import AccountPicker from '@/components/AccountPicker'
+import CurrencyPicker from '@/components/CurrencyPicker'
+import {
+  ACCOUNT_TYPE_LABELS,
+  validateTransfer,
+  type LedgerEntry
+} from '@/db/accounts'
+import { toDateString } from '@/db/bills'
+import { formatMoney, parseMoney, centsToInput } from '@/db/money'
+import {
+  ChevronLeft,
+  Plus,
+  CreditCard as Edit3,
+  Trash2,
+  ArrowLeftRight,
+  DollarSign
+} from 'lucide-react-native'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Parsed as a local date; "2025-01-05" would otherwise be read as UTC
+const formatDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+const signed = (amount: number, currency: string) =>
+  `${amount > 0 ? '+' : ''}${formatMoney(amount, currency)}`
+
+function AccountsContent () {
+  const {
+    accounts,
+    accountBalances,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    getAccountLedger,
+    addIncome,
+    deleteIncome,
+    addAccountTransfer,
+    deleteAccountTransfer,
+    convertToBase,
+    baseCurrency
+  } = useDatabase()
+
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [ledger, setLedger] = useState<LedgerEntry[]>([])
+  const [showAccountModal, setShowAccountModal] = useState(false)
+  const [showIncomeModal, setShowIncomeModal] = useState(false)
+  const [showTransferModal, setShowTransferModal] = useState(false)
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null)
+
+  const [accountForm, setAccountForm] = useState({
+    name: '',
+    type: 'checking' as AccountType,
+    currency: baseCurrency,
+    openingBalance: ''
+  })
+  const [incomeForm, setIncomeForm] = useState({
+    name: '',
+    amount: '',
+    currency: baseCurrency,
+    date: '',
+    accountId: null as string | null
+  })
+  const [transferForm, setTransferForm] = useState({
+    fromAccountId: null as string | null,
+    toAccountId: null as string | null,
+    amount: '',
+    toAmount: '',
+    date: '',
+    note: ''
+  })
+
+  // The first account is shown until another is picked
+  const selected =
+    accounts.find(account => account.id === selectedId) ?? accounts[0] ?? null
+
+  const getBalance = (account: Account) =>
+    accountBalances.find(balance => balance.accountId === account.id)
+      ?.balance ?? account.openingBalance
+
+  const total = accounts.reduce(
+    (sum, account) => sum + convertToBase(getBalance(account), account.currency),
+    0
+  )
+
+  // Reloaded with the balances, so every change shows in the ledger
+  useEffect(() => {
+    const loadLedger = async () => {
+      setLedger(selected ? await getAccountLedger(selected.id) : [])
+    }
+    loadLedger()
+  }, [selected?.id, accountBalances])
+
+  const openAccountModal = (account: Account | null) => {
+    setEditingAccount(account)
+    setAccountForm(
+      account
+        ? {
+            name: account.name,
+            type: account.type,
+            currency: account.currency,
+            openingBalance: centsToInput(account.openingBalance)
+          }
+        : {
+            name: '',
+            type: 'checking',
+            currency: baseCurrency,
+            openingBalance: ''
+          }
+    )
+    setShowAccountModal(true)
+  }
+
+  const handleSaveAccount = async () => {
+    const openingBalance = accountForm.openingBalance.trim()
+      ? parseMoney(accountForm.openingBalance)
+      : 0
+    if (!accountForm.name.trim()) {
+      Alert.alert('Error', 'Please enter a name for the account')
+      return
+    }
+    if (openingBalance === null) {
+      Alert.alert('Error', 'Please enter a valid opening balance')
+      return
+    }
+
+    const account = {
+      name: accountForm.name.trim(),
+      type: accountForm.type,
+      currency: accountForm.currency,
+      openingBalance
+    }
+    if (editingAccount) {
+      await updateAccount(editingAccount.id, account)
+    } else {
+      await addAccount(account)
+    }
+    setShowAccountModal(false)
+    setEditingAccount(null)
+  }
+
+  const handleDeleteAccount = (account: Account) => {
+    Alert.alert(
+      'Delete Account',
+      `Delete ${account.name}? Its expenses and incomes stay, without an account, and its transfers are deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            setSelectedId(null)
+            deleteAccount(account.id)
+          }
+        }
+      ]
+    )
+  }
+
+  const openIncomeModal = () => {
+    setIncomeForm({
+      name: '',
+      amount: '',
+      currency: selected?.currency ?? baseCurrency,
+      date: toDateString(new Date()),
+      accountId: selected?.id ?? null
+    })
+    setShowIncomeModal(true)
+  }
+
+  const handleAddIncome = async () => {
+    const amount = parseMoney(incomeForm.amount)
+    if (!incomeForm.name.trim()) {
+      Alert.alert('Error', 'Please enter where the income came from')
+      return
+    }
+    if (amount === null || amount <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount')
+      return
+    }
+    if (!DATE_PATTERN.test(incomeForm.date)) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD')
+      return
+    }
+
+    await addIncome({
+      name: incomeForm.name.trim(),
+      amount,
+      currency: incomeForm.currency,
+      date: incomeForm.date,
+      accountId: incomeForm.accountId
+    })
+    setShowIncomeModal(false)
+  }
+
+  const openTransferModal = () => {
+    setTransferForm({
+      fromAccountId: selected?.id ?? null,
+      toAccountId:
+        accounts.find(account => account.id !== selected?.id)?.id ?? null,
+      amount: '',
+      toAmount: '',
+      date: toDateString(new Date()),
+      note: ''
+    })
+    setShowTransferModal(true)
+  }
+
+  const fromAccount = accounts.find(
+    account => account.id === transferForm.fromAccountId
+  )
+  const toAccount = accounts.find(
+    account => account.id === transferForm.toAccountId
+  )
+  // Between currencies, what arrived can be entered; otherwise it is
+  // converted at the stored rate
+  const isExchange =
+    !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency
+
+  const handleAddTransfer = async () => {
+    const amount = parseMoney(transferForm.amount)
+    const hasToAmount = isExchange && transferForm.toAmount.trim() !== ''
+    const toAmount = hasToAmount ? parseMoney(transferForm.toAmount) : null
+    if (!fromAccount || !toAccount) {
+      Alert.alert('Error', 'Please pick both accounts')
+      return
+    }
+    if (
+      amount === null ||
+      (hasToAmount && (toAmount === null || toAmount <= 0))
+    ) {
+      Alert.alert('Error', 'Please enter a valid amount')
+      return
+    }
+    if (!DATE_PATTERN.test(transferForm.date)) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD')
+      return
+    }
+
+    const transfer = {
+      fromAccountId: fromAccount.id,
+      toAccountId: toAccount.id,
+      amount,
+      toAmount,
+      date: transferForm.date,
+      note: transferForm.note.trim() || null
+    }
+    try {
+      validateTransfer(transfer)
+      await addAccountTransfer(transfer)
+      setShowTransferModal(false)
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : String(error)
+      )
+    }
+  }
+
+  const handleDeleteEntry = (entry: LedgerEntry) => {
+    const isIncome = entry.kind === 'income'
+    Alert.alert(
+      isIncome ? 'Delete Income' : 'Delete Transfer',
+      `Delete ${entry.description}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            isIncome
+              ? deleteIncome(entry.recordId)
+              : deleteAccountTransfer(entry.recordId)
+        }
+      ]
+    )
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => router.back()}
+        >
+          <ChevronLeft size={20} color='#374151' />
+        </TouchableOpacity>
+        <Text style={styles.title}>Accounts</Text>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => openAccountModal(null)}
+        >
+          <Plus size={20} color='#FFFFFF' />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {accounts.length === 0 ? (
+          <Card>
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>No accounts yet</Text>
+              <Text style={styles.emptySubtext}>
+                Add the accounts you pay from and are paid into to follow
+                their balances
+              </Text>
+            </View>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <View style={styles.totalRow}>
+                <Text style={styles.sectionTitle}>All Accounts</Text>
+                <Text style={styles.totalAmount}>
+                  {formatMoney(total, baseCurrency)}
+                </Text>
+              </View>
+              {accounts.map(account => (
+                <TouchableOpacity
+                  key={account.id}
+                  style={[
+                    styles.accountItem,
+                    selected?.id === account.id && styles.selectedAccount
+                  ]}
+                  onPress={() => setSelectedId(account.id)}
+                >
+                  <View style={styles.accountInfo}>
+                    <Text style={styles.accountName}>{account.name}</Text>
+                    <Text style={styles.accountDetails}>
+                      {ACCOUNT_TYPE_LABELS[account.type]} · {account.currency}
+                    </Text>
+                  </View>
+                  <Text
+                    style={[
+                      styles.accountBalance,
+                      getBalance(account) < 0 && styles.negative
+                    ]}
+                  >
+                    {formatMoney(getBalance(account), account.currency)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </Card>
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={openIncomeModal}
+              >
+                <DollarSign size={16} color='#FFFFFF' />
+                <Text style={styles.actionButtonText}>Add Income</Text>
+              </TouchableOpacity>
+              {accounts.length > 1 && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={openTransferModal}
+                >
+                  <ArrowLeftRight size={16} color='#FFFFFF' />
+                  <Text style={styles.actionButtonText}>Transfer</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {selected && (
+              <Card>
+                <View style={styles.ledgerHeader}>
+                  <Text style={styles.sectionTitle}>{selected.name}</Text>
+                  <View style={styles.ledgerButtons}>
+                    <TouchableOpacity
+                      onPress={() => openAccountModal(selected)}
+                    >
+                      <Edit3 size={16} color='#6B7280' />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleDeleteAccount(selected)}
+                    >
+                      <Trash2 size={16} color='#DC2626' />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+                {/* Newest first; each line shows the balance after it */}
+                {[...ledger].reverse().map(entry => (
+                  <View
+                    key={`${entry.kind}-${entry.recordId}-${entry.date}`}
+                    style={styles.entryItem}
+                  >
+                    <View style={styles.accountInfo}>
+                      <Text style={styles.entryName}>{entry.description}</Text>
+                      <Text style={styles.accountDetails}>
+                        {entry.date ? formatDay(entry.date) : 'To start with'}
+                      </Text>
+                    </View>
+                    <View style={styles.entryAmounts}>
+                      <Text
+                        style={[
+                          styles.entryAmount,
+                          entry.amount < 0 ? styles.negative : styles.positive
+                        ]}
+                      >
+                        {entry.kind === 'opening'
+                          ? formatMoney(entry.amount, selected.currency)
+                          : signed(entry.amount, selected.currency)}
+                      </Text>
+                      <Text style={styles.entryBalance}>
+                        {formatMoney(entry.balance, selected.currency)}
+                      </Text>
+                    </View>
+                    {entry.kind !== 'opening' && entry.kind !== 'expense' && (
+                      <TouchableOpacity onPress={() => handleDeleteEntry(entry)}>
+                        <Trash2 size={16} color='#DC2626' />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </Card>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Account Modal */}
+      <Modal visible={showAccountModal} animationType='slide' transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              {editingAccount ? 'Edit Account' : 'Add Account'}
+            </Text>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <TextInput
+                style={styles.input}
+                placeholder='Account name'
+                value={accountForm.name}
+                onChangeText={name => setAccountForm({ ...accountForm, name })}
+              />
+
+              <View style={styles.pickerContainer}>
+                <Text style={styles.inputLabel}>Type</Text>
+                <View style={styles.optionRow}>
+                  {accountTypes.map(type => (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.option,
+                        accountForm.type === type && styles.selectedOption
+                      ]}
+                      onPress={() => setAccountForm({ ...accountForm, type })}
+                    >
+                      <Text
+                        style={[
+                          styles.optionText,
+                          accountForm.type === type && styles.selectedOptionText
+                        ]}
+                      >
+                        {ACCOUNT_TYPE_LABELS[type]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <CurrencyPicker
+                value={accountForm.currency}
+                onChange={currency =>
+                  setAccountForm({ ...accountForm, currency })
+                }
+              />
+
+              <Text style={styles.inputLabel}>
+                Opening balance ({accountForm.currency})
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder='0.00, or negative for money owed'
+                value={accountForm.openingBalance}
+                onChangeText={openingBalance =>
+                  setAccountForm({ ...accountForm, openingBalance })
+                }
+                keyboardType='numbers-and-punctuation'
+              />
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowAccountModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSaveAccount}
+              >
+                <Text style={styles.saveButtonText}>
+                  {editingAccount ? 'Save' : 'Add'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Income Modal */}
+      <Modal visible={showIncomeModal} animationType='slide' transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Add Income</Text>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <TextInput
+                style={styles.input}
+                placeholder='Source, e.g. Salary'
+                value={incomeForm.name}
+                onChangeText={name => setIncomeForm({ ...incomeForm, name })}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder='Amount'
+                value={incomeForm.amount}
+                onChangeText={amount =>
+                  setIncomeForm({ ...incomeForm, amount })
+                }
+                keyboardType='decimal-pad'
+              />
+              <CurrencyPicker
+                value={incomeForm.currency}
+                onChange={currency =>
+                  setIncomeForm({ ...incomeForm, currency })
+                }
+              />
+              <AccountPicker
+                label='Paid into'
+                value={incomeForm.accountId}
+                onChange={accountId =>
+                  setIncomeForm({ ...incomeForm, accountId })
+                }
+              />
+              <TextInput
+                style={styles.input}
+                placeholder='YYYY-MM-DD'
+                value={incomeForm.date}
+                onChangeText={date => setIncomeForm({ ...incomeForm, date })}
+              />
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowIncomeModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleAddIncome}
+              >
+                <Text style={styles.saveButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Transfer Modal */}
+      <Modal visible={showTransferModal} animationType='slide' transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Transfer</Text>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <AccountPicker
+                label='From'
+                value={transferForm.fromAccountId}
+                onChange={fromAccountId =>
+                  setTransferForm({ ...transferForm, fromAccountId })
+                }
+              />
+              <AccountPicker
+                label='To'
+                value={transferForm.toAccountId}
+                onChange={toAccountId =>
+                  setTransferForm({ ...transferForm, toAccountId })
+                }
+              />
+              <Text style={styles.inputLabel}>
+                Amount{fromAccount ? ` (${fromAccount.currency})` : ''}
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder='0.00'
+                value={transferForm.amount}
+                onChangeText={amount =>
+                  setTransferForm({ ...transferForm, amount })
+                }
+                keyboardType='decimal-pad'
+              />
+              {isExchange && (
+                <>
+                  <Text style={styles.inputLabel}>
+                    Received ({toAccount?.currency})
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder='Converted at the stored rate if left empty'
+                    value={transferForm.toAmount}
+                    onChangeText={toAmount =>
+                      setTransferForm({ ...transferForm, toAmount })
+                    }
+                    keyboardType='decimal-pad'
+                  />
+                </>
+              )}
+              <TextInput
+                style={styles.input}
+                placeholder='YYYY-MM-DD'
+                value={transferForm.date}
+                onChangeText={date =>
+                  setTransferForm({ ...transferForm, date })
+                }
+              />
+              <TextInput
+                style={styles.input}
+                placeholder='Note (optional)'
+                value={transferForm.note}
+                onChangeText={note =>
+                  setTransferForm({ ...transferForm, note })
+                }
+              />
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowTransferModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleAddTransfer}
+              >
+                <Text style={styles.saveButtonText}>Transfer</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  )
+}
+
+export default function Accounts () {
+  return <AccountsContent />
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6'
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 10
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#111827'
+  },
+  navButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF'
+  },
+  addButton: {
+    backgroundColor: '#2563EB',
+    borderRadius: 50,
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827'
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4
+  },
+  totalAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151'
+  },
+  accountItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6'
+  },
+  selectedAccount: {
+    backgroundColor: '#EFF6FF'
+  },
+  accountInfo: {
+    flex: 1
+  },
+  accountName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827'
+  },
+  accountDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2
+  },
+  accountBalance: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827'
+  },
+  positive: {
+    color: '#059669'
+  },
+  negative: {
+    color: '#DC2626'
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 12
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF'
+  },
+  ledgerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4
+  },
+  ledgerButtons: {
+    flexDirection: 'row',
+    gap: 16
+  },
+  entryItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6'
+  },
+  entryName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827'
+  },
+  entryAmounts: {
+    alignItems: 'flex-end'
+  },
+  entryAmount: {
+    fontSize: 14,
+    fontWeight: '600'
+  },
+  entryBalance: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 20
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 8
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center'
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end'
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%'
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center'
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB'
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8
+  },
+  pickerContainer: {
+    marginBottom: 16
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8
+  },
+  option: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20
+  },
+  selectedOption: {
+    backgroundColor: '#2563EB'
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500'
+  },
+  selectedOptionText: {
+    color: '#FFFFFF'
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center'
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280'
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center'
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF'
+  }
+})
@@ -0,0 +1,362 @@
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import Swipeable, {
+  type SwipeableMethods
+} from 'react-native-gesture-handler/ReanimatedSwipeable'
+import { router } from 'expo-router'
+import { useDatabase } from '@/contexts/DatabaseContext'
+import type { Expense } from '@/db/schema'
+import Card from '@/components/Card'
+import {
+  daysBetween,
+  getSnoozeDate,
+  isSnoozed,
+  toDateString,
+  type BillGroup,
+  type BillTimeline
+} from '@/db/bills'
+import { formatMoney } from '@/db/money'
+import { ChevronLeft, Check, Clock } from 'lucide-react-native'
+
+const groups: { group: BillGroup; title: string; color: string }[] = [
+  { group: 'overdue', title: 'Overdue', color: '#DC2626' },
+  { group: 'thisWeek', title: 'Due This Week', color: '#EA580C' },
+  { group: 'laterThisMonth', title: 'Later This Month', color: '#2563EB' },
+  { group: 'nextMonth', title: 'Next Month', color: '#6B7280' }
+]
+
+const snoozeOptions = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '1 week' }
+]
+
+// Parsed as a local date; "2025-01-05" would otherwise be read as UTC
+const formatDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+const describeDue = (expense: Expense, today: string) => {
+  const days = daysBetween(today, expense.dueDate)
+  if (days < 0) return `${-days} ${days === -1 ? 'day' : 'days'} overdue`
+  if (days === 0) return 'Due today'
+  if (days === 1) return 'Due tomorrow'
+  return `Due ${formatDay(expense.dueDate)}`
+}
+
+function BillsContent () {
+  const {
+    expenses,
+    getBillsTimeline,
+    toggleExpensePaid,
+    snoozeExpense,
+    convertToBase,
+    baseCurrency
+  } = useDatabase()
+  const [timeline, setTimeline] = useState<BillTimeline | null>(null)
+  const today = toDateString(new Date())
+
+  // Reloaded with the expenses, so paying or snoozing moves the bill
+  useEffect(() => {
+    const loadTimeline = async () => {
+      setTimeline(await getBillsTimeline())
+    }
+    loadTimeline()
+  }, [expenses])
+
+  const groupTotal = (bills: Expense[]) =>
+    bills.reduce(
+      (sum, bill) => sum + convertToBase(bill.amount, bill.currency),
+      0
+    )
+
+  const handleMarkPaid = (expense: Expense, swipeable: SwipeableMethods) => {
+    swipeable.close()
+    toggleExpensePaid(expense.id)
+  }
+
+  const handleSnooze = (
+    expense: Expense,
+    until: string | null,
+    swipeable: SwipeableMethods
+  ) => {
+    swipeable.close()
+    snoozeExpense(expense.id, until)
+  }
+
+  // Swiping right
+  const renderPaidAction = (expense: Expense) =>
+    function PaidAction (
+      _progress: unknown,
+      _translation: unknown,
+      swipeable: SwipeableMethods
+    ) {
+      return (
+        <TouchableOpacity
+          style={[styles.swipeAction, styles.paidAction]}
+          onPress={() => handleMarkPaid(expense, swipeable)}
+        >
+          <Check size={18} color='#FFFFFF' />
+          <Text style={styles.swipeActionText}>Paid</Text>
+        </TouchableOpacity>
+      )
+    }
+
+  // Swiping left
+  const renderSnoozeActions = (expense: Expense) =>
+    function SnoozeActions (
+      _progress: unknown,
+      _translation: unknown,
+      swipeable: SwipeableMethods
+    ) {
+      return (
+        <View style={styles.snoozeActions}>
+          {snoozeOptions.map(option => (
+            <TouchableOpacity
+              key={option.days}
+              style={[styles.swipeAction, styles.snoozeAction]}
+              onPress={() =>
+                handleSnooze(
+                  expense,
+                  getSnoozeDate(expense, today, option.days),
+                  swipeable
+                )
+              }
+            >
+              <Clock size={18} color='#FFFFFF' />
+              <Text style={styles.swipeActionText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+          {isSnoozed(expense) && (
+            <TouchableOpacity
+              style={[styles.swipeAction, styles.wakeAction]}
+              onPress={() => handleSnooze(expense, null, swipeable)}
+            >
+              <Text style={styles.swipeActionText}>Unsnooze</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )
+    }
+
+  const isEmpty =
+    timeline !== null &&
+    groups.every(({ group }) => timeline[group].length === 0)
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => router.back()}
+        >
+          <ChevronLeft size={20} color='#374151' />
+        </TouchableOpacity>
+        <Text style={styles.title}>Bills</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.note}>
+          Swipe a bill right to mark it paid, or left to snooze it.
+        </Text>
+
+        {timeline === null ? (
+          <ActivityIndicator color='#2563EB' style={styles.loading} />
+        ) : isEmpty ? (
+          <Card>
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>All caught up</Text>
+              <Text style={styles.emptySubtext}>
+                No unpaid bills until the end of next month
+              </Text>
+            </View>
+          </Card>
+        ) : (
+          groups.map(({ group, title, color }) => {
+            const bills = timeline[group]
+            if (bills.length === 0) return null
+            return (
+              <Card key={group}>
+                <View style={styles.groupHeader}>
+                  <Text style={[styles.sectionTitle, { color }]}>
+                    {title} ({bills.length})
+                  </Text>
+                  <Text style={styles.groupTotal}>
+                    {formatMoney(groupTotal(bills), baseCurrency)}
+                  </Text>
+                </View>
+                {bills.map(bill => (
+                  <Swipeable
+                    key={bill.id}
+                    renderLeftActions={renderPaidAction(bill)}
+                    renderRightActions={renderSnoozeActions(bill)}
+                    overshootLeft={false}
+                    overshootRight={false}
+                  >
+                    <View style={styles.billItem}>
+                      <View style={styles.billInfo}>
+                        <Text style={styles.billName}>{bill.name}</Text>
+                        <Text style={styles.billDetails}>
+                          {bill.category} · {describeDue(bill, today)}
+                        </Text>
+                        {isSnoozed(bill) && (
+                          <Text style={styles.snoozedText}>
+                            Snoozed until {formatDay(bill.snoozedUntil!)}
+                          </Text>
+                        )}
+                      </View>
+                      <Text style={styles.billAmount}>
+                        {formatMoney(bill.amount, bill.currency)}
+                      </Text>
+                    </View>
+                  </Swipeable>
+                ))}
+              </Card>
+            )
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
+
+export default function Bills () {
+  return <BillsContent />
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6'
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 10
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#111827'
+  },
+  headerSpacer: {
+    width: 36
+  },
+  navButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF'
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12
+  },
+  loading: {
+    paddingVertical: 20
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827'
+  },
+  groupTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151'
+  },
+  billItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6'
+  },
+  billInfo: {
+    flex: 1
+  },
+  billName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827'
+  },
+  billDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2
+  },
+  snoozedText: {
+    fontSize: 12,
+    color: '#D97706',
+    marginTop: 2
+  },
+  billAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827'
+  },
+  snoozeActions: {
+    flexDirection: 'row'
+  },
+  swipeAction: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    gap: 4
+  },
+  paidAction: {
+    backgroundColor: '#059669'
+  },
+  snoozeAction: {
+    backgroundColor: '#D97706'
+  },
+  wakeAction: {
+    backgroundColor: '#6B7280'
+  },
+  swipeActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF'
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 20
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 8
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center'
+  }
+})
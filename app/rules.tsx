@@ -0,0 +1,781 @@
+import React, { useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { router } from 'expo-router'
+import { useDatabase } from '@/contexts/DatabaseContext'
+import type { CategorizationRule, RuleMatchType } from '@/db/schema'
+import Card from '@/components/Card'
+import { findMatchingRule, validateRule } from '@/db/categorization'
+import { formatMoney, parseMoney, centsToInput } from '@/db/money'
+import {
+  Plus,
+  Trash2,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  ChevronDown,
+  CreditCard as Edit3
+} from 'lucide-react-native'
+
+const getCurrentMonth = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${(now.getMonth() + 1)
+    .toString()
+    .padStart(2, '0')}`
+}
+
+const getMonthName = (monthStr: string) => {
+  const [year, month] = monthStr.split('-')
+  const date = new Date(parseInt(year), parseInt(month) - 1)
+  return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+}
+
+const matchTypes: { value: RuleMatchType; label: string }[] = [
+  { value: 'contains', label: 'Name contains' },
+  { value: 'regex', label: 'Name matches regex' }
+]
+
+// null leaves the expense's recurring flag alone
+const recurringOptions: { value: boolean | null; label: string }[] = [
+  { value: null, label: 'Leave as is' },
+  { value: true, label: 'Recurring' },
+  { value: false, label: 'One-time' }
+]
+
+const emptyForm = {
+  matchType: 'contains' as RuleMatchType,
+  pattern: '',
+  minAmount: '',
+  maxAmount: '',
+  category: '',
+  isRecurring: null as boolean | null,
+  isActive: true
+}
+
+function RulesContent () {
+  const {
+    categorizationRules,
+    addCategorizationRule,
+    updateCategorizationRule,
+    deleteCategorizationRule,
+    reorderCategorizationRules,
+    applyRulesToMonth,
+    categories,
+    baseCurrency
+  } = useDatabase()
+  const [showRuleModal, setShowRuleModal] = useState(false)
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(
+    null
+  )
+  const [formData, setFormData] = useState(emptyForm)
+  const [testName, setTestName] = useState('')
+  const [testAmount, setTestAmount] = useState('')
+  const [applyMonth, setApplyMonth] = useState(getCurrentMonth())
+  const [isApplying, setIsApplying] = useState(false)
+
+  const money = (amount: number) => formatMoney(amount, baseCurrency)
+
+  const describeRule = (rule: CategorizationRule) => {
+    const conditions = []
+    if (rule.pattern) {
+      conditions.push(
+        rule.matchType === 'regex'
+          ? `Name matches /${rule.pattern}/`
+          : `Name contains "${rule.pattern}"`
+      )
+    }
+    if (rule.minAmount !== null && rule.maxAmount !== null) {
+      conditions.push(`${money(rule.minAmount)} – ${money(rule.maxAmount)}`)
+    } else if (rule.minAmount !== null) {
+      conditions.push(`At least ${money(rule.minAmount)}`)
+    } else if (rule.maxAmount !== null) {
+      conditions.push(`Up to ${money(rule.maxAmount)}`)
+    }
+    return conditions.join(' · ')
+  }
+
+  const testResult = testName.trim()
+    ? findMatchingRule(categorizationRules, {
+        name: testName,
+        amount: parseMoney(testAmount) ?? 0
+      })
+    : null
+
+  const navigateMonth = (direction: 'prev' | 'next') => {
+    const [year, month] = applyMonth.split('-').map(Number)
+    const date = new Date(year, month - 1 + (direction === 'prev' ? -1 : 1))
+    setApplyMonth(
+      `${date.getFullYear()}-${(date.getMonth() + 1)
+        .toString()
+        .padStart(2, '0')}`
+    )
+  }
+
+  const parseOptionalAmount = (text: string) =>
+    text.trim() ? parseMoney(text) : null
+
+  const handleSave = async () => {
+    const minAmount = parseOptionalAmount(formData.minAmount)
+    const maxAmount = parseOptionalAmount(formData.maxAmount)
+    if (
+      (formData.minAmount.trim() && minAmount === null) ||
+      (formData.maxAmount.trim() && maxAmount === null)
+    ) {
+      Alert.alert('Error', 'Please enter valid amounts')
+      return
+    }
+
+    const rule = {
+      matchType: formData.matchType,
+      pattern: formData.pattern.trim() || null,
+      minAmount,
+      maxAmount,
+      category: formData.category,
+      isRecurring: formData.isRecurring,
+      isActive: formData.isActive
+    }
+    try {
+      validateRule(rule)
+    } catch (error) {
+      Alert.alert('Error', (error as Error).message)
+      return
+    }
+
+    if (editingRule) {
+      await updateCategorizationRule(editingRule.id, rule)
+    } else {
+      await addCategorizationRule(rule)
+    }
+    resetForm()
+  }
+
+  const resetForm = () => {
+    setFormData(emptyForm)
+    setEditingRule(null)
+    setShowRuleModal(false)
+  }
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setEditingRule(rule)
+    setFormData({
+      matchType: rule.matchType,
+      pattern: rule.pattern || '',
+      minAmount: rule.minAmount !== null ? centsToInput(rule.minAmount) : '',
+      maxAmount: rule.maxAmount !== null ? centsToInput(rule.maxAmount) : '',
+      category: rule.category,
+      isRecurring: rule.isRecurring,
+      isActive: rule.isActive !== false
+    })
+    setShowRuleModal(true)
+  }
+
+  const handleDelete = (rule: CategorizationRule) => {
+    Alert.alert('Delete Rule', 'Are you sure you want to delete this rule?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => deleteCategorizationRule(rule.id)
+      }
+    ])
+  }
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= categorizationRules.length) return
+    const ids = categorizationRules.map(rule => rule.id)
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    reorderCategorizationRules(ids)
+  }
+
+  const handleApply = async () => {
+    setIsApplying(true)
+    const count = await applyRulesToMonth(applyMonth)
+    setIsApplying(false)
+    Alert.alert(
+      'Rules Applied',
+      `${count} expenses in ${getMonthName(applyMonth)} were updated`
+    )
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => router.back()}
+        >
+          <ChevronLeft size={20} color='#374151' />
+        </TouchableOpacity>
+        <Text style={styles.title}>Rules</Text>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => {
+            setFormData({ ...emptyForm, category: categories[0]?.name ?? '' })
+            setShowRuleModal(true)
+          }}
+        >
+          <Plus size={20} color='#FFFFFF' />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Test */}
+        <Card>
+          <Text style={styles.sectionTitle}>Test Rules</Text>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, { flex: 2 }]}
+              placeholder='Expense name'
+              value={testName}
+              onChangeText={setTestName}
+            />
+            <TextInput
+              style={[styles.input, { flex: 1 }]}
+              placeholder='Amount'
+              value={testAmount}
+              onChangeText={setTestAmount}
+              keyboardType='numeric'
+            />
+          </View>
+          {testName.trim() !== '' && (
+            <Text style={styles.note}>
+              {testResult
+                ? `Rule ${
+                    categorizationRules.indexOf(testResult) + 1
+                  } sets the category to ${testResult.category}`
+                : 'No rule matches'}
+            </Text>
+          )}
+        </Card>
+
+        {/* Apply to month */}
+        <Card>
+          <Text style={styles.sectionTitle}>Apply to Existing Expenses</Text>
+          <View style={styles.monthNavigation}>
+            <TouchableOpacity
+              style={styles.navButton}
+              onPress={() => navigateMonth('prev')}
+            >
+              <ChevronLeft size={20} color='#374151' />
+            </TouchableOpacity>
+            <Text style={styles.monthTitle}>{getMonthName(applyMonth)}</Text>
+            <TouchableOpacity
+              style={styles.navButton}
+              onPress={() => navigateMonth('next')}
+            >
+              <ChevronRight size={20} color='#374151' />
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity
+            style={styles.saveButton}
+            onPress={handleApply}
+            disabled={isApplying || categorizationRules.length === 0}
+          >
+            <Text style={styles.saveButtonText}>
+              {isApplying ? 'Applying...' : 'Apply Rules'}
+            </Text>
+          </TouchableOpacity>
+        </Card>
+
+        {/* Rules */}
+        <Card>
+          <Text style={styles.sectionTitle}>Rules</Text>
+          <Text style={styles.note}>
+            Rules are tried from top to bottom; the first match wins. They run
+            when you add an expense, import a statement and when recurring
+            expenses are generated.
+          </Text>
+
+          {categorizationRules.map((rule, index) => (
+            <View key={rule.id} style={styles.ruleItem}>
+              <View style={styles.reorderButtons}>
+                <TouchableOpacity onPress={() => moveRule(index, -1)}>
+                  <ChevronUp
+                    size={18}
+                    color={index === 0 ? '#D1D5DB' : '#374151'}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => moveRule(index, 1)}>
+                  <ChevronDown
+                    size={18}
+                    color={
+                      index === categorizationRules.length - 1
+                        ? '#D1D5DB'
+                        : '#374151'
+                    }
+                  />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.ruleInfo}>
+                <Text
+                  style={[
+                    styles.ruleCondition,
+                    rule.isActive === false && styles.inactiveText
+                  ]}
+                >
+                  {index + 1}. {describeRule(rule)}
+                </Text>
+                <View style={styles.ruleDetails}>
+                  <Text style={styles.ruleCategory}>{rule.category}</Text>
+                  {rule.isRecurring !== null && (
+                    <Text style={styles.ruleBadge}>
+                      {rule.isRecurring ? 'Recurring' : 'One-time'}
+                    </Text>
+                  )}
+                  {rule.isActive === false && (
+                    <Text style={styles.ruleBadge}>Paused</Text>
+                  )}
+                </View>
+              </View>
+              <View style={styles.actionButtons}>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleEdit(rule)}
+                >
+                  <Edit3 size={16} color='#2563EB' />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleDelete(rule)}
+                >
+                  <Trash2 size={16} color='#DC2626' />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {categorizationRules.length === 0 && (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>No rules yet</Text>
+              <Text style={styles.emptySubtext}>
+                Add a rule to categorize expenses automatically
+              </Text>
+            </View>
+          )}
+        </Card>
+      </ScrollView>
+
+      {/* Rule Modal */}
+      <Modal visible={showRuleModal} animationType='slide' transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              {editingRule ? 'Edit Rule' : 'Add Rule'}
+            </Text>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <View style={styles.pickerContainer}>
+                <Text style={styles.inputLabel}>Match</Text>
+                <View style={styles.optionRow}>
+                  {matchTypes.map(option => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.categoryOption,
+                        formData.matchType === option.value &&
+                          styles.selectedCategory
+                      ]}
+                      onPress={() =>
+                        setFormData({ ...formData, matchType: option.value })
+                      }
+                    >
+                      <Text
+                        style={[
+                          styles.categoryText,
+                          formData.matchType === option.value &&
+                            styles.selectedCategoryText
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <TextInput
+                style={styles.input}
+                placeholder={
+                  formData.matchType === 'regex'
+                    ? 'Pattern, e.g. ^(uber|lyft)'
+                    : 'Text, e.g. netflix'
+                }
+                value={formData.pattern}
+                onChangeText={text =>
+                  setFormData({ ...formData, pattern: text })
+                }
+                autoCapitalize='none'
+              />
+
+              <Text style={styles.inputLabel}>Amount range (optional)</Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  placeholder='Min'
+                  value={formData.minAmount}
+                  onChangeText={text =>
+                    setFormData({ ...formData, minAmount: text })
+                  }
+                  keyboardType='numeric'
+                />
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  placeholder='Max'
+                  value={formData.maxAmount}
+                  onChangeText={text =>
+                    setFormData({ ...formData, maxAmount: text })
+                  }
+                  keyboardType='numeric'
+                />
+              </View>
+
+              <View style={styles.pickerContainer}>
+                <Text style={styles.inputLabel}>Set category to</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {categories.map(({ name: category }) => (
+                    <TouchableOpacity
+                      key={category}
+                      style={[
+                        styles.categoryOption,
+                        formData.category === category &&
+                          styles.selectedCategory
+                      ]}
+                      onPress={() => setFormData({ ...formData, category })}
+                    >
+                      <Text
+                        style={[
+                          styles.categoryText,
+                          formData.category === category &&
+                            styles.selectedCategoryText
+                        ]}
+                      >
+                        {category}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+
+              <View style={styles.pickerContainer}>
+                <Text style={styles.inputLabel}>Recurring flag</Text>
+                <View style={styles.optionRow}>
+                  {recurringOptions.map(option => (
+                    <TouchableOpacity
+                      key={option.label}
+                      style={[
+                        styles.categoryOption,
+                        formData.isRecurring === option.value &&
+                          styles.selectedCategory
+                      ]}
+                      onPress={() =>
+                        setFormData({ ...formData, isRecurring: option.value })
+                      }
+                    >
+                      <Text
+                        style={[
+                          styles.categoryText,
+                          formData.isRecurring === option.value &&
+                            styles.selectedCategoryText
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <TouchableOpacity
+                style={styles.activeToggle}
+                onPress={() =>
+                  setFormData({ ...formData, isActive: !formData.isActive })
+                }
+              >
+                <View
+                  style={[
+                    styles.checkbox,
+                    formData.isActive && styles.checkedBox
+                  ]}
+                >
+                  {formData.isActive && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+                <Text style={styles.activeText}>Active</Text>
+              </TouchableOpacity>
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                <Text style={styles.saveButtonText}>
+                  {editingRule ? 'Update' : 'Add'} Rule
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  )
+}
+
+export default function Rules () {
+  return <RulesContent />
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6'
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 10
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#111827'
+  },
+  addButton: {
+    backgroundColor: '#2563EB',
+    borderRadius: 50,
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8
+  },
+  monthNavigation: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12
+  },
+  navButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6'
+  },
+  monthTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827'
+  },
+  ruleItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6'
+  },
+  reorderButtons: {
+    gap: 4
+  },
+  ruleInfo: {
+    flex: 1
+  },
+  ruleCondition: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4
+  },
+  inactiveText: {
+    color: '#9CA3AF'
+  },
+  ruleDetails: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6
+  },
+  ruleCategory: {
+    fontSize: 12,
+    color: '#6B7280',
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10
+  },
+  ruleBadge: {
+    fontSize: 10,
+    color: '#059669',
+    backgroundColor: '#D1FAE5',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    gap: 8
+  },
+  actionButton: {
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#F3F4F6'
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 20
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 8
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center'
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end'
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%'
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center'
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB'
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8
+  },
+  pickerContainer: {
+    marginBottom: 16
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8
+  },
+  categoryOption: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8
+  },
+  selectedCategory: {
+    backgroundColor: '#2563EB'
+  },
+  categoryText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500'
+  },
+  selectedCategoryText: {
+    color: '#FFFFFF'
+  },
+  activeToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+    gap: 12
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: '#D1D5DB',
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  checkedBox: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB'
+  },
+  checkmark: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold'
+  },
+  activeText: {
+    fontSize: 16,
+    color: '#374151'
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center'
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280'
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center'
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF'
+  }
+})
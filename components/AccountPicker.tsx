@@ -0,0 +1,70 @@
+import React from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+
+interface AccountPickerProps {
+  value: string | null;
+  onChange: (accountId: string | null) => void;
+  label?: string;
+}
+
+// Hidden until an account is set up, so tracking without accounts is unchanged
+export default function AccountPicker({ value, onChange, label = 'Account' }: AccountPickerProps) {
+  const { accounts } = useDatabase();
+
+  if (accounts.length === 0) return null;
+
+  const options = [
+    { id: null, name: 'None' },
+    ...accounts.map((account) => ({ id: account.id as string | null, name: account.name })),
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.id ?? 'none'}
+            style={[styles.option, value === option.id && styles.selectedOption]}
+            onPress={() => onChange(option.id)}
+          >
+            <Text style={[styles.optionText, value === option.id && styles.selectedOptionText]}>
+              {option.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  option: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  selectedOption: {
+    backgroundColor: '#2563EB',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  selectedOptionText: {
+    color: '#FFFFFF',
+  },
+});
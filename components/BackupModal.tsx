@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import type { BackupManifest, BackupReason } from '@/db/backup-manifest';
+
+interface BackupModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const reasonLabels: Record<BackupReason, string> = {
+  manual: 'Manual',
+  scheduled: 'Daily',
+  'pre-restore': 'Before restore',
+};
+
+const countRecords = (backup: BackupManifest) =>
+  Object.values(backup.rowCounts).reduce((total, count) => total + count, 0);
+
+export default function BackupModal({ visible, onClose }: BackupModalProps) {
+  const { getBackups, createBackup, checkBackup, restoreBackup, deleteBackup } = useDatabase();
+  const [backups, setBackups] = useState<BackupManifest[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadBackups = async () => {
+    setBackups(await getBackups());
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadBackups();
+    }
+  }, [visible]);
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    const created = await createBackup();
+    await loadBackups();
+    setIsWorking(false);
+    if (!created) {
+      Alert.alert('Error', 'Failed to create backup');
+    }
+  };
+
+  const restore = async (backup: BackupManifest) => {
+    setIsWorking(true);
+    const restored = await restoreBackup(backup.id);
+    await loadBackups();
+    setIsWorking(false);
+    if (restored) {
+      Alert.alert('Backup Restored', 'Your data has been replaced with the backup.');
+      onClose();
+    } else {
+      Alert.alert('Error', 'Failed to restore backup. Your data has not been changed.');
+    }
+  };
+
+  const handleRestore = async (backup: BackupManifest) => {
+    const compatibility = await checkBackup(backup.id);
+    if (!compatibility.compatible) {
+      Alert.alert('Cannot Restore', compatibility.reason ?? 'This backup cannot be restored');
+      return;
+    }
+
+    Alert.alert(
+      'Restore Backup',
+      `Replace all current data with the backup from ${new Date(backup.createdAt).toLocaleString()}? The current data is backed up first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', style: 'destructive', onPress: () => restore(backup) },
+      ]
+    );
+  };
+
+  const handleDelete = (backup: BackupManifest) => {
+    Alert.alert('Delete Backup', 'Are you sure you want to delete this backup?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteBackup(backup.id);
+          await loadBackups();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Backups</Text>
+
+          <Text style={styles.note}>
+            A backup is taken every day when the app starts. Older backups are removed automatically.
+          </Text>
+
+          <ScrollView style={styles.list}>
+            {backups.length === 0 ? (
+              <Text style={styles.emptyText}>No backups yet</Text>
+            ) : (
+              backups.map((backup) => (
+                <View key={backup.id} style={styles.backupItem}>
+                  <View style={styles.backupInfo}>
+                    <Text style={styles.backupDate}>
+                      {new Date(backup.createdAt).toLocaleString()}
+                    </Text>
+                    <Text style={styles.backupDetails}>
+                      {reasonLabels[backup.reason]} · {countRecords(backup)} records · schema v{backup.schemaVersion}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.restoreButton}
+                    onPress={() => handleRestore(backup)}
+                    disabled={isWorking}
+                  >
+                    <Text style={styles.restoreButtonText}>Restore</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDelete(backup)} disabled={isWorking}>
+                    <Text style={styles.deleteButtonText}>Delete</Text>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Close</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.backupButton}
+              onPress={handleCreate}
+              disabled={isWorking}
+            >
+              {isWorking ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.backupButtonText}>Back Up Now</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  list: {
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  backupItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  backupInfo: {
+    flex: 1,
+  },
+  backupDate: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  backupDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  restoreButton: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  restoreButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2563EB',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#DC2626',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  backupButton: {
+    flex: 1,
+    backgroundColor: '#059669',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  backupButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,65 @@
+import React from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { supportedCurrencies } from '@/db/currency';
+
+interface CurrencyPickerProps {
+  value: string;
+  onChange: (currency: string) => void;
+  label?: string;
+}
+
+export default function CurrencyPicker({ value, onChange, label = 'Currency' }: CurrencyPickerProps) {
+  // Keep a stored code selectable even if it is not in the default list
+  const currencies: string[] = !value || (supportedCurrencies as readonly string[]).includes(value)
+    ? [...supportedCurrencies]
+    : [value, ...supportedCurrencies];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {currencies.map((currency) => (
+          <TouchableOpacity
+            key={currency}
+            style={[styles.option, value === currency && styles.selectedOption]}
+            onPress={() => onChange(currency)}
+          >
+            <Text style={[styles.optionText, value === currency && styles.selectedOptionText]}>
+              {currency}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  option: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  selectedOption: {
+    backgroundColor: '#2563EB',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  selectedOptionText: {
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,138 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useDatabase } from '@/contexts/DatabaseContext';
+
+// Shown instead of the app when the database could not be opened or
+// upgraded. A failed upgrade has already been rolled back, so nothing is lost
+// unless the user chooses to reset.
+export default function DatabaseRecovery() {
+  const { initError, isLoading, retryInitialization, resetAllData } =
+    useDatabase();
+
+  const handleReset = () => {
+    Alert.alert(
+      'Reset All Data',
+      'This permanently deletes every expense, budget, grocery list and setting on this device. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: resetAllData },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>Database problem</Text>
+        <Text style={styles.message}>
+          The app could not open or update its database. Nothing has been
+          deleted: a failed update is rolled back and your data stays as it
+          was before.
+        </Text>
+
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{initError}</Text>
+        </View>
+
+        <TouchableOpacity
+          style={styles.retryButton}
+          onPress={retryInitialization}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.retryButtonText}>Try Again</Text>
+          )}
+        </TouchableOpacity>
+
+        <Text style={styles.note}>
+          If the problem persists, update the app. Resetting starts over with an
+          empty database.
+        </Text>
+        <TouchableOpacity
+          style={styles.resetButton}
+          onPress={handleReset}
+          disabled={isLoading}
+        >
+          <Text style={styles.resetButtonText}>Reset All Data</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    color: '#374151',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  errorBox: {
+    backgroundColor: '#FEF2F2',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FECACA',
+    padding: 12,
+    marginBottom: 20,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#B91C1C',
+  },
+  retryButton: {
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  retryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  resetButton: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#DC2626',
+  },
+});
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import type { ExportFormat, ExportOptions } from '@/db/export';
+
+type ExportPeriod = 'all' | 'month' | 'range';
+
+interface ExportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  month: string;
+}
+
+const formats: { value: ExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON bundle' },
+  { value: 'csv', label: 'CSV files' },
+];
+
+const periods: { value: ExportPeriod; label: string }[] = [
+  { value: 'all', label: 'All data' },
+  { value: 'month', label: 'This month' },
+  { value: 'range', label: 'Date range' },
+];
+
+const isDate = (text: string) => /^\d{4}-\d{2}-\d{2}$/.test(text);
+
+export default function ExportModal({ visible, onClose, month }: ExportModalProps) {
+  const { exportData } = useDatabase();
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [period, setPeriod] = useState<ExportPeriod>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    const options: ExportOptions = { format };
+    if (period === 'month') {
+      options.month = month;
+    } else if (period === 'range') {
+      if ((from && !isDate(from)) || (to && !isDate(to)) || (!from && !to)) {
+        Alert.alert('Error', 'Please enter dates as YYYY-MM-DD');
+        return;
+      }
+      options.from = from || undefined;
+      options.to = to || undefined;
+    }
+
+    setIsExporting(true);
+    const exported = await exportData(options);
+    setIsExporting(false);
+    if (exported) {
+      onClose();
+    } else {
+      Alert.alert('Error', 'Failed to export data');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Export Data</Text>
+
+          <Text style={styles.label}>Format</Text>
+          <View style={styles.options}>
+            {formats.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.option, format === option.value && styles.selectedOption]}
+                onPress={() => setFormat(option.value)}
+              >
+                <Text style={[styles.optionText, format === option.value && styles.selectedOptionText]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Period</Text>
+          <View style={styles.options}>
+            {periods.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.option, period === option.value && styles.selectedOption]}
+                onPress={() => setPeriod(option.value)}
+              >
+                <Text style={[styles.optionText, period === option.value && styles.selectedOptionText]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {period === 'range' && (
+            <View style={styles.rangeRow}>
+              <TextInput
+                style={[styles.input, styles.rangeInput]}
+                placeholder="From (YYYY-MM-DD)"
+                value={from}
+                onChangeText={setFrom}
+              />
+              <TextInput
+                style={[styles.input, styles.rangeInput]}
+                placeholder="To (YYYY-MM-DD)"
+                value={to}
+                onChangeText={setTo}
+              />
+            </View>
+          )}
+
+          <Text style={styles.note}>
+            Settings, recurring templates and exchange rates are always included.
+          </Text>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={handleExport}
+              disabled={isExporting}
+            >
+              {isExporting ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.exportButtonText}>Export</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  option: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  selectedOption: {
+    backgroundColor: '#2563EB',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  selectedOptionText: {
+    color: '#FFFFFF',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  rangeInput: {
+    flex: 1,
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  exportButton: {
+    flex: 1,
+    backgroundColor: '#EA580C',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
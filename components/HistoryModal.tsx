@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import { isMoneyField, type AuditEntity } from '@/db/audit';
+import { formatMoney } from '@/db/money';
+import type { AuditEntry } from '@/db/schema';
+
+interface HistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  entity: AuditEntity;
+  entityId: string | null;
+  // Currency of the record's amounts; defaults to the base currency
+  currency?: string;
+}
+
+// Fields that hold the id of another record, shown by that record's name
+const MEMBER_FIELDS = ['paidBy', 'memberId', 'fromMemberId', 'toMemberId'];
+
+// "dueDate" becomes "Due date"
+const fieldLabel = (field: string) => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export default function HistoryModal({ visible, onClose, entity, entityId, currency }: HistoryModalProps) {
+  const { getRecordHistory, members, categories, baseCurrency } = useDatabase();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !entityId) return;
+    setIsLoading(true);
+    getRecordHistory(entity, entityId).then((loaded) => {
+      setEntries(loaded);
+      setIsLoading(false);
+    });
+  }, [visible, entity, entityId]);
+
+  const memberName = (id: string | null) => {
+    if (!id) return null;
+    return members.find((member) => member.id === id)?.name ?? 'Removed member';
+  };
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (isMoneyField(entity, field) && typeof value === 'number') {
+      return formatMoney(value, currency || baseCurrency);
+    }
+    if (MEMBER_FIELDS.includes(field)) return memberName(String(value));
+    if (field === 'categoryId') {
+      return categories.find((category) => category.id === value)?.name ?? 'Removed category';
+    }
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+  };
+
+  const describe = (entry: AuditEntry) => {
+    if (entry.action === 'create') return 'Created';
+    if (entry.action === 'delete') return 'Deleted';
+    if (entry.field === 'deletedAt') {
+      return entry.newValue ? 'Moved to trash' : 'Restored from trash';
+    }
+    const field = entry.field ?? '';
+    return `${fieldLabel(field)}: ${formatValue(field, entry.oldValue)} → ${formatValue(field, entry.newValue)}`;
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>History</Text>
+
+          <ScrollView style={styles.list}>
+            {isLoading ? (
+              <ActivityIndicator color="#2563EB" style={styles.loading} />
+            ) : entries.length === 0 ? (
+              <Text style={styles.emptyText}>No changes recorded yet</Text>
+            ) : (
+              entries.map((entry) => (
+                <View key={entry.id} style={styles.entryItem}>
+                  <Text style={styles.entryChange}>{describe(entry)}</Text>
+                  <Text style={styles.entryDetails}>
+                    {new Date(entry.changedAt).toLocaleString()}
+                    {entry.memberId ? ` · ${memberName(entry.memberId)}` : ''}
+                  </Text>
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  list: {
+    marginBottom: 16,
+  },
+  loading: {
+    paddingVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  entryItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  entryChange: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  entryDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+});
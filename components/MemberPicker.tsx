@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+
+interface MemberPickerProps {
+  value: string | null;
+  onChange: (memberId: string | null) => void;
+  label?: string;
+}
+
+// Hidden until the household has members, so single-person use is unchanged
+export default function MemberPicker({ value, onChange, label = 'Paid by' }: MemberPickerProps) {
+  const { members } = useDatabase();
+
+  if (members.length === 0) return null;
+
+  const options = [
+    { id: null, name: 'Nobody' },
+    ...members
+      .filter((member) => member.isActive || member.id === value)
+      .map((member) => ({ id: member.id as string | null, name: member.name })),
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.id ?? 'nobody'}
+            style={[styles.option, value === option.id && styles.selectedOption]}
+            onPress={() => onChange(option.id)}
+          >
+            <Text style={[styles.optionText, value === option.id && styles.selectedOptionText]}>
+              {option.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  option: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  selectedOption: {
+    backgroundColor: '#2563EB',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  selectedOptionText: {
+    color: '#FFFFFF',
+  },
+});
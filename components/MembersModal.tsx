@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import MemberPicker from '@/components/MemberPicker';
+import type { Member } from '@/db/schema';
+
+interface MembersModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function MembersModal({ visible, onClose }: MembersModalProps) {
+  const { members, addMember, updateMember, deleteMember, deviceMemberId, setDeviceMember } = useDatabase();
+  const [name, setName] = useState('');
+  const [editingMember, setEditingMember] = useState<Member | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setEditingMember(null);
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      Alert.alert('Error', 'Please enter a name');
+      return;
+    }
+    const duplicate = members.some(
+      (member) => member.id !== editingMember?.id && member.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) {
+      Alert.alert('Error', `${trimmed} is already a member`);
+      return;
+    }
+
+    if (editingMember) {
+      await updateMember(editingMember.id, { name: trimmed });
+    } else {
+      await addMember({ name: trimmed });
+    }
+    resetForm();
+  };
+
+  const handleEdit = (member: Member) => {
+    setEditingMember(member);
+    setName(member.name);
+  };
+
+  // A deactivated member stays in the balances but is no longer offered as
+  // a payer
+  const handleDeactivate = async (member: Member) => {
+    await updateMember(member.id, { isActive: false });
+  };
+
+  const handleDelete = (member: Member) => {
+    const remove = async () => {
+      if (editingMember?.id === member.id) {
+        resetForm();
+      }
+      try {
+        await deleteMember(member.id);
+      } catch (error) {
+        // Shares expenses or settlements, so removing would change the balances
+        Alert.alert('Cannot Remove Member', error instanceof Error ? error.message : String(error), [
+          { text: 'Cancel', style: 'cancel' },
+          ...(member.isActive === false ? [] : [{ text: 'Deactivate', onPress: () => handleDeactivate(member) }]),
+        ]);
+      }
+    };
+
+    Alert.alert(
+      'Remove Member',
+      `Remove ${member.name}? Expenses and grocery lists they paid for are kept but no longer assigned to anyone. ` +
+        'Members who share expenses or settlements can only be deactivated, so the balances stay the same.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        ...(member.isActive === false ? [] : [{ text: 'Deactivate', onPress: () => handleDeactivate(member) }]),
+        { text: 'Remove', style: 'destructive', onPress: remove },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Household Members</Text>
+
+          <Text style={styles.note}>
+            Members can be picked as the payer of an expense or grocery list. Changes made on this device are
+            recorded under the member who uses it.
+          </Text>
+
+          <ScrollView style={styles.list}>
+            {members.length === 0 ? (
+              <Text style={styles.emptyText}>No members yet</Text>
+            ) : (
+              members.map((member) => (
+                <View key={member.id} style={styles.memberItem}>
+                  <Text style={[styles.memberName, member.isActive === false && styles.inactiveName]}>
+                    {member.isActive === false ? `${member.name} (inactive)` : member.name}
+                  </Text>
+                  {member.isActive === false && (
+                    <TouchableOpacity onPress={() => updateMember(member.id, { isActive: true })}>
+                      <Text style={styles.editButtonText}>Reactivate</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity onPress={() => handleEdit(member)}>
+                    <Text style={styles.editButtonText}>Rename</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDelete(member)}>
+                    <Text style={styles.deleteButtonText}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          <MemberPicker value={deviceMemberId} onChange={setDeviceMember} label="This device is used by" />
+
+          <Text style={styles.label}>{editingMember ? `Rename ${editingMember.name}` : 'Add a member'}</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Name"
+          />
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={editingMember ? resetForm : handleClose}
+            >
+              <Text style={styles.cancelButtonText}>{editingMember ? 'Cancel' : 'Close'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>{editingMember ? 'Save' : 'Add'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  list: {
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  memberItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  inactiveName: {
+    color: '#9CA3AF',
+  },
+  editButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2563EB',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#DC2626',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,350 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import {
+  getAmountDue,
+  getAmountPaid,
+  getPaymentStatus,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+} from '@/db/payments';
+import { toDateString } from '@/db/bills';
+import { formatMoney, parseMoney, centsToInput } from '@/db/money';
+import { paymentMethods, type Payment, type PaymentMethod } from '@/db/schema';
+
+interface PaymentsModalProps {
+  // The expense whose payments are shown; the modal is hidden while null
+  expenseId: string | null;
+  onClose: () => void;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default function PaymentsModal({ expenseId, onClose }: PaymentsModalProps) {
+  const { expenses, payments, addPayment, deletePayment } = useDatabase();
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState('');
+  const [method, setMethod] = useState<PaymentMethod | null>(null);
+  const [note, setNote] = useState('');
+
+  // Looked up on every render, so the summary follows the payments
+  const expense = expenses.find((item) => item.id === expenseId) ?? null;
+  const expensePayments = payments
+    .filter((payment) => payment.expenseId === expenseId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const due = expense ? getAmountDue(expense, expensePayments) : 0;
+
+  // The form starts out paying whatever is left
+  const resetForm = () => {
+    setAmount(due > 0 ? centsToInput(due) : '');
+    setDate(toDateString(new Date()));
+    setMethod(null);
+    setNote('');
+  };
+
+  useEffect(() => {
+    if (expenseId) resetForm();
+  }, [expenseId, payments]);
+
+  if (!expense) return null;
+
+  const status = getPaymentStatus(expense, expensePayments);
+
+  const handleAdd = () => {
+    const cents = parseMoney(amount);
+    if (cents === null || cents <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+    if (!DATE_PATTERN.test(date)) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD');
+      return;
+    }
+    addPayment({
+      expenseId: expense.id,
+      amount: cents,
+      date,
+      method,
+      note: note.trim() || null,
+    });
+  };
+
+  const handleDelete = (payment: Payment) => {
+    Alert.alert('Delete Payment', `Delete the payment of ${formatMoney(payment.amount, expense.currency)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deletePayment(payment.id) },
+    ]);
+  };
+
+  return (
+    <Modal visible animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Payments</Text>
+
+          <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+            <View style={styles.summary}>
+              <Text style={styles.expenseName}>{expense.name}</Text>
+              <Text style={[styles.status, styles[status]]}>{PAYMENT_STATUS_LABELS[status]}</Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.rowName}>Billed</Text>
+              <Text style={styles.rowAmount}>{formatMoney(expense.amount, expense.currency)}</Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.rowName}>Paid</Text>
+              <Text style={styles.rowAmount}>
+                {formatMoney(getAmountPaid(expense, expensePayments), expense.currency)}
+              </Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.rowName}>{due < 0 ? 'Overpaid by' : 'Remaining'}</Text>
+              <Text style={styles.rowAmount}>{formatMoney(Math.abs(due), expense.currency)}</Text>
+            </View>
+
+            <Text style={styles.sectionTitle}>Recorded payments</Text>
+            {expensePayments.length === 0 ? (
+              <Text style={styles.emptyText}>
+                {expense.isPaid ? 'Marked paid without a payment on record' : 'No payments yet'}
+              </Text>
+            ) : (
+              expensePayments.map((payment) => (
+                <View key={payment.id} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowName}>{new Date(`${payment.date}T00:00:00`).toLocaleDateString()}</Text>
+                    <Text style={styles.rowDetails}>
+                      {[payment.method && PAYMENT_METHOD_LABELS[payment.method], payment.note]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </Text>
+                  </View>
+                  <Text style={styles.rowAmount}>{formatMoney(payment.amount, expense.currency)}</Text>
+                  <TouchableOpacity onPress={() => handleDelete(payment)}>
+                    <Text style={styles.deleteButtonText}>Delete</Text>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+
+            <Text style={styles.sectionTitle}>Add a payment</Text>
+            <Text style={styles.label}>Amount ({expense.currency})</Text>
+            <TextInput
+              style={styles.input}
+              value={amount}
+              onChangeText={setAmount}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.label}>Date</Text>
+            <TextInput style={styles.input} value={date} onChangeText={setDate} placeholder="YYYY-MM-DD" />
+            <Text style={styles.label}>Method</Text>
+            <View style={styles.chipRow}>
+              {paymentMethods.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, method === option && styles.selectedChip]}
+                  onPress={() => setMethod(method === option ? null : option)}
+                >
+                  <Text style={[styles.chipText, method === option && styles.selectedChipText]}>
+                    {PAYMENT_METHOD_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.label}>Note</Text>
+            <TextInput style={styles.input} value={note} onChangeText={setNote} placeholder="Optional" />
+          </ScrollView>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Close</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+              <Text style={styles.addButtonText}>Add Payment</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  list: {
+    marginBottom: 16,
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  expenseName: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  unpaid: {
+    color: '#6B7280',
+    backgroundColor: '#F3F4F6',
+  },
+  partial: {
+    color: '#D97706',
+    backgroundColor: '#FEF3C7',
+  },
+  paid: {
+    color: '#059669',
+    backgroundColor: '#D1FAE5',
+  },
+  overpaid: {
+    color: '#7C3AED',
+    backgroundColor: '#EDE9FE',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  rowDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  rowAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#DC2626',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  selectedChip: {
+    backgroundColor: '#2563EB',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  addButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
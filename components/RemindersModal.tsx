@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity, TextInput, Switch, StyleSheet } from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import { DEFAULT_REMINDER_DAYS } from '@/db/reminders';
+import type { Category } from '@/db/schema';
+
+interface RemindersModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Further ahead than a month is no longer a reminder
+const MAX_REMINDER_DAYS = 30;
+
+export default function RemindersModal({ visible, onClose }: RemindersModalProps) {
+  const { categories, remindersSupported, setCategoryReminderDays } = useDatabase();
+  // Lead times being typed, by category id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (visible) setDrafts({});
+  }, [visible]);
+
+  const draftOf = (category: Category) =>
+    drafts[category.id] ?? String(category.reminderDays ?? DEFAULT_REMINDER_DAYS);
+
+  const handleToggle = (category: Category, enabled: boolean) => {
+    setCategoryReminderDays(category.id, enabled ? DEFAULT_REMINDER_DAYS : null);
+    setDrafts((current) => ({ ...current, [category.id]: String(DEFAULT_REMINDER_DAYS) }));
+  };
+
+  // An invalid lead time falls back to the saved one
+  const handleSaveDays = (category: Category) => {
+    const days = Number(draftOf(category));
+    setDrafts((current) => {
+      const next = { ...current };
+      delete next[category.id];
+      return next;
+    });
+    if (!Number.isInteger(days) || days < 0 || days > MAX_REMINDER_DAYS) return;
+    if (days !== category.reminderDays) setCategoryReminderDays(category.id, days);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Bill Reminders</Text>
+
+          <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+            <Text style={styles.note}>
+              {remindersSupported
+                ? 'Unpaid expenses are reminded of the set number of days before they are due, at 9:00. Paying an expense cancels its reminder.'
+                : 'Reminders are sent by the phone app. Lead times set here apply there too once your devices sync.'}
+            </Text>
+
+            {categories.length === 0 ? (
+              <Text style={styles.emptyText}>No categories yet</Text>
+            ) : (
+              categories.map((category) => {
+                const enabled = category.reminderDays !== null;
+                return (
+                  <View key={category.id} style={styles.categoryItem}>
+                    <Text style={styles.categoryName}>{category.name}</Text>
+                    {enabled && (
+                      <View style={styles.daysRow}>
+                        <TextInput
+                          style={styles.daysInput}
+                          value={draftOf(category)}
+                          onChangeText={(text) => setDrafts((current) => ({ ...current, [category.id]: text }))}
+                          onBlur={() => handleSaveDays(category)}
+                          onSubmitEditing={() => handleSaveDays(category)}
+                          keyboardType="number-pad"
+                          maxLength={2}
+                        />
+                        <Text style={styles.daysLabel}>days before</Text>
+                      </View>
+                    )}
+                    <Switch
+                      value={enabled}
+                      onValueChange={(value) => handleToggle(category, value)}
+                      trackColor={{ false: '#E5E7EB', true: '#93C5FD' }}
+                      thumbColor={enabled ? '#2563EB' : '#F9FAFB'}
+                    />
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  list: {
+    marginBottom: 16,
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  categoryItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  categoryName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  daysRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  daysInput: {
+    width: 44,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    textAlign: 'center',
+    color: '#111827',
+  },
+  daysLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  closeButton: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import { minimizeTransfers, type MemberBalance } from '@/db/splits';
+import { formatMoney } from '@/db/money';
+import type { Settlement } from '@/db/schema';
+
+interface SettleUpModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function SettleUpModal({ visible, onClose }: SettleUpModalProps) {
+  const { members, settlements, baseCurrency, getMemberBalances, settleUp, deleteSettlement } = useDatabase();
+  const [balances, setBalances] = useState<MemberBalance[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadBalances = async () => {
+    setBalances(await getMemberBalances());
+  };
+
+  // Settlements change the balances, so they are reloaded with them
+  useEffect(() => {
+    if (visible) {
+      loadBalances();
+    }
+  }, [visible, settlements]);
+
+  const getMemberName = (memberId: string) =>
+    members.find((member) => member.id === memberId)?.name ?? 'Removed member';
+
+  const transfers = minimizeTransfers(balances);
+
+  const handleSettleUp = () => {
+    Alert.alert(
+      'Record Settlement',
+      'Record these payments as made? Everyone is even afterwards.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Record',
+          onPress: async () => {
+            setIsWorking(true);
+            await settleUp();
+            setIsWorking(false);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDelete = (settlement: Settlement) => {
+    Alert.alert('Delete Settlement', 'The balances go back to what they were before this payment.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteSettlement(settlement.id) },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Settle Up</Text>
+
+          <ScrollView style={styles.list}>
+            <Text style={styles.sectionTitle}>Balances</Text>
+            {balances.length === 0 ? (
+              <Text style={styles.emptyText}>Everyone is even</Text>
+            ) : (
+              balances.map((balance) => (
+                <View key={balance.memberId} style={styles.row}>
+                  <Text style={styles.rowName}>{getMemberName(balance.memberId)}</Text>
+                  <Text style={[styles.rowAmount, balance.balance > 0 ? styles.owed : styles.owes]}>
+                    {balance.balance > 0 ? 'is owed' : 'owes'} {formatMoney(Math.abs(balance.balance), baseCurrency)}
+                  </Text>
+                </View>
+              ))
+            )}
+
+            {transfers.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>To settle up</Text>
+                {transfers.map((transfer) => (
+                  <View key={`${transfer.fromMemberId}-${transfer.toMemberId}`} style={styles.row}>
+                    <Text style={styles.rowName}>
+                      {getMemberName(transfer.fromMemberId)} → {getMemberName(transfer.toMemberId)}
+                    </Text>
+                    <Text style={styles.rowAmount}>{formatMoney(transfer.amount, baseCurrency)}</Text>
+                  </View>
+                ))}
+              </>
+            )}
+
+            {settlements.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Past settlements</Text>
+                {settlements.map((settlement) => (
+                  <View key={settlement.id} style={styles.row}>
+                    <View style={styles.rowInfo}>
+                      <Text style={styles.rowName}>
+                        {getMemberName(settlement.fromMemberId)} → {getMemberName(settlement.toMemberId)}
+                      </Text>
+                      <Text style={styles.rowDate}>{new Date(settlement.date).toLocaleDateString()}</Text>
+                    </View>
+                    <Text style={styles.rowAmount}>{formatMoney(settlement.amount, settlement.currency)}</Text>
+                    <TouchableOpacity onPress={() => handleDelete(settlement)}>
+                      <Text style={styles.deleteButtonText}>Delete</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Close</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.settleButton, transfers.length === 0 && styles.disabledButton]}
+              onPress={handleSettleUp}
+              disabled={isWorking || transfers.length === 0}
+            >
+              {isWorking ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.settleButtonText}>Record Settlement</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  list: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  rowDate: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  rowAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  owed: {
+    color: '#059669',
+  },
+  owes: {
+    color: '#DC2626',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#DC2626',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  settleButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  settleButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,212 @@
+import React from 'react';
+import { View, Text, ScrollView, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import type { ExpenseSplit, SplitType } from '@/db/schema';
+import type { ExpenseSplitInput } from '@/db/splits';
+import { parseMoney, centsToInput } from '@/db/money';
+
+// What the form holds while a split is edited. Equal splits list the members
+// sharing; the other types keep the typed value per member, and a member
+// without a value is left out.
+export interface SplitDraft {
+  type: SplitType | null;
+  memberIds: string[];
+  values: Record<string, string>;
+}
+
+export const emptySplitDraft: SplitDraft = { type: null, memberIds: [], values: {} };
+
+export const toSplitDraft = (type: SplitType | null, splits: ExpenseSplit[]): SplitDraft => ({
+  type,
+  memberIds: splits.map((split) => split.memberId),
+  values: Object.fromEntries(
+    splits.map((split) => [
+      split.memberId,
+      split.value === null ? '' : type === 'exact' ? centsToInput(split.value) : String(split.value),
+    ])
+  ),
+});
+
+// Null when the expense is not shared; values that are not numbers become
+// NaN, which validateSplit reports
+export const toSplitInput = (draft: SplitDraft): ExpenseSplitInput | null => {
+  if (!draft.type) return null;
+  if (draft.type === 'equal') {
+    return {
+      type: 'equal',
+      shares: draft.memberIds.map((memberId) => ({ memberId, value: null })),
+    };
+  }
+
+  const shares = Object.entries(draft.values)
+    .filter(([, text]) => text.trim() !== '')
+    .map(([memberId, text]) => ({
+      memberId,
+      value: draft.type === 'exact' ? (parseMoney(text) ?? NaN) : Number(text.replace(',', '.')),
+    }));
+  return { type: draft.type, shares };
+};
+
+const splitOptions: { value: SplitType | null; label: string }[] = [
+  { value: null, label: 'Not split' },
+  { value: 'equal', label: 'Equally' },
+  { value: 'percentage', label: 'By %' },
+  { value: 'shares', label: 'By shares' },
+  { value: 'exact', label: 'Exact amounts' },
+];
+
+const valuePlaceholders: Record<Exclude<SplitType, 'equal'>, string> = {
+  percentage: '%',
+  shares: 'Shares',
+  exact: 'Amount',
+};
+
+interface SplitEditorProps {
+  value: SplitDraft;
+  onChange: (draft: SplitDraft) => void;
+}
+
+// Hidden until the household has two members to split between
+export default function SplitEditor({ value, onChange }: SplitEditorProps) {
+  const { members } = useDatabase();
+
+  if (members.length < 2) return null;
+
+  const selectType = (type: SplitType | null) => {
+    // Starting an equal split shares the expense with everyone
+    const memberIds = type === 'equal' && value.memberIds.length === 0
+      ? members.map((member) => member.id)
+      : value.memberIds;
+    onChange({ ...value, type, memberIds });
+  };
+
+  const toggleMember = (memberId: string) => {
+    const memberIds = value.memberIds.includes(memberId)
+      ? value.memberIds.filter((id) => id !== memberId)
+      : [...value.memberIds, memberId];
+    onChange({ ...value, memberIds });
+  };
+
+  const setMemberValue = (memberId: string, text: string) => {
+    onChange({ ...value, values: { ...value.values, [memberId]: text } });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Split</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {splitOptions.map((option) => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.option, value.type === option.value && styles.selectedOption]}
+            onPress={() => selectType(option.value)}
+          >
+            <Text style={[styles.optionText, value.type === option.value && styles.selectedOptionText]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {value.type === 'equal' && (
+        <View style={styles.memberChips}>
+          {members.map((member) => {
+            const selected = value.memberIds.includes(member.id);
+            return (
+              <TouchableOpacity
+                key={member.id}
+                style={[styles.option, selected && styles.selectedOption]}
+                onPress={() => toggleMember(member.id)}
+              >
+                <Text style={[styles.optionText, selected && styles.selectedOptionText]}>
+                  {member.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {value.type && value.type !== 'equal' && (
+        <View style={styles.memberValues}>
+          {members.map((member) => (
+            <View key={member.id} style={styles.memberRow}>
+              <Text style={styles.memberName}>{member.name}</Text>
+              <TextInput
+                style={styles.valueInput}
+                placeholder={valuePlaceholders[value.type as Exclude<SplitType, 'equal'>]}
+                value={value.values[member.id] ?? ''}
+                onChangeText={(text) => setMemberValue(member.id, text)}
+                keyboardType="numeric"
+              />
+            </View>
+          ))}
+          <Text style={styles.hint}>Leave a member empty to leave them out.</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  option: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  selectedOption: {
+    backgroundColor: '#2563EB',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  selectedOptionText: {
+    color: '#FFFFFF',
+  },
+  memberChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  memberValues: {
+    marginTop: 12,
+    gap: 8,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#111827',
+  },
+  valueInput: {
+    width: 100,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,490 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { CircleCheck as CheckCircle, Circle, FileUp } from 'lucide-react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import CurrencyPicker from '@/components/CurrencyPicker';
+import { formatMoney } from '@/db/money';
+import { pickStatementFile } from '@/db/statement-file';
+import {
+  buildImportPreview,
+  detectStatementFormat,
+  guessCsvMapping,
+  mapCsvRows,
+  parseCsv,
+  parseOfx,
+  statementDateFormats,
+  type CsvColumnMapping,
+  type ImportPreview,
+  type StatementParseResult,
+} from '@/db/statement-import';
+
+type ImportStep = 'pick' | 'map' | 'preview';
+
+interface StatementImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  categories: string[];
+}
+
+type MappedColumn = 'date' | 'description' | 'amount' | 'debit' | 'credit';
+
+const mappedColumns: { key: MappedColumn; label: string; optional: boolean }[] = [
+  { key: 'date', label: 'Date', optional: false },
+  { key: 'description', label: 'Description', optional: false },
+  { key: 'amount', label: 'Amount', optional: true },
+  { key: 'debit', label: 'Debit (money out)', optional: true },
+  { key: 'credit', label: 'Credit (money in)', optional: true },
+];
+
+export default function StatementImportModal({ visible, onClose, categories }: StatementImportModalProps) {
+  const { expenses, categorizationRules, baseCurrency, importExpenses } = useDatabase();
+  const [step, setStep] = useState<ImportStep>('pick');
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [unreadable, setUnreadable] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<string, string>>({});
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (visible) setCurrency(baseCurrency);
+  }, [visible, baseCurrency]);
+
+  const reset = () => {
+    setStep('pick');
+    setFileName('');
+    setCsvRows([]);
+    setMapping(null);
+    setPreview(null);
+    setUnreadable(0);
+    setSelected(new Set());
+    setCategoryOverrides({});
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const showPreview = (result: StatementParseResult) => {
+    const nextPreview = buildImportPreview(result.transactions, expenses, {
+      currency,
+      rules: categorizationRules,
+    });
+    setPreview(nextPreview);
+    setUnreadable(result.errors.length);
+    setSelected(new Set(nextPreview.rows.filter((row) => !row.duplicate).map((row) => row.key)));
+    setCategoryOverrides({});
+    setStep('preview');
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const file = await pickStatementFile();
+      if (!file) return;
+      setFileName(file.name);
+
+      if (detectStatementFormat(file.name, file.text) === 'ofx') {
+        showPreview(parseOfx(file.text));
+        return;
+      }
+
+      const rows = parseCsv(file.text);
+      if (rows.length < 2) {
+        Alert.alert('Error', 'No transactions found in this file');
+        return;
+      }
+      setCsvRows(rows);
+      setMapping(guessCsvMapping(rows));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading statement:', error);
+      Alert.alert('Error', 'Failed to read the statement file');
+    }
+  };
+
+  const handlePreviewCsv = () => {
+    if (!mapping) return;
+    if (mapping.amount === null && mapping.debit === null && mapping.credit === null) {
+      Alert.alert('Error', 'Please choose an amount column, or debit and credit columns');
+      return;
+    }
+    showPreview(mapCsvRows(csvRows, mapping, currency));
+  };
+
+  const toggleRow = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelected(next);
+  };
+
+  const cycleCategory = (key: string, current: string) => {
+    const index = categories.indexOf(current);
+    setCategoryOverrides({
+      ...categoryOverrides,
+      [key]: categories[(index + 1) % categories.length],
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const rows = preview.rows
+      .filter((row) => selected.has(row.key))
+      .map((row) => ({
+        ...row.expense,
+        category: categoryOverrides[row.key] ?? row.expense.category,
+      }));
+    if (rows.length === 0) {
+      Alert.alert('Error', 'Please select at least one transaction');
+      return;
+    }
+
+    setIsWorking(true);
+    const count = await importExpenses(rows);
+    setIsWorking(false);
+    // The import is all or nothing, so a failure leaves the preview open to retry
+    if (count < rows.length) {
+      Alert.alert('Import Failed', 'No expenses were imported, please try again');
+      return;
+    }
+    Alert.alert('Import Complete', `${count} expenses imported`);
+    handleClose();
+  };
+
+  const header = csvRows[0] || [];
+  const sample = csvRows[1] || [];
+  const duplicates = preview ? preview.rows.filter((row) => row.duplicate).length : 0;
+
+  const renderColumnPicker = ({ key, label, optional }: (typeof mappedColumns)[number]) => {
+    if (!mapping) return null;
+    const value = mapping[key];
+    return (
+      <View key={key} style={styles.section}>
+        <Text style={styles.label}>{label}</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {optional && (
+            <TouchableOpacity
+              style={[styles.chip, value === null && styles.selectedChip]}
+              onPress={() => setMapping({ ...mapping, [key]: null })}
+            >
+              <Text style={[styles.chipText, value === null && styles.selectedChipText]}>None</Text>
+            </TouchableOpacity>
+          )}
+          {header.map((column, index) => (
+            <TouchableOpacity
+              key={index}
+              style={[styles.chip, value === index && styles.selectedChip]}
+              onPress={() => setMapping({ ...mapping, [key]: index })}
+            >
+              <Text style={[styles.chipText, value === index && styles.selectedChipText]}>
+                {column || `Column ${index + 1}`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        {value !== null && sample[value] !== undefined && (
+          <Text style={styles.sample}>e.g. {sample[value]}</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Import Statement</Text>
+
+          {step === 'pick' && (
+            <View>
+              <Text style={styles.note}>
+                Choose a CSV, OFX or QFX file exported from your bank. You can review every
+                transaction before it is added.
+              </Text>
+              <CurrencyPicker
+                label="Statement currency"
+                value={currency}
+                onChange={setCurrency}
+              />
+              <TouchableOpacity style={styles.pickButton} onPress={handlePickFile}>
+                <FileUp size={20} color="#FFFFFF" />
+                <Text style={styles.primaryButtonText}>Choose File</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {step === 'map' && mapping && (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.note}>Match the columns of {fileName}</Text>
+              {mappedColumns.map(renderColumnPicker)}
+
+              <View style={styles.section}>
+                <Text style={styles.label}>Date format</Text>
+                <View style={styles.chipRow}>
+                  {statementDateFormats.map((format) => (
+                    <TouchableOpacity
+                      key={format}
+                      style={[styles.chip, mapping.dateFormat === format && styles.selectedChip]}
+                      onPress={() => setMapping({ ...mapping, dateFormat: format })}
+                    >
+                      <Text style={[styles.chipText, mapping.dateFormat === format && styles.selectedChipText]}>
+                        {format}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {mapping.amount !== null && (
+                <View style={styles.section}>
+                  <Text style={styles.label}>Expenses appear as</Text>
+                  <View style={styles.chipRow}>
+                    {[true, false].map((negative) => (
+                      <TouchableOpacity
+                        key={String(negative)}
+                        style={[styles.chip, mapping.expensesAreNegative === negative && styles.selectedChip]}
+                        onPress={() => setMapping({ ...mapping, expensesAreNegative: negative })}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            mapping.expensesAreNegative === negative && styles.selectedChipText,
+                          ]}
+                        >
+                          {negative ? 'Negative amounts' : 'Positive amounts'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+            </ScrollView>
+          )}
+
+          {step === 'preview' && preview && (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.note}>
+                {preview.rows.length - duplicates} new · {duplicates} already imported
+                {preview.skippedCredits > 0 && ` · ${preview.skippedCredits} credits skipped`}
+                {unreadable > 0 && ` · ${unreadable} unreadable`}
+              </Text>
+
+              {preview.rows.map((row) => {
+                const category = categoryOverrides[row.key] ?? row.expense.category;
+                return (
+                  <View key={row.key} style={styles.previewRow}>
+                    <TouchableOpacity onPress={() => toggleRow(row.key)}>
+                      {selected.has(row.key) ? (
+                        <CheckCircle size={22} color="#059669" />
+                      ) : (
+                        <Circle size={22} color="#D1D5DB" />
+                      )}
+                    </TouchableOpacity>
+                    <View style={styles.previewDetails}>
+                      <Text style={styles.previewName} numberOfLines={1}>
+                        {row.expense.name}
+                      </Text>
+                      <Text style={styles.previewMeta}>
+                        {row.expense.dueDate}
+                        {row.duplicate && ' · Duplicate'}
+                      </Text>
+                    </View>
+                    <View style={styles.previewRight}>
+                      <Text style={styles.previewAmount}>
+                        {formatMoney(row.expense.amount, row.expense.currency)}
+                      </Text>
+                      <TouchableOpacity onPress={() => cycleCategory(row.key, category)}>
+                        <Text style={styles.previewCategory}>{category}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+
+              {preview.rows.length === 0 && (
+                <Text style={styles.note}>No expenses found in {fileName}</Text>
+              )}
+            </ScrollView>
+          )}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            {step === 'map' && (
+              <TouchableOpacity style={styles.primaryButton} onPress={handlePreviewCsv}>
+                <Text style={styles.primaryButtonText}>Preview</Text>
+              </TouchableOpacity>
+            )}
+            {step === 'preview' && (
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={handleImport}
+                disabled={isWorking}
+              >
+                {isWorking ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Import {selected.size}</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#2563EB',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  sample: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 6,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  previewDetails: {
+    flex: 1,
+  },
+  previewName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  previewMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  previewRight: {
+    alignItems: 'flex-end',
+  },
+  previewAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  previewCategory: {
+    fontSize: 12,
+    color: '#2563EB',
+    marginTop: 2,
+  },
+  pickButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,360 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StyleSheet,
+} from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import type { SyncStatus } from '@/db/sync';
+import type { SyncPeer } from '@/db/schema';
+
+interface SyncModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const isWeb = Platform.OS === 'web';
+
+export default function SyncModal({ visible, onClose }: SyncModalProps) {
+  const { getSyncStatus, setSyncEnabled, renameSyncDevice, pairSyncDevice, syncNow, removeSyncPeer } = useDatabase();
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [deviceName, setDeviceName] = useState('');
+  const [address, setAddress] = useState('');
+  const [code, setCode] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadStatus = async () => {
+    const loaded = await getSyncStatus();
+    setStatus(loaded);
+    setDeviceName(loaded?.device.name ?? '');
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadStatus();
+    }
+  }, [visible]);
+
+  const isEnabled = status?.device.isEnabled ?? false;
+
+  const handleToggle = async (enabled: boolean) => {
+    await setSyncEnabled(enabled);
+    await loadStatus();
+  };
+
+  const handleRename = async () => {
+    if (!deviceName.trim() || deviceName.trim() === status?.device.name) return;
+    await renameSyncDevice(deviceName);
+    await loadStatus();
+  };
+
+  const handlePair = async () => {
+    if (!address.trim() || !code.trim()) {
+      Alert.alert('Error', 'Enter the address and pairing code shown on the other device');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await pairSyncDevice(address, code);
+      setAddress('');
+      setCode('');
+      await loadStatus();
+    } catch (error) {
+      Alert.alert('Pairing Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSync = async () => {
+    setIsWorking(true);
+    const synced = await syncNow();
+    await loadStatus();
+    setIsWorking(false);
+    if (!synced) {
+      Alert.alert('Sync Incomplete', 'Some devices could not be reached. Check that they are on the same network with sync turned on.');
+    }
+  };
+
+  const handleRemove = (peer: SyncPeer) => {
+    Alert.alert('Remove Device', `Stop syncing with ${peer.name}? Data already synced stays on both devices.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await removeSyncPeer(peer.id);
+          await loadStatus();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Sync Devices</Text>
+
+          <ScrollView style={styles.list}>
+            <View style={styles.toggleRow}>
+              <Text style={styles.toggleLabel}>Sync with other devices</Text>
+              <Switch value={isEnabled} onValueChange={handleToggle} />
+            </View>
+
+            <Text style={styles.note}>
+              Devices on the same Wi-Fi network share all household data. Changes made on several devices are
+              merged, and the latest change to each field wins.
+            </Text>
+
+            {isEnabled && (
+              <>
+                <Text style={styles.label}>This device</Text>
+                <TextInput
+                  style={styles.input}
+                  value={deviceName}
+                  onChangeText={setDeviceName}
+                  onBlur={handleRename}
+                  placeholder="Device name"
+                />
+                {status?.address ? (
+                  <View style={styles.pairingInfo}>
+                    <Text style={styles.pairingText}>Address: {status.address}</Text>
+                    <Text style={styles.pairingText}>Pairing code: {status.device.code}</Text>
+                  </View>
+                ) : (
+                  <Text style={styles.note}>
+                    {isWeb
+                      ? 'The web app cannot be called by other devices. Pair it with a phone to sync.'
+                      : 'Connect to Wi-Fi so other devices can pair with this one.'}
+                  </Text>
+                )}
+
+                <Text style={styles.label}>Paired devices</Text>
+                {status?.peers.length === 0 ? (
+                  <Text style={styles.emptyText}>No paired devices yet</Text>
+                ) : (
+                  status?.peers.map((peer) => (
+                    <View key={peer.id} style={styles.peerItem}>
+                      <View style={styles.peerInfo}>
+                        <Text style={styles.peerName}>{peer.name}</Text>
+                        <Text style={styles.peerDetails}>
+                          {peer.lastSyncedAt ? `Synced ${new Date(peer.lastSyncedAt).toLocaleString()}` : 'Not synced yet'}
+                          {peer.address ? ` · ${peer.address}` : ''}
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => handleRemove(peer)} disabled={isWorking}>
+                        <Text style={styles.deleteButtonText}>Remove</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))
+                )}
+
+                <Text style={[styles.label, styles.sectionSpacing]}>Pair a device</Text>
+                <TextInput
+                  style={styles.input}
+                  value={address}
+                  onChangeText={setAddress}
+                  placeholder="Address, e.g. 192.168.1.20:8765"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <View style={styles.pairRow}>
+                  <TextInput
+                    style={[styles.input, styles.codeInput]}
+                    value={code}
+                    onChangeText={setCode}
+                    placeholder="Pairing code"
+                    keyboardType="number-pad"
+                  />
+                  <TouchableOpacity style={styles.pairButton} onPress={handlePair} disabled={isWorking}>
+                    <Text style={styles.pairButtonText}>Pair</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Close</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.syncButton, (!isEnabled || status?.peers.length === 0) && styles.disabledButton]}
+              onPress={handleSync}
+              disabled={isWorking || !isEnabled || status?.peers.length === 0}
+            >
+              {isWorking ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.syncButtonText}>Sync Now</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  list: {
+    marginBottom: 16,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  toggleLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  pairingInfo: {
+    backgroundColor: '#F0F9FF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    gap: 4,
+  },
+  pairingText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#0369A1',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  peerItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  peerInfo: {
+    flex: 1,
+  },
+  peerName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  peerDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  sectionSpacing: {
+    marginTop: 16,
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#DC2626',
+  },
+  pairRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  codeInput: {
+    flex: 1,
+  },
+  pairButton: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  pairButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  syncButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  syncButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
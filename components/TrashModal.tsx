@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import { useDatabase, type Trash, type TrashKind } from '@/contexts/DatabaseContext';
+import { formatMoney } from '@/db/money';
+
+interface TrashModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface TrashItem {
+  kind: TrashKind;
+  id: string;
+  name: string;
+  details: string;
+  deletedAt: string;
+}
+
+const SECTIONS: { kind: TrashKind; title: string }[] = [
+  { kind: 'expenses', title: 'Expenses' },
+  { kind: 'budgetAllocations', title: 'Budgets' },
+  { kind: 'groceryLists', title: 'Grocery lists' },
+];
+
+export default function TrashModal({ visible, onClose }: TrashModalProps) {
+  const { getTrash, restoreFromTrash, purgeFromTrash, baseCurrency } = useDatabase();
+  const [trash, setTrash] = useState<Trash | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadTrash = async () => {
+    setTrash(await getTrash());
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setTrash(null);
+      loadTrash();
+    }
+  }, [visible]);
+
+  const itemsOf = (kind: TrashKind): TrashItem[] => {
+    if (!trash) return [];
+    switch (kind) {
+      case 'expenses':
+        return trash.expenses.map((expense) => ({
+          kind,
+          id: expense.id,
+          name: expense.name,
+          details: `${formatMoney(expense.amount, expense.currency)} · due ${expense.dueDate}`,
+          deletedAt: expense.deletedAt!,
+        }));
+      case 'budgetAllocations':
+        return trash.budgetAllocations.map((allocation) => ({
+          kind,
+          id: allocation.id,
+          name: allocation.name,
+          details: `${formatMoney(allocation.limit, baseCurrency)} for ${allocation.month}`,
+          deletedAt: allocation.deletedAt!,
+        }));
+      case 'groceryLists':
+        return trash.groceryLists.map((list) => ({
+          kind,
+          id: list.id,
+          name: list.name,
+          details: formatMoney(list.totalCost || 0, list.currency),
+          deletedAt: list.deletedAt!,
+        }));
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setIsWorking(true);
+    await restoreFromTrash(item.kind, item.id);
+    await loadTrash();
+    setIsWorking(false);
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    Alert.alert('Delete Forever', `"${item.name}" will be deleted for good. This cannot be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setIsWorking(true);
+          await purgeFromTrash(item.kind, item.id);
+          await loadTrash();
+          setIsWorking(false);
+        },
+      },
+    ]);
+  };
+
+  const isEmpty = trash !== null && SECTIONS.every((section) => itemsOf(section.kind).length === 0);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Trash</Text>
+
+          <ScrollView style={styles.list}>
+            <Text style={styles.note}>
+              Deleted expenses, budgets and grocery lists stay here until you restore them or delete them for good.
+            </Text>
+
+            {trash === null ? (
+              <ActivityIndicator color="#2563EB" style={styles.loading} />
+            ) : isEmpty ? (
+              <Text style={styles.emptyText}>The trash is empty</Text>
+            ) : (
+              SECTIONS.map((section) => {
+                const items = itemsOf(section.kind);
+                if (items.length === 0) return null;
+                return (
+                  <View key={section.kind}>
+                    <Text style={styles.label}>{section.title}</Text>
+                    {items.map((item) => (
+                      <View key={item.id} style={styles.trashItem}>
+                        <View style={styles.trashInfo}>
+                          <Text style={styles.trashName}>{item.name}</Text>
+                          <Text style={styles.trashDetails}>
+                            {item.details} · deleted {new Date(item.deletedAt).toLocaleString()}
+                          </Text>
+                        </View>
+                        <TouchableOpacity onPress={() => handleRestore(item)} disabled={isWorking}>
+                          <Text style={styles.restoreButtonText}>Restore</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => handlePurge(item)} disabled={isWorking}>
+                          <Text style={styles.deleteButtonText}>Delete</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ))}
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  list: {
+    marginBottom: 16,
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  loading: {
+    paddingVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  trashItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  trashInfo: {
+    flex: 1,
+  },
+  trashName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  trashDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  restoreButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2563EB',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#DC2626',
+  },
+  closeButton: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,82 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+
+// How long the bar stays up after an action
+const NOTICE_DURATION_MS = 5000;
+
+interface UndoSnackbarProps {
+  // Distance from the bottom of the screen; the default clears the tab bar
+  bottom?: number;
+}
+
+// Shown over every screen after a delete or a toggle, with the buttons to
+// take it back. Modals cover it, so a modal that offers undoable actions
+// shows its own.
+export default function UndoSnackbar({ bottom = 81 }: UndoSnackbarProps) {
+  const { commandNotice, dismissCommandNotice, canUndo, canRedo, undo, redo } = useDatabase();
+
+  useEffect(() => {
+    if (!commandNotice) return;
+    const timeout = setTimeout(dismissCommandNotice, NOTICE_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [commandNotice?.id]);
+
+  if (!commandNotice) return null;
+
+  return (
+    <View style={[styles.container, { bottom }]} pointerEvents="box-none">
+      <View style={styles.snackbar}>
+        <Text style={styles.message} numberOfLines={2}>
+          {commandNotice.message}
+        </Text>
+        {canUndo && (
+          <TouchableOpacity onPress={undo} style={styles.action}>
+            <Text style={styles.actionText}>Undo</Text>
+          </TouchableOpacity>
+        )}
+        {canRedo && (
+          <TouchableOpacity onPress={redo} style={styles.action}>
+            <Text style={styles.actionText}>Redo</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+  },
+  snackbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111827',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    gap: 8,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  action: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#93C5FD',
+  },
+});
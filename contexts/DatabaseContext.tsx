@@ -1,61 +1,253 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef, ReactNode } from 'react';
 import { Platform } from 'react-native';
-import { initializeDatabase, seedDatabase } from '@/db/database';
-import { initializeWebDatabase } from '@/db/database-web';
+import * as Network from 'expo-network';
+import { initializeDatabase, seedDatabase, resetDatabase } from '@/db/database';
+import { initializeWebDatabase, webDb } from '@/db/database-web';
+import { runMonthlyRollover } from '@/db/rollover';
+import { DEFAULT_CURRENCY, createConverter } from '@/db/currency';
+import { createExport, type ExportOptions } from '@/db/export';
+import { shareExportFiles } from '@/db/export-share';
+import type { GroceryItemDraft } from '@/db/grocery';
+import { getBalances as calculateMemberBalances, settleUp as recordSettleUp, type ExpenseSplitInput, type MemberBalance, type Transfer } from '@/db/splits';
+import type { BackupManifest, BackupCompatibility } from '@/db/backup-manifest';
+import type { AuditEntity } from '@/db/audit';
+import { syncReminders, type Notifier } from '@/db/reminders';
+import { getTimelineRange, groupBills, toDateString, type BillTimeline } from '@/db/bills';
+import { getAmountDue } from '@/db/payments';
+import type { AccountBalance, LedgerEntry } from '@/db/accounts';
+import { localNotifier } from '@/db/notifications';
+import { emptyHistory, runCommand, undoCommand, redoCommand, type Command, type CommandHistory } from '@/db/commands';
+import { backupService } from '@/db/backup';
+import { webBackupService } from '@/db/backup-web';
+import { createPairingGuard, receiveSync, syncWithPeer, syncWithPeers as runPeerSync, type SyncRequest, type SyncStatus } from '@/db/sync';
+import { syncService } from '@/db/sync-store';
+import { webSyncService } from '@/db/sync-store-web';
+import { SYNC_PORT, createHttpTransport, normalizeAddress } from '@/db/sync-transport';
+import { startSyncServer, type SyncServer } from '@/db/sync-server';
 import {
   expenseService,
-  budgetCategoryService,
+  categoryService,
+  budgetAllocationService,
   groceryListService,
   groceryItemService,
   financialSettingsService,
+  monthlySavingsService,
+  rolloverService,
+  recurringExpenseService,
+  exchangeRateService,
+  categorizationRuleService,
+  memberService,
+  expenseSplitService,
+  paymentService,
+  settlementService,
+  accountService,
+  incomeService,
+  accountTransferService,
+  auditService,
 } from '@/db/services';
 import {
   webExpenseService,
-  webBudgetCategoryService,
+  webCategoryService,
+  webBudgetAllocationService,
   webGroceryListService,
   webGroceryItemService,
   webFinancialSettingsService,
+  webMonthlySavingsService,
+  webRolloverService,
+  webRecurringExpenseService,
+  webExchangeRateService,
+  webCategorizationRuleService,
+  webMemberService,
+  webExpenseSplitService,
+  webPaymentService,
+  webSettlementService,
+  webAccountService,
+  webIncomeService,
+  webAccountTransferService,
+  webAuditService,
 } from '@/db/services-web';
 import type {
   Expense,
-  BudgetCategory,
+  Category,
   GroceryList,
   GroceryItem,
   FinancialSettings,
+  MonthlySavings,
+  NewExpense,
+  RecurringExpense,
+  NewRecurringExpense,
+  NewGroceryList,
+  ExchangeRate,
+  CategorizationRule,
+  NewCategorizationRule,
+  Member,
+  NewMember,
+  ExpenseSplit,
+  Payment,
+  NewPayment,
+  Settlement,
+  NewSettlement,
+  Account,
+  NewAccount,
+  Income,
+  NewIncome,
+  AccountTransfer,
+  NewAccountTransfer,
+  AuditEntry,
 } from '@/db/schema';
+import type {
+  ExpenseRepository,
+  CategoryRepository,
+  BudgetAllocationRepository,
+  BudgetAllocationWithCategory,
+  GroceryListRepository,
+  GroceryItemRepository,
+  FinancialSettingsRepository,
+  MonthlySavingsRepository,
+  RolloverRepository,
+  RecurringExpenseRepository,
+  RecurringExpenseUpdateOptions,
+  ExchangeRateRepository,
+  ExchangeRateInput,
+  CategorizationRuleRepository,
+  MemberRepository,
+  ExpenseSplitRepository,
+  PaymentRepository,
+  SettlementRepository,
+  AccountRepository,
+  IncomeRepository,
+  AccountTransferRepository,
+  BackupRepository,
+  SyncRepository,
+  AuditRepository,
+  DashboardData,
+  GroceryListWithItems,
+} from '@/db/repositories';
 
 const isWeb = Platform.OS === 'web';
 
-// Platform-aware service selection
-const getExpenseService = () => isWeb ? webExpenseService : expenseService;
-const getBudgetCategoryService = () => isWeb ? webBudgetCategoryService : budgetCategoryService;
-const getGroceryListService = () => isWeb ? webGroceryListService : groceryListService;
-const getGroceryItemService = () => isWeb ? webGroceryItemService : groceryItemService;
-const getFinancialSettingsService = () => isWeb ? webFinancialSettingsService : financialSettingsService;
+// Platform-aware repository selection
+const getExpenseService = (): ExpenseRepository => isWeb ? webExpenseService : expenseService;
+const getCategoryService = (): CategoryRepository => isWeb ? webCategoryService : categoryService;
+const getBudgetAllocationService = (): BudgetAllocationRepository => isWeb ? webBudgetAllocationService : budgetAllocationService;
+const getGroceryListService = (): GroceryListRepository => isWeb ? webGroceryListService : groceryListService;
+const getGroceryItemService = (): GroceryItemRepository => isWeb ? webGroceryItemService : groceryItemService;
+const getFinancialSettingsService = (): FinancialSettingsRepository => isWeb ? webFinancialSettingsService : financialSettingsService;
+const getMonthlySavingsService = (): MonthlySavingsRepository => isWeb ? webMonthlySavingsService : monthlySavingsService;
+const getRolloverService = (): RolloverRepository => isWeb ? webRolloverService : rolloverService;
+const getRecurringExpenseService = (): RecurringExpenseRepository => isWeb ? webRecurringExpenseService : recurringExpenseService;
+const getExchangeRateService = (): ExchangeRateRepository => isWeb ? webExchangeRateService : exchangeRateService;
+const getCategorizationRuleService = (): CategorizationRuleRepository => isWeb ? webCategorizationRuleService : categorizationRuleService;
+const getMemberService = (): MemberRepository => isWeb ? webMemberService : memberService;
+const getExpenseSplitService = (): ExpenseSplitRepository => isWeb ? webExpenseSplitService : expenseSplitService;
+const getPaymentService = (): PaymentRepository => isWeb ? webPaymentService : paymentService;
+const getSettlementService = (): SettlementRepository => isWeb ? webSettlementService : settlementService;
+const getAccountService = (): AccountRepository => isWeb ? webAccountService : accountService;
+const getIncomeService = (): IncomeRepository => isWeb ? webIncomeService : incomeService;
+const getAccountTransferService = (): AccountTransferRepository => isWeb ? webAccountTransferService : accountTransferService;
+const getBackupService = (): BackupRepository => isWeb ? webBackupService : backupService;
+const getSyncService = (): SyncRepository => isWeb ? webSyncService : syncService;
+const getAuditService = (): AuditRepository => isWeb ? webAuditService : auditService;
+// Browsers cannot schedule notifications, so only the apps send bill reminders
+const getNotifier = (): Notifier | null => isWeb ? null : localNotifier;
+
+// Budgets are entered by category name; the category is created on first use
+export interface BudgetAllocationInput {
+  name: string;
+  limit: number;
+  month: string;
+}
+
+// Records that can be deleted to the trash and restored from it
+export type TrashKind = 'expenses' | 'budgetAllocations' | 'groceryLists';
+
+export interface Trash {
+  expenses: Expense[];
+  budgetAllocations: BudgetAllocationWithCategory[];
+  groceryLists: GroceryList[];
+}
+
+const getTrashService = (kind: TrashKind) => ({
+  expenses: getExpenseService(),
+  budgetAllocations: getBudgetAllocationService(),
+  groceryLists: getGroceryListService(),
+})[kind];
+
+// What the undo bar shows after an action; a new id shows it again even when
+// the message is the same
+export interface CommandNotice {
+  id: number;
+  message: string;
+}
 
 interface DatabaseContextType {
   // Data
   expenses: Expense[];
-  budgetCategories: BudgetCategory[];
-  groceryLists: (GroceryList & { items: (GroceryItem & { priceHistory: any[] })[] })[];
+  recurringExpenses: RecurringExpense[];
+  categories: Category[];
+  budgetAllocations: BudgetAllocationWithCategory[];
+  groceryLists: GroceryListWithItems[];
   financialSettings: FinancialSettings | null;
+  exchangeRates: ExchangeRate[];
+  categorizationRules: CategorizationRule[];
+  members: Member[];
+  expenseSplits: ExpenseSplit[];
+  payments: Payment[];
+  settlements: Settlement[];
+  accounts: Account[];
+  // In each account's currency
+  accountBalances: AccountBalance[];
+  // Newest first
+  incomes: Income[];
+  accountTransfers: AccountTransfer[];
+  // The savings account's balance in the base currency, or the amount typed
+  // in the savings settings when there is no savings account
+  currentSavings: number;
+  // The member who uses this device, named in the change log
+  deviceMemberId: string | null;
+  baseCurrency: string;
   
   // Loading state
   isLoading: boolean;
+
+  // Set when the database could not be opened or migrated; the data is left
+  // as it was and the app shows the recovery screen instead
+  initError: string | null;
+  retryInitialization: () => Promise<void>;
+  // Deletes every record and starts over with a new database
+  resetAllData: () => Promise<void>;
   
   // Expense methods
-  addExpense: (expense: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  // Returns the new expense, or null when it could not be saved
+  addExpense: (expense: Omit<NewExpense, 'id'>) => Promise<Expense | null>;
   updateExpense: (id: string, updates: Partial<Expense>) => Promise<void>;
+  // With payments on record, marking paid records the rest of the amount as
+  // paid today
+  toggleExpensePaid: (id: string) => Promise<void>;
+  // Shows the unpaid expense in the bills timeline on `until` (YYYY-MM-DD)
+  // instead of its due date; null ends the snooze
+  snoozeExpense: (id: string, until: string | null) => Promise<void>;
+  // Unpaid expenses from overdue through next month
+  getBillsTimeline: () => Promise<BillTimeline>;
+  // Moves the expense to the trash
   deleteExpense: (id: string) => Promise<void>;
+  importExpenses: (expenses: Omit<NewExpense, 'id'>[]) => Promise<number>;
   
-  // Budget category methods
-  addBudgetCategory: (category: Omit<BudgetCategory, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateBudgetCategory: (id: string, updates: Partial<BudgetCategory>) => Promise<void>;
-  deleteBudgetCategory: (id: string) => Promise<void>;
+  // Recurring expense template methods
+  addRecurringExpense: (template: Omit<NewRecurringExpense, 'id'>, month: string) => Promise<void>;
+  updateRecurringExpense: (id: string, updates: Partial<NewRecurringExpense>, options?: RecurringExpenseUpdateOptions) => Promise<void>;
+  deleteRecurringExpense: (id: string) => Promise<void>;
+  
+  // Budget allocation methods
+  addBudgetAllocation: (allocation: BudgetAllocationInput) => Promise<void>;
+  updateBudgetAllocation: (id: string, updates: Partial<BudgetAllocationInput>) => Promise<void>;
+  // Moves the budget to the trash
+  deleteBudgetAllocation: (id: string) => Promise<void>;
   
   // Grocery list methods
-  addGroceryList: (list: Omit<GroceryList, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateGroceryList: (id: string, updates: Partial<GroceryList>) => Promise<void>;
+  addGroceryList: (list: Omit<NewGroceryList, 'id' | 'totalCost'>, items?: GroceryItemDraft[]) => Promise<void>;
+  updateGroceryList: (id: string, updates: Partial<GroceryList>, items?: GroceryItemDraft[]) => Promise<void>;
+  // Moves the list to the trash
   deleteGroceryList: (id: string) => Promise<void>;
   
   // Grocery item methods
@@ -67,12 +259,106 @@ interface DatabaseContextType {
   // Financial settings methods
   updateFinancialSettings: (updates: Partial<FinancialSettings>) => Promise<void>;
   
+  // Exchange rate methods
+  saveExchangeRate: (rate: ExchangeRateInput) => Promise<void>;
+  deleteExchangeRate: (id: string) => Promise<void>;
+  importExchangeRates: (rates: ExchangeRateInput[]) => Promise<number>;
+  convertToBase: (amount: number, currency?: string | null) => number;
+  
+  // Categorization rule methods
+  addCategorizationRule: (rule: Omit<NewCategorizationRule, 'id'>) => Promise<void>;
+  updateCategorizationRule: (id: string, updates: Partial<NewCategorizationRule>) => Promise<void>;
+  deleteCategorizationRule: (id: string) => Promise<void>;
+  reorderCategorizationRules: (ids: string[]) => Promise<void>;
+  applyRulesToMonth: (month: string) => Promise<number>;
+  
+  // Household member methods
+  addMember: (member: Omit<NewMember, 'id'>) => Promise<void>;
+  updateMember: (id: string, updates: Partial<NewMember>) => Promise<void>;
+  // Expenses and grocery lists the member paid for become unassigned
+  deleteMember: (id: string) => Promise<void>;
+  setDeviceMember: (memberId: string | null) => Promise<void>;
+
+  // Bill reminders
+  remindersSupported: boolean;
+  // Days before the due date; null turns the category's reminders off
+  setCategoryReminderDays: (id: string, days: number | null) => Promise<void>;
+  
+  // Split and settle-up methods
+  // Throws when the split does not add up, so the form can show why
+  setExpenseSplit: (expenseId: string, split: ExpenseSplitInput | null) => Promise<void>;
+  getMemberBalances: () => Promise<MemberBalance[]>;
+  addSettlement: (settlement: Omit<NewSettlement, 'id'>) => Promise<void>;
+  deleteSettlement: (id: string) => Promise<void>;
+  // Records the transfers that clear every balance and returns them
+  settleUp: () => Promise<Transfer[]>;
+
+  // Payment methods; each one also updates whether the expense is paid
+  addPayment: (payment: Omit<NewPayment, 'id'>) => Promise<void>;
+  updatePayment: (id: string, updates: Partial<Omit<NewPayment, 'id' | 'expenseId'>>) => Promise<void>;
+  deletePayment: (id: string) => Promise<void>;
+
+  // Account methods
+  addAccount: (account: Omit<NewAccount, 'id'>) => Promise<void>;
+  updateAccount: (id: string, updates: Partial<NewAccount>) => Promise<void>;
+  // Its expenses and incomes are left without an account and its transfers
+  // are deleted
+  deleteAccount: (id: string) => Promise<void>;
+  // Oldest first, with the running balance
+  getAccountLedger: (id: string) => Promise<LedgerEntry[]>;
+  addIncome: (income: Omit<NewIncome, 'id'>) => Promise<void>;
+  deleteIncome: (id: string) => Promise<void>;
+  // Throws when the transfer is invalid, so the form can show why
+  addAccountTransfer: (transfer: Omit<NewAccountTransfer, 'id'>) => Promise<void>;
+  deleteAccountTransfer: (id: string) => Promise<void>;
+  
+  // Monthly savings methods
+  initializeCurrentMonth: () => Promise<string>;
+  getMonthlySavings: (month: string) => Promise<MonthlySavings | null>;
+  getSavingsHistory: (limit?: number) => Promise<MonthlySavings[]>;
+  
   // Analytics methods
-  getTotalMonthlyExpenses: () => Promise<number>;
-  getRemainingBudget: () => number;
+  getTotalMonthlyExpenses: (month?: string) => Promise<number>;
+  getRemainingBudget: (month: string) => number;
   getSavingsProgress: () => number;
+  getDashboardData: (month: string) => Promise<DashboardData | null>;
   
-  // Refresh data
+  // Export
+  exportData: (options: ExportOptions) => Promise<boolean>;
+
+  // Backups
+  getBackups: () => Promise<BackupManifest[]>;
+  createBackup: () => Promise<boolean>;
+  checkBackup: (id: string) => Promise<BackupCompatibility>;
+  restoreBackup: (id: string) => Promise<boolean>;
+  deleteBackup: (id: string) => Promise<void>;
+
+  // Change log, newest first
+  getRecordHistory: (entity: AuditEntity, entityId: string) => Promise<AuditEntry[]>;
+
+  // Undo and redo of deletes and paid or purchased toggles
+  commandNotice: CommandNotice | null;
+  dismissCommandNotice: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+
+  // Trash
+  getTrash: () => Promise<Trash>;
+  restoreFromTrash: (kind: TrashKind, id: string) => Promise<void>;
+  // Deletes the record for good
+  purgeFromTrash: (kind: TrashKind, id: string) => Promise<void>;
+
+  // Sync
+  getSyncStatus: () => Promise<SyncStatus | null>;
+  setSyncEnabled: (enabled: boolean) => Promise<void>;
+  renameSyncDevice: (name: string) => Promise<void>;
+  pairSyncDevice: (address: string, code: string) => Promise<void>;
+  syncNow: () => Promise<boolean>;
+  removeSyncPeer: (id: string) => Promise<void>;
+
+  // Refresh data; syncs with the paired devices first
   refreshData: () => Promise<void>;
 }
 
@@ -80,34 +366,82 @@ const DatabaseContext = createContext<DatabaseContextType | undefined>(undefined
 
 export function DatabaseProvider({ children }: { children: ReactNode }) {
   const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [budgetCategories, setBudgetCategories] = useState<BudgetCategory[]>([]);
-  const [groceryLists, setGroceryLists] = useState<(GroceryList & { items: (GroceryItem & { priceHistory: any[] })[] })[]>([]);
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [budgetAllocations, setBudgetAllocations] = useState<BudgetAllocationWithCategory[]>([]);
+  const [groceryLists, setGroceryLists] = useState<GroceryListWithItems[]>([]);
   const [financialSettings, setFinancialSettings] = useState<FinancialSettings | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [categorizationRules, setCategorizationRules] = useState<CategorizationRule[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [expenseSplits, setExpenseSplits] = useState<ExpenseSplit[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountBalances, setAccountBalances] = useState<AccountBalance[]>([]);
+  const [incomes, setIncomes] = useState<Income[]>([]);
+  const [accountTransfers, setAccountTransfers] = useState<AccountTransfer[]>([]);
+  const [deviceMemberId, setDeviceMemberId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [initError, setInitError] = useState<string | null>(null);
+  const [commandNotice, setCommandNotice] = useState<CommandNotice | null>(null);
+  const syncServer = useRef<SyncServer | null>(null);
+  const pairingGuard = useRef(createPairingGuard());
+  const commandHistory = useRef<CommandHistory>(emptyHistory);
+  const reminderUpdate = useRef<Promise<void>>(Promise.resolve());
 
   const loadData = async () => {
     try {
       console.log('🔄 Loading data from database...');
       setIsLoading(true);
       
-      const [expensesData, categoriesData, listsData, settingsData] = await Promise.all([
+      const [expensesData, templatesData, categoriesData, allocationsData, listsData, settingsData, ratesData, rulesData, membersData, splitsData, paymentsData, settlementsData, accountsData, balancesData, incomesData, transfersData, deviceData] = await Promise.all([
         getExpenseService().getAll(),
-        getBudgetCategoryService().getAll(),
+        getRecurringExpenseService().getAll(),
+        getCategoryService().getAll(),
+        getBudgetAllocationService().getAll(),
         getGroceryListService().getAll(),
         getFinancialSettingsService().getOrCreate(),
+        getExchangeRateService().getAll(),
+        getCategorizationRuleService().getAll(),
+        getMemberService().getAll(),
+        getExpenseSplitService().getAll(),
+        getPaymentService().getAll(),
+        getSettlementService().getAll(),
+        getAccountService().getAll(),
+        getAccountService().getBalances(),
+        getIncomeService().getAll(),
+        getAccountTransferService().getAll(),
+        getSyncService().getDevice(),
       ]);
       
       console.log('📊 Data loaded:', {
         expenses: expensesData.length,
         categories: categoriesData.length,
+        allocations: allocationsData.length,
         lists: listsData.length,
         settings: !!settingsData
       });
       
       setExpenses(expensesData);
-      setBudgetCategories(categoriesData);
+      setRecurringExpenses(templatesData);
+      setCategories(categoriesData);
+      setBudgetAllocations(allocationsData);
       setGroceryLists(listsData);
-      setFinancialSettings(settingsData as FinancialSettings);
+      setFinancialSettings(settingsData);
+      setExchangeRates(ratesData);
+      setCategorizationRules(rulesData);
+      setMembers(membersData);
+      setExpenseSplits(splitsData);
+      setPayments(paymentsData);
+      setSettlements(settlementsData);
+      setAccounts(accountsData);
+      setAccountBalances(balancesData);
+      setIncomes(incomesData);
+      setAccountTransfers(transfersData);
+      setDeviceMemberId(deviceData.memberId);
+      // In order, so an older load never reschedules after a newer one
+      reminderUpdate.current = reminderUpdate.current.then(() => updateReminders(expensesData, categoriesData));
     } catch (error) {
       console.error('❌ Error loading data:', error);
     } finally {
@@ -115,8 +449,91 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Reschedules the bill reminders after every load, so every change to an
+  // expense is picked up, synced ones included. A failure here must not keep
+  // the app from loading.
+  const updateReminders = async (expensesData: Expense[], categoriesData: Category[]) => {
+    const notifier = getNotifier();
+    if (!notifier) return;
+    try {
+      const changes = await syncReminders(notifier, expensesData, categoriesData);
+      if (changes.scheduled > 0 || changes.cancelled > 0) {
+        console.log('🔔 Bill reminders updated:', changes);
+      }
+    } catch (error) {
+      console.error('❌ Error scheduling bill reminders:', error);
+    }
+  };
+
+  // Catch up on recurring expenses, budgets and savings for every month
+  // since the last run. A failure here must not keep the app from loading.
+  const rollOverMonths = async () => {
+    try {
+      const rolledMonths = await runMonthlyRollover({
+        recurringExpenses: getRecurringExpenseService(),
+        budgetAllocations: getBudgetAllocationService(),
+        monthlySavings: getMonthlySavingsService(),
+        rollovers: getRolloverService(),
+      });
+      if (rolledMonths.length > 0) {
+        console.log('📅 Rolled over months:', rolledMonths);
+      }
+    } catch (error) {
+      console.error('❌ Error running monthly rollover:', error);
+    }
+  };
+
+  // Takes the daily backup. Like the rollover, a failure here must not keep
+  // the app from loading.
+  const runScheduledBackup = async () => {
+    try {
+      const backup = await getBackupService().createScheduledIfDue();
+      if (backup) {
+        console.log('💾 Scheduled backup created:', backup.id);
+      }
+    } catch (error) {
+      console.error('❌ Error creating scheduled backup:', error);
+    }
+  };
+
+  // Peers call in with their changes; the screens reload when any applied
+  const handleSyncRequest = async (request: SyncRequest) => {
+    const { response, applied } = await receiveSync(getSyncService(), request, pairingGuard.current);
+    if (applied > 0) {
+      console.log('🔄 Received changes from', request.name);
+      await loadData();
+    }
+    return response;
+  };
+
+  // Listens for peers while sync is on. Browsers cannot listen, so the web
+  // app only calls its peers. Like the backup, a failure here must not keep
+  // the app from loading.
+  const updateSyncServer = async () => {
+    if (isWeb) return;
+    try {
+      const device = await getSyncService().getDevice();
+      if (device.isEnabled && !syncServer.current) {
+        syncServer.current = await startSyncServer(handleSyncRequest, SYNC_PORT);
+      } else if (!device.isEnabled && syncServer.current) {
+        await syncServer.current.stop();
+        syncServer.current = null;
+      }
+    } catch (error) {
+      console.error('❌ Error starting sync server:', error);
+    }
+  };
+
+  // Where peers reach this device, while it is listening
+  const getSyncAddress = async () => {
+    if (!syncServer.current) return null;
+    const ip = await Network.getIpAddressAsync();
+    return ip && ip !== '0.0.0.0' ? `${ip}:${SYNC_PORT}` : null;
+  };
+
   const initDbAndLoadData = async () => {
     try {
+      setInitError(null);
       if (isWeb) {
         console.log('🌐 Initializing web database (IndexedDB)...');
         await initializeWebDatabase();
@@ -125,26 +542,116 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
         await initializeDatabase();
         await seedDatabase();
       }
+      await rollOverMonths();
+      await runScheduledBackup();
+      await updateSyncServer();
       console.log('✅ Database ready, loading data...');
       await loadData();
     } catch (error) {
       console.error('❌ Error initializing database:', error);
+      setInitError(error instanceof Error ? error.message : String(error));
+      setIsLoading(false);
     }
   };
 
   useEffect(() => {
     initDbAndLoadData();
+    return () => {
+      syncServer.current?.stop();
+    };
   }, []);
 
+  const retryInitialization = async () => {
+    console.log('🔁 Retrying database initialization...');
+    setIsLoading(true);
+    await initDbAndLoadData();
+  };
+
+  const resetAllData = async () => {
+    console.log('🗑️ Resetting all data...');
+    clearCommandHistory();
+    setIsLoading(true);
+    try {
+      if (isWeb) {
+        await webDb.reset();
+      } else {
+        await resetDatabase();
+      }
+    } catch (error) {
+      console.error('❌ Error resetting database:', error);
+      setInitError(error instanceof Error ? error.message : String(error));
+      setIsLoading(false);
+      return;
+    }
+    await initDbAndLoadData();
+  };
+
+  // Undoable actions
+  const showCommandNotice = (message: string) => {
+    setCommandNotice({ id: Date.now(), message });
+  };
+
+  // The records the commands refer to are gone after a reset or a restore
+  const clearCommandHistory = () => {
+    commandHistory.current = emptyHistory;
+    setCommandNotice(null);
+  };
+
+  // Runs an action that undo() can take back
+  const runUndoable = async (command: Command) => {
+    commandHistory.current = await runCommand(commandHistory.current, command);
+    showCommandNotice(command.label);
+  };
+
+  const undo = async () => {
+    console.log('↩️ Undoing last action');
+    try {
+      const { history, command } = await undoCommand(commandHistory.current);
+      commandHistory.current = history;
+      if (command) {
+        showCommandNotice(`Undone: ${command.label}`);
+      }
+      console.log('✅ Undone successfully');
+    } catch (error) {
+      // Most likely the record changed on another device; the older
+      // commands cannot be trusted either
+      console.error('❌ Error undoing:', error);
+      clearCommandHistory();
+      showCommandNotice('Could not undo that change');
+    }
+    await loadData();
+  };
+
+  const redo = async () => {
+    console.log('↪️ Redoing last undone action');
+    try {
+      const { history, command } = await redoCommand(commandHistory.current);
+      commandHistory.current = history;
+      if (command) {
+        showCommandNotice(command.label);
+      }
+      console.log('✅ Redone successfully');
+    } catch (error) {
+      console.error('❌ Error redoing:', error);
+      clearCommandHistory();
+      showCommandNotice('Could not redo that change');
+    }
+    await loadData();
+  };
+
+  const dismissCommandNotice = () => setCommandNotice(null);
+
   // Expense methods
-  const addExpense = async (expense: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const addExpense = async (expense: Omit<NewExpense, 'id'>) => {
     console.log('💰 Adding expense:', expense);
     try {
-      await getExpenseService().create(expense);
+      const created = await getExpenseService().create(expense);
       console.log('✅ Expense added successfully');
       await loadData();
+      return created;
     } catch (error) {
       console.error('❌ Error adding expense:', error);
+      return null;
     }
   };
 
@@ -159,10 +666,108 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const toggleExpensePaid = async (id: string) => {
+    console.log('✅ Toggling expense paid:', id);
+    try {
+      const expense = await getExpenseService().getById(id);
+      if (!expense) return;
+      const expensePayments = await getPaymentService().getByExpenseId(id);
+      if (expensePayments.length > 0) {
+        await payRemainder(expense, expensePayments);
+        await loadData();
+        return;
+      }
+      const isPaid = !expense.isPaid;
+      await runUndoable({
+        label: isPaid ? `${expense.name} marked as paid` : `${expense.name} marked as unpaid`,
+        run: async () => {
+          await getExpenseService().update(id, { isPaid });
+        },
+        revert: async () => {
+          await getExpenseService().update(id, { isPaid: !isPaid });
+        },
+      });
+      console.log('✅ Expense toggled successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error toggling expense:', error);
+    }
+  };
+
+  const payRemainder = async (expense: Expense, expensePayments: Payment[]) => {
+    const due = getAmountDue(expense, expensePayments);
+    if (due <= 0) {
+      showCommandNotice(`Delete a payment of ${expense.name} to mark it unpaid`);
+      return;
+    }
+    let paymentId: string | null = null;
+    await runUndoable({
+      label: `${expense.name} marked as paid`,
+      run: async () => {
+        const payment = await getPaymentService().create({
+          expenseId: expense.id,
+          amount: due,
+          date: toDateString(new Date()),
+        });
+        paymentId = payment?.id ?? null;
+      },
+      revert: async () => {
+        if (paymentId) await getPaymentService().delete(paymentId);
+      },
+    });
+    console.log('✅ Expense paid in full');
+  };
+
+  const snoozeExpense = async (id: string, until: string | null) => {
+    console.log('😴 Snoozing expense:', id, until);
+    try {
+      const expense = await getExpenseService().getById(id);
+      if (!expense) return;
+      const previous = expense.snoozedUntil;
+      await runUndoable({
+        label: until ? `${expense.name} snoozed until ${until}` : `${expense.name} no longer snoozed`,
+        run: async () => {
+          await getExpenseService().update(id, { snoozedUntil: until });
+        },
+        revert: async () => {
+          await getExpenseService().update(id, { snoozedUntil: previous });
+        },
+      });
+      console.log('✅ Expense snoozed successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error snoozing expense:', error);
+    }
+  };
+
+  const getBillsTimeline = async () => {
+    const range = getTimelineRange(toDateString(new Date()));
+    try {
+      // Bills are due no later than they are shown, so the due dates up to
+      // the end of next month cover the timeline. Before this month only
+      // unpaid bills can show, as overdue, so paid ones are never read.
+      const [older, recent] = await Promise.all([
+        getExpenseService().getUnpaidDueBefore(range.startOfMonth),
+        getExpenseService().getByDueDateRange(
+          range.startOfMonth,
+          range.endOfNextMonth
+        ),
+      ]);
+      return groupBills([...older, ...recent], range);
+    } catch (error) {
+      console.error('❌ Error loading bills timeline:', error);
+      return groupBills([], range);
+    }
+  };
+
   const deleteExpense = async (id: string) => {
     console.log('🗑️ Deleting expense:', id);
     try {
-      await getExpenseService().delete(id);
+      await runUndoable({
+        label: 'Expense moved to trash',
+        run: () => getExpenseService().delete(id),
+        revert: () => getExpenseService().restore(id),
+      });
       console.log('✅ Expense deleted successfully');
       await loadData();
     } catch (error) {
@@ -170,45 +775,107 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Budget category methods
-  const addBudgetCategory = async (category: Omit<BudgetCategory, 'id' | 'createdAt' | 'updatedAt'>) => {
-    console.log('📊 Adding budget category:', category);
+  // Saves all rows or none and returns how many were saved
+  const importExpenses = async (rows: Omit<NewExpense, 'id'>[]) => {
+    console.log('📥 Importing expenses:', rows.length);
+    let count = 0;
+    try {
+      const created = await getExpenseService().createMany(rows);
+      count = created.length;
+      console.log('✅ Expenses imported successfully');
+    } catch (error) {
+      console.error('❌ Error importing expenses:', error);
+    }
+    await loadData();
+    return count;
+  };
+
+  // Recurring expense template methods
+  const addRecurringExpense = async (template: Omit<NewRecurringExpense, 'id'>, month: string) => {
+    console.log('🔁 Adding recurring expense:', template);
+    try {
+      await getRecurringExpenseService().create(template);
+      // Months already rolled over only pick up the new template here
+      await getRecurringExpenseService().generateForMonth(month);
+      console.log('✅ Recurring expense added successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error adding recurring expense:', error);
+    }
+  };
+
+  const updateRecurringExpense = async (id: string, updates: Partial<NewRecurringExpense>, options?: RecurringExpenseUpdateOptions) => {
+    console.log('📝 Updating recurring expense:', id, updates, options);
+    try {
+      await getRecurringExpenseService().update(id, updates, options);
+      console.log('✅ Recurring expense updated successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error updating recurring expense:', error);
+    }
+  };
+
+  const deleteRecurringExpense = async (id: string) => {
+    console.log('🗑️ Deleting recurring expense:', id);
     try {
-      await getBudgetCategoryService().create(category);
-      console.log('✅ Budget category added successfully');
+      await getRecurringExpenseService().delete(id);
+      console.log('✅ Recurring expense deleted successfully');
       await loadData();
     } catch (error) {
-      console.error('❌ Error adding budget category:', error);
+      console.error('❌ Error deleting recurring expense:', error);
     }
   };
 
-  const updateBudgetCategory = async (id: string, updates: Partial<BudgetCategory>) => {
-    console.log('📝 Updating budget category:', id, updates);
+  // Budget allocation methods. Both throw, so the form can say why the
+  // budget was not saved, e.g. when the category already has one this month.
+  const addBudgetAllocation = async ({ name, ...allocation }: BudgetAllocationInput) => {
+    console.log('📊 Adding budget allocation:', name, allocation);
     try {
-      await getBudgetCategoryService().update(id, updates);
-      console.log('✅ Budget category updated successfully');
+      const category = await getCategoryService().getOrCreate(name);
+      await getBudgetAllocationService().create({ ...allocation, categoryId: category.id });
+      console.log('✅ Budget allocation added successfully');
       await loadData();
     } catch (error) {
-      console.error('❌ Error updating budget category:', error);
+      console.error('❌ Error adding budget allocation:', error);
+      throw error;
     }
   };
 
-  const deleteBudgetCategory = async (id: string) => {
-    console.log('🗑️ Deleting budget category:', id);
+  // A new name moves this month's budget to that category; other months
+  // keep theirs
+  const updateBudgetAllocation = async (id: string, { name, ...updates }: Partial<BudgetAllocationInput>) => {
+    console.log('📝 Updating budget allocation:', id, name, updates);
     try {
-      await getBudgetCategoryService().delete(id);
-      console.log('✅ Budget category deleted successfully');
+      const categoryId = name ? (await getCategoryService().getOrCreate(name)).id : undefined;
+      await getBudgetAllocationService().update(id, categoryId ? { ...updates, categoryId } : updates);
+      console.log('✅ Budget allocation updated successfully');
       await loadData();
     } catch (error) {
-      console.error('❌ Error deleting budget category:', error);
+      console.error('❌ Error updating budget allocation:', error);
+      throw error;
+    }
+  };
+
+  const deleteBudgetAllocation = async (id: string) => {
+    console.log('🗑️ Deleting budget allocation:', id);
+    try {
+      await runUndoable({
+        label: 'Budget moved to trash',
+        run: () => getBudgetAllocationService().delete(id),
+        revert: () => getBudgetAllocationService().restore(id),
+      });
+      console.log('✅ Budget allocation deleted successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting budget allocation:', error);
     }
   };
 
   // Grocery list methods
-  const addGroceryList = async (list: Omit<GroceryList, 'id' | 'createdAt' | 'updatedAt'>) => {
-    console.log('🛒 Adding grocery list:', list);
+  const addGroceryList = async (list: Omit<NewGroceryList, 'id' | 'totalCost'>, items: GroceryItemDraft[] = []) => {
+    console.log('🛒 Adding grocery list:', list, items);
     try {
-      await getGroceryListService().create(list);
+      await getGroceryListService().createWithItems(list, items);
       console.log('✅ Grocery list added successfully');
       await loadData();
     } catch (error) {
@@ -216,10 +883,15 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateGroceryList = async (id: string, updates: Partial<GroceryList>) => {
-    console.log('📝 Updating grocery list:', id, updates);
+  // With items, the list's items are replaced by these in one save
+  const updateGroceryList = async (id: string, updates: Partial<GroceryList>, items?: GroceryItemDraft[]) => {
+    console.log('📝 Updating grocery list:', id, updates, items);
     try {
-      await getGroceryListService().update(id, updates);
+      if (items) {
+        await getGroceryListService().updateWithItems(id, updates, items);
+      } else {
+        await getGroceryListService().update(id, updates);
+      }
       console.log('✅ Grocery list updated successfully');
       await loadData();
     } catch (error) {
@@ -230,7 +902,11 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
   const deleteGroceryList = async (id: string) => {
     console.log('🗑️ Deleting grocery list:', id);
     try {
-      await getGroceryListService().delete(id);
+      await runUndoable({
+        label: 'Grocery list moved to trash',
+        run: () => getGroceryListService().delete(id),
+        revert: () => getGroceryListService().restore(id),
+      });
       console.log('✅ Grocery list deleted successfully');
       await loadData();
     } catch (error) {
@@ -275,7 +951,18 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
   const toggleGroceryItemPurchased = async (id: string) => {
     console.log('✅ Toggling grocery item purchased:', id);
     try {
-      await getGroceryItemService().togglePurchased(id);
+      const item = await getGroceryItemService().getById(id);
+      if (!item) return;
+      const isPurchased = !item.isPurchased;
+      await runUndoable({
+        label: isPurchased ? `${item.name} marked as purchased` : `${item.name} marked as not purchased`,
+        run: async () => {
+          await getGroceryItemService().update(id, { isPurchased });
+        },
+        revert: async () => {
+          await getGroceryItemService().update(id, { isPurchased: !isPurchased });
+        },
+      });
       console.log('✅ Grocery item toggled successfully');
       await loadData();
     } catch (error) {
@@ -292,33 +979,615 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
       await loadData();
     } catch (error) {
       console.error('❌ Error updating financial settings:', error);
+      throw error;
+    }
+  };
+
+  // Exchange rate methods
+  const saveExchangeRate = async (rate: ExchangeRateInput) => {
+    console.log('💱 Saving exchange rate:', rate);
+    try {
+      await getExchangeRateService().upsert(rate);
+      console.log('✅ Exchange rate saved successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error saving exchange rate:', error);
+    }
+  };
+
+  const deleteExchangeRate = async (id: string) => {
+    console.log('🗑️ Deleting exchange rate:', id);
+    try {
+      await getExchangeRateService().delete(id);
+      console.log('✅ Exchange rate deleted successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting exchange rate:', error);
+    }
+  };
+
+  const importExchangeRates = async (rates: ExchangeRateInput[]) => {
+    console.log('💱 Importing exchange rates:', rates.length);
+    try {
+      const count = await getExchangeRateService().import(rates);
+      console.log('✅ Exchange rates imported successfully');
+      await loadData();
+      return count;
+    } catch (error) {
+      console.error('❌ Error importing exchange rates:', error);
+      return 0;
+    }
+  };
+
+  // Categorization rule methods
+  const addCategorizationRule = async (rule: Omit<NewCategorizationRule, 'id'>) => {
+    console.log('🏷️ Adding categorization rule:', rule);
+    try {
+      await getCategorizationRuleService().create(rule);
+      console.log('✅ Categorization rule added successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error adding categorization rule:', error);
+    }
+  };
+
+  const updateCategorizationRule = async (id: string, updates: Partial<NewCategorizationRule>) => {
+    console.log('📝 Updating categorization rule:', id, updates);
+    try {
+      await getCategorizationRuleService().update(id, updates);
+      console.log('✅ Categorization rule updated successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error updating categorization rule:', error);
+    }
+  };
+
+  const deleteCategorizationRule = async (id: string) => {
+    console.log('🗑️ Deleting categorization rule:', id);
+    try {
+      await getCategorizationRuleService().delete(id);
+      console.log('✅ Categorization rule deleted successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting categorization rule:', error);
+    }
+  };
+
+  const reorderCategorizationRules = async (ids: string[]) => {
+    console.log('↕️ Reordering categorization rules');
+    try {
+      await getCategorizationRuleService().reorder(ids);
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error reordering categorization rules:', error);
+    }
+  };
+
+  // Returns how many of the month's expenses changed
+  const applyRulesToMonth = async (month: string) => {
+    console.log('🏷️ Applying categorization rules to:', month);
+    try {
+      const count = await getCategorizationRuleService().applyToMonth(month);
+      console.log('✅ Categorization rules applied to', count, 'expenses');
+      await loadData();
+      return count;
+    } catch (error) {
+      console.error('❌ Error applying categorization rules:', error);
+      return 0;
+    }
+  };
+
+  // Household member methods
+  const addMember = async (member: Omit<NewMember, 'id'>) => {
+    console.log('👤 Adding member:', member);
+    try {
+      await getMemberService().create(member);
+      console.log('✅ Member added successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error adding member:', error);
+    }
+  };
+
+  const updateMember = async (id: string, updates: Partial<NewMember>) => {
+    console.log('📝 Updating member:', id, updates);
+    try {
+      await getMemberService().update(id, updates);
+      console.log('✅ Member updated successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error updating member:', error);
+    }
+  };
+
+  // Throws, so the screen can offer to deactivate a member who shares
+  // expenses or settlements
+  const deleteMember = async (id: string) => {
+    console.log('🗑️ Deleting member:', id);
+    try {
+      await getMemberService().delete(id);
+      console.log('✅ Member deleted successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting member:', error);
+      throw error;
+    }
+  };
+
+  const setDeviceMember = async (memberId: string | null) => {
+    console.log('👤 Setting the member who uses this device:', memberId);
+    try {
+      await getSyncService().updateDevice({ memberId });
+      setDeviceMemberId(memberId);
+    } catch (error) {
+      console.error('❌ Error setting device member:', error);
+    }
+  };
+
+  const setCategoryReminderDays = async (id: string, days: number | null) => {
+    console.log('🔔 Setting reminder lead time:', id, days);
+    try {
+      await getCategoryService().update(id, { reminderDays: days });
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error setting reminder lead time:', error);
+    }
+  };
+
+  const baseCurrency = financialSettings?.baseCurrency || DEFAULT_CURRENCY;
+  const convertToBase = useMemo(
+    () => createConverter(exchangeRates, baseCurrency),
+    [exchangeRates, baseCurrency]
+  );
+
+  // Split and settle-up methods
+  const getSplitServices = () => ({
+    expenses: getExpenseService(),
+    splits: getExpenseSplitService(),
+    settlements: getSettlementService(),
+  });
+
+  const setExpenseSplit = async (expenseId: string, split: ExpenseSplitInput | null) => {
+    console.log('➗ Setting expense split:', expenseId, split);
+    await getExpenseSplitService().set(expenseId, split);
+    console.log('✅ Expense split saved successfully');
+    await loadData();
+  };
+
+  const getMemberBalances = async () => {
+    try {
+      return await calculateMemberBalances(getSplitServices(), convertToBase);
+    } catch (error) {
+      console.error('❌ Error calculating member balances:', error);
+      return [];
+    }
+  };
+
+  const addSettlement = async (settlement: Omit<NewSettlement, 'id'>) => {
+    console.log('🤝 Adding settlement:', settlement);
+    try {
+      await getSettlementService().create(settlement);
+      console.log('✅ Settlement added successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error adding settlement:', error);
+    }
+  };
+
+  const deleteSettlement = async (id: string) => {
+    console.log('🗑️ Deleting settlement:', id);
+    try {
+      await getSettlementService().delete(id);
+      console.log('✅ Settlement deleted successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting settlement:', error);
+    }
+  };
+
+  const addPayment = async (payment: Omit<NewPayment, 'id'>) => {
+    console.log('💳 Adding payment:', payment);
+    try {
+      await getPaymentService().create(payment);
+      console.log('✅ Payment added successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error adding payment:', error);
+    }
+  };
+
+  const updatePayment = async (id: string, updates: Partial<Omit<NewPayment, 'id' | 'expenseId'>>) => {
+    console.log('💳 Updating payment:', id, updates);
+    try {
+      await getPaymentService().update(id, updates);
+      console.log('✅ Payment updated successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error updating payment:', error);
+    }
+  };
+
+  const deletePayment = async (id: string) => {
+    console.log('🗑️ Deleting payment:', id);
+    try {
+      await getPaymentService().delete(id);
+      console.log('✅ Payment deleted successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting payment:', error);
+    }
+  };
+
+  // Account methods
+  const addAccount = async (account: Omit<NewAccount, 'id'>) => {
+    console.log('🏦 Adding account:', account);
+    try {
+      await getAccountService().create(account);
+      console.log('✅ Account added successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error adding account:', error);
+    }
+  };
+
+  const updateAccount = async (id: string, updates: Partial<NewAccount>) => {
+    console.log('📝 Updating account:', id, updates);
+    try {
+      await getAccountService().update(id, updates);
+      console.log('✅ Account updated successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error updating account:', error);
+    }
+  };
+
+  const deleteAccount = async (id: string) => {
+    console.log('🗑️ Deleting account:', id);
+    try {
+      await getAccountService().delete(id);
+      console.log('✅ Account deleted successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting account:', error);
+    }
+  };
+
+  const getAccountLedger = async (id: string) => {
+    try {
+      return await getAccountService().getLedger(id);
+    } catch (error) {
+      console.error('❌ Error loading account ledger:', error);
+      return [];
+    }
+  };
+
+  const addIncome = async (income: Omit<NewIncome, 'id'>) => {
+    console.log('💰 Adding income:', income);
+    try {
+      await getIncomeService().create(income);
+      console.log('✅ Income added successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error adding income:', error);
+    }
+  };
+
+  const deleteIncome = async (id: string) => {
+    console.log('🗑️ Deleting income:', id);
+    try {
+      await getIncomeService().delete(id);
+      console.log('✅ Income deleted successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting income:', error);
+    }
+  };
+
+  const addAccountTransfer = async (transfer: Omit<NewAccountTransfer, 'id'>) => {
+    console.log('🔁 Adding transfer:', transfer);
+    await getAccountTransferService().create(transfer);
+    console.log('✅ Transfer added successfully');
+    await loadData();
+  };
+
+  const deleteAccountTransfer = async (id: string) => {
+    console.log('🗑️ Deleting transfer:', id);
+    try {
+      await getAccountTransferService().delete(id);
+      console.log('✅ Transfer deleted successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting transfer:', error);
+    }
+  };
+
+  const settleUp = async () => {
+    console.log('🤝 Settling up balances');
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const transfers = await recordSettleUp(getSplitServices(), convertToBase, baseCurrency, today);
+      console.log('✅ Recorded', transfers.length, 'settlements');
+      await loadData();
+      return transfers;
+    } catch (error) {
+      console.error('❌ Error settling up:', error);
+      return [];
+    }
+  };
+
+  // Monthly savings methods
+  const initializeCurrentMonth = async () => {
+    return await getMonthlySavingsService().initializeCurrentMonth();
+  };
+
+  const getMonthlySavings = async (month: string) => {
+    try {
+      return await getMonthlySavingsService().getByMonth(month);
+    } catch (error) {
+      console.error('❌ Error getting monthly savings:', error);
+      return null;
+    }
+  };
+
+  const getSavingsHistory = async (limit?: number) => {
+    try {
+      return await getMonthlySavingsService().getSavingsByMonths(limit);
+    } catch (error) {
+      console.error('❌ Error getting savings history:', error);
+      return [];
     }
   };
 
   // Analytics methods
-  const getTotalMonthlyExpenses = async () => {
+  const getTotalMonthlyExpenses = async (month?: string) => {
     try {
-      return await getExpenseService().getTotalMonthlyExpenses();
+      return await getExpenseService().getTotalMonthlyExpenses(month);
     } catch (error) {
       console.error('❌ Error getting total monthly expenses:', error);
       return 0;
     }
   };
 
-  const getRemainingBudget = () => {
+  const getRemainingBudget = (month: string) => {
     if (!financialSettings) return 0;
-    const totalSpent = budgetCategories.reduce((sum, cat) => sum + (cat.spent || 0), 0);
-    const totalLimit = budgetCategories.reduce((sum, cat) => sum + cat.limit, 0);
+    const monthAllocations = budgetAllocations.filter((allocation) => allocation.month === month);
+    const totalSpent = monthAllocations.reduce((sum, allocation) => sum + (allocation.spent || 0), 0);
+    const totalLimit = monthAllocations.reduce((sum, allocation) => sum + allocation.limit, 0);
     return totalLimit - totalSpent;
   };
 
+  const savingsAccount = accounts.find((account) => account.id === financialSettings?.savingsAccountId);
+  const savingsBalance = accountBalances.find((balance) => balance.accountId === savingsAccount?.id);
+  const currentSavings = savingsAccount && savingsBalance
+    ? convertToBase(savingsBalance.balance, savingsAccount.currency)
+    : financialSettings?.currentSavings || 0;
+
   const getSavingsProgress = () => {
     if (!financialSettings) return 0;
-    return ((financialSettings.currentSavings || 0) / financialSettings.savingsGoal) * 100;
+    return (currentSavings / financialSettings.savingsGoal) * 100;
+  };
+
+  const getDashboardData = async (month: string) => {
+    try {
+      return await getFinancialSettingsService().getDashboardData(month);
+    } catch (error) {
+      console.error('❌ Error getting dashboard data:', error);
+      return null;
+    }
+  };
+
+  // Writes the export and hands it to the share sheet (or a download on web)
+  const exportData = async (options: ExportOptions) => {
+    console.log('📤 Exporting data:', options);
+    try {
+      const files = await createExport(
+        {
+          expenses: getExpenseService(),
+          recurringExpenses: getRecurringExpenseService(),
+          categories: getCategoryService(),
+          budgetAllocations: getBudgetAllocationService(),
+          groceryLists: getGroceryListService(),
+          monthlySavings: getMonthlySavingsService(),
+          financialSettings: getFinancialSettingsService(),
+          exchangeRates: getExchangeRateService(),
+          members: getMemberService(),
+          expenseSplits: getExpenseSplitService(),
+          payments: getPaymentService(),
+          settlements: getSettlementService(),
+          accounts: getAccountService(),
+          incomes: getIncomeService(),
+          accountTransfers: getAccountTransferService(),
+        },
+        options
+      );
+      await shareExportFiles(files);
+      console.log('✅ Data exported successfully');
+      return true;
+    } catch (error) {
+      console.error('❌ Error exporting data:', error);
+      return false;
+    }
+  };
+
+  const getBackups = async () => {
+    try {
+      return await getBackupService().getAll();
+    } catch (error) {
+      console.error('❌ Error loading backups:', error);
+      return [];
+    }
+  };
+
+  const createBackup = async () => {
+    console.log('💾 Creating backup...');
+    try {
+      await getBackupService().create('manual');
+      console.log('✅ Backup created successfully');
+      return true;
+    } catch (error) {
+      console.error('❌ Error creating backup:', error);
+      return false;
+    }
+  };
+
+  const checkBackup = async (id: string) => {
+    try {
+      return await getBackupService().checkCompatibility(id);
+    } catch (error) {
+      console.error('❌ Error checking backup:', error);
+      return { compatible: false, reason: (error as Error).message };
+    }
+  };
+
+  // The current data is backed up before it is replaced
+  const restoreBackup = async (id: string) => {
+    console.log('♻️ Restoring backup:', id);
+    try {
+      await getBackupService().restore(id);
+      console.log('✅ Backup restored successfully');
+      clearCommandHistory();
+      await rollOverMonths();
+      await loadData();
+      return true;
+    } catch (error) {
+      console.error('❌ Error restoring backup:', error);
+      return false;
+    }
+  };
+
+  const deleteBackup = async (id: string) => {
+    console.log('🗑️ Deleting backup:', id);
+    try {
+      await getBackupService().delete(id);
+      console.log('✅ Backup deleted successfully');
+    } catch (error) {
+      console.error('❌ Error deleting backup:', error);
+    }
+  };
+
+  const getRecordHistory = async (entity: AuditEntity, entityId: string) => {
+    try {
+      return await getAuditService().getByRecord(entity, entityId);
+    } catch (error) {
+      console.error('❌ Error loading history:', error);
+      return [];
+    }
+  };
+
+  const getTrash = async () => {
+    try {
+      const [trashedExpenses, trashedAllocations, trashedLists] = await Promise.all([
+        getExpenseService().getDeleted(),
+        getBudgetAllocationService().getDeleted(),
+        getGroceryListService().getDeleted(),
+      ]);
+      return { expenses: trashedExpenses, budgetAllocations: trashedAllocations, groceryLists: trashedLists };
+    } catch (error) {
+      console.error('❌ Error loading trash:', error);
+      return { expenses: [], budgetAllocations: [], groceryLists: [] };
+    }
+  };
+
+  const restoreFromTrash = async (kind: TrashKind, id: string) => {
+    console.log('♻️ Restoring from trash:', kind, id);
+    try {
+      await getTrashService(kind).restore(id);
+      console.log('✅ Restored successfully');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error restoring from trash:', error);
+    }
+  };
+
+  const purgeFromTrash = async (kind: TrashKind, id: string) => {
+    console.log('🗑️ Deleting for good:', kind, id);
+    try {
+      await getTrashService(kind).purge(id);
+      console.log('✅ Deleted for good');
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error deleting from trash:', error);
+    }
+  };
+
+  const getSyncStatus = async () => {
+    try {
+      const device = await getSyncService().getDevice();
+      const [address, peers] = await Promise.all([getSyncAddress(), getSyncService().getPeers()]);
+      return { device, address, peers };
+    } catch (error) {
+      console.error('❌ Error loading sync status:', error);
+      return null;
+    }
+  };
+
+  const setSyncEnabled = async (enabled: boolean) => {
+    console.log(enabled ? '🔄 Turning sync on' : '🔄 Turning sync off');
+    try {
+      await getSyncService().updateDevice({ isEnabled: enabled });
+      await updateSyncServer();
+    } catch (error) {
+      console.error('❌ Error updating sync:', error);
+    }
+  };
+
+  const renameSyncDevice = async (name: string) => {
+    try {
+      await getSyncService().updateDevice({ name: name.trim() });
+    } catch (error) {
+      console.error('❌ Error renaming device:', error);
+    }
+  };
+
+  // Throws, so the form can say why pairing failed
+  const pairSyncDevice = async (address: string, code: string) => {
+    const peerAddress = normalizeAddress(address);
+    console.log('🔗 Pairing with', peerAddress);
+    const { peer } = await syncWithPeer(
+      getSyncService(),
+      { id: null, name: peerAddress, address: peerAddress, code: code.trim(), receivedSeq: 0, sentSeq: 0 },
+      createHttpTransport(peerAddress),
+      await getSyncAddress()
+    );
+    console.log('✅ Paired with', peer.name);
+    await loadData();
+  };
+
+  // Syncs with every peer that can be called; false when any could not be
+  // reached
+  const syncWithPeers = async () => {
+    try {
+      const device = await getSyncService().getDevice();
+      if (!device.isEnabled) return true;
+      const { results, failures } = await runPeerSync(getSyncService(), createHttpTransport, await getSyncAddress());
+      results.forEach((result) => console.log('✅ Synced with', result.peer.name, `(${result.applied} changes)`));
+      failures.forEach((failure) => console.error('❌ Error syncing with', failure.peer.name, failure.error));
+      return failures.length === 0;
+    } catch (error) {
+      console.error('❌ Error syncing:', error);
+      return false;
+    }
+  };
+
+  const syncNow = async () => {
+    console.log('🔄 Syncing now...');
+    const synced = await syncWithPeers();
+    await loadData();
+    return synced;
+  };
+
+  const removeSyncPeer = async (id: string) => {
+    console.log('🗑️ Removing sync peer:', id);
+    try {
+      await getSyncService().deletePeer(id);
+    } catch (error) {
+      console.error('❌ Error removing sync peer:', error);
+    }
   };
 
   const refreshData = async () => {
     console.log('🔄 Refreshing data...');
+    await syncWithPeers();
     await loadData();
   };
 
@@ -326,16 +1595,41 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
     <DatabaseContext.Provider
       value={{
         expenses,
-        budgetCategories,
+        recurringExpenses,
+        categories,
+        budgetAllocations,
         groceryLists,
         financialSettings,
+        exchangeRates,
+        categorizationRules,
+        members,
+        expenseSplits,
+        payments,
+        settlements,
+        accounts,
+        accountBalances,
+        incomes,
+        accountTransfers,
+        currentSavings,
+        deviceMemberId,
+        baseCurrency,
         isLoading,
+        initError,
+        retryInitialization,
+        resetAllData,
         addExpense,
         updateExpense,
+        toggleExpensePaid,
+        snoozeExpense,
+        getBillsTimeline,
         deleteExpense,
-        addBudgetCategory,
-        updateBudgetCategory,
-        deleteBudgetCategory,
+        importExpenses,
+        addRecurringExpense,
+        updateRecurringExpense,
+        deleteRecurringExpense,
+        addBudgetAllocation,
+        updateBudgetAllocation,
+        deleteBudgetAllocation,
         addGroceryList,
         updateGroceryList,
         deleteGroceryList,
@@ -344,9 +1638,66 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
         deleteGroceryItem,
         toggleGroceryItemPurchased,
         updateFinancialSettings,
+        saveExchangeRate,
+        deleteExchangeRate,
+        importExchangeRates,
+        convertToBase,
+        addCategorizationRule,
+        updateCategorizationRule,
+        deleteCategorizationRule,
+        reorderCategorizationRules,
+        applyRulesToMonth,
+        addMember,
+        updateMember,
+        deleteMember,
+        setDeviceMember,
+        remindersSupported: getNotifier() !== null,
+        setCategoryReminderDays,
+        setExpenseSplit,
+        getMemberBalances,
+        addSettlement,
+        deleteSettlement,
+        settleUp,
+        addPayment,
+        updatePayment,
+        deletePayment,
+        addAccount,
+        updateAccount,
+        deleteAccount,
+        getAccountLedger,
+        addIncome,
+        deleteIncome,
+        addAccountTransfer,
+        deleteAccountTransfer,
+        initializeCurrentMonth,
+        getMonthlySavings,
+        getSavingsHistory,
         getTotalMonthlyExpenses,
         getRemainingBudget,
         getSavingsProgress,
+        getDashboardData,
+        exportData,
+        getBackups,
+        createBackup,
+        checkBackup,
+        restoreBackup,
+        deleteBackup,
+        getRecordHistory,
+        commandNotice,
+        dismissCommandNotice,
+        canUndo: commandHistory.current.done.length > 0,
+        canRedo: commandHistory.current.undone.length > 0,
+        undo,
+        redo,
+        getTrash,
+        restoreFromTrash,
+        purgeFromTrash,
+        getSyncStatus,
+        setSyncEnabled,
+        renameSyncDevice,
+        pairSyncDevice,
+        syncNow,
+        removeSyncPeer,
         refreshData,
       }}
     >
@@ -373,8 +1724,8 @@ export function useDatabaseLegacy() {
     financialData: {
       monthlyIncome: db.financialSettings?.monthlyIncome || 0,
       savingsGoal: db.financialSettings?.savingsGoal || 0,
-      currentSavings: db.financialSettings?.currentSavings || 0,
-      budgetCategories: db.budgetCategories,
+      currentSavings: db.currentSavings,
+      budgetCategories: db.budgetAllocations,
     },
     addExpense: db.addExpense,
     updateExpense: db.updateExpense,
@@ -0,0 +1,893 @@
+// The same scenarios against both backends: whatever one repository does,
+// the other must do too.
+import { backends } from '../testing/backends';
+
+const MONTH = '2026-10';
+
+describe.each(backends)('$name backend', (backend) => {
+  beforeEach(backend.reset);
+
+  const createExpense = (
+    name: string,
+    amount: number,
+    extra: Partial<Parameters<typeof backend.expenses.create>[0]> = {}
+  ) =>
+    backend.expenses
+      .create({
+        name,
+        amount,
+        category: 'Housing',
+        dueDate: `${MONTH}-05`,
+        month: MONTH,
+        ...extra,
+      })
+      .then((expense) => expense!);
+
+  describe('expenses', () => {
+    it('keeps the month and charge day it was created with', async () => {
+      const expense = await createExpense('Rent', 100000, {
+        dueDate: '2026-11-01',
+        month: '2026-11',
+        chargeDay: 1,
+        isRecurring: true,
+      });
+
+      expect(await backend.expenses.getById(expense.id)).toMatchObject({
+        month: '2026-11',
+        chargeDay: 1,
+        isRecurring: true,
+        isPaid: false,
+        currency: 'USD',
+      });
+      expect(await backend.expenses.getByMonth('2026-11')).toHaveLength(1);
+      expect(await backend.expenses.getByMonth(MONTH)).toHaveLength(0);
+    });
+
+    it('totals a month in the base currency', async () => {
+      await backend.exchangeRates.upsert({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD',
+        rate: 1.1,
+      });
+      await createExpense('Rent', 100000);
+      await createExpense('Trip', 10000, { currency: 'EUR' });
+      await createExpense('Next month', 5000, {
+        dueDate: '2026-11-05',
+        month: '2026-11',
+      });
+
+      expect(await backend.expenses.getTotalMonthlyExpenses(MONTH)).toBe(
+        111000
+      );
+    });
+
+    it('updates fields and leaves the rest alone', async () => {
+      const expense = await createExpense('Rent', 100000);
+
+      const updated = await backend.expenses.update(expense.id, {
+        amount: 120000,
+      });
+
+      expect(updated).toMatchObject({ name: 'Rent', amount: 120000 });
+    });
+
+    it('creates many at once', async () => {
+      const created = await backend.expenses.createMany([
+        {
+          name: 'A',
+          amount: 100,
+          category: 'Food',
+          dueDate: `${MONTH}-01`,
+          month: MONTH,
+        },
+        {
+          name: 'B',
+          amount: 200,
+          category: 'Food',
+          dueDate: `${MONTH}-02`,
+          month: MONTH,
+        },
+      ]);
+
+      expect(created.map((expense) => expense.name)).toEqual(['A', 'B']);
+      expect(await backend.expenses.getByMonth(MONTH)).toHaveLength(2);
+    });
+
+    it('reads a due date range oldest first', async () => {
+      await createExpense('Later', 100, { dueDate: '2026-10-20' });
+      await createExpense('Earlier', 100, { dueDate: '2026-10-02' });
+      await createExpense('Outside', 100, { dueDate: '2026-11-02' });
+
+      const inRange = await backend.expenses.getByDueDateRange(
+        '2026-10-01',
+        '2026-10-31'
+      );
+
+      expect(inRange.map((expense) => expense.name)).toEqual([
+        'Earlier',
+        'Later',
+      ]);
+    });
+
+    it('reads the unpaid expenses due before a date', async () => {
+      await createExpense('Old bill', 100, { dueDate: '2026-08-20' });
+      await createExpense('Paid bill', 100, {
+        dueDate: '2026-08-10',
+        isPaid: true,
+      });
+      const trashed = await createExpense('Trashed', 100, {
+        dueDate: '2026-07-01',
+      });
+      await backend.expenses.delete(trashed.id);
+      await createExpense('Older bill', 100, { dueDate: '2026-07-15' });
+      await createExpense('On the day', 100, { dueDate: '2026-10-01' });
+
+      const unpaid = await backend.expenses.getUnpaidDueBefore('2026-10-01');
+
+      expect(unpaid.map((expense) => expense.name)).toEqual([
+        'Older bill',
+        'Old bill',
+      ]);
+    });
+  });
+
+  describe('trash', () => {
+    it('hides a deleted expense until it is restored', async () => {
+      const expense = await createExpense('Vet', 2500);
+
+      await backend.expenses.delete(expense.id);
+      expect(await backend.expenses.getByMonth(MONTH)).toHaveLength(0);
+      expect(await backend.expenses.getTotalMonthlyExpenses(MONTH)).toBe(0);
+      expect(
+        (await backend.expenses.getDeleted()).map((item) => item.name)
+      ).toEqual(['Vet']);
+
+      await backend.expenses.restore(expense.id);
+      expect(await backend.expenses.getByMonth(MONTH)).toHaveLength(1);
+      expect(await backend.expenses.getDeleted()).toHaveLength(0);
+    });
+
+    it('purges an expense with its payments', async () => {
+      const expense = await createExpense('Vet', 2500);
+      await backend.payments.create({
+        expenseId: expense.id,
+        amount: 1000,
+        date: `${MONTH}-03`,
+      });
+
+      await backend.expenses.delete(expense.id);
+      await backend.expenses.purge(expense.id);
+
+      expect(await backend.expenses.getById(expense.id)).toBeNull();
+      expect(await backend.payments.getAll()).toHaveLength(0);
+    });
+
+    it('restores a grocery list with its items', async () => {
+      const list = await backend.groceryLists.createWithItems(
+        { name: 'Weekly' },
+        [{ name: 'Milk', quantity: 1, pricePerUnit: 200, totalCost: 200 }]
+      );
+
+      await backend.groceryLists.delete(list!.id);
+      expect(await backend.groceryLists.getAll()).toHaveLength(0);
+
+      await backend.groceryLists.restore(list!.id);
+      const restored = await backend.groceryLists.getById(list!.id);
+      expect(restored?.deletedAt).toBeNull();
+      expect(restored?.items).toHaveLength(1);
+    });
+  });
+
+  describe('payments', () => {
+    it('derives whether the expense is paid', async () => {
+      const expense = await createExpense('Rent', 1000);
+      const isPaid = async () =>
+        (await backend.expenses.getById(expense.id))?.isPaid;
+
+      await backend.payments.create({
+        expenseId: expense.id,
+        amount: 400,
+        date: `${MONTH}-03`,
+      });
+      expect(await isPaid()).toBe(false);
+
+      const rest = await backend.payments.create({
+        expenseId: expense.id,
+        amount: 600,
+        date: `${MONTH}-01`,
+      });
+      expect(await isPaid()).toBe(true);
+      expect(
+        (await backend.payments.getByExpenseId(expense.id)).map(
+          (payment) => payment.amount
+        )
+      ).toEqual([600, 400]);
+      expect(await backend.expenses.getTotalMonthlyPaid(MONTH)).toBe(1000);
+
+      await backend.expenses.update(expense.id, { amount: 1200 });
+      expect(await isPaid()).toBe(false);
+
+      await backend.payments.update(rest!.id, { amount: 900 });
+      expect(await isPaid()).toBe(true);
+
+      await backend.payments.delete(rest!.id);
+      expect(await isPaid()).toBe(false);
+      expect(await backend.expenses.getTotalMonthlyPaid(MONTH)).toBe(400);
+    });
+  });
+
+  describe('recurring expenses', () => {
+    it('generates each month once', async () => {
+      await backend.recurringExpenses.create({
+        name: 'Gym',
+        amount: 3000,
+        category: 'Health',
+        frequency: 'monthly',
+        dayOfMonth: 3,
+        startDate: '2026-01-01',
+      });
+
+      const generated = await backend.recurringExpenses.generateForMonth(MONTH);
+      expect(generated).toHaveLength(1);
+      expect(generated[0]).toMatchObject({
+        name: 'Gym',
+        dueDate: '2026-10-03',
+        month: MONTH,
+      });
+      expect(
+        await backend.recurringExpenses.generateForMonth(MONTH)
+      ).toHaveLength(0);
+    });
+
+    it('does not bring back a trashed instance', async () => {
+      await backend.recurringExpenses.create({
+        name: 'Gym',
+        amount: 3000,
+        category: 'Health',
+        frequency: 'monthly',
+        dayOfMonth: 3,
+        startDate: '2026-01-01',
+      });
+      const [instance] = await backend.recurringExpenses.generateForMonth(
+        MONTH
+      );
+
+      await backend.expenses.delete(instance.id);
+
+      expect(
+        await backend.recurringExpenses.generateForMonth(MONTH)
+      ).toHaveLength(0);
+    });
+
+    it('bills instances in the currency of the template', async () => {
+      await backend.recurringExpenses.create({
+        name: 'Netflix',
+        amount: 1299,
+        currency: 'EUR',
+        category: 'Entertainment',
+        frequency: 'monthly',
+        dayOfMonth: 3,
+        startDate: '2026-01-01',
+      });
+
+      const [instance] = await backend.recurringExpenses.generateForMonth(
+        MONTH
+      );
+
+      expect(instance.currency).toBe('EUR');
+      expect((await backend.expenses.getById(instance.id))?.currency).toBe(
+        'EUR'
+      );
+    });
+
+    it('applies template changes to unpaid instances', async () => {
+      const template = await backend.recurringExpenses.create({
+        name: 'Gym',
+        amount: 3000,
+        category: 'Health',
+        frequency: 'monthly',
+        dayOfMonth: 3,
+        startDate: '2026-01-01',
+      });
+      const [paid] = await backend.recurringExpenses.generateForMonth(
+        '2026-09'
+      );
+      await backend.expenses.update(paid.id, { isPaid: true });
+      const [unpaid] = await backend.recurringExpenses.generateForMonth(MONTH);
+
+      await backend.recurringExpenses.update(
+        template!.id,
+        { amount: 3500, currency: 'EUR' },
+        { applyToUnpaidFrom: '2026-09' }
+      );
+
+      expect(await backend.expenses.getById(paid.id)).toMatchObject({
+        amount: 3000,
+        currency: 'USD',
+      });
+      expect(await backend.expenses.getById(unpaid.id)).toMatchObject({
+        amount: 3500,
+        currency: 'EUR',
+      });
+    });
+  });
+
+  describe('budgets', () => {
+    // The month's budgets by category name
+    const readLimits = async () =>
+      (await backend.budgetAllocations.getByMonth(MONTH))
+        .map((budget): [string, number] => [budget.name, budget.limit])
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    it('derives what was spent from the expenses', async () => {
+      const category = await backend.categories.getOrCreate('Housing');
+      const allocation = await backend.budgetAllocations.create({
+        categoryId: category.id,
+        limit: 150000,
+        spent: 0,
+        month: MONTH,
+      });
+
+      await createExpense('Rent', 100000);
+      await createExpense('Repairs', 5000);
+
+      const read = await backend.budgetAllocations.getById(allocation!.id);
+      expect(read).toMatchObject({ name: 'Housing', spent: 105000 });
+    });
+
+    it('allows one budget per category and month', async () => {
+      const category = await backend.categories.getOrCreate('Housing');
+      await backend.budgetAllocations.create({
+        categoryId: category.id,
+        limit: 1000,
+        spent: 0,
+        month: MONTH,
+      });
+
+      await expect(
+        backend.budgetAllocations.create({
+          categoryId: category.id,
+          limit: 2000,
+          spent: 0,
+          month: MONTH,
+        })
+      ).rejects.toThrow('Housing already has a budget');
+      expect(await backend.budgetAllocations.getByMonth(MONTH)).toHaveLength(1);
+    });
+
+    it('moves a budget to another category', async () => {
+      const housing = await backend.categories.getOrCreate('Housing');
+      const rent = await backend.categories.getOrCreate('Rent');
+      const allocation = await backend.budgetAllocations.create({
+        categoryId: housing.id,
+        limit: 1000,
+        spent: 0,
+        month: MONTH,
+      });
+      await createExpense('Flat', 700, { category: 'Rent' });
+
+      const moved = await backend.budgetAllocations.update(allocation!.id, {
+        categoryId: rent.id,
+      });
+
+      expect(moved).toMatchObject({ name: 'Rent', limit: 1000, spent: 700 });
+      expect(await backend.budgetAllocations.getByMonth(MONTH)).toHaveLength(1);
+      // Housing can have a budget again
+      await backend.budgetAllocations.create({
+        categoryId: housing.id,
+        limit: 500,
+        spent: 0,
+        month: MONTH,
+      });
+      expect(await readLimits()).toEqual([
+        ['Housing', 500],
+        ['Rent', 1000],
+      ]);
+    });
+
+    it('refuses to move a budget onto a category that has one', async () => {
+      const housing = await backend.categories.getOrCreate('Housing');
+      const rent = await backend.categories.getOrCreate('Rent');
+      const allocation = await backend.budgetAllocations.create({
+        categoryId: housing.id,
+        limit: 1000,
+        spent: 0,
+        month: MONTH,
+      });
+      await backend.budgetAllocations.create({
+        categoryId: rent.id,
+        limit: 2000,
+        spent: 0,
+        month: MONTH,
+      });
+
+      await expect(
+        backend.budgetAllocations.update(allocation!.id, {
+          categoryId: rent.id,
+        })
+      ).rejects.toThrow('Rent already has a budget');
+      expect(await readLimits()).toEqual([
+        ['Housing', 1000],
+        ['Rent', 2000],
+      ]);
+    });
+
+    it('carries budgets forward to the next month', async () => {
+      const category = await backend.categories.getOrCreate('Housing');
+      await backend.budgetAllocations.create({
+        categoryId: category.id,
+        limit: 1000,
+        spent: 0,
+        month: MONTH,
+      });
+
+      await backend.budgetAllocations.createMonthlyBudgets('2026-11', MONTH);
+
+      const next = await backend.budgetAllocations.getByMonth('2026-11');
+      expect(next).toMatchObject([
+        { name: 'Housing', categoryId: category.id, limit: 1000 },
+      ]);
+    });
+  });
+
+  describe('grocery lists', () => {
+    it('totals the items and records price changes', async () => {
+      const list = await backend.groceryLists.createWithItems(
+        { name: 'Weekly' },
+        [
+          { name: 'Milk', quantity: 2, pricePerUnit: 100, totalCost: 200 },
+          { name: 'Bread', quantity: 1, pricePerUnit: 300, totalCost: 300 },
+        ]
+      );
+      expect(list?.totalCost).toBe(500);
+
+      const milk = list!.items.find((item) => item.name === 'Milk')!;
+      const updated = await backend.groceryLists.updateWithItems(
+        list!.id,
+        { name: 'This week' },
+        [
+          {
+            id: milk.id,
+            name: 'Milk',
+            quantity: 2,
+            pricePerUnit: 150,
+            totalCost: 300,
+          },
+        ]
+      );
+
+      expect(updated?.name).toBe('This week');
+      expect(updated?.totalCost).toBe(300);
+      expect(updated?.items).toHaveLength(1);
+      expect(
+        updated?.items[0].priceHistory.map((entry) => entry.price).sort()
+      ).toEqual([100, 150]);
+    });
+
+    it('stamps the list when an item changes its total', async () => {
+      const list = await backend.groceryLists.createWithItems(
+        { name: 'Weekly' },
+        []
+      );
+      // Leaves the list's own stamp in the past
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      await backend.groceryItems.create({
+        listId: list!.id,
+        name: 'Milk',
+        quantity: 1,
+        pricePerUnit: 200,
+        totalCost: 200,
+      });
+
+      const updated = await backend.groceryLists.getById(list!.id);
+      expect(updated?.totalCost).toBe(200);
+      expect(updated?.updatedAt).not.toBe(list?.updatedAt);
+      expect(Date.parse(updated!.updatedAt!)).toBeGreaterThan(
+        Date.now() - 1000
+      );
+    });
+  });
+
+  describe('exchange rates', () => {
+    it('derives inverse and cross rates', async () => {
+      await backend.exchangeRates.upsert({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD',
+        rate: 1.25,
+      });
+      await backend.exchangeRates.upsert({
+        fromCurrency: 'GBP',
+        toCurrency: 'USD',
+        rate: 1.5,
+      });
+
+      expect(await backend.exchangeRates.getRate('EUR', 'USD')).toBe(1.25);
+      expect(await backend.exchangeRates.getRate('USD', 'EUR')).toBe(0.8);
+      expect(await backend.exchangeRates.getRate('GBP', 'EUR')).toBeCloseTo(
+        1.2
+      );
+      expect(await backend.exchangeRates.getRate('JPY', 'EUR')).toBeNull();
+    });
+
+    it('replaces the rate for a currency pair', async () => {
+      await backend.exchangeRates.upsert({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD',
+        rate: 1.1,
+      });
+      await backend.exchangeRates.upsert({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD',
+        rate: 1.2,
+      });
+
+      expect(await backend.exchangeRates.getAll()).toMatchObject([
+        { fromCurrency: 'EUR', toCurrency: 'USD', rate: 1.2 },
+      ]);
+    });
+  });
+
+  describe('base currency', () => {
+    it('converts income, goals and budget limits to the new one', async () => {
+      await backend.financialSettings.create({
+        monthlyIncome: 500000,
+        savingsGoal: 100000,
+        currentSavings: 20000,
+      });
+      const category = await backend.categories.getOrCreate('Housing');
+      await backend.budgetAllocations.create({
+        categoryId: category.id,
+        limit: 150000,
+        spent: 0,
+        month: MONTH,
+      });
+      await createExpense('Rent', 100000);
+      await backend.exchangeRates.upsert({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD',
+        rate: 1.25,
+      });
+
+      await backend.financialSettings.update({ baseCurrency: 'EUR' });
+
+      expect(await backend.financialSettings.get()).toMatchObject({
+        baseCurrency: 'EUR',
+        monthlyIncome: 400000,
+        savingsGoal: 80000,
+        currentSavings: 16000,
+      });
+      expect(await backend.monthlySavings.getByMonth(MONTH)).toMatchObject({
+        income: 400000,
+        savingsGoal: 80000,
+        totalExpenses: 80000,
+        totalSaved: 320000,
+      });
+      expect(await backend.budgetAllocations.getByMonth(MONTH)).toMatchObject([
+        { name: 'Housing', limit: 120000, spent: 80000 },
+      ]);
+    });
+
+    it('refuses a new one with no rate to convert by', async () => {
+      await backend.financialSettings.create({
+        monthlyIncome: 500000,
+        savingsGoal: 0,
+      });
+      await createExpense('Rent', 100000);
+
+      await expect(
+        backend.financialSettings.update({ baseCurrency: 'JPY' })
+      ).rejects.toThrow('Add an exchange rate from USD to JPY');
+      expect(await backend.financialSettings.get()).toMatchObject({
+        baseCurrency: 'USD',
+        monthlyIncome: 500000,
+      });
+      expect(await backend.monthlySavings.getByMonth(MONTH)).toMatchObject({
+        income: 500000,
+        totalSaved: 400000,
+      });
+    });
+
+    it('needs no rate while nothing has been entered', async () => {
+      await backend.financialSettings.getOrCreate();
+
+      await backend.financialSettings.update({ baseCurrency: 'JPY' });
+
+      expect((await backend.financialSettings.get())?.baseCurrency).toBe('JPY');
+    });
+  });
+
+  describe('categorization rules', () => {
+    it('applies the first matching rule in priority order', async () => {
+      const streaming = await backend.categorizationRules.create({
+        pattern: 'netflix',
+        category: 'Entertainment',
+      });
+      const subscriptions = await backend.categorizationRules.create({
+        pattern: 'net',
+        category: 'Subscriptions',
+      });
+      await createExpense('NETFLIX.COM', 1599, { category: 'Other' });
+
+      await backend.categorizationRules.reorder([
+        subscriptions!.id,
+        streaming!.id,
+      ]);
+      expect(
+        (await backend.categorizationRules.getAll()).map((rule) => rule.pattern)
+      ).toEqual(['net', 'netflix']);
+
+      expect(await backend.categorizationRules.applyToMonth(MONTH)).toBe(1);
+      const [expense] = await backend.expenses.getByMonth(MONTH);
+      expect(expense.category).toBe('Subscriptions');
+    });
+  });
+
+  describe('splits and settlements', () => {
+    it('stores a split and rejects one that does not add up', async () => {
+      const alex = await backend.members.create({ name: 'Alex' });
+      const sam = await backend.members.create({ name: 'Sam' });
+      const expense = await createExpense('Food', 600, { paidBy: alex!.id });
+
+      await backend.expenseSplits.set(expense.id, {
+        type: 'percentage',
+        shares: [
+          { memberId: alex!.id, value: 50 },
+          { memberId: sam!.id, value: 50 },
+        ],
+      });
+      await expect(
+        backend.expenseSplits.set(expense.id, {
+          type: 'exact',
+          shares: [{ memberId: sam!.id, value: 100 }],
+        })
+      ).rejects.toThrow();
+
+      expect((await backend.expenses.getById(expense.id))?.splitType).toBe(
+        'percentage'
+      );
+      expect(
+        await backend.expenseSplits.getByExpenseId(expense.id)
+      ).toHaveLength(2);
+
+      await backend.expenseSplits.set(expense.id, null);
+      expect(
+        (await backend.expenses.getById(expense.id))?.splitType
+      ).toBeNull();
+      expect(
+        await backend.expenseSplits.getByExpenseId(expense.id)
+      ).toHaveLength(0);
+    });
+
+    it('keeps a member who shares expenses or settlements', async () => {
+      const alex = await backend.members.create({ name: 'Alex' });
+      const sam = await backend.members.create({ name: 'Sam' });
+      const kim = await backend.members.create({ name: 'Kim' });
+      const expense = await createExpense('Food', 600, { paidBy: alex!.id });
+      await backend.expenseSplits.set(expense.id, {
+        type: 'equal',
+        shares: [
+          { memberId: alex!.id, value: null },
+          { memberId: sam!.id, value: null },
+        ],
+      });
+      await backend.settlements.create({
+        fromMemberId: kim!.id,
+        toMemberId: sam!.id,
+        amount: 100,
+        date: `${MONTH}-10`,
+      });
+
+      for (const member of [alex!, sam!, kim!]) {
+        await expect(backend.members.delete(member.id)).rejects.toThrow(
+          `${member.name} shares expenses or settlements`
+        );
+      }
+      expect(
+        await backend.expenseSplits.getByExpenseId(expense.id)
+      ).toHaveLength(2);
+      expect(await backend.settlements.getAll()).toHaveLength(1);
+      expect((await backend.expenses.getById(expense.id))?.paidBy).toBe(
+        alex!.id
+      );
+
+      await backend.members.update(sam!.id, { isActive: false });
+      expect(await backend.members.getById(sam!.id)).toMatchObject({
+        name: 'Sam',
+        isActive: false,
+      });
+    });
+
+    it('removes a member and unassigns what they paid for', async () => {
+      const alex = await backend.members.create({ name: 'Alex' });
+      const expense = await createExpense('Food', 600, { paidBy: alex!.id });
+
+      await backend.members.delete(alex!.id);
+
+      expect(await backend.members.getById(alex!.id)).toBeNull();
+      expect((await backend.expenses.getById(expense.id))?.paidBy).toBeNull();
+    });
+
+    it('records settlements together', async () => {
+      const alex = await backend.members.create({ name: 'Alex' });
+      const sam = await backend.members.create({ name: 'Sam' });
+
+      const settlements = await backend.settlements.createMany([
+        {
+          fromMemberId: sam!.id,
+          toMemberId: alex!.id,
+          amount: 300,
+          date: `${MONTH}-10`,
+        },
+      ]);
+
+      expect(settlements).toHaveLength(1);
+      expect(await backend.settlements.getAll()).toMatchObject([
+        { fromMemberId: sam!.id, toMemberId: alex!.id, amount: 300 },
+      ]);
+    });
+  });
+
+  describe('accounts', () => {
+    it('keeps running balances across currencies', async () => {
+      await backend.exchangeRates.upsert({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD',
+        rate: 1.1,
+      });
+      const checking = await backend.accounts.create({
+        name: 'Checking',
+        type: 'checking',
+        currency: 'USD',
+        openingBalance: 100000,
+      });
+      const savings = await backend.accounts.create({
+        name: 'Savings',
+        type: 'savings',
+        currency: 'EUR',
+        openingBalance: 50000,
+      });
+      await backend.incomes.create({
+        name: 'Salary',
+        amount: 300000,
+        currency: 'USD',
+        date: `${MONTH}-01`,
+        accountId: checking!.id,
+      });
+      const rent = await createExpense('Rent', 120000, {
+        accountId: checking!.id,
+      });
+      await backend.payments.create({
+        expenseId: rent.id,
+        amount: 50000,
+        date: `${MONTH}-04`,
+      });
+      await createExpense('Gas', 5000, {
+        currency: 'EUR',
+        isPaid: true,
+        accountId: checking!.id,
+        dueDate: `${MONTH}-06`,
+      });
+      await backend.accountTransfers.create({
+        fromAccountId: checking!.id,
+        toAccountId: savings!.id,
+        amount: 11000,
+        date: `${MONTH}-07`,
+      });
+
+      expect(await backend.accounts.getBalances()).toEqual(
+        expect.arrayContaining([
+          { accountId: checking!.id, balance: 333500 },
+          { accountId: savings!.id, balance: 60000 },
+        ])
+      );
+      expect(
+        (await backend.accounts.getLedger(checking!.id)).map((entry) => [
+          entry.kind,
+          entry.amount,
+          entry.balance,
+        ])
+      ).toEqual([
+        ['opening', 100000, 100000],
+        ['income', 300000, 400000],
+        ['expense', -50000, 350000],
+        ['expense', -5500, 344500],
+        ['transferOut', -11000, 333500],
+      ]);
+
+      await backend.financialSettings.getOrCreate();
+      await backend.financialSettings.update({ savingsAccountId: savings!.id });
+      expect(
+        (await backend.financialSettings.getDashboardData(MONTH)).currentSavings
+      ).toBe(66000);
+    });
+
+    it('rejects a transfer to the same account', async () => {
+      const checking = await backend.accounts.create({
+        name: 'Checking',
+        type: 'checking',
+        currency: 'USD',
+        openingBalance: 0,
+      });
+
+      await expect(
+        backend.accountTransfers.create({
+          fromAccountId: checking!.id,
+          toAccountId: checking!.id,
+          amount: 100,
+          date: `${MONTH}-01`,
+        })
+      ).rejects.toThrow('Pick two different accounts');
+    });
+
+    it('unlinks expenses and incomes of a deleted account', async () => {
+      const checking = await backend.accounts.create({
+        name: 'Checking',
+        type: 'checking',
+        currency: 'USD',
+        openingBalance: 0,
+      });
+      const expense = await createExpense('Rent', 1000, {
+        accountId: checking!.id,
+      });
+      await backend.incomes.create({
+        name: 'Salary',
+        amount: 5000,
+        currency: 'USD',
+        date: `${MONTH}-01`,
+        accountId: checking!.id,
+      });
+
+      await backend.accounts.delete(checking!.id);
+
+      expect(
+        (await backend.expenses.getById(expense.id))?.accountId
+      ).toBeNull();
+      expect((await backend.incomes.getAll())[0].accountId).toBeNull();
+      expect(await backend.accounts.getAll()).toHaveLength(0);
+    });
+  });
+
+  describe('dashboard', () => {
+    it('sums the month in the base currency', async () => {
+      await backend.financialSettings.getOrCreate();
+      await backend.financialSettings.update({
+        monthlyIncome: 500000,
+        savingsGoal: 100000,
+        currentSavings: 25000,
+      });
+      await createExpense('Rent', 100000, { isPaid: true });
+      await createExpense('Power', 5000);
+
+      const dashboard = await backend.financialSettings.getDashboardData(MONTH);
+
+      expect(dashboard).toMatchObject({
+        monthlyIncome: 500000,
+        totalExpenses: 105000,
+        totalPaid: 100000,
+        remainingIncome: 395000,
+        currentSavings: 25000,
+        savingsProgress: 25,
+      });
+    });
+  });
+
+  describe('change log', () => {
+    it('records the creation and each changed field', async () => {
+      const expense = await createExpense('Rent', 1000);
+      await backend.expenses.update(expense.id, { amount: 1500 });
+
+      const history = await backend.audit.getByRecord('expenses', expense.id);
+
+      expect(history.map((entry) => entry.action).sort()).toEqual([
+        'create',
+        'update',
+      ]);
+      expect(history.find((entry) => entry.action === 'update')).toMatchObject({
+        field: 'amount',
+        oldValue: 1000,
+        newValue: 1500,
+      });
+    });
+  });
+});
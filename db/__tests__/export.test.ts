@@ -0,0 +1,34 @@
+import { toCsv } from '../export';
+
+const columns = [{ header: 'Value', value: (row: string) => row }];
+
+describe('toCsv', () => {
+  it('quotes separators, quotes and line breaks', () => {
+    expect(toCsv(['a,b', 'say "hi"', 'two\nlines'], columns)).toBe(
+      'Value\r\n"a,b"\r\n"say ""hi"""\r\n"two\nlines"'
+    );
+  });
+
+  it('keeps spreadsheets from running text as a formula', () => {
+    expect(
+      toCsv(
+        ['=HYPERLINK("http://x")', '+1+1', '-2+3', '@SUM(A1)', '\tTab'],
+        columns
+      ).split('\r\n')
+    ).toEqual([
+      'Value',
+      `"'=HYPERLINK(""http://x"")"`,
+      `'+1+1`,
+      `'-2+3`,
+      `'@SUM(A1)`,
+      `'\tTab`,
+    ]);
+  });
+
+  it('leaves negative amounts as numbers', () => {
+    expect(toCsv(['-12.50', '-3'], columns)).toBe('Value\r\n-12.50\r\n-3');
+    expect(
+      toCsv([-5], [{ header: 'Amount', value: (row: number) => row }])
+    ).toBe('Amount\r\n-5');
+  });
+});
@@ -0,0 +1,275 @@
+// Upgrades from an older schema carry the data written under it over.
+import { DB_VERSION, webDb } from '../database-web';
+import { DEFAULT_REMINDER_DAYS } from '../reminders';
+import { sqliteBackend, indexedDbBackend } from '../testing/backends';
+import {
+  migrateTestDatabase,
+  queryTestDatabase,
+  resetTestDatabaseTo,
+} from '../testing/expo-sqlite';
+
+// Stores keyed by something other than id
+const KEY_PATHS: Record<string, string> = { monthlyRollovers: 'month' };
+
+// Opens a web database at an old version, with only `stores` in it
+const createOldWebDatabase = (
+  version: number,
+  stores: Record<string, object[]>
+) =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('HouseholdDB', version);
+    request.onerror = () => reject(request.error);
+    request.onupgradeneeded = () => {
+      Object.entries(stores).forEach(([storeName, records]) => {
+        const store = request.result.createObjectStore(storeName, {
+          keyPath: KEY_PATHS[storeName] ?? 'id',
+        });
+        records.forEach((record) => store.put(record));
+      });
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+  });
+
+// The same bill flagged recurring in three months, and a one-off
+const legacyExpense = (id: string, name: string, month: string) => ({
+  id,
+  name,
+  amount: 12,
+  category: 'Health',
+  dueDate: `${month}-03`,
+  month,
+  chargeDay: null,
+  isPaid: false,
+  isRecurring: name === 'Gym',
+  createdAt: `${month}-01T00:00:00.000Z`,
+  updatedAt: `${month}-01T00:00:00.000Z`,
+});
+const legacyExpenses = [
+  legacyExpense('gym-aug', 'Gym', '2026-08'),
+  legacyExpense('gym-oct', 'Gym', '2026-10'),
+  legacyExpense('gym-sep', 'Gym', '2026-09'),
+  legacyExpense('vet', 'Vet', '2026-09'),
+];
+
+describe('SQLite migrations', () => {
+  it('makes one template of a bill flagged recurring in several months', async () => {
+    await resetTestDatabaseTo('0001_rapid_sumo');
+    legacyExpenses.forEach((expense) =>
+      queryTestDatabase(
+        `INSERT INTO expenses (id, name, amount, category, due_date, month, is_recurring)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          expense.id,
+          expense.name,
+          expense.amount,
+          expense.category,
+          expense.dueDate,
+          expense.month,
+          expense.isRecurring,
+        ]
+      )
+    );
+
+    migrateTestDatabase();
+
+    const templates = await sqliteBackend.recurringExpenses.getAll();
+    expect(templates).toHaveLength(1);
+    expect(templates[0]).toMatchObject({
+      id: 'gym-oct',
+      startDate: '2026-08-01',
+    });
+    expect(
+      queryTestDatabase('SELECT id, template_id FROM expenses ORDER BY id')
+    ).toEqual([
+      { id: 'gym-aug', template_id: 'gym-oct' },
+      { id: 'gym-oct', template_id: 'gym-oct' },
+      { id: 'gym-sep', template_id: 'gym-oct' },
+      { id: 'vet', template_id: null },
+    ]);
+    expect(
+      await sqliteBackend.recurringExpenses.generateForMonth('2026-11')
+    ).toHaveLength(1);
+  });
+});
+
+describe('IndexedDB upgrades', () => {
+  beforeEach(() => webDb.reset());
+
+  it('creates a new database without the legacy stores', async () => {
+    const db = await webDb.init();
+
+    expect(db.objectStoreNames.contains('budgetCategories')).toBe(false);
+    expect(await indexedDbBackend.categories.getAll()).toEqual([]);
+  });
+
+  it('makes one template of a bill flagged recurring in several months', async () => {
+    await createOldWebDatabase(3, {
+      expenses: legacyExpenses,
+      budgetCategories: [],
+      groceryLists: [],
+      groceryItems: [],
+      priceHistory: [],
+      financialSettings: [],
+      monthlySavings: [],
+      monthlyRollovers: [],
+    });
+
+    await webDb.init();
+
+    const templates = await indexedDbBackend.recurringExpenses.getAll();
+    expect(templates).toHaveLength(1);
+    expect(templates[0]).toMatchObject({
+      id: 'gym-oct',
+      startDate: '2026-08-01',
+    });
+    const expenses = await indexedDbBackend.expenses.getAll();
+    expect(
+      Object.fromEntries(
+        expenses.map((expense) => [expense.id, expense.templateId ?? null])
+      )
+    ).toEqual({
+      'gym-aug': 'gym-oct',
+      'gym-oct': 'gym-oct',
+      'gym-sep': 'gym-oct',
+      vet: null,
+    });
+    expect(
+      await indexedDbBackend.recurringExpenses.generateForMonth('2026-11')
+    ).toHaveLength(1);
+  });
+
+  // Version 1 stored whole units, with no currencies, templates or categories
+  it('carries a version 1 database through every step', async () => {
+    const createdAt = '2026-09-01T00:00:00.000Z';
+    await createOldWebDatabase(1, {
+      expenses: [
+        ...legacyExpenses,
+        { ...legacyExpense('rent', 'Rent', '2026-10'), amount: 1200.5 },
+      ].map((expense) =>
+        expense.id === 'rent' ? { ...expense, category: 'Housing' } : expense
+      ),
+      budgetCategories: [
+        {
+          id: 'housing_2026-10',
+          name: 'Housing',
+          limit: 1500,
+          spent: 1200.5,
+          month: '2026-10',
+          createdAt,
+          updatedAt: createdAt,
+        },
+      ],
+      groceryLists: [
+        { id: 'weekly', name: 'Weekly', totalCost: 3.5, createdAt },
+      ],
+      groceryItems: [
+        {
+          id: 'milk',
+          listId: 'weekly',
+          name: 'Milk',
+          quantity: 1,
+          pricePerUnit: 3.5,
+          totalCost: 3.5,
+          isPurchased: false,
+          createdAt,
+        },
+      ],
+      priceHistory: [
+        { id: 'milk-price', itemId: 'milk', price: 3.5, date: '2026-09-01' },
+      ],
+      financialSettings: [
+        {
+          id: 'default',
+          monthlyIncome: 4500,
+          savingsGoal: 800,
+          currentSavings: 450.25,
+          createdAt,
+        },
+      ],
+    });
+
+    await webDb.init();
+
+    expect(await indexedDbBackend.expenses.getById('rent')).toMatchObject({
+      amount: 120050,
+      currency: 'USD',
+    });
+    expect(await indexedDbBackend.expenses.getById('gym-aug')).toMatchObject({
+      amount: 1200,
+      currency: 'USD',
+      templateId: 'gym-oct',
+    });
+    expect(await indexedDbBackend.recurringExpenses.getAll()).toMatchObject([
+      { id: 'gym-oct', amount: 1200, currency: 'USD' },
+    ]);
+
+    const categories = await indexedDbBackend.categories.getAll();
+    expect(categories.map((category) => category.name)).toEqual(
+      expect.arrayContaining(['Housing', 'Health'])
+    );
+    expect(
+      categories.every(
+        (category) => category.reminderDays === DEFAULT_REMINDER_DAYS
+      )
+    ).toBe(true);
+    expect(
+      await indexedDbBackend.budgetAllocations.getByMonth('2026-10')
+    ).toMatchObject([{ name: 'Housing', limit: 150000 }]);
+
+    expect(await indexedDbBackend.groceryLists.getById('weekly')).toMatchObject(
+      {
+        totalCost: 350,
+        currency: 'USD',
+        items: [{ pricePerUnit: 350, priceHistory: [{ price: 350 }] }],
+      }
+    );
+    expect(await indexedDbBackend.financialSettings.get()).toMatchObject({
+      monthlyIncome: 450000,
+      savingsGoal: 80000,
+      currentSavings: 45025,
+      baseCurrency: 'USD',
+    });
+    expect(await webDb.getMigrationHistory()).toMatchObject([
+      { fromVersion: 1, toVersion: DB_VERSION },
+    ]);
+  });
+
+  it('keeps the old version and data when a step fails', async () => {
+    // A recurring expense without a due date has no day to charge on
+    const broken = { ...legacyExpense('gym', 'Gym', '2026-10'), dueDate: null };
+    await createOldWebDatabase(1, {
+      expenses: [broken],
+      budgetCategories: [],
+      groceryLists: [],
+      groceryItems: [],
+      priceHistory: [],
+      financialSettings: [],
+    });
+
+    await expect(webDb.init()).rejects.toThrow(
+      `Web database upgrade to version ${DB_VERSION} failed`
+    );
+
+    const stored = await new Promise<{ version: number; expenses: unknown }>(
+      (resolve, reject) => {
+        const request = indexedDB.open('HouseholdDB');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const db = request.result;
+          const read = db
+            .transaction('expenses')
+            .objectStore('expenses')
+            .getAll();
+          read.onsuccess = () => {
+            db.close();
+            resolve({ version: db.version, expenses: read.result });
+          };
+        };
+      }
+    );
+    expect(stored).toEqual({ version: 1, expenses: [broken] });
+  });
+});
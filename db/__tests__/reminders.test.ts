@@ -0,0 +1,180 @@
+// syncReminders against a fake notifier and a clock that stands still
+import { syncReminders, type Notifier, type Reminder } from '../reminders';
+import type { Expense } from '../schema';
+
+const createNotifier = () => {
+  const scheduled = new Map<string, Reminder>();
+  const notifier: Notifier = {
+    getScheduled: async () => [...scheduled.values()],
+    schedule: async (reminder) => {
+      scheduled.set(reminder.id, reminder);
+    },
+    cancel: async (id) => {
+      scheduled.delete(id);
+    },
+  };
+  return { notifier, scheduled };
+};
+
+// The morning of 1 October 2026, local time
+const clock = { now: () => new Date(2026, 9, 1, 8) };
+
+const categories = [
+  { name: 'Housing', reminderDays: 3 },
+  { name: 'Utilities', reminderDays: 1 },
+  { name: 'Food', reminderDays: null },
+];
+
+const createExpense = (overrides: Partial<Expense> = {}): Expense => ({
+  id: 'rent',
+  name: 'Rent',
+  amount: 100000,
+  currency: 'USD',
+  category: 'Housing',
+  dueDate: '2026-10-10',
+  month: '2026-10',
+  chargeDay: null,
+  isPaid: false,
+  isRecurring: false,
+  templateId: null,
+  paidBy: null,
+  splitType: null,
+  accountId: null,
+  deletedAt: null,
+  snoozedUntil: null,
+  createdAt: '2026-09-01T00:00:00.000Z',
+  updatedAt: '2026-09-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('syncReminders', () => {
+  it('schedules a reminder the lead time before the due date', async () => {
+    const { notifier, scheduled } = createNotifier();
+
+    const changes = await syncReminders(
+      notifier,
+      [createExpense()],
+      categories,
+      clock
+    );
+
+    expect(changes).toEqual({ scheduled: 1, cancelled: 0 });
+    expect(scheduled.get('bill-rent')).toMatchObject({
+      expenseId: 'rent',
+      title: 'Rent is due in 3 days',
+      date: new Date(2026, 9, 7, 9),
+    });
+  });
+
+  it('takes the lead time from the category', async () => {
+    const { notifier, scheduled } = createNotifier();
+
+    await syncReminders(
+      notifier,
+      [
+        createExpense({ id: 'power', name: 'Power', category: 'utilities' }),
+        createExpense({ id: 'food', name: 'Food', category: 'Food' }),
+        createExpense({ id: 'gift', name: 'Gift', category: 'Gifts' }),
+      ],
+      categories,
+      clock
+    );
+
+    expect(scheduled.get('bill-power')).toMatchObject({
+      title: 'Power is due tomorrow',
+      date: new Date(2026, 9, 9, 9),
+    });
+    // Reminders are off for Food; Gifts has no record, so it gets the default
+    expect(scheduled.has('bill-food')).toBe(false);
+    expect(scheduled.get('bill-gift')?.date).toEqual(new Date(2026, 9, 7, 9));
+  });
+
+  it('leaves an unchanged reminder alone', async () => {
+    const { notifier } = createNotifier();
+    await syncReminders(notifier, [createExpense()], categories, clock);
+
+    expect(
+      await syncReminders(notifier, [createExpense()], categories, clock)
+    ).toEqual({ scheduled: 0, cancelled: 0 });
+  });
+
+  it('reschedules the reminder of an edited expense', async () => {
+    const { notifier, scheduled } = createNotifier();
+    await syncReminders(notifier, [createExpense()], categories, clock);
+
+    const changes = await syncReminders(
+      notifier,
+      [createExpense({ dueDate: '2026-10-20', amount: 110000 })],
+      categories,
+      clock
+    );
+
+    expect(changes).toEqual({ scheduled: 1, cancelled: 0 });
+    expect(scheduled.size).toBe(1);
+    expect(scheduled.get('bill-rent')?.date).toEqual(new Date(2026, 9, 17, 9));
+  });
+
+  it('cancels the reminder once the expense is paid or deleted', async () => {
+    const { notifier, scheduled } = createNotifier();
+    const power = createExpense({ id: 'power', category: 'Utilities' });
+    await syncReminders(notifier, [createExpense(), power], categories, clock);
+
+    const changes = await syncReminders(
+      notifier,
+      [
+        createExpense({ isPaid: true }),
+        { ...power, deletedAt: '2026-10-01T07:00:00.000Z' },
+      ],
+      categories,
+      clock
+    );
+
+    expect(changes).toEqual({ scheduled: 0, cancelled: 2 });
+    expect(scheduled.size).toBe(0);
+  });
+
+  it('reminds of a snoozed expense on the day it was snoozed to', async () => {
+    const { notifier, scheduled } = createNotifier();
+
+    await syncReminders(
+      notifier,
+      [createExpense({ snoozedUntil: '2026-10-15' })],
+      categories,
+      clock
+    );
+
+    expect(scheduled.get('bill-rent')).toMatchObject({
+      title: 'Rent is still unpaid',
+      date: new Date(2026, 9, 15, 9),
+    });
+  });
+
+  it('does not send a reminder whose time has passed', async () => {
+    const { notifier, scheduled } = createNotifier();
+
+    await syncReminders(
+      notifier,
+      [createExpense({ dueDate: '2026-10-02' })],
+      categories,
+      clock
+    );
+
+    expect(scheduled.size).toBe(0);
+  });
+
+  it('leaves other notifications alone', async () => {
+    const { notifier, scheduled } = createNotifier();
+    const other = {
+      id: 'backup-done',
+      expenseId: '',
+      title: 'Backup done',
+      body: '',
+      date: new Date(2026, 9, 2),
+    };
+    scheduled.set(other.id, other);
+
+    await syncReminders(notifier, [], categories, clock);
+
+    expect(scheduled.get('backup-done')).toBe(other);
+  });
+});
@@ -0,0 +1,193 @@
+// Two peers, one on each backend, syncing through the in-process transport.
+import {
+  MAX_PAIRING_ATTEMPTS,
+  PAIRING_LOCKOUT_MS,
+  createPairingGuard,
+  receiveSync,
+  syncWithPeer,
+  type PairingGuard,
+} from '../sync';
+import { createLoopbackTransport } from '../sync-transport';
+import { syncService } from '../sync-store';
+import { webSyncService } from '../sync-store-web';
+import { sqliteBackend, indexedDbBackend } from '../testing/backends';
+
+const phone = sqliteBackend;
+const browser = indexedDbBackend;
+
+let guard: PairingGuard;
+const loopback = createLoopbackTransport((request) =>
+  receiveSync(syncService, request, guard).then(({ response }) => response)
+);
+
+// Lets the next edit carry a later timestamp than the one before
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+// Types `code` into the browser's pairing form
+const pairWith = (code: string) =>
+  syncWithPeer(
+    webSyncService,
+    {
+      id: null,
+      name: 'Phone',
+      address: 'loopback',
+      code,
+      receivedSeq: 0,
+      sentSeq: 0,
+    },
+    loopback,
+    null
+  );
+
+const pair = async () => {
+  const device = await syncService.updateDevice({
+    isEnabled: true,
+    name: 'Phone',
+  });
+  return pairWith(device.code);
+};
+
+// Syncs again with the paired phone, as the sync screen does
+const sync = async () => {
+  const [peer] = await webSyncService.getPeers();
+  return syncWithPeer(webSyncService, peer, loopback, null);
+};
+
+const newExpense = {
+  name: 'Rent',
+  amount: 100000,
+  category: 'Housing',
+  dueDate: '2026-10-01',
+  month: '2026-10',
+};
+
+beforeEach(async () => {
+  guard = createPairingGuard();
+  await phone.reset();
+  await browser.reset();
+});
+
+describe('pairing', () => {
+  it('refuses a wrong pairing code', async () => {
+    await syncService.updateDevice({ isEnabled: true, name: 'Phone' });
+
+    await expect(pairWith('nope')).rejects.toThrow('Wrong pairing code');
+    expect(await syncService.getPeers()).toHaveLength(0);
+  });
+
+  it('trades the code for a key the two devices share', async () => {
+    const { code } = await syncService.updateDevice({
+      isEnabled: true,
+      name: 'Phone',
+    });
+
+    await pairWith(code);
+
+    const [phoneSide] = await syncService.getPeers();
+    const [browserSide] = await webSyncService.getPeers();
+    expect(phoneSide.code).toHaveLength(32);
+    expect(browserSide.code).toBe(phoneSide.code);
+    expect((await syncService.getDevice()).code).not.toBe(code);
+    await expect(sync()).resolves.toBeTruthy();
+  });
+
+  it('takes a pairing code only once', async () => {
+    const { code } = await syncService.updateDevice({
+      isEnabled: true,
+      name: 'Phone',
+    });
+    await pairWith(code);
+
+    await expect(pairWith(code)).rejects.toThrow('Wrong pairing code');
+  });
+
+  it('locks pairing after too many wrong codes', async () => {
+    const { code } = await syncService.updateDevice({
+      isEnabled: true,
+      name: 'Phone',
+    });
+    for (let attempt = 0; attempt < MAX_PAIRING_ATTEMPTS; attempt++) {
+      await expect(pairWith('000000x')).rejects.toThrow('Wrong pairing code');
+    }
+
+    const { code: newCode } = await syncService.getDevice();
+    expect(newCode).not.toBe(code);
+    await expect(pairWith(newCode)).rejects.toThrow('Too many wrong');
+
+    const now = Date.now();
+    const clock = jest
+      .spyOn(Date, 'now')
+      .mockReturnValue(now + PAIRING_LOCKOUT_MS);
+    try {
+      await expect(pairWith(newCode)).resolves.toBeTruthy();
+    } finally {
+      clock.mockRestore();
+    }
+  });
+});
+
+describe('sync between SQLite and IndexedDB', () => {
+  it('copies records both ways and remembers the peer', async () => {
+    const rent = await phone.expenses.create(newExpense);
+    const alex = await browser.members.create({ name: 'Alex' });
+
+    const { peer } = await pair();
+
+    expect(await browser.expenses.getById(rent!.id)).toMatchObject({
+      name: 'Rent',
+      amount: 100000,
+    });
+    expect(await phone.members.getById(alex!.id)).toMatchObject({
+      name: 'Alex',
+    });
+    expect(peer.name).toBe('Phone');
+    expect((await syncService.getPeers()).map((item) => item.id)).toEqual([
+      (await webSyncService.getDevice()).id,
+    ]);
+
+    expect((await sync()).applied).toBe(0);
+  });
+
+  it('merges edits to different fields of the same record', async () => {
+    const rent = await phone.expenses.create(newExpense);
+    await pair();
+
+    await tick();
+    await phone.expenses.update(rent!.id, { amount: 120000 });
+    await tick();
+    await browser.expenses.update(rent!.id, { name: 'Flat rent' });
+    await sync();
+
+    const expected = { name: 'Flat rent', amount: 120000 };
+    expect(await phone.expenses.getById(rent!.id)).toMatchObject(expected);
+    expect(await browser.expenses.getById(rent!.id)).toMatchObject(expected);
+  });
+
+  it('keeps the later edit when both change the same field', async () => {
+    const rent = await phone.expenses.create(newExpense);
+    await pair();
+
+    await tick();
+    await browser.expenses.update(rent!.id, { amount: 110000 });
+    await tick();
+    await phone.expenses.update(rent!.id, { amount: 130000 });
+    await sync();
+
+    expect((await phone.expenses.getById(rent!.id))?.amount).toBe(130000);
+    expect((await browser.expenses.getById(rent!.id))?.amount).toBe(130000);
+  });
+
+  it('lets a delete win over an edit', async () => {
+    const rent = await phone.expenses.create(newExpense);
+    await pair();
+
+    await browser.expenses.delete(rent!.id);
+    await browser.expenses.purge(rent!.id);
+    await tick();
+    await phone.expenses.update(rent!.id, { amount: 999 });
+    await sync();
+
+    expect(await phone.expenses.getById(rent!.id)).toBeNull();
+    expect(await browser.expenses.getById(rent!.id)).toBeNull();
+  });
+});
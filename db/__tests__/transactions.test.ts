@@ -0,0 +1,239 @@
+// A unit of work that throws part way leaves every table as it was, on both
+// backends.
+import { getDb, withTransaction, members, categories } from '../database';
+import { webDb } from '../database-web';
+import type { SyncTableName } from '../sync-tables';
+import { resetTestDatabase } from '../testing/expo-sqlite';
+import { backends } from '../testing/backends';
+import type { Member, Category } from '../schema';
+
+describe('withTransaction', () => {
+  beforeEach(resetTestDatabase);
+
+  // The migrations seed the default categories
+  const readTables = async () => {
+    const db = await getDb();
+    return {
+      members: await db.select().from(members),
+      categories: await db.select().from(categories),
+    };
+  };
+
+  it('commits every write together', async () => {
+    const before = await readTables();
+
+    await withTransaction((tx) => {
+      tx.insert(members).values({ id: 'alex', name: 'Alex' }).run();
+      tx.insert(categories).values({ id: 'food', name: 'Food' }).run();
+    });
+
+    const after = await readTables();
+    expect(after.members).toHaveLength(1);
+    expect(after.categories).toHaveLength(before.categories.length + 1);
+  });
+
+  it('rolls back the writes made before a throw', async () => {
+    const db = await getDb();
+    await db.insert(members).values({ id: 'alex', name: 'Alex' });
+    const before = await readTables();
+
+    await expect(
+      withTransaction((tx) => {
+        tx.insert(members).values({ id: 'sam', name: 'Sam' }).run();
+        tx.delete(members).run();
+        tx.insert(categories).values({ id: 'food', name: 'Food' }).run();
+        throw new Error('Halfway');
+      })
+    ).rejects.toThrow('Halfway');
+
+    expect(await readTables()).toEqual(before);
+  });
+
+  it('rolls back when a statement fails', async () => {
+    const before = await readTables();
+
+    await expect(
+      withTransaction((tx) => {
+        tx.insert(members).values({ id: 'alex', name: 'Alex' }).run();
+        // Category names are unique
+        tx.insert(categories)
+          .values({ id: 'other', name: before.categories[0].name })
+          .run();
+      })
+    ).rejects.toThrow();
+
+    expect(await readTables()).toEqual(before);
+  });
+});
+
+describe('WebDatabase.transaction', () => {
+  beforeEach(async () => {
+    await webDb.reset();
+    await webDb.init();
+  });
+
+  const alex: Member = {
+    id: 'alex',
+    name: 'Alex',
+    isActive: true,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+  };
+  const food: Category = {
+    id: 'food',
+    name: 'Food',
+    reminderDays: 3,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+  };
+
+  it('commits every write together', async () => {
+    await webDb.transaction(['members', 'categories'], async (tx) => {
+      await tx.put('members', alex);
+      await tx.put('categories', food);
+    });
+
+    expect(await webDb.getAll('members')).toEqual([alex]);
+    expect(await webDb.getAll('categories')).toEqual([food]);
+  });
+
+  it('rolls back the writes made before a throw', async () => {
+    await webDb.put('members', alex);
+
+    await expect(
+      webDb.transaction(['members', 'categories'], async (tx) => {
+        await tx.put('members', { ...alex, id: 'sam', name: 'Sam' });
+        await tx.delete('members', alex.id);
+        await tx.put('categories', food);
+        throw new Error('Halfway');
+      })
+    ).rejects.toThrow('Halfway');
+
+    expect(await webDb.getAll('members')).toEqual([alex]);
+    expect(await webDb.getAll('categories')).toEqual([]);
+  });
+
+  it('rolls back when a request fails', async () => {
+    await webDb.put('categories', food);
+
+    await expect(
+      webDb.transaction(['members', 'categories'], async (tx) => {
+        await tx.put('members', alex);
+        // The store's key path is id
+        await tx.put('categories', { name: 'Other' });
+      })
+    ).rejects.toBeTruthy();
+
+    expect(await webDb.getAll('members')).toEqual([]);
+    expect(await webDb.getAll('categories')).toEqual([food]);
+  });
+});
+
+// The compound service methods, with a later step of each made to fail
+describe.each(backends)('$name service writes', (backend) => {
+  beforeEach(backend.reset);
+
+  const MONTH = '2026-10';
+  const rent = {
+    name: 'Rent',
+    amount: 100000,
+    category: 'Housing',
+    dueDate: `${MONTH}-01`,
+    month: MONTH,
+  };
+
+  const readAll = async () => ({
+    expenses: await backend.expenses.getAll(),
+    savings: await backend.monthlySavings.getAll(),
+    budgets: await backend.budgetAllocations.getAll(),
+    // With their items and the items' price history
+    lists: await backend.groceryLists.getAll(),
+  });
+
+  const failingWrites = async (
+    table: SyncTableName,
+    write: () => Promise<unknown>
+  ) => {
+    const restore = backend.failWrites(table);
+    try {
+      await expect(write()).rejects.toThrow('Injected failure');
+    } finally {
+      restore();
+    }
+  };
+
+  describe('adding an expense', () => {
+    beforeEach(async () => {
+      const housing = await backend.categories.getOrCreate('Housing');
+      await backend.budgetAllocations.create({
+        categoryId: housing.id,
+        limit: 150000,
+        spent: 0,
+        month: MONTH,
+      });
+      await backend.expenses.create(rent);
+    });
+
+    it('leaves everything as it was when the savings total fails', async () => {
+      const before = await readAll();
+
+      await failingWrites('monthlySavings', () =>
+        backend.expenses.create({ ...rent, name: 'Repairs' })
+      );
+
+      expect(await readAll()).toEqual(before);
+    });
+
+    it('leaves everything as it was when the budget spent fails', async () => {
+      const before = await readAll();
+
+      await failingWrites('budgetAllocations', () =>
+        backend.expenses.create({ ...rent, name: 'Repairs' })
+      );
+
+      expect(await readAll()).toEqual(before);
+    });
+  });
+
+  describe('adding grocery items', () => {
+    const milk = {
+      name: 'Milk',
+      quantity: 2,
+      pricePerUnit: 150,
+      totalCost: 300,
+    };
+
+    it('leaves the list as it was when the price history fails', async () => {
+      const list = await backend.groceryLists.createWithItems(
+        { name: 'Weekly' },
+        [milk]
+      );
+      const before = await readAll();
+      const history = await backend.audit.getByRecord('groceryLists', list!.id);
+
+      await failingWrites('priceHistory', () =>
+        backend.groceryItems.create({
+          ...milk,
+          name: 'Bread',
+          listId: list!.id,
+        })
+      );
+
+      expect(await readAll()).toEqual(before);
+      expect(await backend.audit.getByRecord('groceryLists', list!.id)).toEqual(
+        history
+      );
+    });
+
+    it('creates no list when one of its items fails', async () => {
+      await failingWrites('priceHistory', () =>
+        backend.groceryLists.createWithItems({ name: 'Weekly' }, [
+          milk,
+          { ...milk, name: 'Bread' },
+        ])
+      );
+
+      expect((await readAll()).lists).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+// Account balances.
+//
+// A balance is never stored. It is the opening balance plus everything that
+// went in or out of the account: incomes paid into it, transfers to and
+// from it, and what was paid toward the expenses paid from it (see
+// db/payments.ts). Money moved in another currency is converted into the
+// account's with the stored rates. Pure functions over the records, so both
+// storage backends work balances out the same way.
+import type {
+  Account,
+  AccountTransfer,
+  AccountType,
+  ExchangeRate,
+  Expense,
+  Income,
+  Payment,
+} from './schema';
+import { createConverter } from './currency';
+import type { Cents } from './money';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit: 'Credit card',
+  cash: 'Cash',
+};
+
+export type LedgerEntryKind =
+  | 'opening'
+  | 'income'
+  | 'expense'
+  | 'transferIn'
+  | 'transferOut';
+
+export interface LedgerEntry {
+  kind: LedgerEntryKind;
+  // The income, expense or transfer; the account for its opening balance
+  recordId: string;
+  date: string | null; // Null for the opening balance, which comes first
+  description: string;
+  amount: Cents; // In the account currency; negative when money left
+  balance: Cents; // After this entry
+}
+
+export interface AccountBalance {
+  accountId: string;
+  balance: Cents;
+}
+
+// Everything that moves money, as read by the services. Trashed expenses are
+// left out by whoever reads them.
+export interface AccountActivity {
+  accounts: Account[];
+  expenses: Pick<
+    Expense,
+    'id' | 'name' | 'amount' | 'currency' | 'dueDate' | 'isPaid' | 'accountId'
+  >[];
+  payments: Pick<Payment, 'expenseId' | 'amount' | 'date'>[];
+  incomes: Income[];
+  transfers: AccountTransfer[];
+  rates: ExchangeRate[];
+}
+
+type Movement = Omit<LedgerEntry, 'balance'>;
+
+const byDate = (a: Movement, b: Movement) =>
+  (a.date ?? '').localeCompare(b.date ?? '');
+
+const getMovements = (
+  account: Account,
+  activity: AccountActivity
+): Movement[] => {
+  const convert = createConverter(activity.rates, account.currency);
+  const accountName = (id: string) =>
+    activity.accounts.find((other) => other.id === id)?.name ??
+    'another account';
+  const movements: Movement[] = [];
+
+  // An expense marked paid without payments was paid in full on its due date
+  for (const expense of activity.expenses) {
+    if (expense.accountId !== account.id) continue;
+    const expensePayments = activity.payments.filter(
+      (payment) => payment.expenseId === expense.id
+    );
+    const paid =
+      expensePayments.length > 0
+        ? expensePayments
+        : expense.isPaid
+        ? [{ amount: expense.amount, date: expense.dueDate }]
+        : [];
+    for (const payment of paid) {
+      movements.push({
+        kind: 'expense',
+        recordId: expense.id,
+        date: payment.date,
+        description: expense.name,
+        amount: -convert(payment.amount, expense.currency),
+      });
+    }
+  }
+
+  for (const income of activity.incomes) {
+    if (income.accountId !== account.id) continue;
+    movements.push({
+      kind: 'income',
+      recordId: income.id,
+      date: income.date,
+      description: income.name,
+      amount: convert(income.amount, income.currency),
+    });
+  }
+
+  // Without a received amount, a transfer between currencies is converted at
+  // the stored rate
+  for (const transfer of activity.transfers) {
+    if (transfer.fromAccountId === account.id) {
+      movements.push({
+        kind: 'transferOut',
+        recordId: transfer.id,
+        date: transfer.date,
+        description: `Transfer to ${accountName(transfer.toAccountId)}`,
+        amount: -transfer.amount,
+      });
+    }
+    if (transfer.toAccountId === account.id) {
+      const from = activity.accounts.find(
+        (other) => other.id === transfer.fromAccountId
+      );
+      movements.push({
+        kind: 'transferIn',
+        recordId: transfer.id,
+        date: transfer.date,
+        description: `Transfer from ${accountName(transfer.fromAccountId)}`,
+        amount: transfer.toAmount ?? convert(transfer.amount, from?.currency),
+      });
+    }
+  }
+
+  return movements.sort(byDate);
+};
+
+// Oldest first, starting with the opening balance
+export const getLedger = (
+  account: Account,
+  activity: AccountActivity
+): LedgerEntry[] => {
+  const opening: LedgerEntry = {
+    kind: 'opening',
+    recordId: account.id,
+    date: null,
+    description: 'Opening balance',
+    amount: account.openingBalance,
+    balance: account.openingBalance,
+  };
+  const entries = [opening];
+  for (const movement of getMovements(account, activity)) {
+    const { balance } = entries[entries.length - 1];
+    entries.push({ ...movement, balance: balance + movement.amount });
+  }
+  return entries;
+};
+
+export const getBalance = (account: Account, activity: AccountActivity) =>
+  getMovements(account, activity).reduce(
+    (balance, movement) => balance + movement.amount,
+    account.openingBalance
+  );
+
+export const getBalances = (activity: AccountActivity): AccountBalance[] =>
+  activity.accounts.map((account) => ({
+    accountId: account.id,
+    balance: getBalance(account, activity),
+  }));
+
+export const validateTransfer = (
+  transfer: Pick<AccountTransfer, 'fromAccountId' | 'toAccountId' | 'amount'>
+) => {
+  if (transfer.fromAccountId === transfer.toAccountId) {
+    throw new Error('Pick two different accounts');
+  }
+  if (transfer.amount <= 0) {
+    throw new Error('Transfers must be positive');
+  }
+};
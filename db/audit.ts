@@ -0,0 +1,116 @@
+// Change log of the household's records.
+//
+// Every service mutation reads the rows it writes before and after, and logs
+// the difference: a created or deleted record as one entry holding the whole
+// record, an update as one entry per changed field with the old and the new
+// value. Derived values such as a budget's spent amount are logged too, since
+// they change without anyone editing them. Each entry names the member who
+// uses this device, when one is set. Changes that arrive by sync are not
+// logged again here; the log itself is synced instead.
+import type { AuditEntry, NewAuditEntry } from './schema';
+import { createId } from './ids';
+import { getSyncTable, type SyncTableName } from './sync-tables';
+
+export type AuditEntity = Exclude<SyncTableName, 'auditLog'>;
+
+type AuditRow = Record<string, unknown>;
+
+// Bookkeeping that moves with every write; the entry has its own timestamp
+const IGNORED_FIELDS = ['createdAt', 'updatedAt'];
+
+// Amounts in cents, so the history can show them as money
+const MONEY_FIELDS: Partial<Record<AuditEntity, string[]>> = {
+  expenses: ['amount'],
+  recurringExpenses: ['amount'],
+  payments: ['amount'],
+  settlements: ['amount'],
+  accounts: ['openingBalance'],
+  incomes: ['amount'],
+  accountTransfers: ['amount', 'toAmount'],
+  budgetAllocations: ['limit', 'spent'],
+  groceryLists: ['totalCost'],
+  groceryItems: ['pricePerUnit', 'totalCost'],
+  priceHistory: ['price'],
+  monthlySavings: ['income', 'savingsGoal', 'totalExpenses', 'totalSaved'],
+  financialSettings: ['monthlyIncome', 'savingsGoal', 'currentSavings'],
+};
+
+export const isMoneyField = (entity: string, field: string) =>
+  MONEY_FIELDS[entity as AuditEntity]?.includes(field) ?? false;
+
+const withoutIgnored = (row: AuditRow) =>
+  Object.fromEntries(
+    Object.entries(row).filter(([field]) => !IGNORED_FIELDS.includes(field))
+  );
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// The entries that turn `before` into `after`, two reads of the same rows
+export const describeChanges = (
+  entity: AuditEntity,
+  before: AuditRow[],
+  after: AuditRow[],
+  memberId: string | null,
+  changedAt = new Date().toISOString()
+): NewAuditEntry[] => {
+  const { primaryKey } = getSyncTable(entity)!;
+  const entry = (
+    row: AuditRow,
+    values: Pick<NewAuditEntry, 'action' | 'field' | 'oldValue' | 'newValue'>
+  ): NewAuditEntry => ({
+    id: createId(),
+    entity,
+    entityId: String(row[primaryKey]),
+    memberId,
+    changedAt,
+    ...values,
+  });
+
+  const previous = new Map(before.map((row) => [row[primaryKey], row]));
+  const current = new Map(after.map((row) => [row[primaryKey], row]));
+  const entries: NewAuditEntry[] = [];
+
+  for (const [key, row] of current) {
+    const old = previous.get(key);
+    if (!old) {
+      entries.push(
+        entry(row, {
+          action: 'create',
+          field: null,
+          oldValue: null,
+          newValue: withoutIgnored(row),
+        })
+      );
+      continue;
+    }
+    for (const field of Object.keys(withoutIgnored({ ...old, ...row }))) {
+      if (sameValue(old[field], row[field])) continue;
+      entries.push(
+        entry(row, {
+          action: 'update',
+          field,
+          oldValue: old[field] ?? null,
+          newValue: row[field] ?? null,
+        })
+      );
+    }
+  }
+
+  for (const [key, row] of previous) {
+    if (current.has(key)) continue;
+    entries.push(
+      entry(row, {
+        action: 'delete',
+        field: null,
+        oldValue: withoutIgnored(row),
+        newValue: null,
+      })
+    );
+  }
+  return entries;
+};
+
+// Newest first; the sort is stable, so entries of one write keep their order
+export const sortHistory = (entries: AuditEntry[]) =>
+  [...entries].sort((a, b) => b.changedAt.localeCompare(a.changedAt));
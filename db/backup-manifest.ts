@@ -0,0 +1,99 @@
+// Backup bookkeeping shared by the SQLite (`backup.ts`) and IndexedDB
+// (`backup-web.ts`) implementations: what a manifest records, how many
+// backups are kept and whether one can be restored by this version of the app.
+
+export type BackupBackend = 'sqlite' | 'indexeddb';
+
+// Why the backup was taken; each kind is rotated on its own
+export type BackupReason = 'manual' | 'scheduled' | 'pre-restore';
+
+export interface BackupManifest {
+  id: string;
+  backend: BackupBackend;
+  reason: BackupReason;
+  // Applied migrations (SQLite) or the IndexedDB version at backup time
+  schemaVersion: number;
+  // Rows per table (SQLite) or records per store (IndexedDB)
+  rowCounts: Record<string, number>;
+  createdAt: string;
+}
+
+// The newest backups of each kind that rotation keeps
+export const BACKUP_LIMITS: Record<BackupReason, number> = {
+  manual: 10,
+  scheduled: 7,
+  'pre-restore': 3,
+};
+
+// A scheduled backup is taken at startup when the last one is older than this
+export const BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface BackupTarget {
+  backend: BackupBackend;
+  schemaVersion: number;
+  // Oldest schema the backend can bring up to date after a restore
+  oldestRestorableVersion: number;
+}
+
+export interface BackupCompatibility {
+  compatible: boolean;
+  reason?: string;
+}
+
+export const sortBackups = (backups: BackupManifest[]) =>
+  [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// The backups rotation drops: everything past the limit of each kind, oldest
+// first
+export const selectBackupsToPrune = (backups: BackupManifest[]) => {
+  const kept: Record<BackupReason, number> = {
+    manual: 0,
+    scheduled: 0,
+    'pre-restore': 0,
+  };
+  return sortBackups(backups).filter((backup) => {
+    kept[backup.reason] += 1;
+    return kept[backup.reason] > BACKUP_LIMITS[backup.reason];
+  });
+};
+
+export const isScheduledBackupDue = (
+  backups: BackupManifest[],
+  now = new Date()
+) => {
+  const last = sortBackups(backups).find(
+    (backup) => backup.reason === 'scheduled'
+  );
+  return (
+    !last ||
+    now.getTime() - new Date(last.createdAt).getTime() >= BACKUP_INTERVAL_MS
+  );
+};
+
+export const checkBackupCompatibility = (
+  manifest: BackupManifest,
+  target: BackupTarget
+): BackupCompatibility => {
+  if (manifest.backend !== target.backend) {
+    return {
+      compatible: false,
+      reason: `This backup was made on ${
+        manifest.backend === 'sqlite' ? 'a phone' : 'the web'
+      } and cannot be restored here`,
+    };
+  }
+  if (manifest.schemaVersion > target.schemaVersion) {
+    return {
+      compatible: false,
+      reason: 'This backup was made by a newer version of the app',
+    };
+  }
+  if (manifest.schemaVersion < target.oldestRestorableVersion) {
+    return {
+      compatible: false,
+      reason:
+        'This backup is too old to be restored by this version of the app',
+    };
+  }
+  return { compatible: true };
+};
@@ -0,0 +1,168 @@
+// Backups of the IndexedDB database. A backup is a dump of every store's
+// records, kept with its manifest in a separate `HouseholdBackups` database so
+// that resetting or upgrading the household database leaves them alone.
+import { webDb, STORES, DB_VERSION } from './database-web';
+import { createId } from './ids';
+import {
+  checkBackupCompatibility,
+  isScheduledBackupDue,
+  selectBackupsToPrune,
+  sortBackups,
+  type BackupManifest,
+  type BackupReason,
+  type BackupTarget,
+} from './backup-manifest';
+import type { BackupRepository } from './repositories';
+
+const BACKUP_DB_NAME = 'HouseholdBackups';
+const BACKUP_STORE = 'backups';
+
+interface WebBackup {
+  id: string;
+  manifest: BackupManifest;
+  records: Record<string, unknown[]>;
+}
+
+// The stores a backup holds. The budget categories store is gone since
+// version 8, and the migration history describes this database, not the data.
+const DATA_STORES = Object.values(STORES).filter(
+  (storeName) =>
+    storeName !== STORES.budgetCategories &&
+    storeName !== STORES.migrationHistory
+);
+
+// Records from older versions have older shapes, so only dumps of the
+// current version can be loaded back
+const TARGET: BackupTarget = {
+  backend: 'indexeddb',
+  schemaVersion: DB_VERSION,
+  oldestRestorableVersion: DB_VERSION,
+};
+
+let backupDb: IDBDatabase | null = null;
+
+const openBackupDb = () => {
+  if (backupDb) return Promise.resolve(backupDb);
+
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(BACKUP_DB_NAME, 1);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      backupDb = request.result;
+      resolve(backupDb);
+    };
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(BACKUP_STORE, { keyPath: 'id' });
+    };
+  });
+};
+
+const runBackupRequest = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+) => {
+  const db = await openBackupDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction([BACKUP_STORE], mode);
+    const request = run(transaction.objectStore(BACKUP_STORE));
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const getBackup = async (id: string) => {
+  const backup = await runBackupRequest<WebBackup | undefined>(
+    'readonly',
+    (store) => store.get(id)
+  );
+  if (!backup) {
+    throw new Error('Backup not found');
+  }
+  return backup;
+};
+
+// Dumps every store in one transaction, so the backup is consistent
+const takeBackup = async (reason: BackupReason) => {
+  const records = await webDb.transaction(DATA_STORES, async (tx) => {
+    const dump: Record<string, unknown[]> = {};
+    for (const storeName of DATA_STORES) {
+      dump[storeName] = await tx.getAll(storeName);
+    }
+    return dump;
+  });
+
+  const manifest: BackupManifest = {
+    id: createId(),
+    backend: 'indexeddb',
+    reason,
+    schemaVersion: DB_VERSION,
+    rowCounts: Object.fromEntries(
+      Object.entries(records).map(([storeName, rows]) => [
+        storeName,
+        rows.length,
+      ])
+    ),
+    createdAt: new Date().toISOString(),
+  };
+  const backup: WebBackup = { id: manifest.id, manifest, records };
+  await runBackupRequest('readwrite', (store) => store.put(backup));
+  return manifest;
+};
+
+const pruneBackups = async () => {
+  const backups = await webBackupService.getAll();
+  for (const backup of selectBackupsToPrune(backups)) {
+    await webBackupService.delete(backup.id);
+  }
+};
+
+export const webBackupService: BackupRepository = {
+  async getAll() {
+    const backups = await runBackupRequest<WebBackup[]>('readonly', (store) =>
+      store.getAll()
+    );
+    return sortBackups(backups.map((backup) => backup.manifest));
+  },
+
+  async create(reason) {
+    const manifest = await takeBackup(reason);
+    await pruneBackups();
+    return manifest;
+  },
+
+  async createScheduledIfDue(now = new Date()) {
+    const backups = await this.getAll();
+    if (!isScheduledBackupDue(backups, now)) return null;
+    return await this.create('scheduled');
+  },
+
+  async checkCompatibility(id) {
+    const backup = await getBackup(id);
+    return checkBackupCompatibility(backup.manifest, TARGET);
+  },
+
+  async restore(id) {
+    const backup = await getBackup(id);
+    const compatibility = checkBackupCompatibility(backup.manifest, TARGET);
+    if (!compatibility.compatible) {
+      throw new Error(compatibility.reason);
+    }
+
+    await takeBackup('pre-restore');
+    // Everything is replaced in one transaction; if any write fails the
+    // current data stays as it is
+    await webDb.transaction(DATA_STORES, async (tx) => {
+      for (const storeName of DATA_STORES) {
+        await tx.clear(storeName);
+        const records = backup.records[storeName] ?? [];
+        await Promise.all(records.map((record) => tx.put(storeName, record)));
+      }
+    });
+    await pruneBackups();
+  },
+
+  async delete(id) {
+    await runBackupRequest('readwrite', (store) => store.delete(id));
+  },
+};
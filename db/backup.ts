@@ -0,0 +1,190 @@
+// Backups of the SQLite database. Each backup is a directory under
+// `backups/` in the app's documents with a copy of the database file and a
+// `manifest.json`; the manifest is written last, so an interrupted backup is
+// never listed.
+import * as FileSystem from 'expo-file-system';
+import {
+  openDatabaseSync,
+  backupDatabaseSync,
+  type SQLiteDatabase,
+} from 'expo-sqlite';
+import { getDb } from './database';
+import { createId } from './ids';
+import {
+  LATEST_SCHEMA_VERSION,
+  getSchemaVersion,
+  runMigrations,
+} from './migration-runner';
+import {
+  checkBackupCompatibility,
+  isScheduledBackupDue,
+  selectBackupsToPrune,
+  sortBackups,
+  type BackupManifest,
+  type BackupReason,
+  type BackupTarget,
+} from './backup-manifest';
+import type { BackupRepository } from './repositories';
+
+const BACKUP_DIRECTORY = `${FileSystem.documentDirectory}backups/`;
+const DATABASE_FILE = 'household.db';
+const MANIFEST_FILE = 'manifest.json';
+
+// Restored backups from before the latest migrations are migrated afterwards
+const TARGET: BackupTarget = {
+  backend: 'sqlite',
+  schemaVersion: LATEST_SCHEMA_VERSION,
+  oldestRestorableVersion: 1,
+};
+
+const backupUri = (id: string) => `${BACKUP_DIRECTORY}${id}/`;
+
+// expo-sqlite takes a directory path rather than a file:// URI
+const toPath = (uri: string) =>
+  decodeURIComponent(uri.replace(/^file:\/\//, ''));
+
+const withSnapshot = <T>(id: string, work: (snapshot: SQLiteDatabase) => T) => {
+  const snapshot = openDatabaseSync(
+    DATABASE_FILE,
+    undefined,
+    toPath(backupUri(id))
+  );
+  try {
+    return work(snapshot);
+  } finally {
+    snapshot.closeSync();
+  }
+};
+
+// Copies page by page inside SQLite, so the copy is consistent even with
+// changes still in the write-ahead log
+const copyDatabase = (source: SQLiteDatabase, destination: SQLiteDatabase) => {
+  backupDatabaseSync({ sourceDatabase: source, destDatabase: destination });
+};
+
+const countRows = (client: SQLiteDatabase) => {
+  const tables = client.getAllSync<{ name: string }>(
+    `SELECT name FROM sqlite_master
+      WHERE type = 'table'
+        AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+        AND name NOT IN ('__drizzle_migrations', 'migration_history')
+      ORDER BY name`
+  );
+  return Object.fromEntries(
+    tables.map(({ name }) => [
+      name,
+      client.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) AS count FROM "${name}"`
+      )?.count ?? 0,
+    ])
+  );
+};
+
+const readManifest = async (id: string) => {
+  try {
+    const content = await FileSystem.readAsStringAsync(
+      `${backupUri(id)}${MANIFEST_FILE}`
+    );
+    return JSON.parse(content) as BackupManifest;
+  } catch {
+    return null;
+  }
+};
+
+const getManifest = async (id: string) => {
+  const manifest = await readManifest(id);
+  if (!manifest) {
+    throw new Error('Backup not found');
+  }
+  return manifest;
+};
+
+// Snapshots the live database without rotating
+const takeBackup = async (client: SQLiteDatabase, reason: BackupReason) => {
+  const manifest: BackupManifest = {
+    id: createId(),
+    backend: 'sqlite',
+    reason,
+    schemaVersion: getSchemaVersion(client),
+    rowCounts: countRows(client),
+    createdAt: new Date().toISOString(),
+  };
+
+  await FileSystem.makeDirectoryAsync(backupUri(manifest.id), {
+    intermediates: true,
+  });
+  withSnapshot(manifest.id, (snapshot) => copyDatabase(client, snapshot));
+  await FileSystem.writeAsStringAsync(
+    `${backupUri(manifest.id)}${MANIFEST_FILE}`,
+    JSON.stringify(manifest, null, 2)
+  );
+  return manifest;
+};
+
+const pruneBackups = async () => {
+  const backups = await backupService.getAll();
+  for (const backup of selectBackupsToPrune(backups)) {
+    await backupService.delete(backup.id);
+  }
+};
+
+export const backupService: BackupRepository = {
+  async getAll() {
+    const info = await FileSystem.getInfoAsync(BACKUP_DIRECTORY);
+    if (!info.exists) return [];
+
+    const ids = await FileSystem.readDirectoryAsync(BACKUP_DIRECTORY);
+    const manifests = await Promise.all(ids.map(readManifest));
+    return sortBackups(
+      manifests.filter(
+        (manifest): manifest is BackupManifest => manifest !== null
+      )
+    );
+  },
+
+  async create(reason) {
+    const database = await getDb();
+    const manifest = await takeBackup(database.$client, reason);
+    await pruneBackups();
+    return manifest;
+  },
+
+  async createScheduledIfDue(now = new Date()) {
+    const backups = await this.getAll();
+    if (!isScheduledBackupDue(backups, now)) return null;
+    return await this.create('scheduled');
+  },
+
+  async checkCompatibility(id) {
+    return checkBackupCompatibility(await getManifest(id), TARGET);
+  },
+
+  async restore(id) {
+    const manifest = await getManifest(id);
+    const compatibility = checkBackupCompatibility(manifest, TARGET);
+    if (!compatibility.compatible) {
+      throw new Error(compatibility.reason);
+    }
+
+    const database = await getDb();
+    const client = database.$client;
+    const current = await takeBackup(client, 'pre-restore');
+
+    withSnapshot(id, (snapshot) => copyDatabase(snapshot, client));
+    try {
+      await runMigrations(database);
+    } catch (error) {
+      // Put the data from before the restore back
+      withSnapshot(current.id, (snapshot) => copyDatabase(snapshot, client));
+      throw error;
+    }
+
+    // Rotating only now keeps the backup being restored around until it is
+    // copied, even when it is the oldest of its kind
+    await pruneBackups();
+  },
+
+  async delete(id) {
+    await FileSystem.deleteAsync(backupUri(id), { idempotent: true });
+  },
+};
@@ -0,0 +1,100 @@
+// The bills timeline: unpaid expenses grouped by when they need paying.
+// Pure functions on YYYY-MM-DD strings, like db/recurrence.ts.
+import type { Expense } from './schema';
+
+type Bill = Pick<Expense, 'dueDate' | 'snoozedUntil'>;
+
+export type BillGroup = 'overdue' | 'thisWeek' | 'laterThisMonth' | 'nextMonth';
+
+export type BillTimeline = Record<BillGroup, Expense[]>;
+
+// The last day of each group after the overdue one. Weeks end on Sunday; a
+// week that runs into next month keeps its days in "this week".
+export interface TimelineRange {
+  // Only unpaid bills due before this month are read; see getBillsTimeline
+  startOfMonth: string;
+  today: string;
+  endOfWeek: string;
+  endOfMonth: string;
+  endOfNextMonth: string;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Local date, so "today" changes at midnight where the user is
+export const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+};
+
+const addDays = (date: string, days: number) => {
+  const { year, month, day } = parseDate(date);
+  return toDateString(new Date(year, month - 1, day + days));
+};
+
+// UTC day number, so a DST change does not shorten a day
+const toDayNumber = (date: string) => {
+  const { year, month, day } = parseDate(date);
+  return Math.floor(Date.UTC(year, month - 1, day) / 86400000);
+};
+
+// Whole days from `from` to `to`; negative when `to` is earlier
+export const daysBetween = (from: string, to: string) =>
+  toDayNumber(to) - toDayNumber(from);
+
+// The day the timeline shows a bill on: its due date, or the day it was
+// snoozed to when that is later
+export const getBillDate = (bill: Bill) =>
+  bill.snoozedUntil && bill.snoozedUntil > bill.dueDate
+    ? bill.snoozedUntil
+    : bill.dueDate;
+
+export const isSnoozed = (bill: Bill) => getBillDate(bill) !== bill.dueDate;
+
+export const getTimelineRange = (today: string): TimelineRange => {
+  const { year, month, day } = parseDate(today);
+  const weekday = new Date(year, month - 1, day).getDay(); // 0 is Sunday
+  return {
+    startOfMonth: toDateString(new Date(year, month - 1, 1)),
+    today,
+    endOfWeek: addDays(today, (7 - weekday) % 7),
+    endOfMonth: toDateString(new Date(year, month, 0)),
+    endOfNextMonth: toDateString(new Date(year, month + 1, 0)),
+  };
+};
+
+// Paid and trashed expenses, and bills after next month, are left out. Each
+// group is ordered by bill date.
+export const groupBills = (
+  expenses: Expense[],
+  range: TimelineRange
+): BillTimeline => {
+  const timeline: BillTimeline = {
+    overdue: [],
+    thisWeek: [],
+    laterThisMonth: [],
+    nextMonth: [],
+  };
+  const bills = expenses
+    .filter((expense) => !expense.isPaid && !expense.deletedAt)
+    .sort((a, b) => getBillDate(a).localeCompare(getBillDate(b)));
+
+  for (const bill of bills) {
+    const date = getBillDate(bill);
+    if (date < range.today) timeline.overdue.push(bill);
+    else if (date <= range.endOfWeek) timeline.thisWeek.push(bill);
+    else if (date <= range.endOfMonth) timeline.laterThisMonth.push(bill);
+    else if (date <= range.endOfNextMonth) timeline.nextMonth.push(bill);
+  }
+  return timeline;
+};
+
+// Counted from the later of today and the day the bill is shown on, so
+// snoozing an overdue bill for a day brings it back tomorrow
+export const getSnoozeDate = (bill: Bill, today: string, days: number) => {
+  const date = getBillDate(bill);
+  return addDays(date > today ? date : today, days);
+};
@@ -0,0 +1,11 @@
+// Categories every new household starts with; also added on upgrade so the
+// pickers keep offering them
+export const defaultCategories = [
+  'Housing',
+  'Utilities',
+  'Groceries',
+  'Transportation',
+  'Entertainment',
+  'Healthcare',
+  'Other',
+];
@@ -0,0 +1,149 @@
+// Categorization rules engine. Pure functions over the stored rules, so the
+// expense form, the statement import, recurring generation and the
+// retroactive "apply to month" all categorize the same way.
+import type {
+  CategorizationRule,
+  NewCategorizationRule,
+  NewExpense,
+} from './schema';
+
+export type CategorizableExpense = Pick<NewExpense, 'name' | 'amount'>;
+
+// What a matching rule changes on an expense
+export interface RuleResult {
+  category: string;
+  isRecurring?: boolean;
+}
+
+// Invalid patterns are reported once and never match
+const regexCache = new Map<string, RegExp | null>();
+
+const compilePattern = (pattern: string) => {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      console.warn(`Invalid categorization rule pattern: ${pattern}`);
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) ?? null;
+};
+
+export const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// A rule needs at least one condition; an empty rule would match everything
+export const hasCondition = (
+  rule: Pick<NewCategorizationRule, 'pattern' | 'minAmount' | 'maxAmount'>
+) =>
+  Boolean(rule.pattern) ||
+  (rule.minAmount !== null && rule.minAmount !== undefined) ||
+  (rule.maxAmount !== null && rule.maxAmount !== undefined);
+
+// Throws with a message fit for the user when the rule cannot be saved
+export const validateRule = (
+  rule: Pick<
+    NewCategorizationRule,
+    'matchType' | 'pattern' | 'minAmount' | 'maxAmount' | 'category'
+  >
+) => {
+  if (!rule.category.trim()) {
+    throw new Error('A rule needs a category');
+  }
+  if (!hasCondition(rule)) {
+    throw new Error('A rule needs a pattern or an amount range');
+  }
+  if (
+    rule.matchType === 'regex' &&
+    rule.pattern &&
+    !isValidPattern(rule.pattern)
+  ) {
+    throw new Error(`Invalid pattern: ${rule.pattern}`);
+  }
+  if (
+    rule.minAmount !== null &&
+    rule.minAmount !== undefined &&
+    rule.maxAmount !== null &&
+    rule.maxAmount !== undefined &&
+    rule.minAmount > rule.maxAmount
+  ) {
+    throw new Error('The minimum amount is above the maximum');
+  }
+};
+
+export const matchesRule = (
+  rule: CategorizationRule,
+  expense: CategorizableExpense
+) => {
+  if (rule.isActive === false || !hasCondition(rule)) return false;
+
+  if (rule.pattern) {
+    if (rule.matchType === 'regex') {
+      const regex = compilePattern(rule.pattern);
+      if (!regex || !regex.test(expense.name)) return false;
+    } else if (
+      !expense.name.toLowerCase().includes(rule.pattern.toLowerCase())
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.minAmount !== null && expense.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== null && expense.amount > rule.maxAmount) return false;
+  return true;
+};
+
+// Lowest priority first; ties keep the order the rules were created in
+export const sortRules = (rules: CategorizationRule[]) =>
+  [...rules].sort(
+    (a, b) =>
+      a.priority - b.priority ||
+      (a.createdAt || '').localeCompare(b.createdAt || '')
+  );
+
+export const findMatchingRule = (
+  rules: CategorizationRule[],
+  expense: CategorizableExpense
+) => sortRules(rules).find((rule) => matchesRule(rule, expense)) ?? null;
+
+export const categorize = (
+  rules: CategorizationRule[],
+  expense: CategorizableExpense
+): RuleResult | null => {
+  const rule = findMatchingRule(rules, expense);
+  if (!rule) return null;
+  return rule.isRecurring === null
+    ? { category: rule.category }
+    : { category: rule.category, isRecurring: rule.isRecurring };
+};
+
+// Returns the fields to change, or null when the expense already matches
+// what its rule says. Instances of a recurring template stay recurring.
+export const getRuleUpdates = (
+  rules: CategorizationRule[],
+  expense: CategorizableExpense &
+    Pick<NewExpense, 'category' | 'isRecurring' | 'templateId'>
+): Partial<NewExpense> | null => {
+  const result = categorize(rules, expense);
+  if (!result) return null;
+
+  const updates: Partial<NewExpense> = {};
+  if (result.category !== expense.category) {
+    updates.category = result.category;
+  }
+  if (
+    result.isRecurring !== undefined &&
+    !expense.templateId &&
+    result.isRecurring !== Boolean(expense.isRecurring)
+  ) {
+    updates.isRecurring = result.isRecurring;
+  }
+  return Object.keys(updates).length > 0 ? updates : null;
+};
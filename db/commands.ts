@@ -0,0 +1,64 @@
+// Undo and redo for the actions the app offers to take back.
+//
+// A command knows how to run itself and how to revert what it did. The
+// history keeps the commands that ran, newest last, and the ones that were
+// undone, until a new command makes them stale. Commands refer to records by
+// id, so undoing a delete restores the same record rather than a copy.
+export interface Command {
+  // Says what was done, e.g. "Expense moved to trash"
+  label: string;
+  run(): Promise<void>;
+  revert(): Promise<void>;
+}
+
+export interface CommandHistory {
+  done: Command[];
+  undone: Command[];
+}
+
+// Older commands drop off the history
+const HISTORY_LIMIT = 20;
+
+export const emptyHistory: CommandHistory = { done: [], undone: [] };
+
+// Runs the command; a command that throws is not added to the history
+export const runCommand = async (
+  history: CommandHistory,
+  command: Command
+): Promise<CommandHistory> => {
+  await command.run();
+  return {
+    done: [...history.done, command].slice(-HISTORY_LIMIT),
+    undone: [],
+  };
+};
+
+// Reverts the newest command; the history is unchanged when there is none
+// or when reverting it throws
+export const undoCommand = async (history: CommandHistory) => {
+  const command = history.done[history.done.length - 1];
+  if (!command) return { history, command: null };
+
+  await command.revert();
+  return {
+    command,
+    history: {
+      done: history.done.slice(0, -1),
+      undone: [...history.undone, command],
+    },
+  };
+};
+
+export const redoCommand = async (history: CommandHistory) => {
+  const command = history.undone[history.undone.length - 1];
+  if (!command) return { history, command: null };
+
+  await command.run();
+  return {
+    command,
+    history: {
+      done: [...history.done, command],
+      undone: history.undone.slice(0, -1),
+    },
+  };
+};
@@ -0,0 +1,206 @@
+// Currency conversion. Pure functions over the stored exchange
+// rates so both storage backends convert totals the same way.
+import type { ExchangeRate, NewExchangeRate } from './schema';
+import { multiplyMoney, type Cents } from './money';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Offered in the currency pickers; any ISO 4217 code can still be stored
+export const supportedCurrencies = [
+  'USD',
+  'EUR',
+  'GBP',
+  'MXN',
+  'CAD',
+  'AUD',
+  'JPY',
+  'CHF',
+  'BRL',
+  'COP',
+] as const;
+
+type RateInput = Pick<NewExchangeRate, 'fromCurrency' | 'toCurrency' | 'rate'>;
+
+export const getExchangeRateId = (fromCurrency: string, toCurrency: string) =>
+  `${fromCurrency}_${toCurrency}`;
+
+export const normalizeCurrency = (currency: string) =>
+  currency.trim().toUpperCase();
+
+// Rate that turns 1 unit of `from` into `to`. Tries the stored pair, its
+// inverse, and finally a cross rate through one shared currency.
+export const findRate = (
+  rates: ExchangeRate[],
+  from: string,
+  to: string
+): number | null => {
+  if (from === to) return 1;
+
+  const direct = (a: string, b: string) => {
+    const match = rates.find(
+      (rate) => rate.fromCurrency === a && rate.toCurrency === b
+    );
+    if (match) return match.rate;
+    const inverse = rates.find(
+      (rate) => rate.fromCurrency === b && rate.toCurrency === a
+    );
+    return inverse && inverse.rate !== 0 ? 1 / inverse.rate : null;
+  };
+
+  const rate = direct(from, to);
+  if (rate !== null) return rate;
+
+  const bridges = new Set(
+    rates.flatMap((rate) => [rate.fromCurrency, rate.toCurrency])
+  );
+  for (const bridge of bridges) {
+    if (bridge === from || bridge === to) continue;
+    const first = direct(from, bridge);
+    const second = direct(bridge, to);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+};
+
+export type Converter = (amount: Cents, currency?: string | null) => Cents;
+
+// Amounts without a known rate are counted at face value rather than
+// dropped, so a missing rate skews a total instead of hiding an expense.
+export const createConverter = (
+  rates: ExchangeRate[],
+  baseCurrency: string
+): Converter => {
+  const warned = new Set<string>();
+  return (amount, currency) => {
+    const from = currency || baseCurrency;
+    const rate = findRate(rates, from, baseCurrency);
+    if (rate === null) {
+      if (!warned.has(from)) {
+        warned.add(from);
+        console.warn(`No exchange rate from ${from} to ${baseCurrency}`);
+      }
+      return amount;
+    }
+    return multiplyMoney(amount, rate);
+  };
+};
+
+// Income, savings goals and budget limits are typed in the base currency,
+// so a new base currency converts them at the rate between the two. With no
+// rate they would be compared with totals in another currency, so the change
+// is refused unless every one of them is still zero.
+export const createBaseCurrencyConverter = (
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  amounts: (Cents | null | undefined)[]
+) => {
+  const rate = findRate(rates, from, to);
+  if (rate === null) {
+    if (amounts.some((amount) => amount)) {
+      throw new Error(
+        `Add an exchange rate from ${from} to ${to} before changing the base currency`
+      );
+    }
+    return (amount: Cents) => amount;
+  }
+  return (amount: Cents) => multiplyMoney(amount, rate);
+};
+
+export const sumConverted = (
+  rows: { amount: Cents; currency?: string | null }[],
+  convert: Converter
+) => rows.reduce((total, row) => total + convert(row.amount, row.currency), 0);
+
+// Per-category totals in the base currency, in cents
+export const totalByCategory = (
+  rows: { category: string; amount: Cents; currency?: string | null }[],
+  convert: Converter
+) => {
+  const totals = new Map<string, number>();
+  for (const row of rows) {
+    totals.set(
+      row.category,
+      (totals.get(row.category) || 0) + convert(row.amount, row.currency)
+    );
+  }
+  return Array.from(totals, ([category, total]) => ({ category, total }));
+};
+
+// Per-member totals in the base currency, in cents. Expenses nobody is
+// recorded as paying for are totalled under a null member.
+export const totalByMember = (
+  rows: { paidBy?: string | null; amount: Cents; currency?: string | null }[],
+  convert: Converter
+) => {
+  const totals = new Map<string | null, number>();
+  for (const row of rows) {
+    const memberId = row.paidBy ?? null;
+    totals.set(
+      memberId,
+      (totals.get(memberId) || 0) + convert(row.amount, row.currency)
+    );
+  }
+  return Array.from(totals, ([memberId, total]) => ({ memberId, total }));
+};
+
+// Per-category totals, each broken down by the member who paid
+export const totalByCategoryAndMember = (
+  rows: {
+    category: string;
+    paidBy?: string | null;
+    amount: Cents;
+    currency?: string | null;
+  }[],
+  convert: Converter
+) =>
+  totalByCategory(rows, convert).map(({ category, total }) => ({
+    category,
+    total,
+    byMember: totalByMember(
+      rows.filter((row) => row.category === category),
+      convert
+    ),
+  }));
+
+// Parses rates pasted or imported by the user. Accepts a JSON array of
+// { fromCurrency, toCurrency, rate } objects, or one rate per line as
+// `EUR,USD,1.08` (commas, semicolons, tabs or spaces; `EUR/USD 1.08` works
+// too). Blank lines and lines starting with # are ignored.
+export const parseExchangeRates = (text: string): RateInput[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed) as RateInput[];
+    return parsed.map((entry, index) =>
+      validateRate(entry.fromCurrency, entry.toCurrency, entry.rate, index + 1)
+    );
+  }
+
+  return trimmed
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line && !line.startsWith('#'))
+    .map(({ line, lineNumber }) => {
+      const [from, to, rate] = line.split(/[\s,;/]+/);
+      return validateRate(from, to, Number(rate), lineNumber);
+    });
+};
+
+const validateRate = (
+  from: string | undefined,
+  to: string | undefined,
+  rate: number,
+  lineNumber: number
+): RateInput => {
+  const fromCurrency = normalizeCurrency(from || '');
+  const toCurrency = normalizeCurrency(to || '');
+  if (!/^[A-Z]{3}$/.test(fromCurrency) || !/^[A-Z]{3}$/.test(toCurrency)) {
+    throw new Error(`Invalid currency code on line ${lineNumber}`);
+  }
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`Invalid exchange rate on line ${lineNumber}`);
+  }
+  return { fromCurrency, toCurrency, rate };
+};
@@ -1,29 +1,455 @@
 // Simple web-compatible database using IndexedDB
 import type {
   Expense,
-  BudgetCategory,
+  Category,
+  BudgetAllocation,
   GroceryList,
   GroceryItem,
   PriceHistory,
   FinancialSettings,
+  MonthlySavings,
+  RecurringExpense,
+  CategorizationRule,
   NewExpense,
-  NewBudgetCategory,
+  NewCategory,
+  NewBudgetAllocation,
   NewGroceryList,
   NewGroceryItem,
   NewPriceHistory,
   NewFinancialSettings,
 } from './schema';
+import { DEFAULT_CURRENCY } from './currency';
+import { toCents } from './money';
+import { defaultCategories } from './categories';
+import { createId } from './ids';
+import { DEFAULT_REMINDER_DAYS } from './reminders';
 
 const DB_NAME = 'HouseholdDB';
-const DB_VERSION = 1;
 
 const STORES = {
   expenses: 'expenses',
+  // Replaced by categories and budgetAllocations in version 8
   budgetCategories: 'budgetCategories',
+  categories: 'categories',
+  budgetAllocations: 'budgetAllocations',
   groceryLists: 'groceryLists',
   groceryItems: 'groceryItems',
   priceHistory: 'priceHistory',
   financialSettings: 'financialSettings',
+  monthlySavings: 'monthlySavings',
+  monthlyRollovers: 'monthlyRollovers',
+  recurringExpenses: 'recurringExpenses',
+  exchangeRates: 'exchangeRates',
+  categorizationRules: 'categorizationRules',
+  migrationHistory: 'migrationHistory',
+  members: 'members',
+  expenseSplits: 'expenseSplits',
+  payments: 'payments',
+  settlements: 'settlements',
+  accounts: 'accounts',
+  incomes: 'incomes',
+  accountTransfers: 'accountTransfers',
+  syncDevice: 'syncDevice',
+  syncPeers: 'syncPeers',
+  syncRecords: 'syncRecords',
+  auditLog: 'auditLog',
+};
+
+const INDEXES = {
+  expensesDueDate: 'dueDate',
+  incomesDate: 'date',
+};
+
+// Turns the expenses flagged as recurring into templates and links every
+// instance with the same name and category back to its template. A bill
+// flagged in several months gets one template, taken from its latest month
+// and starting from its first. Every expense is rewritten here, so it also
+// gets the version 5 currency.
+const migrateRecurringExpenses = async (tx: WebTransaction) => {
+  const expenses = await tx.getAll<Expense>(STORES.expenses);
+  const billKey = (expense: Pick<Expense, 'name' | 'category'>) =>
+    `${expense.name}|${expense.category}`;
+
+  const bills = new Map<string, { first: Expense; latest: Expense }>();
+  expenses
+    .filter((expense) => expense.isRecurring)
+    .forEach((expense) => {
+      const bill = bills.get(billKey(expense));
+      if (!bill) {
+        bills.set(billKey(expense), { first: expense, latest: expense });
+        return;
+      }
+      if (expense.month < bill.first.month) bill.first = expense;
+      if (
+        expense.month > bill.latest.month ||
+        (expense.month === bill.latest.month && expense.id > bill.latest.id)
+      ) {
+        bill.latest = expense;
+      }
+    });
+
+  const templates = new Map<string, RecurringExpense>();
+  for (const [key, { first, latest }] of bills) {
+    const template: RecurringExpense = {
+      id: latest.id,
+      name: latest.name,
+      amount: latest.amount,
+      currency: latest.currency ?? DEFAULT_CURRENCY,
+      category: latest.category,
+      paidBy: null,
+      accountId: null,
+      frequency: 'monthly',
+      dayOfMonth: latest.chargeDay ?? Number(latest.dueDate.slice(8, 10)),
+      startDate: `${first.month}-01`,
+      endDate: null,
+      isActive: true,
+      createdAt: latest.createdAt,
+      updatedAt: latest.updatedAt,
+    };
+    templates.set(key, template);
+    await tx.put(STORES.recurringExpenses, template);
+  }
+
+  for (const expense of expenses) {
+    const currency = expense.currency ?? DEFAULT_CURRENCY;
+    const template =
+      (expense.isRecurring || expense.chargeDay) &&
+      templates.get(billKey(expense));
+    await tx.put(
+      STORES.expenses,
+      template
+        ? { ...expense, currency, isRecurring: true, templateId: template.id }
+        : { ...expense, currency }
+    );
+  }
+};
+
+// Fills in the currency fields added in version 5 on existing records
+const migrateCurrencies = async (tx: WebTransaction, storeNames: string[]) => {
+  const fill = async (storeName: string, field: string) => {
+    const records = await tx.getAll<Record<string, unknown>>(storeName);
+    for (const record of records) {
+      if (!record[field]) {
+        await tx.put(storeName, { ...record, [field]: DEFAULT_CURRENCY });
+      }
+    }
+  };
+
+  for (const storeName of storeNames) {
+    await fill(storeName, 'currency');
+  }
+  await fill(STORES.financialSettings, 'baseCurrency');
+};
+
+// Money fields stored as whole units before version 6
+const MONEY_FIELDS: Record<string, string[]> = {
+  [STORES.expenses]: ['amount'],
+  [STORES.recurringExpenses]: ['amount'],
+  [STORES.budgetCategories]: ['limit', 'spent'],
+  [STORES.groceryLists]: ['totalCost'],
+  [STORES.groceryItems]: ['pricePerUnit', 'totalCost'],
+  [STORES.priceHistory]: ['price'],
+  [STORES.monthlySavings]: [
+    'income',
+    'totalExpenses',
+    'totalSaved',
+    'savingsGoal',
+  ],
+  [STORES.financialSettings]: [
+    'monthlyIncome',
+    'savingsGoal',
+    'currentSavings',
+  ],
+};
+
+// Converts every stored amount to integer cents
+const migrateMoneyToCents = async (tx: WebTransaction) => {
+  for (const [storeName, fields] of Object.entries(MONEY_FIELDS)) {
+    const records = await tx.getAll<Record<string, unknown>>(storeName);
+    for (const record of records) {
+      const converted = { ...record };
+      fields.forEach((field) => {
+        if (typeof record[field] === 'number') {
+          converted[field] = toCents(record[field] as number);
+        }
+      });
+      await tx.put(storeName, converted);
+    }
+  }
+};
+
+type LegacyBudgetCategory = Omit<BudgetAllocation, 'categoryId'> & {
+  name: string;
+};
+
+// Before version 8 each month had its own budget category records, found by
+// name. Every name in use becomes a category with a stable id, and each old
+// record becomes that category's allocation for its month.
+const migrateBudgetCategories = async (db: IDBDatabase, tx: WebTransaction) => {
+  const legacy = await tx.getAll<LegacyBudgetCategory>(STORES.budgetCategories);
+  const names = [
+    ...legacy.map((record) => record.name),
+    ...(await tx.getAll<Expense>(STORES.expenses)).map(
+      (expense) => expense.category
+    ),
+    ...(await tx.getAll<RecurringExpense>(STORES.recurringExpenses)).map(
+      (template) => template.category
+    ),
+    ...(await tx.getAll<CategorizationRule>(STORES.categorizationRules)).map(
+      (rule) => rule.category
+    ),
+    ...defaultCategories,
+  ];
+
+  const now = new Date().toISOString();
+  const ids = new Map<string, string>();
+  for (const name of names) {
+    if (ids.has(name)) continue;
+    const id = createId();
+    ids.set(name, id);
+    await tx.put(STORES.categories, {
+      id,
+      name,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  const allocated = new Set<string>();
+  for (const { name, ...record } of legacy) {
+    const categoryId = ids.get(name)!;
+    const key = `${categoryId}|${record.month}`;
+    if (allocated.has(key)) continue;
+    allocated.add(key);
+    await tx.put(STORES.budgetAllocations, { ...record, categoryId });
+  }
+
+  db.deleteObjectStore(STORES.budgetCategories);
+};
+
+// Categories get the default reminder lead time
+const migrateReminderDays = async (tx: WebTransaction) => {
+  const categories = await tx.getAll<Category>(STORES.categories);
+  for (const category of categories) {
+    if (category.reminderDays === undefined) {
+      await tx.put(STORES.categories, {
+        ...category,
+        reminderDays: DEFAULT_REMINDER_DAYS,
+      });
+    }
+  }
+};
+
+interface WebMigrationContext {
+  db: IDBDatabase;
+  transaction: IDBTransaction;
+  // Promise-based reads and writes through the same transaction
+  tx: WebTransaction;
+  // Version the database had before this upgrade; 0 when it is new
+  oldVersion: number;
+}
+
+interface WebMigration {
+  version: number;
+  description: string;
+  // A step that rewrites records returns a promise that settles once its
+  // last write is done; the next step only starts then, so it reads what
+  // this one wrote
+  upgrade: (context: WebMigrationContext) => void | Promise<void>;
+}
+
+// One entry per database version, oldest first. An upgrade runs every step
+// newer than the stored version, one after the other, inside the single
+// versionchange transaction, so either all of them are applied or, when one
+// fails, IndexedDB keeps the old version and data untouched. Add new
+// versions at the end; never edit a released step.
+const WEB_MIGRATIONS: WebMigration[] = [
+  {
+    version: 1,
+    description: 'Create the initial stores',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.expenses, { keyPath: 'id' });
+      db.createObjectStore(STORES.budgetCategories, { keyPath: 'id' });
+      db.createObjectStore(STORES.groceryLists, { keyPath: 'id' });
+      db.createObjectStore(STORES.groceryItems, { keyPath: 'id' });
+      db.createObjectStore(STORES.priceHistory, { keyPath: 'id' });
+      db.createObjectStore(STORES.financialSettings, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Add monthly savings',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.monthlySavings, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 3,
+    description: 'Add monthly rollovers',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.monthlyRollovers, { keyPath: 'month' });
+    },
+  },
+  {
+    version: 4,
+    description: 'Add recurring expense templates',
+    upgrade: async ({ db, tx }) => {
+      db.createObjectStore(STORES.recurringExpenses, { keyPath: 'id' });
+      await migrateRecurringExpenses(tx);
+    },
+  },
+  {
+    version: 5,
+    description: 'Add currencies and exchange rates',
+    upgrade: async ({ db, tx, oldVersion }) => {
+      db.createObjectStore(STORES.exchangeRates, { keyPath: 'id' });
+      // Expenses and templates were already rewritten by version 4
+      await migrateCurrencies(
+        tx,
+        oldVersion < 4
+          ? [STORES.groceryLists]
+          : [STORES.expenses, STORES.recurringExpenses, STORES.groceryLists]
+      );
+    },
+  },
+  {
+    version: 6,
+    description: 'Store money as integer cents',
+    upgrade: async ({ tx, oldVersion }) => {
+      if (oldVersion > 0) {
+        await migrateMoneyToCents(tx);
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Add categorization rules',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.categorizationRules, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 8,
+    description: 'Split budget categories into categories and allocations',
+    upgrade: async ({ db, tx, oldVersion }) => {
+      db.createObjectStore(STORES.categories, { keyPath: 'id' });
+      db.createObjectStore(STORES.budgetAllocations, { keyPath: 'id' });
+      // A new database has nothing to carry over from the legacy store
+      if (oldVersion > 0) {
+        await migrateBudgetCategories(db, tx);
+      } else {
+        db.deleteObjectStore(STORES.budgetCategories);
+      }
+    },
+  },
+  {
+    version: 9,
+    description: 'Record migration history',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.migrationHistory, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 10,
+    description: 'Add household members',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.members, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 11,
+    description: 'Add expense splits and settlements',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.expenseSplits, { keyPath: 'id' });
+      db.createObjectStore(STORES.settlements, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 12,
+    description: 'Add peer-to-peer sync',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.syncDevice, { keyPath: 'id' });
+      db.createObjectStore(STORES.syncPeers, { keyPath: 'id' });
+      db.createObjectStore(STORES.syncRecords, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 13,
+    description: 'Add change log',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.auditLog, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 14,
+    description: 'Add bill reminder lead times',
+    upgrade: async ({ tx }) => {
+      await migrateReminderDays(tx);
+    },
+  },
+  {
+    version: 15,
+    description: 'Index expenses by due date',
+    upgrade: ({ transaction }) => {
+      transaction
+        .objectStore(STORES.expenses)
+        .createIndex(INDEXES.expensesDueDate, 'dueDate');
+    },
+  },
+  {
+    version: 16,
+    description: 'Add expense payments',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.payments, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 17,
+    description: 'Add accounts, incomes and transfers',
+    upgrade: ({ db }) => {
+      db.createObjectStore(STORES.accounts, { keyPath: 'id' });
+      db.createObjectStore(STORES.incomes, { keyPath: 'id' }).createIndex(
+        INDEXES.incomesDate,
+        'date'
+      );
+      db.createObjectStore(STORES.accountTransfers, { keyPath: 'id' });
+    },
+  },
+];
+
+export const DB_VERSION = WEB_MIGRATIONS[WEB_MIGRATIONS.length - 1].version;
+
+export interface WebMigrationRecord {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  descriptions: string[];
+  appliedAt: string;
+}
+
+// Runs the pending steps in order and records the upgrade in the same
+// transaction. A step that throws or rejects aborts the upgrade, and the
+// open request then fails with that error.
+const upgradeDatabase = async (context: WebMigrationContext) => {
+  const pending = WEB_MIGRATIONS.filter(
+    (migration) => migration.version > context.oldVersion
+  );
+  for (const migration of pending) {
+    console.log(
+      `🔄 Web database version ${migration.version}:`,
+      migration.description
+    );
+    await migration.upgrade(context);
+  }
+
+  const record: WebMigrationRecord = {
+    id: createId(),
+    fromVersion: context.oldVersion,
+    toVersion: DB_VERSION,
+    descriptions: pending.map((migration) => migration.description),
+    appliedAt: new Date().toISOString(),
+  };
+  await context.tx.put(STORES.migrationHistory, record);
 };
 
 class WebDatabase {
@@ -34,39 +460,62 @@ class WebDatabase {
 
     return new Promise<IDBDatabase>((resolve, reject) => {
       const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onerror = () => reject(request.error);
+      let upgradeError: unknown = null;
+
+      request.onerror = () => {
+        const error = upgradeError ?? request.error;
+        reject(
+          new Error(
+            `Web database upgrade to version ${DB_VERSION} failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        );
+      };
       request.onsuccess = () => {
         this.db = request.result;
         resolve(this.db);
       };
 
-      request.onupgradeneeded = () => {
-        const db = request.result;
-
-        // Create object stores
-        if (!db.objectStoreNames.contains(STORES.expenses)) {
-          db.createObjectStore(STORES.expenses, { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains(STORES.budgetCategories)) {
-          db.createObjectStore(STORES.budgetCategories, { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains(STORES.groceryLists)) {
-          db.createObjectStore(STORES.groceryLists, { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains(STORES.groceryItems)) {
-          db.createObjectStore(STORES.groceryItems, { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains(STORES.priceHistory)) {
-          db.createObjectStore(STORES.priceHistory, { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains(STORES.financialSettings)) {
-          db.createObjectStore(STORES.financialSettings, { keyPath: 'id' });
-        }
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction!;
+        upgradeDatabase({
+          db: request.result,
+          transaction,
+          tx: new WebTransaction(transaction),
+          oldVersion: event.oldVersion,
+        }).catch((error) => {
+          console.error('❌ Web database upgrade failed:', error);
+          upgradeError = error;
+          try {
+            transaction.abort();
+          } catch {
+            // Already aborted by the failed request
+          }
+        });
       };
     });
   }
 
+  // Deletes the whole database. Only ever run when the user asks for it,
+  // e.g. from the recovery screen after a failed upgrade.
+  async reset() {
+    this.db?.close();
+    this.db = null;
+    return new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(DB_NAME);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getMigrationHistory(): Promise<WebMigrationRecord[]> {
+    const records = await this.getAll<WebMigrationRecord>(
+      STORES.migrationHistory
+    );
+    return records.sort((a, b) => b.appliedAt.localeCompare(a.appliedAt));
+  }
+
   async getAll<T>(storeName: string): Promise<T[]> {
     const db = await this.init();
     return new Promise((resolve, reject) => {
@@ -122,6 +571,106 @@ class WebDatabase {
     const items = await this.getAll<T>(storeName);
     return items.filter(predicate);
   }
+
+  // Records whose indexed value is in `range`, in index order
+  async getAllByIndex<T>(
+    storeName: string,
+    indexName: string,
+    range: IDBKeyRange
+  ): Promise<T[]> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([storeName], 'readonly');
+      const index = transaction.objectStore(storeName).index(indexName);
+      const request = index.getAll(range);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  // Unit of work over several stores: everything `work` writes is committed
+  // together, or nothing is when it throws. Only await requests made through
+  // `tx` inside `work`; awaiting anything else lets IndexedDB commit early.
+  async transaction<T>(
+    storeNames: string[],
+    work: (tx: WebTransaction) => Promise<T>
+  ): Promise<T> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, 'readwrite');
+      let result: T;
+      let failure: unknown = null;
+
+      transaction.oncomplete = () => resolve(result);
+      transaction.onabort = () => reject(failure ?? transaction.error);
+
+      work(new WebTransaction(transaction)).then(
+        (value) => {
+          result = value;
+        },
+        (error) => {
+          failure = error;
+          try {
+            transaction.abort();
+          } catch {
+            // Already aborted by the failed request
+          }
+        }
+      );
+    });
+  }
+}
+
+// Promise-based access to the stores of one IndexedDB transaction
+export class WebTransaction {
+  constructor(private transaction: IDBTransaction) {}
+
+  private request<T>(
+    storeName: string,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = run(this.transaction.objectStore(storeName));
+      request.onerror = (event) => {
+        // Let the unit of work decide; it aborts the transaction on failure
+        event.preventDefault();
+        reject(request.error);
+      };
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async getAll<T>(storeName: string): Promise<T[]> {
+    return await this.request<T[]>(storeName, (store) => store.getAll());
+  }
+
+  async get<T>(storeName: string, id: string): Promise<T | null> {
+    const result = await this.request<T | undefined>(storeName, (store) =>
+      store.get(id)
+    );
+    return result || null;
+  }
+
+  async put<T>(storeName: string, data: T): Promise<void> {
+    await this.request(storeName, (store) => store.put(data));
+  }
+
+  async delete(storeName: string, id: string): Promise<void> {
+    await this.request(storeName, (store) => store.delete(id));
+  }
+
+  async clear(storeName: string): Promise<void> {
+    await this.request(storeName, (store) => store.clear());
+  }
+
+  async filter<T>(
+    storeName: string,
+    predicate: (item: T) => boolean
+  ): Promise<T[]> {
+    const items = await this.getAll<T>(storeName);
+    return items.filter(predicate);
+  }
 }
 
 export const webDb = new WebDatabase();
@@ -145,54 +694,87 @@ const seedWebDatabase = async () => {
     return;
   }
 
+  const now = new Date();
+  const currentMonth = `${now.getFullYear()}-${(now.getMonth() + 1)
+    .toString()
+    .padStart(2, '0')}`;
+
   // Seed financial settings
   await webDb.put<FinancialSettings>(STORES.financialSettings, {
     id: 'default',
-    monthlyIncome: 4500,
-    savingsGoal: 800,
-    currentSavings: 450,
+    monthlyIncome: 450000,
+    savingsGoal: 80000,
+    currentSavings: 45000,
+    savingsAccountId: null,
+    baseCurrency: DEFAULT_CURRENCY,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   });
 
-  // Seed budget categories
-  const categories: BudgetCategory[] = [
-    {
-      id: 'housing',
-      name: 'Housing',
-      limit: 1500,
-      spent: 1200,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    {
-      id: 'utilities',
-      name: 'Utilities',
-      limit: 200,
-      spent: 145,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
+  // Seed categories and this month's budget
+  const categories: Category[] = defaultCategories.map((name) => ({
+    id: name.toLowerCase(),
+    name,
+    reminderDays: DEFAULT_REMINDER_DAYS,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  }));
+
+  for (const category of categories) {
+    await webDb.put<Category>(STORES.categories, category);
+  }
+
+  const allocations: BudgetAllocation[] = [
+    { categoryId: 'housing', limit: 150000, spent: 120000 },
+    { categoryId: 'utilities', limit: 20000, spent: 14500 },
+    { categoryId: 'groceries', limit: 40000, spent: 0 },
+    { categoryId: 'transportation', limit: 30000, spent: 0 },
+  ].map((allocation) => ({
+    ...allocation,
+    id: `${allocation.categoryId}_${currentMonth}`,
+    month: currentMonth,
+    deletedAt: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  }));
+
+  for (const allocation of allocations) {
+    await webDb.put<BudgetAllocation>(STORES.budgetAllocations, allocation);
+  }
+
+  // Seed recurring expense templates
+  const templates: RecurringExpense[] = [
+    { id: 'rent', name: 'Rent', amount: 120000, category: 'Housing', day: 1 },
     {
-      id: 'groceries',
-      name: 'Groceries',
-      limit: 400,
-      spent: 280,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      id: 'electricity',
+      name: 'Electricity',
+      amount: 8500,
+      category: 'Utilities',
+      day: 15,
     },
     {
-      id: 'transportation',
-      name: 'Transportation',
-      limit: 300,
-      spent: 150,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      id: 'internet',
+      name: 'Internet',
+      amount: 6000,
+      category: 'Utilities',
+      day: 20,
     },
-  ];
+  ].map(({ day, ...template }) => ({
+    ...template,
+    currency: DEFAULT_CURRENCY,
+    paidBy: null,
+    accountId: null,
+    frequency: 'monthly',
+    dayOfMonth: day,
+    startDate: currentMonth + '-01',
+    endDate: null,
+    isActive: true,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  }));
 
-  for (const category of categories) {
-    await webDb.put<BudgetCategory>(STORES.budgetCategories, category);
+  for (const template of templates) {
+    await webDb.put<RecurringExpense>(STORES.recurringExpenses, template);
   }
 
   // Seed expenses
@@ -200,33 +782,60 @@ const seedWebDatabase = async () => {
     {
       id: '1',
       name: 'Rent',
-      amount: 1200,
+      amount: 120000,
       category: 'Housing',
       dueDate: '2025-01-01',
+      month: currentMonth,
+      currency: DEFAULT_CURRENCY,
+      paidBy: null,
+      accountId: null,
+      splitType: null,
+      deletedAt: null,
+      snoozedUntil: null,
+      chargeDay: 1,
       isPaid: true,
       isRecurring: true,
+      templateId: 'rent',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     },
     {
       id: '2',
       name: 'Electricity',
-      amount: 85,
+      amount: 8500,
       category: 'Utilities',
       dueDate: '2025-01-15',
+      month: currentMonth,
+      currency: DEFAULT_CURRENCY,
+      paidBy: null,
+      accountId: null,
+      splitType: null,
+      deletedAt: null,
+      snoozedUntil: null,
+      chargeDay: 15,
       isPaid: false,
       isRecurring: true,
+      templateId: 'electricity',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     },
     {
       id: '3',
       name: 'Internet',
-      amount: 60,
+      amount: 6000,
       category: 'Utilities',
       dueDate: '2025-01-20',
+      month: currentMonth,
+      currency: DEFAULT_CURRENCY,
+      paidBy: null,
+      accountId: null,
+      splitType: null,
+      deletedAt: null,
+      snoozedUntil: null,
+      chargeDay: 20,
       isPaid: false,
       isRecurring: true,
+      templateId: 'internet',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     },
@@ -240,7 +849,10 @@ const seedWebDatabase = async () => {
   const groceryList: GroceryList = {
     id: '1',
     name: 'Weekly Shopping',
-    totalCost: 127.5,
+    totalCost: 12750,
+    currency: DEFAULT_CURRENCY,
+    paidBy: null,
+    deletedAt: null,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
@@ -254,8 +866,8 @@ const seedWebDatabase = async () => {
       listId: '1',
       name: 'Milk',
       quantity: 2,
-      pricePerUnit: 3.99,
-      totalCost: 7.98,
+      pricePerUnit: 399,
+      totalCost: 798,
       isPurchased: true,
       storeLocation: 'Walmart',
       createdAt: new Date().toISOString(),
@@ -266,8 +878,8 @@ const seedWebDatabase = async () => {
       listId: '1',
       name: 'Bread',
       quantity: 1,
-      pricePerUnit: 2.49,
-      totalCost: 2.49,
+      pricePerUnit: 249,
+      totalCost: 249,
       isPurchased: false,
       storeLocation: 'Walmart',
       createdAt: new Date().toISOString(),
@@ -279,8 +891,20 @@ const seedWebDatabase = async () => {
     await webDb.put<GroceryItem>(STORES.groceryItems, item);
   }
 
+  // Seed initial monthly savings record
+  await webDb.put<MonthlySavings>(STORES.monthlySavings, {
+    id: currentMonth + '_savings',
+    month: currentMonth,
+    income: 450000,
+    totalExpenses: 134500,
+    totalSaved: 315500,
+    savingsGoal: 80000,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+
   console.log('✅ Web database seeded');
 };
 
 // Export the store names for use in services
-export { STORES };
+export { STORES, INDEXES };
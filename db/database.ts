@@ -1,11 +1,10 @@
 import { drizzle } from 'drizzle-orm/expo-sqlite';
 import { openDatabaseSync, openDatabaseAsync } from 'expo-sqlite';
-import { migrate } from 'drizzle-orm/expo-sqlite/migrator';
-import { eq } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
 import { Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import * as schema from './schema';
-import migrations from './migrations/migrations';
+import { runMigrations } from './migration-runner';
 
 const isWeb = Platform.OS === 'web';
 
@@ -43,6 +42,25 @@ export const getDb = async () => {
   return db;
 };
 
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Unit of work: everything `work` writes is committed together, or rolled
+// back when it throws. The expo-sqlite driver runs statements synchronously,
+// so `work` must not await; finish each query on `tx` with `.run()`, `.all()`
+// or `.get()` instead.
+export const withTransaction = async <T>(work: (tx: DbTransaction) => T) => {
+  const database = await getDb();
+  return database.transaction((tx) => {
+    const result = work(tx);
+    if (result instanceof Promise) {
+      throw new Error('Transaction work must be synchronous');
+    }
+    return result;
+  });
+};
+
+// Deletes every record. Only ever run when the user asks for it, e.g. from
+// the recovery screen after a failed migration.
 export const resetDatabase = async () => {
   try {
     console.log('🔄 Resetting database...');
@@ -53,9 +71,28 @@ export const resetDatabase = async () => {
     await database.run(`DROP TABLE IF EXISTS price_history;`);
     await database.run(`DROP TABLE IF EXISTS grocery_items;`);
     await database.run(`DROP TABLE IF EXISTS grocery_lists;`);
+    await database.run(`DROP TABLE IF EXISTS expense_splits;`);
+    await database.run(`DROP TABLE IF EXISTS payments;`);
+    await database.run(`DROP TABLE IF EXISTS settlements;`);
+    await database.run(`DROP TABLE IF EXISTS incomes;`);
+    await database.run(`DROP TABLE IF EXISTS account_transfers;`);
     await database.run(`DROP TABLE IF EXISTS expenses;`);
+    await database.run(`DROP TABLE IF EXISTS recurring_expenses;`);
+    await database.run(`DROP TABLE IF EXISTS monthly_rollovers;`);
+    await database.run(`DROP TABLE IF EXISTS exchange_rates;`);
+    await database.run(`DROP TABLE IF EXISTS categorization_rules;`);
+    await database.run(`DROP TABLE IF EXISTS budget_allocations;`);
+    await database.run(`DROP TABLE IF EXISTS categories;`);
     await database.run(`DROP TABLE IF EXISTS budget_categories;`);
     await database.run(`DROP TABLE IF EXISTS financial_settings;`);
+    await database.run(`DROP TABLE IF EXISTS accounts;`);
+    await database.run(`DROP TABLE IF EXISTS members;`);
+    await database.run(`DROP TABLE IF EXISTS sync_records;`);
+    await database.run(`DROP TABLE IF EXISTS sync_peers;`);
+    await database.run(`DROP TABLE IF EXISTS sync_device;`);
+    await database.run(`DROP TABLE IF EXISTS audit_log;`);
+    // So that the next start migrates the empty database from scratch
+    await database.run(`DROP TABLE IF EXISTS __drizzle_migrations;`);
 
     console.log('✅ Database reset complete');
   } catch (error) {
@@ -64,21 +101,13 @@ export const resetDatabase = async () => {
   }
 };
 
+// A failed migration leaves the data as it was before and throws; see
+// `db/migration-runner.ts`
 export const initializeDatabase = async () => {
-  try {
-    console.info('Initializing database with migrations...');
-    const database = await getDb();
-    await migrate(database, migrations);
-    console.log('Database initialized successfully');
-  } catch (error) {
-    console.error('Error initializing database:', error);
-    // If migration fails, try resetting and re-running
-    console.log('🔄 Migration failed, attempting database reset...');
-    await resetDatabase();
-    const database = await getDb();
-    await migrate(database, migrations);
-    console.log('Database initialized successfully after reset');
-  }
+  console.info('Initializing database with migrations...');
+  const database = await getDb();
+  await runMigrations(database);
+  console.log('Database initialized successfully');
 };
 
 export const seedDatabase = async () => {
@@ -95,50 +124,39 @@ export const seedDatabase = async () => {
     if (existingSettings.length === 0) {
       await database.insert(schema.financialSettings).values({
         id: 'default',
-        monthlyIncome: 4500,
-        savingsGoal: 800,
-        currentSavings: 450,
+        monthlyIncome: 450000,
+        savingsGoal: 80000,
+        currentSavings: 45000,
       });
     }
 
-    // Check if budget categories exist
-    const existingCategories = await database
+    // Check if budget allocations exist. The categories themselves are
+    // created by the migrations.
+    const existingAllocations = await database
       .select()
-      .from(schema.budgetCategories)
+      .from(schema.budgetAllocations)
       .limit(1);
-    if (existingCategories.length === 0) {
-      const categories = [
-        {
-          id: 'housing_' + currentMonth,
-          name: 'Housing',
-          limit: 1500,
-          spent: 1200,
-          month: currentMonth,
-        },
-        {
-          id: 'utilities_' + currentMonth,
-          name: 'Utilities',
-          limit: 200,
-          spent: 145,
-          month: currentMonth,
-        },
-        {
-          id: 'groceries_' + currentMonth,
-          name: 'Groceries',
-          limit: 400,
-          spent: 280,
-          month: currentMonth,
-        },
-        {
-          id: 'transportation_' + currentMonth,
-          name: 'Transportation',
-          limit: 300,
-          spent: 150,
-          month: currentMonth,
-        },
-      ];
+    if (existingAllocations.length === 0) {
+      const limits: Record<string, { limit: number; spent: number }> = {
+        Housing: { limit: 150000, spent: 120000 },
+        Utilities: { limit: 20000, spent: 14500 },
+        Groceries: { limit: 40000, spent: 0 },
+        Transportation: { limit: 30000, spent: 0 },
+      };
+      const categories = await database
+        .select()
+        .from(schema.categories)
+        .where(inArray(schema.categories.name, Object.keys(limits)));
+      const allocations = categories.map((category) => ({
+        id: `${category.id}_${currentMonth}`,
+        categoryId: category.id,
+        month: currentMonth,
+        ...limits[category.name],
+      }));
 
-      await database.insert(schema.budgetCategories).values(categories);
+      if (allocations.length > 0) {
+        await database.insert(schema.budgetAllocations).values(allocations);
+      }
     }
 
     // Check if expenses exist
@@ -147,39 +165,74 @@ export const seedDatabase = async () => {
       .from(schema.expenses)
       .limit(1);
     if (existingExpenses.length === 0) {
+      const templatesData = [
+        {
+          id: 'rent',
+          name: 'Rent',
+          amount: 120000,
+          category: 'Housing',
+          frequency: 'monthly' as const,
+          dayOfMonth: 1,
+          startDate: currentMonth + '-01',
+        },
+        {
+          id: 'electricity',
+          name: 'Electricity',
+          amount: 8500,
+          category: 'Utilities',
+          frequency: 'monthly' as const,
+          dayOfMonth: 15,
+          startDate: currentMonth + '-01',
+        },
+        {
+          id: 'internet',
+          name: 'Internet',
+          amount: 6000,
+          category: 'Utilities',
+          frequency: 'monthly' as const,
+          dayOfMonth: 20,
+          startDate: currentMonth + '-01',
+        },
+      ];
+
+      await database.insert(schema.recurringExpenses).values(templatesData);
+
       const expensesData = [
         {
           id: '1',
           name: 'Rent',
-          amount: 1200,
+          amount: 120000,
           category: 'Housing',
           dueDate: '2025-01-01',
           month: currentMonth,
           chargeDay: 1,
           isPaid: true,
           isRecurring: true,
+          templateId: 'rent',
         },
         {
           id: '2',
           name: 'Electricity',
-          amount: 85,
+          amount: 8500,
           category: 'Utilities',
           dueDate: '2025-01-15',
           month: currentMonth,
           chargeDay: 15,
           isPaid: false,
           isRecurring: true,
+          templateId: 'electricity',
         },
         {
           id: '3',
           name: 'Internet',
-          amount: 60,
+          amount: 6000,
           category: 'Utilities',
           dueDate: '2025-01-20',
           month: currentMonth,
           chargeDay: 20,
           isPaid: false,
           isRecurring: true,
+          templateId: 'internet',
         },
       ];
 
@@ -195,7 +248,7 @@ export const seedDatabase = async () => {
       await database.insert(schema.groceryLists).values({
         id: '1',
         name: 'Weekly Shopping',
-        totalCost: 127.5,
+        totalCost: 12750,
       });
 
       const groceryItemsData = [
@@ -204,8 +257,8 @@ export const seedDatabase = async () => {
           listId: '1',
           name: 'Milk',
           quantity: 2,
-          pricePerUnit: 3.99,
-          totalCost: 7.98,
+          pricePerUnit: 399,
+          totalCost: 798,
           isPurchased: true,
           storeLocation: 'Walmart',
         },
@@ -214,8 +267,8 @@ export const seedDatabase = async () => {
           listId: '1',
           name: 'Bread',
           quantity: 1,
-          pricePerUnit: 2.49,
-          totalCost: 2.49,
+          pricePerUnit: 249,
+          totalCost: 249,
           isPurchased: false,
           storeLocation: 'Walmart',
         },
@@ -228,13 +281,13 @@ export const seedDatabase = async () => {
         {
           id: '1_history_1',
           itemId: '1',
-          price: 3.99,
+          price: 399,
           date: '2025-01-01',
         },
         {
           id: '2_history_1',
           itemId: '2',
-          price: 2.49,
+          price: 249,
           date: '2025-01-01',
         },
       ];
@@ -251,10 +304,10 @@ export const seedDatabase = async () => {
       await database.insert(schema.monthlySavings).values({
         id: currentMonth + '_savings',
         month: currentMonth,
-        income: 4500,
-        totalExpenses: 1345,
-        totalSaved: 3155,
-        savingsGoal: 800,
+        income: 450000,
+        totalExpenses: 134500,
+        totalSaved: 315500,
+        savingsGoal: 80000,
       });
     }
 
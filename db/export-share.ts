@@ -0,0 +1,49 @@
+// Hands export files to the user: the native share sheet on iOS/Android, a
+// browser download on web.
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { ExportFile } from './export';
+
+const downloadFile = (file: ExportFile) => {
+  const blob = new Blob([file.content], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// The share sheet takes one file at a time, so CSV exports are offered in
+// turn; each call resolves once the previous sheet is dismissed.
+const shareFile = async (file: ExportFile) => {
+  const uri = `${FileSystem.cacheDirectory}${file.filename}`;
+  await FileSystem.writeAsStringAsync(uri, file.content, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+  await Sharing.shareAsync(uri, {
+    mimeType: file.mimeType,
+    dialogTitle: file.filename,
+    UTI:
+      file.mimeType === 'application/json'
+        ? 'public.json'
+        : 'public.comma-separated-values-text',
+  });
+};
+
+export const shareExportFiles = async (files: ExportFile[]) => {
+  if (Platform.OS === 'web') {
+    files.forEach(downloadFile);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  for (const file of files) {
+    await shareFile(file);
+  }
+};
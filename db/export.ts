@@ -0,0 +1,495 @@
+// Data export. Collects the household data through the repository
+// interfaces, so both storage backends export the same shape, and
+// serializes it as one versioned JSON bundle or as one CSV file per entity.
+import type {
+  Expense,
+  Category,
+  MonthlySavings,
+  FinancialSettings,
+  RecurringExpense,
+  ExchangeRate,
+  Member,
+  ExpenseSplit,
+  Payment,
+  Settlement,
+  Account,
+  Income,
+  AccountTransfer,
+} from './schema';
+import type {
+  ExpenseRepository,
+  RecurringExpenseRepository,
+  CategoryRepository,
+  BudgetAllocationRepository,
+  BudgetAllocationWithCategory,
+  GroceryListRepository,
+  GroceryListWithItems,
+  FinancialSettingsRepository,
+  MonthlySavingsRepository,
+  ExchangeRateRepository,
+  MemberRepository,
+  ExpenseSplitRepository,
+  PaymentRepository,
+  SettlementRepository,
+  AccountRepository,
+  IncomeRepository,
+  AccountTransferRepository,
+} from './repositories';
+import { centsToInput } from './money';
+
+// Bump when the bundle shape changes in a way readers must know about
+// 2: budget categories split into categories and monthly budget allocations
+// 3: household members, and who paid expenses and grocery lists
+// 4: expense splits and settlements between members
+// 5: payments toward expenses
+// 6: accounts, incomes and transfers, and the account of each expense
+export const EXPORT_VERSION = 6;
+
+export type ExportFormat = 'json' | 'csv';
+
+// Optional filters. `month` (YYYY-MM) wins over the inclusive `from`/`to`
+// dates (YYYY-MM-DD); either end of the range may be left open. Settings,
+// categories, members, accounts, templates and exchange rates are always
+// exported in full.
+export interface ExportRange {
+  month?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ExportOptions extends ExportRange {
+  format: ExportFormat;
+}
+
+export interface ExportServices {
+  expenses: ExpenseRepository;
+  recurringExpenses: RecurringExpenseRepository;
+  categories: CategoryRepository;
+  budgetAllocations: BudgetAllocationRepository;
+  groceryLists: GroceryListRepository;
+  monthlySavings: MonthlySavingsRepository;
+  financialSettings: FinancialSettingsRepository;
+  exchangeRates: ExchangeRateRepository;
+  members: MemberRepository;
+  expenseSplits: ExpenseSplitRepository;
+  payments: PaymentRepository;
+  settlements: SettlementRepository;
+  accounts: AccountRepository;
+  incomes: IncomeRepository;
+  accountTransfers: AccountTransferRepository;
+}
+
+// Amounts are integer cents, exactly as stored
+export interface ExportBundle {
+  version: number;
+  exportedAt: string;
+  range: ExportRange | null;
+  financialSettings: FinancialSettings | null;
+  expenses: Expense[];
+  recurringExpenses: RecurringExpense[];
+  categories: Category[];
+  budgetAllocations: BudgetAllocationWithCategory[];
+  groceryLists: GroceryListWithItems[];
+  monthlySavings: MonthlySavings[];
+  exchangeRates: ExchangeRate[];
+  members: Member[];
+  expenseSplits: ExpenseSplit[];
+  payments: Payment[];
+  settlements: Settlement[];
+  accounts: Account[];
+  incomes: Income[];
+  accountTransfers: AccountTransfer[];
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const hasRange = (range: ExportRange) =>
+  Boolean(range.month || range.from || range.to);
+
+// Records without a usable date are kept rather than silently dropped
+const isDateInRange = (date: string | null | undefined, range: ExportRange) => {
+  if (!date || !/^\d{4}-\d{2}/.test(date)) return true;
+  if (range.month) return date.slice(0, 7) === range.month;
+  const day = date.slice(0, 10);
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+};
+
+const isMonthInRange = (month: string, range: ExportRange) => {
+  if (range.month) return month === range.month;
+  return (
+    (!range.from || month >= range.from.slice(0, 7)) &&
+    (!range.to || month <= range.to.slice(0, 7))
+  );
+};
+
+export const collectExport = async (
+  services: ExportServices,
+  range: ExportRange = {}
+): Promise<ExportBundle> => {
+  const [
+    financialSettings,
+    expenses,
+    recurringExpenses,
+    categories,
+    budgetAllocations,
+    groceryLists,
+    monthlySavings,
+    exchangeRates,
+    members,
+    expenseSplits,
+    payments,
+    settlements,
+    accounts,
+    incomes,
+    accountTransfers,
+  ] = await Promise.all([
+    services.financialSettings.get(),
+    services.expenses.getAll(),
+    services.recurringExpenses.getAll(),
+    services.categories.getAll(),
+    services.budgetAllocations.getAll(),
+    services.groceryLists.getAll(),
+    services.monthlySavings.getAll(),
+    services.exchangeRates.getAll(),
+    services.members.getAll(),
+    services.expenseSplits.getAll(),
+    services.payments.getAll(),
+    services.settlements.getAll(),
+    services.accounts.getAll(),
+    services.incomes.getAll(),
+    services.accountTransfers.getAll(),
+  ]);
+
+  const exportedExpenses = expenses.filter((expense) =>
+    range.month
+      ? expense.month === range.month
+      : isDateInRange(expense.dueDate, range)
+  );
+  const exportedExpenseIds = new Set(
+    exportedExpenses.map((expense) => expense.id)
+  );
+
+  const filtered = hasRange(range);
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    range: filtered ? range : null,
+    financialSettings,
+    expenses: exportedExpenses,
+    recurringExpenses,
+    categories,
+    budgetAllocations: budgetAllocations.filter((allocation) =>
+      isMonthInRange(allocation.month, range)
+    ),
+    groceryLists: groceryLists
+      .filter((list) => isDateInRange(list.createdAt, range))
+      .map((list) => ({
+        ...list,
+        items: list.items.map((item) => ({
+          ...item,
+          priceHistory: item.priceHistory.filter((entry) =>
+            isDateInRange(entry.date, range)
+          ),
+        })),
+      })),
+    monthlySavings: monthlySavings.filter((savings) =>
+      isMonthInRange(savings.month, range)
+    ),
+    exchangeRates,
+    members,
+    expenseSplits: expenseSplits.filter((split) =>
+      exportedExpenseIds.has(split.expenseId)
+    ),
+    payments: payments.filter((payment) =>
+      exportedExpenseIds.has(payment.expenseId)
+    ),
+    settlements: settlements.filter((settlement) =>
+      isDateInRange(settlement.date, range)
+    ),
+    accounts,
+    incomes: incomes.filter((income) => isDateInRange(income.date, range)),
+    accountTransfers: accountTransfers.filter((transfer) =>
+      isDateInRange(transfer.date, range)
+    ),
+  };
+};
+
+// CSV
+
+type CsvValue = string | number | boolean | null | undefined;
+
+interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => CsvValue;
+}
+
+// Spreadsheets run a field that starts with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+// Quotes fields that contain a separator, quote or line break (RFC 4180).
+// Text a spreadsheet would run, such as a payee named "=HYPERLINK(...)" in
+// an imported statement, gets a leading ' so it stays text; negative
+// amounts are still numbers.
+const escapeCsv = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (FORMULA_START.test(text) && !NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]) =>
+  [
+    columns.map((column) => escapeCsv(column.header)).join(','),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsv(column.value(row))).join(',')
+    ),
+  ].join('\r\n');
+
+// Spreadsheets get decimal amounts; the JSON bundle keeps cents
+const money = <T>(header: string, value: (row: T) => number | null) => ({
+  header,
+  value: (row: T) => {
+    const cents = value(row);
+    return cents === null ? '' : centsToInput(cents);
+  },
+});
+
+const column = <T>(header: string, value: (row: T) => CsvValue) => ({
+  header,
+  value,
+});
+
+const expenseColumns: CsvColumn<Expense>[] = [
+  column('id', (row) => row.id),
+  column('name', (row) => row.name),
+  money('amount', (row) => row.amount),
+  column('currency', (row) => row.currency),
+  column('category', (row) => row.category),
+  column('paid_by', (row) => row.paidBy),
+  column('split_type', (row) => row.splitType),
+  column('account_id', (row) => row.accountId),
+  column('due_date', (row) => row.dueDate),
+  column('month', (row) => row.month),
+  column('is_paid', (row) => row.isPaid),
+  column('is_recurring', (row) => row.isRecurring),
+  column('template_id', (row) => row.templateId),
+];
+
+const recurringExpenseColumns: CsvColumn<RecurringExpense>[] = [
+  column('id', (row) => row.id),
+  column('name', (row) => row.name),
+  money('amount', (row) => row.amount),
+  column('currency', (row) => row.currency),
+  column('category', (row) => row.category),
+  column('paid_by', (row) => row.paidBy),
+  column('account_id', (row) => row.accountId),
+  column('frequency', (row) => row.frequency),
+  column('day_of_month', (row) => row.dayOfMonth),
+  column('start_date', (row) => row.startDate),
+  column('end_date', (row) => row.endDate),
+  column('is_active', (row) => row.isActive),
+];
+
+const categoryColumns: CsvColumn<Category>[] = [
+  column('id', (row) => row.id),
+  column('name', (row) => row.name),
+];
+
+const budgetAllocationColumns: CsvColumn<BudgetAllocationWithCategory>[] = [
+  column('id', (row) => row.id),
+  column('category_id', (row) => row.categoryId),
+  column('category', (row) => row.name),
+  column('month', (row) => row.month),
+  money('limit', (row) => row.limit),
+  money('spent', (row) => row.spent ?? 0),
+];
+
+const groceryListColumns: CsvColumn<GroceryListWithItems>[] = [
+  column('id', (row) => row.id),
+  column('name', (row) => row.name),
+  column('currency', (row) => row.currency),
+  money('total_cost', (row) => row.totalCost ?? 0),
+  column('paid_by', (row) => row.paidBy),
+  column('item_count', (row) => row.items.length),
+  column('created_at', (row) => row.createdAt),
+];
+
+type GroceryItemRow = GroceryListWithItems['items'][number];
+
+const groceryItemColumns: CsvColumn<GroceryItemRow>[] = [
+  column('id', (row) => row.id),
+  column('list_id', (row) => row.listId),
+  column('name', (row) => row.name),
+  column('quantity', (row) => row.quantity),
+  money('price_per_unit', (row) => row.pricePerUnit),
+  money('total_cost', (row) => row.totalCost),
+  column('is_purchased', (row) => row.isPurchased),
+  column('store_location', (row) => row.storeLocation),
+];
+
+type PriceHistoryRow = GroceryItemRow['priceHistory'][number];
+
+const priceHistoryColumns: CsvColumn<PriceHistoryRow>[] = [
+  column('id', (row) => row.id),
+  column('item_id', (row) => row.itemId),
+  money('price', (row) => row.price),
+  column('date', (row) => row.date),
+];
+
+const monthlySavingsColumns: CsvColumn<MonthlySavings>[] = [
+  column('month', (row) => row.month),
+  money('income', (row) => row.income),
+  money('total_expenses', (row) => row.totalExpenses ?? 0),
+  money('total_saved', (row) => row.totalSaved ?? 0),
+  money('savings_goal', (row) => row.savingsGoal),
+];
+
+const financialSettingsColumns: CsvColumn<FinancialSettings>[] = [
+  money('monthly_income', (row) => row.monthlyIncome),
+  money('savings_goal', (row) => row.savingsGoal),
+  money('current_savings', (row) => row.currentSavings ?? 0),
+  column('savings_account_id', (row) => row.savingsAccountId),
+  column('base_currency', (row) => row.baseCurrency),
+];
+
+const exchangeRateColumns: CsvColumn<ExchangeRate>[] = [
+  column('from_currency', (row) => row.fromCurrency),
+  column('to_currency', (row) => row.toCurrency),
+  column('rate', (row) => row.rate),
+  column('updated_at', (row) => row.updatedAt),
+];
+
+const memberColumns: CsvColumn<Member>[] = [
+  column('id', (row) => row.id),
+  column('name', (row) => row.name),
+  column('is_active', (row) => row.isActive),
+];
+
+const expenseSplitColumns: CsvColumn<ExpenseSplit>[] = [
+  column('id', (row) => row.id),
+  column('expense_id', (row) => row.expenseId),
+  column('member_id', (row) => row.memberId),
+  column('value', (row) => row.value),
+];
+
+const paymentColumns: CsvColumn<Payment>[] = [
+  column('id', (row) => row.id),
+  column('expense_id', (row) => row.expenseId),
+  money('amount', (row) => row.amount),
+  column('date', (row) => row.date),
+  column('method', (row) => row.method),
+  column('note', (row) => row.note),
+];
+
+const settlementColumns: CsvColumn<Settlement>[] = [
+  column('id', (row) => row.id),
+  column('from_member_id', (row) => row.fromMemberId),
+  column('to_member_id', (row) => row.toMemberId),
+  money('amount', (row) => row.amount),
+  column('currency', (row) => row.currency),
+  column('date', (row) => row.date),
+  column('note', (row) => row.note),
+];
+
+const accountColumns: CsvColumn<Account>[] = [
+  column('id', (row) => row.id),
+  column('name', (row) => row.name),
+  column('type', (row) => row.type),
+  column('currency', (row) => row.currency),
+  money('opening_balance', (row) => row.openingBalance),
+];
+
+const incomeColumns: CsvColumn<Income>[] = [
+  column('id', (row) => row.id),
+  column('name', (row) => row.name),
+  money('amount', (row) => row.amount),
+  column('currency', (row) => row.currency),
+  column('date', (row) => row.date),
+  column('account_id', (row) => row.accountId),
+];
+
+const accountTransferColumns: CsvColumn<AccountTransfer>[] = [
+  column('id', (row) => row.id),
+  column('from_account_id', (row) => row.fromAccountId),
+  column('to_account_id', (row) => row.toAccountId),
+  money('amount', (row) => row.amount),
+  money('to_amount', (row) => row.toAmount),
+  column('date', (row) => row.date),
+  column('note', (row) => row.note),
+];
+
+// Names files after the export day, plus the month when filtered by one
+const getFileStem = (bundle: ExportBundle) =>
+  `household-${bundle.range?.month || bundle.exportedAt.slice(0, 10)}`;
+
+export const toJsonFile = (bundle: ExportBundle): ExportFile => ({
+  filename: `${getFileStem(bundle)}.json`,
+  mimeType: 'application/json',
+  content: JSON.stringify(bundle, null, 2),
+});
+
+export const toCsvFiles = (bundle: ExportBundle): ExportFile[] => {
+  const stem = getFileStem(bundle);
+  const items = bundle.groceryLists.flatMap((list) => list.items);
+  const csv = (name: string, content: string): ExportFile => ({
+    filename: `${stem}-${name}.csv`,
+    mimeType: 'text/csv',
+    content,
+  });
+
+  return [
+    csv('expenses', toCsv(bundle.expenses, expenseColumns)),
+    csv(
+      'recurring-expenses',
+      toCsv(bundle.recurringExpenses, recurringExpenseColumns)
+    ),
+    csv('categories', toCsv(bundle.categories, categoryColumns)),
+    csv(
+      'budget-allocations',
+      toCsv(bundle.budgetAllocations, budgetAllocationColumns)
+    ),
+    csv('grocery-lists', toCsv(bundle.groceryLists, groceryListColumns)),
+    csv('grocery-items', toCsv(items, groceryItemColumns)),
+    csv(
+      'price-history',
+      toCsv(
+        items.flatMap((item) => item.priceHistory),
+        priceHistoryColumns
+      )
+    ),
+    csv('monthly-savings', toCsv(bundle.monthlySavings, monthlySavingsColumns)),
+    csv(
+      'financial-settings',
+      toCsv(
+        bundle.financialSettings ? [bundle.financialSettings] : [],
+        financialSettingsColumns
+      )
+    ),
+    csv('exchange-rates', toCsv(bundle.exchangeRates, exchangeRateColumns)),
+    csv('members', toCsv(bundle.members, memberColumns)),
+    csv('expense-splits', toCsv(bundle.expenseSplits, expenseSplitColumns)),
+    csv('payments', toCsv(bundle.payments, paymentColumns)),
+    csv('settlements', toCsv(bundle.settlements, settlementColumns)),
+    csv('accounts', toCsv(bundle.accounts, accountColumns)),
+    csv('incomes', toCsv(bundle.incomes, incomeColumns)),
+    csv(
+      'account-transfers',
+      toCsv(bundle.accountTransfers, accountTransferColumns)
+    ),
+  ];
+};
+
+export const createExport = async (
+  services: ExportServices,
+  { format, ...range }: ExportOptions
+): Promise<ExportFile[]> => {
+  const bundle = await collectExport(services, range);
+  return format === 'json' ? [toJsonFile(bundle)] : toCsvFiles(bundle);
+};
@@ -0,0 +1,76 @@
+// Grocery list editing. The list form works on a copy of the items; these
+// helpers work out what actually changed so the services can save an edit in
+// one transaction without losing purchased state or price history of the
+// items that stay on the list.
+import type { GroceryItem, NewGroceryItem } from './schema';
+import { sumMoney } from './money';
+
+// An item as edited in the list form; items added in the form have no id yet
+export type GroceryItemDraft = Pick<
+  NewGroceryItem,
+  'name' | 'quantity' | 'pricePerUnit' | 'totalCost' | 'storeLocation'
+> & { id?: string };
+
+export interface GroceryItemUpdate {
+  id: string;
+  updates: Partial<NewGroceryItem>;
+  // A new price is appended to the item's price history
+  priceChanged: boolean;
+}
+
+export interface GroceryItemChanges {
+  added: GroceryItemDraft[];
+  updated: GroceryItemUpdate[];
+  removed: string[];
+}
+
+export const getListTotal = (items: Pick<NewGroceryItem, 'totalCost'>[]) =>
+  sumMoney(items.map((item) => item.totalCost));
+
+// Drafts with an id that is not on the list are treated as new items
+export const diffGroceryItems = (
+  existing: GroceryItem[],
+  drafts: GroceryItemDraft[]
+): GroceryItemChanges => {
+  const existingById = new Map(existing.map((item) => [item.id, item]));
+  const keptIds = new Set<string>();
+  const added: GroceryItemDraft[] = [];
+  const updated: GroceryItemUpdate[] = [];
+
+  for (const draft of drafts) {
+    const current = draft.id ? existingById.get(draft.id) : undefined;
+    if (!current || keptIds.has(current.id)) {
+      added.push(draft);
+      continue;
+    }
+    keptIds.add(current.id);
+
+    const updates: Partial<NewGroceryItem> = {};
+    if (draft.name !== current.name) updates.name = draft.name;
+    if (draft.quantity !== current.quantity) updates.quantity = draft.quantity;
+    if (draft.pricePerUnit !== current.pricePerUnit) {
+      updates.pricePerUnit = draft.pricePerUnit;
+    }
+    if (draft.totalCost !== current.totalCost) {
+      updates.totalCost = draft.totalCost;
+    }
+    const storeLocation = draft.storeLocation || null;
+    if (storeLocation !== current.storeLocation) {
+      updates.storeLocation = storeLocation;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      updated.push({
+        id: current.id,
+        updates,
+        priceChanged: updates.pricePerUnit !== undefined,
+      });
+    }
+  }
+
+  const removed = existing
+    .filter((item) => !keptIds.has(item.id))
+    .map((item) => item.id);
+
+  return { added, updated, removed };
+};
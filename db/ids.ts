@@ -0,0 +1,31 @@
+// Primary keys for new records, shared by the SQLite and IndexedDB services.
+//
+// UUIDv7: a 48-bit millisecond timestamp followed by random bits, so ids made
+// in the same millisecond never collide and still sort roughly by creation
+// time. Records saved before this used `Date.now()` strings as ids; those are
+// left as they are, ids are only ever compared for equality.
+import { getRandomValues } from 'expo-crypto';
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export const createId = () => {
+  const bytes = getRandomValues(new Uint8Array(16));
+
+  let timestamp = Date.now();
+  for (let index = 5; index >= 0; index--) {
+    bytes[index] = timestamp % 256;
+    timestamp = Math.floor(timestamp / 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70; // version 7
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = toHex(bytes);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+};
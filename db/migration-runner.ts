@@ -0,0 +1,220 @@
+// Applies the drizzle migrations without ever giving up user data.
+//
+// Before pending migrations run, the database is copied to
+// `household-pre-migration.db` next to it. When a migration fails the copy is
+// put back and the error is passed on, so the app can offer recovery instead
+// of starting over. Every run is recorded in `migration_history`; the table is
+// managed here rather than in the schema so that it is already in the backup
+// and survives a restore.
+import {
+  openDatabaseSync,
+  backupDatabaseSync,
+  type SQLiteDatabase,
+} from 'expo-sqlite';
+import type { ExpoSQLiteDatabase } from 'drizzle-orm/expo-sqlite';
+import { migrate } from 'drizzle-orm/expo-sqlite/migrator';
+import migrations from './migrations/migrations';
+import { createId } from './ids';
+
+export const PRE_MIGRATION_BACKUP = 'household-pre-migration.db';
+
+export type MigrationStatus = 'applied' | 'restored' | 'failed';
+
+export interface MigrationRecord {
+  id: string;
+  // Last migration applied before the run; null on a new database
+  fromMigration: string | null;
+  toMigration: string;
+  status: MigrationStatus;
+  // Name of the copy taken before the run, if any
+  backup: string | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string;
+}
+
+interface MigrationHistoryRow {
+  id: string;
+  from_migration: string | null;
+  to_migration: string;
+  status: MigrationStatus;
+  backup: string | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string;
+}
+
+const createHistoryTable = (client: SQLiteDatabase) => {
+  client.execSync(`CREATE TABLE IF NOT EXISTS migration_history (
+    id text PRIMARY KEY NOT NULL,
+    from_migration text,
+    to_migration text NOT NULL,
+    status text NOT NULL,
+    backup text,
+    error text,
+    started_at text NOT NULL,
+    finished_at text NOT NULL
+  );`);
+};
+
+const recordRun = (client: SQLiteDatabase, record: MigrationRecord) => {
+  client.runSync(
+    `INSERT INTO migration_history
+      (id, from_migration, to_migration, status, backup, error, started_at, finished_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    record.id,
+    record.fromMigration,
+    record.toMigration,
+    record.status,
+    record.backup,
+    record.error,
+    record.startedAt,
+    record.finishedAt
+  );
+};
+
+// drizzle stores the journal timestamp of each applied migration; everything
+// newer than the latest one is still pending
+const getLastAppliedAt = (client: SQLiteDatabase) => {
+  const table = client.getFirstSync(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = '__drizzle_migrations'`
+  );
+  if (!table) return null;
+
+  const row = client.getFirstSync<{ created_at: number }>(
+    'SELECT created_at FROM __drizzle_migrations ORDER BY created_at DESC LIMIT 1'
+  );
+  return row ? Number(row.created_at) : null;
+};
+
+// The backup API copies page by page inside SQLite, so the copy is
+// consistent even with changes still in the write-ahead log
+const copyDatabase = (source: SQLiteDatabase, destination: SQLiteDatabase) => {
+  backupDatabaseSync({ sourceDatabase: source, destDatabase: destination });
+};
+
+const withBackupFile = (work: (backup: SQLiteDatabase) => void) => {
+  const backup = openDatabaseSync(PRE_MIGRATION_BACKUP);
+  try {
+    work(backup);
+  } finally {
+    backup.closeSync();
+  }
+};
+
+// drizzle wraps the failing statement; its cause says what went wrong
+const describeError = (error: unknown) => {
+  if (!(error instanceof Error)) return String(error);
+  return error.cause instanceof Error
+    ? `${error.message.trim()} (${error.cause.message})`
+    : error.message;
+};
+
+// Number of migrations this version of the app ships
+export const LATEST_SCHEMA_VERSION = migrations.journal.entries.length;
+
+// Number of migrations applied to the database
+export const getSchemaVersion = (client: SQLiteDatabase) => {
+  const lastAppliedAt = getLastAppliedAt(client);
+  if (lastAppliedAt === null) return 0;
+  return migrations.journal.entries.filter(
+    (entry) => entry.when <= lastAppliedAt
+  ).length;
+};
+
+export const getPendingMigrations = (client: SQLiteDatabase) => {
+  const lastAppliedAt = getLastAppliedAt(client);
+  return migrations.journal.entries.filter(
+    (entry) => lastAppliedAt === null || entry.when > lastAppliedAt
+  );
+};
+
+export const getMigrationHistory = (
+  client: SQLiteDatabase
+): MigrationRecord[] => {
+  createHistoryTable(client);
+  return client
+    .getAllSync<MigrationHistoryRow>(
+      'SELECT * FROM migration_history ORDER BY started_at DESC'
+    )
+    .map((row) => ({
+      id: row.id,
+      fromMigration: row.from_migration,
+      toMigration: row.to_migration,
+      status: row.status,
+      backup: row.backup,
+      error: row.error,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+    }));
+};
+
+export const runMigrations = async <TSchema extends Record<string, unknown>>(
+  database: ExpoSQLiteDatabase<TSchema> & { $client: SQLiteDatabase }
+) => {
+  const client = database.$client;
+  createHistoryTable(client);
+
+  const lastAppliedAt = getLastAppliedAt(client);
+  const pending = getPendingMigrations(client);
+  if (pending.length === 0) {
+    console.log('✅ Database schema is up to date');
+    return;
+  }
+
+  const { entries } = migrations.journal;
+  const record: MigrationRecord = {
+    id: createId(),
+    fromMigration:
+      entries.find((entry) => entry.when === lastAppliedAt)?.tag ?? null,
+    toMigration: pending[pending.length - 1].tag,
+    status: 'applied',
+    backup: null,
+    error: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+  };
+
+  // A new database has nothing worth keeping
+  if (lastAppliedAt !== null) {
+    console.log('💾 Backing up database before migrating...');
+    withBackupFile((backup) => copyDatabase(client, backup));
+    record.backup = PRE_MIGRATION_BACKUP;
+  }
+
+  console.log(
+    '🔄 Applying migrations:',
+    pending.map((entry) => entry.tag)
+  );
+  try {
+    await migrate(database, migrations);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    record.error = describeError(error);
+    record.status = 'failed';
+
+    if (record.backup) {
+      try {
+        withBackupFile((backup) => copyDatabase(backup, client));
+        record.status = 'restored';
+        console.log('↩️ Database restored from the pre-migration backup');
+      } catch (restoreError) {
+        console.error('❌ Could not restore the backup:', restoreError);
+        throw new Error(
+          `Migration to ${record.toMigration} failed and the backup ` +
+            `${PRE_MIGRATION_BACKUP} could not be restored: ${record.error}`
+        );
+      }
+    }
+
+    record.finishedAt = new Date().toISOString();
+    recordRun(client, record);
+    throw new Error(
+      `Migration to ${record.toMigration} failed: ${record.error}`
+    );
+  }
+
+  record.finishedAt = new Date().toISOString();
+  recordRun(client, record);
+  console.log('✅ Migrations applied');
+};
@@ -0,0 +1,6 @@
+CREATE TABLE `monthly_rollovers` (
+	`month` text PRIMARY KEY NOT NULL,
+	`rolled_at` text NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX `budget_categories_name_unique`;
\ No newline at end of file
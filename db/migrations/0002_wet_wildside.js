@@ -0,0 +1,31 @@
+export default `CREATE TABLE \`recurring_expenses\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`name\` text NOT NULL,
+	\`amount\` real NOT NULL,
+	\`category\` text NOT NULL,
+	\`frequency\` text NOT NULL,
+	\`day_of_month\` integer,
+	\`start_date\` text NOT NULL,
+	\`end_date\` text,
+	\`is_active\` integer DEFAULT true,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+ALTER TABLE \`expenses\` ADD \`template_id\` text REFERENCES recurring_expenses(id) ON DELETE set null;--> statement-breakpoint
+INSERT INTO \`recurring_expenses\` (\`id\`, \`name\`, \`amount\`, \`category\`, \`frequency\`, \`day_of_month\`, \`start_date\`, \`is_active\`, \`created_at\`, \`updated_at\`)
+SELECT \`id\`, \`name\`, \`amount\`, \`category\`, 'monthly', COALESCE(\`charge_day\`, CAST(strftime('%d', \`due_date\`) AS integer)), (
+	SELECT MIN(\`first\`.\`month\`) FROM \`expenses\` AS \`first\`
+	WHERE \`first\`.\`is_recurring\` = 1 AND \`first\`.\`name\` = \`latest\`.\`name\` AND \`first\`.\`category\` = \`latest\`.\`category\`
+) || '-01', true, \`created_at\`, \`updated_at\`
+FROM \`expenses\` AS \`latest\` WHERE \`is_recurring\` = 1 AND NOT EXISTS (
+	SELECT 1 FROM \`expenses\` AS \`later\`
+	WHERE \`later\`.\`is_recurring\` = 1 AND \`later\`.\`name\` = \`latest\`.\`name\` AND \`later\`.\`category\` = \`latest\`.\`category\`
+	AND (\`later\`.\`month\` > \`latest\`.\`month\` OR (\`later\`.\`month\` = \`latest\`.\`month\` AND \`later\`.\`id\` > \`latest\`.\`id\`))
+);--> statement-breakpoint
+UPDATE \`expenses\` SET \`template_id\` = (
+	SELECT \`recurring_expenses\`.\`id\` FROM \`recurring_expenses\`
+	WHERE \`recurring_expenses\`.\`name\` = \`expenses\`.\`name\` AND \`recurring_expenses\`.\`category\` = \`expenses\`.\`category\`
+	LIMIT 1
+) WHERE \`is_recurring\` = 1 OR \`charge_day\` IS NOT NULL;--> statement-breakpoint
+UPDATE \`expenses\` SET \`is_recurring\` = true WHERE \`template_id\` IS NOT NULL;`
@@ -0,0 +1,12 @@
+export default `CREATE TABLE \`exchange_rates\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`from_currency\` text NOT NULL,
+	\`to_currency\` text NOT NULL,
+	\`rate\` real NOT NULL,
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+ALTER TABLE \`expenses\` ADD \`currency\` text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE \`financial_settings\` ADD \`base_currency\` text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE \`grocery_lists\` ADD \`currency\` text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE \`recurring_expenses\` ADD \`currency\` text DEFAULT 'USD' NOT NULL;`
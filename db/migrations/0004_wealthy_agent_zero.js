@@ -0,0 +1,122 @@
+export default `PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE \`__new_budget_categories\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`name\` text NOT NULL,
+	\`limit\` integer NOT NULL,
+	\`spent\` integer DEFAULT 0,
+	\`month\` text NOT NULL,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+INSERT INTO \`__new_budget_categories\`("id", "name", "limit", "spent", "month", "created_at", "updated_at") SELECT "id", "name", CAST(ROUND("limit" * 100) AS INTEGER), CAST(ROUND("spent" * 100) AS INTEGER), "month", "created_at", "updated_at" FROM \`budget_categories\`;--> statement-breakpoint
+DROP TABLE \`budget_categories\`;--> statement-breakpoint
+ALTER TABLE \`__new_budget_categories\` RENAME TO \`budget_categories\`;--> statement-breakpoint
+CREATE TABLE \`__new_expenses\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`name\` text NOT NULL,
+	\`amount\` integer NOT NULL,
+	\`currency\` text DEFAULT 'USD' NOT NULL,
+	\`category\` text NOT NULL,
+	\`due_date\` text NOT NULL,
+	\`month\` text NOT NULL,
+	\`charge_day\` integer,
+	\`is_paid\` integer DEFAULT false,
+	\`is_recurring\` integer DEFAULT false,
+	\`template_id\` text,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (\`template_id\`) REFERENCES \`recurring_expenses\`(\`id\`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+INSERT INTO \`__new_expenses\`("id", "name", "amount", "currency", "category", "due_date", "month", "charge_day", "is_paid", "is_recurring", "template_id", "created_at", "updated_at") SELECT "id", "name", CAST(ROUND("amount" * 100) AS INTEGER), "currency", "category", "due_date", "month", "charge_day", "is_paid", "is_recurring", "template_id", "created_at", "updated_at" FROM \`expenses\`;--> statement-breakpoint
+DROP TABLE \`expenses\`;--> statement-breakpoint
+ALTER TABLE \`__new_expenses\` RENAME TO \`expenses\`;--> statement-breakpoint
+CREATE TABLE \`__new_financial_settings\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`monthly_income\` integer NOT NULL,
+	\`savings_goal\` integer NOT NULL,
+	\`current_savings\` integer DEFAULT 0,
+	\`base_currency\` text DEFAULT 'USD' NOT NULL,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+INSERT INTO \`__new_financial_settings\`("id", "monthly_income", "savings_goal", "current_savings", "base_currency", "created_at", "updated_at") SELECT "id", CAST(ROUND("monthly_income" * 100) AS INTEGER), CAST(ROUND("savings_goal" * 100) AS INTEGER), CAST(ROUND("current_savings" * 100) AS INTEGER), "base_currency", "created_at", "updated_at" FROM \`financial_settings\`;--> statement-breakpoint
+DROP TABLE \`financial_settings\`;--> statement-breakpoint
+ALTER TABLE \`__new_financial_settings\` RENAME TO \`financial_settings\`;--> statement-breakpoint
+CREATE TABLE \`__new_grocery_items\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`list_id\` text,
+	\`name\` text NOT NULL,
+	\`quantity\` integer NOT NULL,
+	\`price_per_unit\` integer NOT NULL,
+	\`total_cost\` integer NOT NULL,
+	\`is_purchased\` integer DEFAULT false,
+	\`store_location\` text,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (\`list_id\`) REFERENCES \`grocery_lists\`(\`id\`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO \`__new_grocery_items\`("id", "list_id", "name", "quantity", "price_per_unit", "total_cost", "is_purchased", "store_location", "created_at", "updated_at") SELECT "id", "list_id", "name", "quantity", CAST(ROUND("price_per_unit" * 100) AS INTEGER), CAST(ROUND("total_cost" * 100) AS INTEGER), "is_purchased", "store_location", "created_at", "updated_at" FROM \`grocery_items\`;--> statement-breakpoint
+DROP TABLE \`grocery_items\`;--> statement-breakpoint
+ALTER TABLE \`__new_grocery_items\` RENAME TO \`grocery_items\`;--> statement-breakpoint
+CREATE TABLE \`__new_grocery_lists\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`name\` text NOT NULL,
+	\`total_cost\` integer DEFAULT 0,
+	\`currency\` text DEFAULT 'USD' NOT NULL,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+INSERT INTO \`__new_grocery_lists\`("id", "name", "total_cost", "currency", "created_at", "updated_at") SELECT "id", "name", CAST(ROUND("total_cost" * 100) AS INTEGER), "currency", "created_at", "updated_at" FROM \`grocery_lists\`;--> statement-breakpoint
+DROP TABLE \`grocery_lists\`;--> statement-breakpoint
+ALTER TABLE \`__new_grocery_lists\` RENAME TO \`grocery_lists\`;--> statement-breakpoint
+CREATE TABLE \`__new_monthly_savings\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`month\` text NOT NULL,
+	\`income\` integer NOT NULL,
+	\`total_expenses\` integer DEFAULT 0,
+	\`total_saved\` integer DEFAULT 0,
+	\`savings_goal\` integer NOT NULL,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+INSERT INTO \`__new_monthly_savings\`("id", "month", "income", "total_expenses", "total_saved", "savings_goal", "created_at", "updated_at") SELECT "id", "month", CAST(ROUND("income" * 100) AS INTEGER), CAST(ROUND("total_expenses" * 100) AS INTEGER), CAST(ROUND("total_saved" * 100) AS INTEGER), CAST(ROUND("savings_goal" * 100) AS INTEGER), "created_at", "updated_at" FROM \`monthly_savings\`;--> statement-breakpoint
+DROP TABLE \`monthly_savings\`;--> statement-breakpoint
+ALTER TABLE \`__new_monthly_savings\` RENAME TO \`monthly_savings\`;--> statement-breakpoint
+CREATE UNIQUE INDEX \`monthly_savings_month_unique\` ON \`monthly_savings\` (\`month\`);--> statement-breakpoint
+CREATE TABLE \`__new_price_history\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`item_id\` text,
+	\`price\` integer NOT NULL,
+	\`date\` text NOT NULL,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (\`item_id\`) REFERENCES \`grocery_items\`(\`id\`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO \`__new_price_history\`("id", "item_id", "price", "date", "created_at") SELECT "id", "item_id", CAST(ROUND("price" * 100) AS INTEGER), "date", "created_at" FROM \`price_history\`;--> statement-breakpoint
+DROP TABLE \`price_history\`;--> statement-breakpoint
+ALTER TABLE \`__new_price_history\` RENAME TO \`price_history\`;--> statement-breakpoint
+CREATE TABLE \`__new_recurring_expenses\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`name\` text NOT NULL,
+	\`amount\` integer NOT NULL,
+	\`currency\` text DEFAULT 'USD' NOT NULL,
+	\`category\` text NOT NULL,
+	\`frequency\` text NOT NULL,
+	\`day_of_month\` integer,
+	\`start_date\` text NOT NULL,
+	\`end_date\` text,
+	\`is_active\` integer DEFAULT true,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+INSERT INTO \`__new_recurring_expenses\`("id", "name", "amount", "currency", "category", "frequency", "day_of_month", "start_date", "end_date", "is_active", "created_at", "updated_at") SELECT "id", "name", CAST(ROUND("amount" * 100) AS INTEGER), "currency", "category", "frequency", "day_of_month", "start_date", "end_date", "is_active", "created_at", "updated_at" FROM \`recurring_expenses\`;--> statement-breakpoint
+DROP TABLE \`recurring_expenses\`;--> statement-breakpoint
+ALTER TABLE \`__new_recurring_expenses\` RENAME TO \`recurring_expenses\`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;`
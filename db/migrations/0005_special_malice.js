@@ -0,0 +1,13 @@
+export default `CREATE TABLE \`categorization_rules\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`match_type\` text DEFAULT 'contains' NOT NULL,
+	\`pattern\` text,
+	\`min_amount\` integer,
+	\`max_amount\` integer,
+	\`category\` text NOT NULL,
+	\`is_recurring\` integer,
+	\`priority\` integer DEFAULT 0 NOT NULL,
+	\`is_active\` integer DEFAULT true,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);`
@@ -0,0 +1,32 @@
+CREATE TABLE `budget_allocations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`category_id` text NOT NULL,
+	`month` text NOT NULL,
+	`limit` integer NOT NULL,
+	`spent` integer DEFAULT 0,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (`category_id`) REFERENCES `categories`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `budget_allocations_category_month_unique` ON `budget_allocations` (`category_id`,`month`);--> statement-breakpoint
+CREATE TABLE `categories` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `categories_name_unique` ON `categories` (`name`);--> statement-breakpoint
+INSERT INTO `categories` (`id`, `name`)
+SELECT lower(hex(randomblob(8))), `name` FROM (
+	SELECT `name` FROM `budget_categories`
+	UNION SELECT `category` FROM `expenses`
+	UNION SELECT `category` FROM `recurring_expenses`
+	UNION SELECT `category` FROM `categorization_rules`
+	UNION VALUES ('Housing'), ('Utilities'), ('Groceries'), ('Transportation'), ('Entertainment'), ('Healthcare'), ('Other')
+);--> statement-breakpoint
+INSERT OR IGNORE INTO `budget_allocations` (`id`, `category_id`, `month`, `limit`, `spent`, `created_at`, `updated_at`)
+SELECT `budget_categories`.`id`, `categories`.`id`, `budget_categories`.`month`, `budget_categories`.`limit`, `budget_categories`.`spent`, `budget_categories`.`created_at`, `budget_categories`.`updated_at`
+FROM `budget_categories` JOIN `categories` ON `categories`.`name` = `budget_categories`.`name`;--> statement-breakpoint
+DROP TABLE `budget_categories`;
\ No newline at end of file
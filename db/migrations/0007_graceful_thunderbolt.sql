@@ -0,0 +1,11 @@
+CREATE TABLE `members` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`is_active` integer DEFAULT true,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+ALTER TABLE `expenses` ADD `paid_by` text REFERENCES members(id);--> statement-breakpoint
+ALTER TABLE `grocery_lists` ADD `paid_by` text REFERENCES members(id);--> statement-breakpoint
+ALTER TABLE `recurring_expenses` ADD `paid_by` text REFERENCES members(id);
\ No newline at end of file
@@ -0,0 +1,27 @@
+export default `CREATE TABLE \`expense_splits\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`expense_id\` text NOT NULL,
+	\`member_id\` text NOT NULL,
+	\`value\` real,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (\`expense_id\`) REFERENCES \`expenses\`(\`id\`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (\`member_id\`) REFERENCES \`members\`(\`id\`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX \`expense_splits_expense_member_unique\` ON \`expense_splits\` (\`expense_id\`,\`member_id\`);--> statement-breakpoint
+CREATE TABLE \`settlements\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`from_member_id\` text NOT NULL,
+	\`to_member_id\` text NOT NULL,
+	\`amount\` integer NOT NULL,
+	\`currency\` text DEFAULT 'USD' NOT NULL,
+	\`date\` text NOT NULL,
+	\`note\` text,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (\`from_member_id\`) REFERENCES \`members\`(\`id\`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (\`to_member_id\`) REFERENCES \`members\`(\`id\`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE \`expenses\` ADD \`split_type\` text;`
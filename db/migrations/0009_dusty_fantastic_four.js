@@ -0,0 +1,31 @@
+export default `CREATE TABLE \`sync_device\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`name\` text NOT NULL,
+	\`code\` text NOT NULL,
+	\`is_enabled\` integer DEFAULT false,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+CREATE TABLE \`sync_peers\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`name\` text NOT NULL,
+	\`address\` text,
+	\`code\` text NOT NULL,
+	\`received_seq\` integer DEFAULT 0 NOT NULL,
+	\`sent_seq\` integer DEFAULT 0 NOT NULL,
+	\`last_synced_at\` text,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+CREATE TABLE \`sync_records\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`table_name\` text NOT NULL,
+	\`row_id\` text NOT NULL,
+	\`fields\` text NOT NULL,
+	\`deleted_at\` text,
+	\`seq\` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX \`sync_records_seq_idx\` ON \`sync_records\` (\`seq\`);`
@@ -0,0 +1,14 @@
+export default `CREATE TABLE \`audit_log\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`entity\` text NOT NULL,
+	\`entity_id\` text NOT NULL,
+	\`action\` text NOT NULL,
+	\`field\` text,
+	\`old_value\` text,
+	\`new_value\` text,
+	\`member_id\` text,
+	\`changed_at\` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX \`audit_log_entity_idx\` ON \`audit_log\` (\`entity\`,\`entity_id\`);--> statement-breakpoint
+ALTER TABLE \`sync_device\` ADD \`member_id\` text;`
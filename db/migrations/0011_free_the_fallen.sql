@@ -0,0 +1,3 @@
+ALTER TABLE `budget_allocations` ADD `deleted_at` text;--> statement-breakpoint
+ALTER TABLE `expenses` ADD `deleted_at` text;--> statement-breakpoint
+ALTER TABLE `grocery_lists` ADD `deleted_at` text;
\ No newline at end of file
@@ -0,0 +1 @@
+export default `ALTER TABLE \`categories\` ADD \`reminder_days\` integer DEFAULT 3;`
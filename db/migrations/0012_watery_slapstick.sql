@@ -0,0 +1 @@
+ALTER TABLE `categories` ADD `reminder_days` integer DEFAULT 3;
\ No newline at end of file
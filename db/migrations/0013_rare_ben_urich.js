@@ -0,0 +1,2 @@
+export default `ALTER TABLE \`expenses\` ADD \`snoozed_until\` text;--> statement-breakpoint
+CREATE INDEX \`expenses_due_date_idx\` ON \`expenses\` (\`due_date\`);`
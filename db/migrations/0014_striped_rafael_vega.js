@@ -0,0 +1,13 @@
+export default `CREATE TABLE \`payments\` (
+	\`id\` text PRIMARY KEY NOT NULL,
+	\`expense_id\` text NOT NULL,
+	\`amount\` integer NOT NULL,
+	\`date\` text NOT NULL,
+	\`method\` text,
+	\`note\` text,
+	\`created_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	\`updated_at\` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (\`expense_id\`) REFERENCES \`expenses\`(\`id\`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX \`payments_expense_idx\` ON \`payments\` (\`expense_id\`);`
@@ -0,0 +1,40 @@
+CREATE TABLE `account_transfers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`from_account_id` text NOT NULL,
+	`to_account_id` text NOT NULL,
+	`amount` integer NOT NULL,
+	`to_amount` integer,
+	`date` text NOT NULL,
+	`note` text,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (`from_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`to_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `accounts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`currency` text DEFAULT 'USD' NOT NULL,
+	`opening_balance` integer DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+CREATE TABLE `incomes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`amount` integer NOT NULL,
+	`currency` text DEFAULT 'USD' NOT NULL,
+	`date` text NOT NULL,
+	`account_id` text,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `incomes_date_idx` ON `incomes` (`date`);--> statement-breakpoint
+ALTER TABLE `expenses` ADD `account_id` text REFERENCES accounts(id);--> statement-breakpoint
+ALTER TABLE `financial_settings` ADD `savings_account_id` text REFERENCES accounts(id);--> statement-breakpoint
+ALTER TABLE `recurring_expenses` ADD `account_id` text REFERENCES accounts(id);
\ No newline at end of file
@@ -2,10 +2,40 @@
 
 import journal from './meta/_journal.json'
 import m0000 from './0000_youthful_kronos.js'
+import m0001 from './0001_rapid_sumo.js'
+import m0002 from './0002_wet_wildside.js'
+import m0003 from './0003_smiling_fenris.js'
+import m0004 from './0004_wealthy_agent_zero.js'
+import m0005 from './0005_special_malice.js'
+import m0006 from './0006_rare_lila_cheney.js'
+import m0007 from './0007_graceful_thunderbolt.js'
+import m0008 from './0008_natural_impossible_man.js'
+import m0009 from './0009_dusty_fantastic_four.js'
+import m0010 from './0010_simple_ares.js'
+import m0011 from './0011_free_the_fallen.js'
+import m0012 from './0012_watery_slapstick.js'
+import m0013 from './0013_rare_ben_urich.js'
+import m0014 from './0014_striped_rafael_vega.js'
+import m0015 from './0015_nasty_machine_man.js'
 
 export default {
   journal,
   migrations: {
-    m0000
+    m0000,
+    m0001,
+    m0002,
+    m0003,
+    m0004,
+    m0005,
+    m0006,
+    m0007,
+    m0008,
+    m0009,
+    m0010,
+    m0011,
+    m0012,
+    m0013,
+    m0014,
+    m0015
   }
 }
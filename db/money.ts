@@ -0,0 +1,107 @@
+// Money on integer minor units (cents). Every money column and every amount
+// passed between services and screens is a whole number of cents, so sums
+// and differences are exact. Convert at the edges only: parse user input with
+// `parseMoney`, display with `formatMoney`.
+export type Cents = number;
+
+const CENTS_PER_UNIT = 100;
+
+// Rounds half away from zero, so -0.5 and 0.5 cents behave symmetrically.
+// The small nudge absorbs float noise such as 1.005 * 100 = 100.49999...
+const roundHalfAway = (value: number) =>
+  Math.sign(value) * Math.round(Math.abs(value) + 1e-9);
+
+export const toCents = (amount: number): Cents =>
+  roundHalfAway(amount * CENTS_PER_UNIT);
+
+export const fromCents = (cents: Cents) => cents / CENTS_PER_UNIT;
+
+// Commas group thousands unless they are the decimal separator, as in
+// "12,50" or "1.234,56"
+const normalizeSeparators = (text: string) => {
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  const decimalComma =
+    lastComma > lastDot && (lastDot !== -1 || /,\d{1,2}\)?$/.test(text));
+  return decimalComma
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+};
+
+// Parses typed or imported text such as "12", "12.5", "-1,234.56", "12,50"
+// or "$ 9.99" into cents. Works on the digits, not on a float, so "0.29" is
+// exactly 29. Returns null when the text is not an amount.
+export const parseMoney = (text: string): Cents | null => {
+  const cleaned = normalizeSeparators(text.replace(/[^\d.,()-]/g, ''));
+  const negative = cleaned.startsWith('-') || /^\(.*\)$/.test(cleaned);
+  const match = cleaned.replace(/[()-]/g, '').match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const units = Number(match[1] || '0');
+  const fraction = (match[2] || '').padEnd(3, '0');
+  // Third decimal rounds the cents half up
+  const cents =
+    units * CENTS_PER_UNIT +
+    Number(fraction.slice(0, 2)) +
+    (Number(fraction[2]) >= 5 ? 1 : 0);
+  return negative && cents !== 0 ? -cents : cents;
+};
+
+// Text for an editable input, e.g. 1250 -> "12.50"
+export const centsToInput = (cents: Cents) => fromCents(cents).toFixed(2);
+
+export const addMoney = (...amounts: Cents[]): Cents =>
+  amounts.reduce((total, amount) => total + amount, 0);
+
+export const subtractMoney = (amount: Cents, ...amounts: Cents[]): Cents =>
+  amount - addMoney(...amounts);
+
+export const sumMoney = (amounts: Cents[]): Cents => addMoney(...amounts);
+
+// Scales by a quantity, rate or percentage and rounds back to whole cents
+export const multiplyMoney = (amount: Cents, factor: number): Cents =>
+  roundHalfAway(amount * factor);
+
+// Splits an amount by ratios without losing a cent: every share is rounded
+// down and the leftover cents go to the shares with the largest remainders.
+// allocateMoney(1000, [1, 1, 1]) -> [334, 333, 333]
+export const allocateMoney = (amount: Cents, ratios: number[]): Cents[] => {
+  const totalRatio = ratios.reduce((total, ratio) => total + ratio, 0);
+  if (ratios.length === 0 || totalRatio <= 0) {
+    throw new Error('Cannot allocate money without positive ratios');
+  }
+
+  const sign = amount < 0 ? -1 : 1;
+  const absolute = Math.abs(amount);
+  const exact = ratios.map((ratio) => (absolute * ratio) / totalRatio);
+  const shares = exact.map(Math.floor);
+
+  let leftover = absolute - shares.reduce((total, share) => total + share, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    shares[index] += 1;
+    leftover -= 1;
+  }
+  return shares.map((share) => share * sign);
+};
+
+export const formatMoney = (
+  cents: Cents,
+  currency = 'USD',
+  options: { maximumFractionDigits?: number } = {}
+) => {
+  const amount = fromCents(cents);
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: options.maximumFractionDigits,
+    }).format(amount);
+  } catch {
+    // Unknown code or no Intl currency support on this engine
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
@@ -0,0 +1,77 @@
+// Bill reminders delivered as local notifications through
+// expo-notifications. Browsers cannot schedule notifications, so the web app
+// has no notifier and sends no reminders.
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import type { Notifier, Reminder } from './reminders';
+
+const CHANNEL_ID = 'bill-reminders';
+
+let permission: Promise<boolean> | null = null;
+
+// Sets up the handler and the Android channel, and asks for permission the
+// first time a reminder is scheduled. Until the next start, a refusal means
+// reminders are skipped.
+const prepare = () => {
+  permission ??= (async () => {
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+      }),
+    });
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'Bill reminders',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  })();
+  return permission;
+};
+
+export const localNotifier: Notifier = {
+  async getScheduled() {
+    const requests = await Notifications.getAllScheduledNotificationsAsync();
+    return requests
+      .filter((request) => request.content.data?.expenseId)
+      .map((request) => ({
+        id: request.identifier,
+        expenseId: String(request.content.data.expenseId),
+        title: request.content.title ?? '',
+        body: request.content.body ?? '',
+        date: new Date(String(request.content.data.date)),
+      }));
+  },
+
+  async schedule(reminder: Reminder) {
+    if (!(await prepare())) return;
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        // Read back by getScheduled, to tell whether it is still right
+        data: {
+          expenseId: reminder.expenseId,
+          date: reminder.date.toISOString(),
+        },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.date,
+        channelId: CHANNEL_ID,
+      },
+    });
+  },
+
+  async cancel(id: string) {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  },
+};
@@ -0,0 +1,58 @@
+// Payment status of expenses.
+//
+// An expense is paid through the payments recorded against it, in its own
+// currency. Its status follows from how much they add up to. `isPaid` stays
+// on the expense as the stored answer to "is it settled?", so the reads that
+// only need that answer work as before: the services set it whenever a
+// payment changes. An expense marked paid without any payment counts as paid
+// in full.
+import type { Expense, Payment, PaymentMethod } from './schema';
+import { subtractMoney, sumMoney, type Cents } from './money';
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'overpaid';
+
+type PaidExpense = Pick<Expense, 'amount' | 'isPaid'>;
+type PaymentAmount = Pick<Payment, 'amount'>;
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bankTransfer: 'Bank transfer',
+  check: 'Check',
+  other: 'Other',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  partial: 'Partly paid',
+  paid: 'Paid',
+  overpaid: 'Overpaid',
+};
+
+export const getAmountPaid = (
+  expense: PaidExpense,
+  payments: PaymentAmount[]
+): Cents => {
+  if (payments.length === 0) return expense.isPaid ? expense.amount : 0;
+  return sumMoney(payments.map((payment) => payment.amount));
+};
+
+// Negative when overpaid
+export const getAmountDue = (expense: PaidExpense, payments: PaymentAmount[]) =>
+  subtractMoney(expense.amount, getAmountPaid(expense, payments));
+
+export const getPaymentStatus = (
+  expense: PaidExpense,
+  payments: PaymentAmount[]
+): PaymentStatus => {
+  const paid = getAmountPaid(expense, payments);
+  if (paid > expense.amount) return 'overpaid';
+  if (paid === expense.amount && (paid > 0 || expense.isPaid)) return 'paid';
+  return paid > 0 ? 'partial' : 'unpaid';
+};
+
+// What `isPaid` becomes after the payments change: settled once they cover
+// the amount
+export const coversAmount = (amount: Cents, payments: PaymentAmount[]) =>
+  payments.length > 0 &&
+  sumMoney(payments.map((payment) => payment.amount)) >= amount;
@@ -0,0 +1,153 @@
+// Schedule math for recurring expense templates. Pure functions on
+// YYYY-MM-DD / YYYY-MM strings so both storage backends share them.
+import type {
+  Expense,
+  NewExpense,
+  RecurringExpense,
+  RecurrenceFrequency,
+} from './schema';
+
+type Schedule = Pick<
+  RecurringExpense,
+  'frequency' | 'dayOfMonth' | 'startDate' | 'endDate'
+>;
+
+const MONTH_STEPS = { monthly: 1, quarterly: 3, yearly: 12 } as const;
+const DAY_STEPS = { weekly: 7, biweekly: 14 } as const;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toDateString = (year: number, month: number, day: number) =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+};
+
+export const getDaysInMonth = (year: number, month: number) =>
+  new Date(year, month, 0).getDate();
+
+// Day 31 becomes the 30th, 29th or 28th in shorter months
+export const clampDay = (year: number, month: number, day: number) =>
+  Math.min(Math.max(day, 1), getDaysInMonth(year, month));
+
+const isWithinSchedule = (date: string, schedule: Schedule) =>
+  date >= schedule.startDate && (!schedule.endDate || date <= schedule.endDate);
+
+// UTC day number, so stepping by 7/14 days is not skewed by DST changes
+const toDayNumber = (date: string) => {
+  const { year, month, day } = parseDate(date);
+  return Math.floor(Date.UTC(year, month - 1, day) / 86400000);
+};
+
+const fromDayNumber = (dayNumber: number) => {
+  const date = new Date(dayNumber * 86400000);
+  return toDateString(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate()
+  );
+};
+
+// Due dates (YYYY-MM-DD) the schedule produces within a month (YYYY-MM)
+export const getOccurrencesInMonth = (schedule: Schedule, month: string) => {
+  const [year, monthNum] = month.split('-').map(Number);
+  const start = parseDate(schedule.startDate);
+
+  if (schedule.frequency === 'weekly' || schedule.frequency === 'biweekly') {
+    const step = DAY_STEPS[schedule.frequency];
+    const startDay = toDayNumber(schedule.startDate);
+    const firstOfMonth = toDayNumber(toDateString(year, monthNum, 1));
+    const lastOfMonth = toDayNumber(
+      toDateString(year, monthNum, getDaysInMonth(year, monthNum))
+    );
+
+    const dates: string[] = [];
+    const offset = Math.max(0, Math.ceil((firstOfMonth - startDay) / step));
+    for (let day = startDay + offset * step; day <= lastOfMonth; day += step) {
+      const date = fromDayNumber(day);
+      if (isWithinSchedule(date, schedule)) dates.push(date);
+    }
+    return dates;
+  }
+
+  const monthsSinceStart = (year - start.year) * 12 + (monthNum - start.month);
+  if (
+    monthsSinceStart < 0 ||
+    monthsSinceStart % MONTH_STEPS[schedule.frequency] !== 0
+  ) {
+    return [];
+  }
+
+  const day = clampDay(year, monthNum, schedule.dayOfMonth ?? start.day);
+  const date = toDateString(year, monthNum, day);
+  return isWithinSchedule(date, schedule) ? [date] : [];
+};
+
+export const getMonthOfDate = (date: string) => date.slice(0, 7);
+
+const isMonthBased = (frequency: RecurrenceFrequency) =>
+  frequency in MONTH_STEPS;
+
+// Due dates in the month the template still has no expense for. Month-based
+// schedules produce a single expense per month, so any existing instance in
+// the month counts, even if its due date was edited.
+export const getMissingOccurrences = (
+  template: RecurringExpense,
+  month: string,
+  monthExpenses: Expense[]
+) => {
+  const instances = monthExpenses.filter(
+    (expense) => expense.templateId === template.id
+  );
+  const dates = getOccurrencesInMonth(template, month);
+
+  if (isMonthBased(template.frequency)) {
+    return instances.length > 0 ? [] : dates;
+  }
+  return dates.filter(
+    (date) => !instances.some((expense) => expense.dueDate === date)
+  );
+};
+
+export const buildInstance = (
+  template: RecurringExpense,
+  dueDate: string
+): Omit<NewExpense, 'id'> => ({
+  name: template.name,
+  amount: template.amount,
+  currency: template.currency,
+  category: template.category,
+  dueDate,
+  month: getMonthOfDate(dueDate),
+  chargeDay: parseDate(dueDate).day,
+  isPaid: false,
+  isRecurring: true,
+  templateId: template.id,
+  paidBy: template.paidBy,
+  accountId: template.accountId ?? null,
+});
+
+// Changes to copy onto an unpaid instance after its template was edited
+export const getInstanceUpdates = (
+  template: RecurringExpense,
+  instance: Expense
+): Partial<NewExpense> => {
+  const updates: Partial<NewExpense> = {
+    name: template.name,
+    amount: template.amount,
+    currency: template.currency,
+    category: template.category,
+    paidBy: template.paidBy,
+    accountId: template.accountId ?? null,
+  };
+
+  if (isMonthBased(template.frequency) && template.dayOfMonth) {
+    const [year, month] = instance.month.split('-').map(Number);
+    const day = clampDay(year, month, template.dayOfMonth);
+    updates.dueDate = toDateString(year, month, day);
+    updates.chargeDay = day;
+  }
+  return updates;
+};
@@ -0,0 +1,145 @@
+// Bill reminders.
+//
+// An unpaid expense gets a local notification a few days before its due
+// date, as many as its category's `reminderDays` says. `syncReminders`
+// compares the reminders the expenses call for with the ones already
+// scheduled and only cancels or schedules the difference, so it can run after
+// every change: an expense created, edited, deleted, marked paid or synced in
+// from another device. The clock and the notifier are passed in, so the same
+// logic runs against fakes.
+import type { Category, Expense } from './schema';
+import { formatMoney } from './money';
+import { getBillDate, isSnoozed } from './bills';
+
+// Lead time of new categories, and of expenses whose category has no record
+export const DEFAULT_REMINDER_DAYS = 3;
+
+// Reminders go out in the morning of their day, local time
+const REMINDER_HOUR = 9;
+
+// Scheduled notifications of any other kind are left alone
+const REMINDER_PREFIX = 'bill-';
+
+export interface Reminder {
+  id: string; // One per expense, see getReminderId
+  expenseId: string;
+  title: string;
+  body: string;
+  date: Date;
+}
+
+export interface Notifier {
+  // Reminders that have not gone out yet
+  getScheduled(): Promise<Reminder[]>;
+  // Replaces the scheduled reminder with the same id
+  schedule(reminder: Reminder): Promise<void>;
+  cancel(id: string): Promise<void>;
+}
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+export interface ReminderChanges {
+  scheduled: number;
+  cancelled: number;
+}
+
+export const getReminderId = (expenseId: string) =>
+  `${REMINDER_PREFIX}${expenseId}`;
+
+// Matched by name, case-insensitively, like the budgets
+export const getReminderDays = (
+  expense: Pick<Expense, 'category'>,
+  categories: Pick<Category, 'name' | 'reminderDays'>[]
+) => {
+  const name = expense.category.trim().toLowerCase();
+  const category = categories.find(
+    (other) => other.name.toLowerCase() === name
+  );
+  return category ? category.reminderDays : DEFAULT_REMINDER_DAYS;
+};
+
+const describeDue = (days: number) => {
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+};
+
+// The reminder an expense calls for at `now`, or null. Paid and trashed
+// expenses get none, nor do categories with reminders off; a reminder whose
+// time has passed is not sent late. A snoozed expense is reminded of on the
+// day it was snoozed to.
+export const planReminder = (
+  expense: Expense,
+  reminderDays: number | null,
+  now: Date
+): Reminder | null => {
+  if (expense.isPaid || expense.deletedAt || reminderDays === null) {
+    return null;
+  }
+
+  const snoozed = isSnoozed(expense);
+  const leadDays = snoozed ? 0 : reminderDays;
+  const [year, month, day] = getBillDate(expense).split('-').map(Number);
+  const date = new Date(year, month - 1, day - leadDays, REMINDER_HOUR);
+  if (Number.isNaN(date.getTime()) || date <= now) return null;
+
+  return {
+    id: getReminderId(expense.id),
+    expenseId: expense.id,
+    title: snoozed
+      ? `${expense.name} is still unpaid`
+      : `${expense.name} is due ${describeDue(reminderDays)}`,
+    body: `${formatMoney(expense.amount, expense.currency)} due on ${
+      expense.dueDate
+    }`,
+    date,
+  };
+};
+
+export const planReminders = (
+  expenses: Expense[],
+  categories: Pick<Category, 'name' | 'reminderDays'>[],
+  now: Date
+) =>
+  expenses
+    .map((expense) =>
+      planReminder(expense, getReminderDays(expense, categories), now)
+    )
+    .filter((reminder): reminder is Reminder => reminder !== null);
+
+const sameReminder = (a: Reminder, b: Reminder) =>
+  a.title === b.title &&
+  a.body === b.body &&
+  a.date.getTime() === b.date.getTime();
+
+// Brings the scheduled reminders in line with `expenses`, which should be
+// every expense, so that the reminders of the others are cancelled
+export const syncReminders = async (
+  notifier: Notifier,
+  expenses: Expense[],
+  categories: Pick<Category, 'name' | 'reminderDays'>[],
+  clock: Clock = systemClock
+): Promise<ReminderChanges> => {
+  const wanted = planReminders(expenses, categories, clock.now());
+  const scheduled = (await notifier.getScheduled()).filter((reminder) =>
+    reminder.id.startsWith(REMINDER_PREFIX)
+  );
+  const changes = { scheduled: 0, cancelled: 0 };
+
+  for (const reminder of scheduled) {
+    if (wanted.some((other) => other.id === reminder.id)) continue;
+    await notifier.cancel(reminder.id);
+    changes.cancelled++;
+  }
+  for (const reminder of wanted) {
+    const existing = scheduled.find((other) => other.id === reminder.id);
+    if (existing && sameReminder(existing, reminder)) continue;
+    await notifier.schedule(reminder);
+    changes.scheduled++;
+  }
+  return changes;
+};
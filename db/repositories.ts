@@ -0,0 +1,413 @@
+// Storage-agnostic repository interfaces.
+//
+// `services.ts` (SQLite) and `services-web.ts` (IndexedDB) both implement
+// these, so callers can pick a backend without caring which one they got.
+import type {
+  Expense,
+  Category,
+  BudgetAllocation,
+  GroceryList,
+  GroceryItem,
+  PriceHistory,
+  FinancialSettings,
+  MonthlySavings,
+  MonthlyRollover,
+  RecurringExpense,
+  ExchangeRate,
+  CategorizationRule,
+  Member,
+  ExpenseSplit,
+  Payment,
+  Settlement,
+  Account,
+  Income,
+  AccountTransfer,
+  NewExpense,
+  NewCategory,
+  NewBudgetAllocation,
+  NewGroceryList,
+  NewGroceryItem,
+  NewPriceHistory,
+  NewFinancialSettings,
+  NewMonthlySavings,
+  NewRecurringExpense,
+  NewCategorizationRule,
+  NewMember,
+  NewPayment,
+  NewSettlement,
+  NewAccount,
+  NewIncome,
+  NewAccountTransfer,
+  SyncDevice,
+  SyncPeer,
+  NewSyncPeer,
+  AuditEntry,
+} from './schema';
+import type { GroceryItemDraft } from './grocery';
+import type { ExpenseSplitInput } from './splits';
+import type { AccountBalance, LedgerEntry } from './accounts';
+import type { SyncSnapshot, SyncUpdate } from './sync';
+import type { AuditEntity } from './audit';
+import type {
+  BackupManifest,
+  BackupReason,
+  BackupCompatibility,
+} from './backup-manifest';
+
+export type GroceryItemWithHistory = GroceryItem & {
+  priceHistory: PriceHistory[];
+};
+
+export type GroceryListWithItems = GroceryList & {
+  items: GroceryItemWithHistory[];
+};
+
+// An allocation with the name of its category, as the budget screens show it
+export type BudgetAllocationWithCategory = BudgetAllocation & {
+  name: string;
+};
+
+// What one member paid, in the base currency; a null member is everything
+// with no payer recorded
+export interface MemberTotal {
+  memberId: string | null;
+  total: number;
+}
+
+// Amounts are converted to the base currency
+export interface DashboardData {
+  baseCurrency: string;
+  monthlyIncome: number;
+  totalExpenses: number;
+  // What was paid toward the month's expenses; totalExpenses is what they bill
+  totalPaid: number;
+  remainingIncome: number;
+  savingsGoal: number;
+  // The savings account's balance when one is set
+  currentSavings: number;
+  savingsProgress: number;
+  totalBudgetLimit: number;
+  totalBudgetSpent: number;
+  remainingBudget: number;
+  // The month's expenses by who paid them
+  memberTotals: MemberTotal[];
+}
+
+export interface CategoryTotal {
+  category: string;
+  total: number;
+  byMember: MemberTotal[];
+}
+
+export interface ExpenseRepository {
+  getAll(): Promise<Expense[]>;
+  getByMonth(month?: string): Promise<Expense[]>;
+  getById(id: string): Promise<Expense | null>;
+  create(expense: Omit<NewExpense, 'id'>): Promise<Expense | null>;
+  // All or nothing: either every row is saved or none is
+  createMany(expenses: Omit<NewExpense, 'id'>[]): Promise<Expense[]>;
+  update(id: string, updates: Partial<NewExpense>): Promise<Expense | null>;
+  // Moves the expense to the trash; the reads above leave trashed expenses out
+  delete(id: string): Promise<void>;
+  restore(id: string): Promise<void>;
+  // Deletes the expense, its splits and its payments for good
+  purge(id: string): Promise<void>;
+  // The trash, most recently deleted first
+  getDeleted(): Promise<Expense[]>;
+  // Due between `from` and `to`, both YYYY-MM-DD and inclusive, oldest due
+  // date first
+  getByDueDateRange(from: string, to: string): Promise<Expense[]>;
+  // Unpaid and due before `date` (YYYY-MM-DD), oldest due date first
+  getUnpaidDueBefore(date: string): Promise<Expense[]>;
+  getByTemplateId(templateId: string): Promise<Expense[]>;
+  getRecurringExpenses(): Promise<Expense[]>;
+  getTotalMonthlyExpenses(month?: string): Promise<number>;
+  // Paid toward the month's expenses so far, in the base currency; see
+  // db/payments.ts
+  getTotalMonthlyPaid(month?: string): Promise<number>;
+}
+
+export interface MemberRepository {
+  getAll(): Promise<Member[]>;
+  getById(id: string): Promise<Member | null>;
+  create(member: Omit<NewMember, 'id'>): Promise<Member | null>;
+  update(id: string, updates: Partial<NewMember>): Promise<Member | null>;
+  // Expenses, templates and grocery lists the member paid for are left
+  // without a payer. Throws for a member who shares expenses or
+  // settlements; set isActive to false for them instead.
+  delete(id: string): Promise<void>;
+}
+
+export interface ExpenseSplitRepository {
+  getAll(): Promise<ExpenseSplit[]>;
+  getByExpenseId(expenseId: string): Promise<ExpenseSplit[]>;
+  // Replaces how the expense is shared; null makes it the payer's alone
+  set(expenseId: string, split: ExpenseSplitInput | null): Promise<void>;
+}
+
+// Creating, updating or deleting a payment also sets the expense's isPaid
+export interface PaymentRepository {
+  getAll(): Promise<Payment[]>;
+  // Oldest first
+  getByExpenseId(expenseId: string): Promise<Payment[]>;
+  create(payment: Omit<NewPayment, 'id'>): Promise<Payment | null>;
+  update(
+    id: string,
+    updates: Partial<Omit<NewPayment, 'id' | 'expenseId'>>
+  ): Promise<Payment | null>;
+  delete(id: string): Promise<void>;
+}
+
+export interface SettlementRepository {
+  getAll(): Promise<Settlement[]>;
+  create(settlement: Omit<NewSettlement, 'id'>): Promise<Settlement | null>;
+  // All or nothing, like ExpenseRepository.createMany
+  createMany(settlements: Omit<NewSettlement, 'id'>[]): Promise<Settlement[]>;
+  delete(id: string): Promise<void>;
+}
+
+export interface AccountRepository {
+  getAll(): Promise<Account[]>;
+  getById(id: string): Promise<Account | null>;
+  create(account: Omit<NewAccount, 'id'>): Promise<Account | null>;
+  update(id: string, updates: Partial<NewAccount>): Promise<Account | null>;
+  // Expenses, templates and incomes of the account are left without one, its
+  // transfers are deleted, and it stops being the savings account
+  delete(id: string): Promise<void>;
+  // In each account's currency; see db/accounts.ts
+  getBalances(): Promise<AccountBalance[]>;
+  // Oldest first, with the running balance; empty for an unknown account
+  getLedger(id: string): Promise<LedgerEntry[]>;
+}
+
+export interface IncomeRepository {
+  // Newest first
+  getAll(): Promise<Income[]>;
+  getByMonth(month?: string): Promise<Income[]>;
+  create(income: Omit<NewIncome, 'id'>): Promise<Income | null>;
+  update(id: string, updates: Partial<NewIncome>): Promise<Income | null>;
+  delete(id: string): Promise<void>;
+}
+
+export interface AccountTransferRepository {
+  // Newest first
+  getAll(): Promise<AccountTransfer[]>;
+  create(
+    transfer: Omit<NewAccountTransfer, 'id'>
+  ): Promise<AccountTransfer | null>;
+  delete(id: string): Promise<void>;
+}
+
+export interface RecurringExpenseUpdateOptions {
+  // Also rewrite the unpaid instances of this month (YYYY-MM) and later
+  applyToUnpaidFrom?: string;
+}
+
+export interface RecurringExpenseRepository {
+  getAll(): Promise<RecurringExpense[]>;
+  getById(id: string): Promise<RecurringExpense | null>;
+  create(
+    template: Omit<NewRecurringExpense, 'id'>
+  ): Promise<RecurringExpense | null>;
+  update(
+    id: string,
+    updates: Partial<NewRecurringExpense>,
+    options?: RecurringExpenseUpdateOptions
+  ): Promise<RecurringExpense | null>;
+  delete(id: string): Promise<void>;
+  // Creates the expenses the active templates owe for the month
+  generateForMonth(month: string): Promise<Expense[]>;
+}
+
+export interface CategoryRepository {
+  getAll(): Promise<Category[]>;
+  getById(id: string): Promise<Category | null>;
+  getByName(name: string): Promise<Category | null>;
+  // Returns the category with this name, creating it when missing
+  getOrCreate(name: string): Promise<Category>;
+  update(id: string, updates: Partial<NewCategory>): Promise<Category | null>;
+}
+
+// At most one allocation per category and month
+export interface BudgetAllocationRepository {
+  getAll(): Promise<BudgetAllocationWithCategory[]>;
+  getByMonth(month?: string): Promise<BudgetAllocationWithCategory[]>;
+  getById(id: string): Promise<BudgetAllocationWithCategory | null>;
+  create(
+    allocation: Omit<NewBudgetAllocation, 'id'>
+  ): Promise<BudgetAllocationWithCategory | null>;
+  // A budget moved to another category or month takes that pair's id, so
+  // the one returned may have a new id; throws when the pair has a budget
+  update(
+    id: string,
+    updates: Partial<NewBudgetAllocation>
+  ): Promise<BudgetAllocationWithCategory | null>;
+  // Moves the budget to the trash; the reads above leave trashed budgets out
+  delete(id: string): Promise<void>;
+  restore(id: string): Promise<void>;
+  purge(id: string): Promise<void>;
+  // The trash, most recently deleted first
+  getDeleted(): Promise<BudgetAllocationWithCategory[]>;
+  updateSpent(id: string, amount: number): Promise<void>;
+  recalculateSpent(month: string): Promise<void>;
+  createMonthlyBudgets(month: string, previousMonth?: string): Promise<void>;
+}
+
+export interface GroceryListRepository {
+  getAll(): Promise<GroceryListWithItems[]>;
+  getById(id: string): Promise<GroceryListWithItems | null>;
+  create(
+    list: Omit<NewGroceryList, 'id'>
+  ): Promise<GroceryListWithItems | null>;
+  update(
+    id: string,
+    updates: Partial<NewGroceryList>
+  ): Promise<GroceryListWithItems | null>;
+  // Moves the list to the trash; getAll leaves trashed lists out
+  delete(id: string): Promise<void>;
+  restore(id: string): Promise<void>;
+  // Deletes the list, its items and their price history for good
+  purge(id: string): Promise<void>;
+  // The trash, most recently deleted first
+  getDeleted(): Promise<GroceryList[]>;
+  updateTotalCost(id: string): Promise<void>;
+  // Create a list and its items in one transaction
+  createWithItems(
+    list: Omit<NewGroceryList, 'id' | 'totalCost'>,
+    items: GroceryItemDraft[]
+  ): Promise<GroceryListWithItems | null>;
+  // Save an edited list in one transaction: items are added, updated and
+  // removed by id, and price changes are appended to their history
+  updateWithItems(
+    id: string,
+    updates: Partial<NewGroceryList>,
+    items: GroceryItemDraft[]
+  ): Promise<GroceryListWithItems | null>;
+}
+
+export interface GroceryItemRepository {
+  getByListId(listId: string): Promise<GroceryItemWithHistory[]>;
+  getById(id: string): Promise<GroceryItemWithHistory | null>;
+  create(
+    item: Omit<NewGroceryItem, 'id'>
+  ): Promise<GroceryItemWithHistory | null>;
+  update(
+    id: string,
+    updates: Partial<NewGroceryItem>
+  ): Promise<GroceryItemWithHistory | null>;
+  delete(id: string): Promise<void>;
+  togglePurchased(id: string): Promise<GroceryItemWithHistory | null>;
+}
+
+export interface PriceHistoryRepository {
+  getByItemId(itemId: string): Promise<PriceHistory[]>;
+  create(history: Omit<NewPriceHistory, 'id'>): Promise<PriceHistory>;
+  delete(id: string): Promise<void>;
+}
+
+export interface FinancialSettingsRepository {
+  get(): Promise<FinancialSettings | null>;
+  create(
+    settings: Omit<NewFinancialSettings, 'id'>
+  ): Promise<FinancialSettings>;
+  update(
+    updates: Partial<NewFinancialSettings>
+  ): Promise<FinancialSettings | null>;
+  updateSavings(amount: number): Promise<FinancialSettings | null>;
+  getOrCreate(): Promise<FinancialSettings>;
+  getDashboardData(month?: string): Promise<DashboardData>;
+  getExpensesByCategory(month?: string): Promise<CategoryTotal[]>;
+}
+
+export interface MonthlySavingsRepository {
+  getByMonth(month: string): Promise<MonthlySavings | null>;
+  getAll(): Promise<MonthlySavings[]>;
+  create(data: Omit<NewMonthlySavings, 'id'>): Promise<MonthlySavings | null>;
+  update(
+    month: string,
+    updates: Partial<NewMonthlySavings>
+  ): Promise<MonthlySavings | null>;
+  getOrCreateForMonth(month: string): Promise<MonthlySavings>;
+  getSavingsByMonths(limit?: number): Promise<MonthlySavings[]>;
+  updateMonthlyExpenses(month: string): Promise<void>;
+  initializeCurrentMonth(): Promise<string>;
+}
+
+export interface ExchangeRateInput {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+}
+
+export interface ExchangeRateRepository {
+  getAll(): Promise<ExchangeRate[]>;
+  // Stored, inverse or cross rate; null when none can be derived
+  getRate(fromCurrency: string, toCurrency: string): Promise<number | null>;
+  // Creates or replaces the rate for the currency pair
+  upsert(rate: ExchangeRateInput): Promise<ExchangeRate | null>;
+  delete(id: string): Promise<void>;
+  // Upserts every entry and returns how many were saved
+  import(rates: ExchangeRateInput[]): Promise<number>;
+}
+
+export interface CategorizationRuleRepository {
+  // In priority order, the order the rules are tried in
+  getAll(): Promise<CategorizationRule[]>;
+  getById(id: string): Promise<CategorizationRule | null>;
+  // New rules go last unless a priority is given
+  create(
+    rule: Omit<NewCategorizationRule, 'id'>
+  ): Promise<CategorizationRule | null>;
+  update(
+    id: string,
+    updates: Partial<NewCategorizationRule>
+  ): Promise<CategorizationRule | null>;
+  delete(id: string): Promise<void>;
+  // Sets the priorities from the order of the ids
+  reorder(ids: string[]): Promise<void>;
+  // Re-runs the rules over a month's expenses; returns how many changed
+  applyToMonth(month: string): Promise<number>;
+}
+
+export interface RolloverRepository {
+  getAll(): Promise<MonthlyRollover[]>;
+  getLastRolledMonth(): Promise<string | null>;
+  hasRolled(month: string): Promise<boolean>;
+  markRolled(month: string): Promise<void>;
+}
+
+export interface BackupRepository {
+  // Newest first
+  getAll(): Promise<BackupManifest[]>;
+  // Snapshots the whole database and rotates old backups of the same kind
+  create(reason: BackupReason): Promise<BackupManifest>;
+  // Takes a scheduled backup when the last one is older than a day
+  createScheduledIfDue(now?: Date): Promise<BackupManifest | null>;
+  checkCompatibility(id: string): Promise<BackupCompatibility>;
+  // Replaces the live database with the backup after checking it can be
+  // restored; the current data is backed up first
+  restore(id: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface SyncRepository {
+  // Creates this device's identity on first use
+  getDevice(): Promise<SyncDevice>;
+  updateDevice(
+    updates: Partial<
+      Pick<SyncDevice, 'name' | 'code' | 'isEnabled' | 'memberId'>
+    >
+  ): Promise<SyncDevice>;
+  getPeers(): Promise<SyncPeer[]>;
+  // Inserts the peer or updates the one with the same id
+  savePeer(peer: NewSyncPeer): Promise<void>;
+  deletePeer(id: string): Promise<void>;
+  // Reads every synced row and record, and writes what `work` returns, in
+  // one transaction
+  update<T>(work: (snapshot: SyncSnapshot) => SyncUpdate<T>): Promise<T>;
+}
+
+export interface AuditRepository {
+  // The change log of one record, newest first
+  getByRecord(entity: AuditEntity, entityId: string): Promise<AuditEntry[]>;
+}
@@ -0,0 +1,86 @@
+// Monthly rollover job.
+//
+// Prepares every month since the last rollover: recurring expenses are
+// generated, budget allocations are carried forward from the previous month
+// and the monthly savings record is created. Each prepared month is recorded
+// so it is never rolled twice. Works against the repository interfaces, so
+// the same engine drives both the SQLite and the IndexedDB services.
+import type {
+  RecurringExpenseRepository,
+  BudgetAllocationRepository,
+  MonthlySavingsRepository,
+  RolloverRepository,
+} from './repositories';
+
+export interface RolloverServices {
+  recurringExpenses: RecurringExpenseRepository;
+  budgetAllocations: BudgetAllocationRepository;
+  monthlySavings: MonthlySavingsRepository;
+  rollovers: RolloverRepository;
+}
+
+const getCurrentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${(now.getMonth() + 1)
+    .toString()
+    .padStart(2, '0')}`;
+};
+
+export const shiftMonth = (month: string, offset: number) => {
+  const [year, monthNum] = month.split('-').map(Number);
+  const date = new Date(year, monthNum - 1 + offset);
+  return `${date.getFullYear()}-${(date.getMonth() + 1)
+    .toString()
+    .padStart(2, '0')}`;
+};
+
+// Months still to roll, oldest first. On the very first run only the current
+// month is prepared; there is no history to catch up on.
+export const getPendingMonths = (
+  lastRolledMonth: string | null,
+  currentMonth: string
+) => {
+  if (!lastRolledMonth) return [currentMonth];
+
+  const months: string[] = [];
+  let month = shiftMonth(lastRolledMonth, 1);
+  while (month <= currentMonth) {
+    months.push(month);
+    month = shiftMonth(month, 1);
+  }
+  return months;
+};
+
+export const rollMonth = async (services: RolloverServices, month: string) => {
+  if (await services.rollovers.hasRolled(month)) return false;
+
+  await services.recurringExpenses.generateForMonth(month);
+  await services.budgetAllocations.createMonthlyBudgets(
+    month,
+    shiftMonth(month, -1)
+  );
+  await services.monthlySavings.getOrCreateForMonth(month);
+  await services.budgetAllocations.recalculateSpent(month);
+  await services.monthlySavings.updateMonthlyExpenses(month);
+
+  await services.rollovers.markRolled(month);
+  return true;
+};
+
+// Returns the months that were rolled by this run
+export const runMonthlyRollover = async (
+  services: RolloverServices,
+  currentMonth = getCurrentMonth()
+) => {
+  const lastRolledMonth = await services.rollovers.getLastRolledMonth();
+  const pendingMonths = getPendingMonths(lastRolledMonth, currentMonth);
+
+  const rolledMonths: string[] = [];
+  for (const month of pendingMonths) {
+    // A month that fails stays unrecorded and is retried on the next run
+    if (await rollMonth(services, month)) {
+      rolledMonths.push(month);
+    }
+  }
+  return rolledMonths;
+};
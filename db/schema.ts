@@ -1,34 +1,271 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import {
+  sqliteTable,
+  text,
+  integer,
+  real,
+  index,
+  uniqueIndex,
+  type AnySQLiteColumn,
+} from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
 
-export const expenses = sqliteTable('expenses', {
+// Money columns are integers in minor units (cents); see db/money.ts
+
+export const recurrenceFrequencies = [
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'yearly',
+] as const;
+
+export type RecurrenceFrequency = (typeof recurrenceFrequencies)[number];
+
+// How a shared expense is divided; see db/splits.ts
+export const splitTypes = ['equal', 'percentage', 'shares', 'exact'] as const;
+
+export type SplitType = (typeof splitTypes)[number];
+
+// How an expense was paid; see payments below
+export const paymentMethods = [
+  'cash',
+  'card',
+  'bankTransfer',
+  'check',
+  'other',
+] as const;
+
+export type PaymentMethod = (typeof paymentMethods)[number];
+
+// What an account holds; see accounts below
+export const accountTypes = ['checking', 'savings', 'credit', 'cash'] as const;
+
+export type AccountType = (typeof accountTypes)[number];
+
+// People in the household. Expenses and grocery lists record which member
+// paid for them; removing a member leaves their records unassigned.
+export const members = sqliteTable('members', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
-  amount: real('amount').notNull(),
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+  updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+});
+
+// Where money is kept. The balance is worked out from the opening balance
+// and what went in and out of the account since; see db/accounts.ts. Money
+// owed on a credit card is a negative balance.
+export const accounts = sqliteTable('accounts', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  type: text('type', { enum: accountTypes }).notNull(),
+  currency: text('currency').notNull().default('USD'), // ISO 4217 code
+  openingBalance: integer('opening_balance').notNull().default(0),
+  createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+  updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+});
+
+// Template that generates one expense per occurrence of its schedule
+export const recurringExpenses = sqliteTable('recurring_expenses', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  amount: integer('amount').notNull(),
+  currency: text('currency').notNull().default('USD'), // ISO 4217 code
   category: text('category').notNull(),
-  dueDate: text('due_date').notNull(),
-  month: text('month').notNull(), // Format: YYYY-MM
-  chargeDay: integer('charge_day'), // For recurring expenses: day of month (1-31)
-  isPaid: integer('is_paid', { mode: 'boolean' }).default(false),
-  isRecurring: integer('is_recurring', { mode: 'boolean' }).default(false),
+  frequency: text('frequency', { enum: recurrenceFrequencies }).notNull(),
+  dayOfMonth: integer('day_of_month'), // 1-31, clamped to the end of shorter months
+  startDate: text('start_date').notNull(), // Format: YYYY-MM-DD
+  endDate: text('end_date'), // Format: YYYY-MM-DD, inclusive
+  paidBy: text('paid_by').references(() => members.id, {
+    onDelete: 'set null',
+  }), // Copied to the generated expenses
+  accountId: text('account_id').references(() => accounts.id, {
+    onDelete: 'set null',
+  }), // Copied to the generated expenses
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
   createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
   updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
 });
 
-export const budgetCategories = sqliteTable('budget_categories', {
+export const expenses = sqliteTable(
+  'expenses',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    amount: integer('amount').notNull(),
+    currency: text('currency').notNull().default('USD'), // ISO 4217 code
+    category: text('category').notNull(),
+    dueDate: text('due_date').notNull(),
+    month: text('month').notNull(), // Format: YYYY-MM
+    chargeDay: integer('charge_day'), // For recurring expenses: day of month (1-31)
+    isPaid: integer('is_paid', { mode: 'boolean' }).default(false),
+    isRecurring: integer('is_recurring', { mode: 'boolean' }).default(false),
+    templateId: text('template_id').references(
+      (): AnySQLiteColumn => recurringExpenses.id,
+      { onDelete: 'set null' }
+    ),
+    paidBy: text('paid_by').references(() => members.id, {
+      onDelete: 'set null',
+    }),
+    splitType: text('split_type', { enum: splitTypes }), // Null when not shared
+    // Paid from this account; the payments come off its balance
+    accountId: text('account_id').references(() => accounts.id, {
+      onDelete: 'set null',
+    }),
+    deletedAt: text('deleted_at'), // Set while the expense is in the trash
+    // Format: YYYY-MM-DD. The bills timeline shows an unpaid expense on this
+    // day instead of its due date, when it is later; see db/bills.ts
+    snoozedUntil: text('snoozed_until'),
+    createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+    updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+  },
+  (table) => [index('expenses_due_date_idx').on(table.dueDate)]
+);
+
+// One member's part of a shared expense. `value` is read by the expense's
+// split type: unused for equal, a percentage, a number of shares or exact
+// cents.
+export const expenseSplits = sqliteTable(
+  'expense_splits',
+  {
+    id: text('id').primaryKey(),
+    expenseId: text('expense_id')
+      .notNull()
+      .references(() => expenses.id, { onDelete: 'cascade' }),
+    memberId: text('member_id')
+      .notNull()
+      .references(() => members.id, { onDelete: 'cascade' }),
+    value: real('value'),
+    createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+    updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+  },
+  (table) => [
+    uniqueIndex('expense_splits_expense_member_unique').on(
+      table.expenseId,
+      table.memberId
+    ),
+  ]
+);
+
+// Money paid toward an expense, in the expense's currency. A bill can be paid
+// in instalments, or for more or less than it says; see db/payments.ts.
+export const payments = sqliteTable(
+  'payments',
+  {
+    id: text('id').primaryKey(),
+    expenseId: text('expense_id')
+      .notNull()
+      .references(() => expenses.id, { onDelete: 'cascade' }),
+    amount: integer('amount').notNull(),
+    date: text('date').notNull(), // Format: YYYY-MM-DD
+    method: text('method', { enum: paymentMethods }),
+    note: text('note'),
+    createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+    updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+  },
+  (table) => [index('payments_expense_idx').on(table.expenseId)]
+);
+
+// Money received, such as a salary, into an account
+export const incomes = sqliteTable(
+  'incomes',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    amount: integer('amount').notNull(),
+    currency: text('currency').notNull().default('USD'), // ISO 4217 code
+    date: text('date').notNull(), // Format: YYYY-MM-DD
+    accountId: text('account_id').references(() => accounts.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+    updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+  },
+  (table) => [index('incomes_date_idx').on(table.date)]
+);
+
+// Money moved from one account to another. `amount` leaves the first account
+// in its currency; `toAmount` is what arrived in the other account's
+// currency, when the two differ.
+export const accountTransfers = sqliteTable('account_transfers', {
+  id: text('id').primaryKey(),
+  fromAccountId: text('from_account_id')
+    .notNull()
+    .references(() => accounts.id, { onDelete: 'cascade' }),
+  toAccountId: text('to_account_id')
+    .notNull()
+    .references(() => accounts.id, { onDelete: 'cascade' }),
+  amount: integer('amount').notNull(),
+  toAmount: integer('to_amount'),
+  date: text('date').notNull(), // Format: YYYY-MM-DD
+  note: text('note'),
+  createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+  updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+});
+
+// Money one member handed another to settle up
+export const settlements = sqliteTable('settlements', {
+  id: text('id').primaryKey(),
+  fromMemberId: text('from_member_id')
+    .notNull()
+    .references(() => members.id, { onDelete: 'cascade' }),
+  toMemberId: text('to_member_id')
+    .notNull()
+    .references(() => members.id, { onDelete: 'cascade' }),
+  amount: integer('amount').notNull(),
+  currency: text('currency').notNull().default('USD'), // ISO 4217 code
+  date: text('date').notNull(), // Format: YYYY-MM-DD
+  note: text('note'),
+  createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+  updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+});
+
+// Category master list. Expenses, templates and rules refer to a category by
+// name; budgets refer to it by id, so a category keeps its identity across
+// months.
+export const categories = sqliteTable('categories', {
   id: text('id').primaryKey(),
   name: text('name').notNull().unique(),
-  limit: real('limit').notNull(),
-  spent: real('spent').default(0),
-  month: text('month').notNull(), // Format: YYYY-MM
+  // Days before the due date to remind of unpaid expenses in the category;
+  // null turns the reminders off
+  reminderDays: integer('reminder_days').default(3),
   createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
   updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
 });
 
+// A category's budget for one month (the rollover carries them forward).
+// Limits and spent are in the household base currency.
+export const budgetAllocations = sqliteTable(
+  'budget_allocations',
+  {
+    id: text('id').primaryKey(),
+    categoryId: text('category_id')
+      .notNull()
+      .references(() => categories.id, { onDelete: 'cascade' }),
+    month: text('month').notNull(), // Format: YYYY-MM
+    limit: integer('limit').notNull(),
+    spent: integer('spent').default(0),
+    deletedAt: text('deleted_at'), // Set while the budget is in the trash
+    createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+    updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+  },
+  (table) => [
+    uniqueIndex('budget_allocations_category_month_unique').on(
+      table.categoryId,
+      table.month
+    ),
+  ]
+);
+
 export const groceryLists = sqliteTable('grocery_lists', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
-  totalCost: real('total_cost').default(0),
+  totalCost: integer('total_cost').default(0),
+  currency: text('currency').notNull().default('USD'), // Items are priced in the list currency
+  paidBy: text('paid_by').references(() => members.id, {
+    onDelete: 'set null',
+  }),
+  deletedAt: text('deleted_at'), // Set while the list is in the trash
   createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
   updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
 });
@@ -40,8 +277,8 @@ export const groceryItems = sqliteTable('grocery_items', {
   }),
   name: text('name').notNull(),
   quantity: integer('quantity').notNull(),
-  pricePerUnit: real('price_per_unit').notNull(),
-  totalCost: real('total_cost').notNull(),
+  pricePerUnit: integer('price_per_unit').notNull(),
+  totalCost: integer('total_cost').notNull(),
   isPurchased: integer('is_purchased', { mode: 'boolean' }).default(false),
   storeLocation: text('store_location'),
   createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
@@ -53,36 +290,251 @@ export const priceHistory = sqliteTable('price_history', {
   itemId: text('item_id').references(() => groceryItems.id, {
     onDelete: 'cascade',
   }),
-  price: real('price').notNull(),
+  price: integer('price').notNull(),
   date: text('date').notNull(),
   createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
 });
 
+// Monthly amounts are in the household base currency
 export const monthlySavings = sqliteTable('monthly_savings', {
   id: text('id').primaryKey(),
   month: text('month').notNull().unique(), // Format: YYYY-MM
-  income: real('income').notNull(),
-  totalExpenses: real('total_expenses').default(0),
-  totalSaved: real('total_saved').default(0),
-  savingsGoal: real('savings_goal').notNull(),
+  income: integer('income').notNull(),
+  totalExpenses: integer('total_expenses').default(0),
+  totalSaved: integer('total_saved').default(0),
+  savingsGoal: integer('savings_goal').notNull(),
   createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
   updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
 });
 
 export const financialSettings = sqliteTable('financial_settings', {
   id: text('id').primaryKey(),
-  monthlyIncome: real('monthly_income').notNull(),
-  savingsGoal: real('savings_goal').notNull(),
-  currentSavings: real('current_savings').default(0),
+  monthlyIncome: integer('monthly_income').notNull(),
+  savingsGoal: integer('savings_goal').notNull(),
+  currentSavings: integer('current_savings').default(0),
+  // When set, current savings is this account's balance instead
+  savingsAccountId: text('savings_account_id').references(() => accounts.id, {
+    onDelete: 'set null',
+  }),
+  baseCurrency: text('base_currency').notNull().default('USD'), // Totals are converted to this
+  createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+  updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+});
+
+// User-maintained rates: 1 unit of fromCurrency is worth `rate` toCurrency
+export const exchangeRates = sqliteTable('exchange_rates', {
+  id: text('id').primaryKey(), // FROM_TO, e.g. EUR_USD
+  fromCurrency: text('from_currency').notNull(),
+  toCurrency: text('to_currency').notNull(),
+  rate: real('rate').notNull(),
+  updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+});
+
+export const ruleMatchTypes = ['contains', 'regex'] as const;
+
+export type RuleMatchType = (typeof ruleMatchTypes)[number];
+
+// Sets the category (and optionally the recurring flag) of matching
+// expenses. Every condition that is set must match; rules are tried in
+// priority order and the first match wins.
+export const categorizationRules = sqliteTable('categorization_rules', {
+  id: text('id').primaryKey(),
+  matchType: text('match_type', { enum: ruleMatchTypes })
+    .notNull()
+    .default('contains'),
+  pattern: text('pattern'), // Matched against the expense name, case-insensitive
+  minAmount: integer('min_amount'), // Inclusive, in cents
+  maxAmount: integer('max_amount'), // Inclusive, in cents
+  category: text('category').notNull(),
+  isRecurring: integer('is_recurring', { mode: 'boolean' }), // Null leaves the flag alone
+  priority: integer('priority').notNull().default(0), // Lower runs first
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+  updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+});
+
+// One row per month the rollover job has already prepared
+export const monthlyRollovers = sqliteTable('monthly_rollovers', {
+  month: text('month').primaryKey(), // Format: YYYY-MM
+  rolledAt: text('rolled_at').notNull(),
+});
+
+export const auditActions = ['create', 'update', 'delete'] as const;
+export type AuditAction = (typeof auditActions)[number];
+
+// Append-only change log; see db/audit.ts. Entries are never updated or
+// deleted, and keep no foreign keys, so a record's history outlives it.
+export const auditLog = sqliteTable(
+  'audit_log',
+  {
+    id: text('id').primaryKey(),
+    entity: text('entity').notNull(), // Table, as named in the schema, e.g. 'expenses'
+    entityId: text('entity_id').notNull(),
+    action: text('action', { enum: auditActions }).notNull(),
+    field: text('field'), // Null when the whole record was created or deleted
+    oldValue: text('old_value', { mode: 'json' }),
+    newValue: text('new_value', { mode: 'json' }),
+    memberId: text('member_id'), // Who used the device, when known
+    changedAt: text('changed_at').notNull(),
+  },
+  (table) => [index('audit_log_entity_idx').on(table.entity, table.entityId)]
+);
+
+// Sync bookkeeping; see db/sync.ts. These tables describe this device and
+// its peers and are never synced themselves.
+
+// One field value of a synced row, with when and on which device it was set
+export interface FieldVersion {
+  value: unknown;
+  at: string; // ISO timestamp
+  by: string; // Device id
+}
+
+// This device; the single row is created on first use
+export const syncDevice = sqliteTable('sync_device', {
+  id: text('id').primaryKey(), // Sent to peers as the device id
+  name: text('name').notNull(),
+  code: text('code').notNull(), // Pairing code; replaced once a peer pairs with it
+  isEnabled: integer('is_enabled', { mode: 'boolean' }).default(false), // Accepts syncs from peers
+  memberId: text('member_id'), // Who uses this device; named in the change log
+  createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
+  updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
+});
+
+export const syncPeers = sqliteTable('sync_peers', {
+  id: text('id').primaryKey(), // The peer's device id
+  name: text('name').notNull(),
+  address: text('address'), // host:port; null when the peer cannot be called, e.g. the web app
+  code: text('code').notNull(), // The key this device and the peer share
+  receivedSeq: integer('received_seq').notNull().default(0), // Their changes we have
+  sentSeq: integer('sent_seq').notNull().default(0), // Our changes they have
+  lastSyncedAt: text('last_synced_at'),
   createdAt: text('created_at').default('CURRENT_TIMESTAMP'),
   updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
 });
 
+// The field versions of every synced row. `seq` numbers this device's
+// changes in order, so a peer asks for everything after the last one it saw.
+export const syncRecords = sqliteTable(
+  'sync_records',
+  {
+    id: text('id').primaryKey(), // `${table}/${rowId}`
+    table: text('table_name').notNull(),
+    rowId: text('row_id').notNull(),
+    fields: text('fields', { mode: 'json' })
+      .$type<Record<string, FieldVersion>>()
+      .notNull(),
+    deletedAt: text('deleted_at'), // Tombstone; a deleted row stays deleted
+    seq: integer('seq').notNull(),
+  },
+  (table) => [index('sync_records_seq_idx').on(table.seq)]
+);
+
 // Relations
-export const groceryListsRelations = relations(groceryLists, ({ many }) => ({
-  items: many(groceryItems),
+export const accountsRelations = relations(accounts, ({ many }) => ({
+  expenses: many(expenses),
+  incomes: many(incomes),
+}));
+
+export const membersRelations = relations(members, ({ many }) => ({
+  expenses: many(expenses),
+  recurringExpenses: many(recurringExpenses),
+  groceryLists: many(groceryLists),
+  splits: many(expenseSplits),
+}));
+
+export const recurringExpensesRelations = relations(
+  recurringExpenses,
+  ({ one, many }) => ({
+    instances: many(expenses),
+    payer: one(members, {
+      fields: [recurringExpenses.paidBy],
+      references: [members.id],
+    }),
+  })
+);
+
+export const expensesRelations = relations(expenses, ({ one, many }) => ({
+  template: one(recurringExpenses, {
+    fields: [expenses.templateId],
+    references: [recurringExpenses.id],
+  }),
+  payer: one(members, {
+    fields: [expenses.paidBy],
+    references: [members.id],
+  }),
+  account: one(accounts, {
+    fields: [expenses.accountId],
+    references: [accounts.id],
+  }),
+  splits: many(expenseSplits),
+  payments: many(payments),
+}));
+
+export const expenseSplitsRelations = relations(expenseSplits, ({ one }) => ({
+  expense: one(expenses, {
+    fields: [expenseSplits.expenseId],
+    references: [expenses.id],
+  }),
+  member: one(members, {
+    fields: [expenseSplits.memberId],
+    references: [members.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  expense: one(expenses, {
+    fields: [payments.expenseId],
+    references: [expenses.id],
+  }),
+}));
+
+export const incomesRelations = relations(incomes, ({ one }) => ({
+  account: one(accounts, {
+    fields: [incomes.accountId],
+    references: [accounts.id],
+  }),
 }));
 
+export const accountTransfersRelations = relations(
+  accountTransfers,
+  ({ one }) => ({
+    fromAccount: one(accounts, {
+      fields: [accountTransfers.fromAccountId],
+      references: [accounts.id],
+    }),
+    toAccount: one(accounts, {
+      fields: [accountTransfers.toAccountId],
+      references: [accounts.id],
+    }),
+  })
+);
+
+export const categoriesRelations = relations(categories, ({ many }) => ({
+  allocations: many(budgetAllocations),
+}));
+
+export const budgetAllocationsRelations = relations(
+  budgetAllocations,
+  ({ one }) => ({
+    category: one(categories, {
+      fields: [budgetAllocations.categoryId],
+      references: [categories.id],
+    }),
+  })
+);
+
+export const groceryListsRelations = relations(
+  groceryLists,
+  ({ one, many }) => ({
+    items: many(groceryItems),
+    payer: one(members, {
+      fields: [groceryLists.paidBy],
+      references: [members.id],
+    }),
+  })
+);
+
 export const groceryItemsRelations = relations(
   groceryItems,
   ({ one, many }) => ({
@@ -102,11 +554,38 @@ export const priceHistoryRelations = relations(priceHistory, ({ one }) => ({
 }));
 
 // Types
+export type Account = typeof accounts.$inferSelect;
+export type NewAccount = typeof accounts.$inferInsert;
+
+export type Member = typeof members.$inferSelect;
+export type NewMember = typeof members.$inferInsert;
+
+export type RecurringExpense = typeof recurringExpenses.$inferSelect;
+export type NewRecurringExpense = typeof recurringExpenses.$inferInsert;
+
 export type Expense = typeof expenses.$inferSelect;
 export type NewExpense = typeof expenses.$inferInsert;
 
-export type BudgetCategory = typeof budgetCategories.$inferSelect;
-export type NewBudgetCategory = typeof budgetCategories.$inferInsert;
+export type ExpenseSplit = typeof expenseSplits.$inferSelect;
+export type NewExpenseSplit = typeof expenseSplits.$inferInsert;
+
+export type Payment = typeof payments.$inferSelect;
+export type NewPayment = typeof payments.$inferInsert;
+
+export type Income = typeof incomes.$inferSelect;
+export type NewIncome = typeof incomes.$inferInsert;
+
+export type AccountTransfer = typeof accountTransfers.$inferSelect;
+export type NewAccountTransfer = typeof accountTransfers.$inferInsert;
+
+export type Settlement = typeof settlements.$inferSelect;
+export type NewSettlement = typeof settlements.$inferInsert;
+
+export type Category = typeof categories.$inferSelect;
+export type NewCategory = typeof categories.$inferInsert;
+
+export type BudgetAllocation = typeof budgetAllocations.$inferSelect;
+export type NewBudgetAllocation = typeof budgetAllocations.$inferInsert;
 
 export type GroceryList = typeof groceryLists.$inferSelect;
 export type NewGroceryList = typeof groceryLists.$inferInsert;
@@ -122,3 +601,23 @@ export type NewFinancialSettings = typeof financialSettings.$inferInsert;
 
 export type MonthlySavings = typeof monthlySavings.$inferSelect;
 export type NewMonthlySavings = typeof monthlySavings.$inferInsert;
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type NewExchangeRate = typeof exchangeRates.$inferInsert;
+
+export type MonthlyRollover = typeof monthlyRollovers.$inferSelect;
+export type NewMonthlyRollover = typeof monthlyRollovers.$inferInsert;
+
+export type CategorizationRule = typeof categorizationRules.$inferSelect;
+export type NewCategorizationRule = typeof categorizationRules.$inferInsert;
+
+export type SyncDevice = typeof syncDevice.$inferSelect;
+export type NewSyncDevice = typeof syncDevice.$inferInsert;
+
+export type SyncPeer = typeof syncPeers.$inferSelect;
+export type NewSyncPeer = typeof syncPeers.$inferInsert;
+
+export type SyncRecord = typeof syncRecords.$inferSelect;
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type NewAuditEntry = typeof auditLog.$inferInsert;
@@ -1,24 +1,718 @@
 // Web-compatible services using IndexedDB
-import { webDb, STORES } from './database-web';
+import { webDb, STORES, INDEXES, type WebTransaction } from './database-web';
+import { createId } from './ids';
 import type {
   Expense,
-  BudgetCategory,
+  Category,
+  BudgetAllocation,
   GroceryList,
   GroceryItem,
   PriceHistory,
   FinancialSettings,
+  MonthlySavings,
+  MonthlyRollover,
+  RecurringExpense,
+  ExchangeRate,
+  CategorizationRule,
+  Member,
+  ExpenseSplit,
+  Payment,
+  Settlement,
+  Account,
+  Income,
+  AccountTransfer,
+  SyncDevice,
+  AuditEntry,
   NewExpense,
-  NewBudgetCategory,
+  NewCategory,
+  NewBudgetAllocation,
   NewGroceryList,
   NewGroceryItem,
   NewPriceHistory,
   NewFinancialSettings,
+  NewMonthlySavings,
+  NewRecurringExpense,
+  NewCategorizationRule,
+  NewMember,
+  NewPayment,
+  NewSettlement,
+  NewAccount,
+  NewIncome,
+  NewAccountTransfer,
 } from './schema';
+import type {
+  ExpenseRepository,
+  CategoryRepository,
+  BudgetAllocationRepository,
+  BudgetAllocationWithCategory,
+  GroceryListRepository,
+  GroceryItemRepository,
+  PriceHistoryRepository,
+  FinancialSettingsRepository,
+  MonthlySavingsRepository,
+  RolloverRepository,
+  RecurringExpenseRepository,
+  RecurringExpenseUpdateOptions,
+  ExchangeRateRepository,
+  ExchangeRateInput,
+  CategorizationRuleRepository,
+  MemberRepository,
+  ExpenseSplitRepository,
+  PaymentRepository,
+  SettlementRepository,
+  AccountRepository,
+  IncomeRepository,
+  AccountTransferRepository,
+  AuditRepository,
+} from './repositories';
+import {
+  buildInstance,
+  getInstanceUpdates,
+  getMissingOccurrences,
+} from './recurrence';
+import {
+  DEFAULT_CURRENCY,
+  createBaseCurrencyConverter,
+  createConverter,
+  findRate,
+  getExchangeRateId,
+  normalizeCurrency,
+  sumConverted,
+  totalByCategory,
+  totalByCategoryAndMember,
+  totalByMember,
+} from './currency';
+import {
+  diffGroceryItems,
+  getListTotal,
+  type GroceryItemDraft,
+} from './grocery';
+import {
+  categorize,
+  getRuleUpdates,
+  sortRules,
+  validateRule,
+} from './categorization';
+import { validateSplit, type ExpenseSplitInput } from './splits';
+import { coversAmount, getAmountPaid } from './payments';
+import {
+  getBalance,
+  getBalances,
+  getLedger,
+  validateTransfer,
+  type AccountActivity,
+} from './accounts';
+import { describeChanges, sortHistory, type AuditEntity } from './audit';
+import { getSyncTable } from './sync-tables';
+import { DEFAULT_REMINDER_DAYS } from './reminders';
+
+const getCurrentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${(now.getMonth() + 1)
+    .toString()
+    .padStart(2, '0')}`;
+};
+
+// Reads work the same on the database and inside a unit of work
+type WebStoreReader = Pick<WebTransaction, 'get' | 'getAll' | 'filter'>;
+
+// Stores every logged write touches besides its own; see putRecord
+const AUDIT_STORES = [STORES.auditLog, STORES.syncDevice];
+
+// Stores touched when an expense write refreshes the month totals
+const EXPENSE_STORES = [
+  ...AUDIT_STORES,
+  STORES.expenses,
+  STORES.payments,
+  STORES.monthlySavings,
+  STORES.budgetAllocations,
+  STORES.categories,
+  STORES.financialSettings,
+  STORES.exchangeRates,
+];
+
+// Converter into the household base currency, read straight from the stores
+// so every service can use it without depending on the others.
+const loadConverter = async (source: WebStoreReader = webDb) => {
+  const settings = await source.get<FinancialSettings>(
+    STORES.financialSettings,
+    'default'
+  );
+  const rates = await source.getAll<ExchangeRate>(STORES.exchangeRates);
+  return createConverter(rates, settings?.baseCurrency || DEFAULT_CURRENCY);
+};
+
+// Expenses in the trash are left out of every total
+const readMonthExpenses = async (source: WebStoreReader, month: string) =>
+  await source.filter<Expense>(
+    STORES.expenses,
+    (expense) => expense.month === month && !expense.deletedAt
+  );
+
+// What was paid toward each of the month's expenses, in its currency
+const readMonthPaidAmounts = async (source: WebStoreReader, month: string) => {
+  const monthExpenses = await readMonthExpenses(source, month);
+  const ids = new Set(monthExpenses.map((expense) => expense.id));
+  const monthPayments = await source.filter<Payment>(
+    STORES.payments,
+    (payment) => ids.has(payment.expenseId)
+  );
+  return monthExpenses.map((expense) => ({
+    amount: getAmountPaid(
+      expense,
+      monthPayments.filter((payment) => payment.expenseId === expense.id)
+    ),
+    currency: expense.currency,
+  }));
+};
+
+// Everything that moves money in or out of the accounts; see db/accounts.ts
+const readAccountActivity = async (
+  source: WebStoreReader = webDb
+): Promise<AccountActivity> => {
+  const accountExpenses = await source.filter<Expense>(
+    STORES.expenses,
+    (expense) => !!expense.accountId && !expense.deletedAt
+  );
+  const ids = new Set(accountExpenses.map((expense) => expense.id));
+  return {
+    accounts: await source.getAll<Account>(STORES.accounts),
+    expenses: accountExpenses,
+    payments: await source.filter<Payment>(STORES.payments, (payment) =>
+      ids.has(payment.expenseId)
+    ),
+    incomes: await source.filter<Income>(
+      STORES.incomes,
+      (income) => !!income.accountId
+    ),
+    transfers: await source.getAll<AccountTransfer>(STORES.accountTransfers),
+    rates: await source.getAll<ExchangeRate>(STORES.exchangeRates),
+  };
+};
+
+// The savings account's balance in the base currency when one is set, and
+// the amount typed in otherwise
+const readCurrentSavings = async (settings: FinancialSettings) => {
+  const activity = await readAccountActivity();
+  const account = activity.accounts.find(
+    (candidate) => candidate.id === settings.savingsAccountId
+  );
+  if (!account) return settings.currentSavings || 0;
+  const convert = await loadConverter();
+  return convert(getBalance(account, activity), account.currency);
+};
+
+// Newest first
+const byDateDescending = (
+  a: { date: string; createdAt: string | null },
+  b: { date: string; createdAt: string | null }
+) =>
+  b.date.localeCompare(a.date) ||
+  (b.createdAt || '').localeCompare(a.createdAt || '');
+
+// The helpers below run inside `webDb.transaction`, so the writes a service
+// method makes, including the derived totals, commit or abort together.
+
+// Writes to the logged stores go through putRecord and deleteRecord, which
+// compare the record with the one it replaces and log the difference; see
+// db/audit.ts. Their transactions must include AUDIT_STORES.
+const logChanges = async (
+  tx: WebTransaction,
+  entity: AuditEntity,
+  before: Record<string, unknown>[],
+  after: Record<string, unknown>[]
+) => {
+  const [device] = await tx.getAll<SyncDevice>(STORES.syncDevice);
+  const entries = describeChanges(
+    entity,
+    before,
+    after,
+    device?.memberId ?? null
+  );
+  for (const entry of entries) {
+    await tx.put(STORES.auditLog, entry);
+  }
+};
+
+const putRecord = async <T extends Record<string, unknown>>(
+  tx: WebTransaction,
+  entity: AuditEntity,
+  record: T
+) => {
+  const { primaryKey } = getSyncTable(entity)!;
+  const previous = await tx.get<T>(STORES[entity], String(record[primaryKey]));
+  await tx.put(STORES[entity], record);
+  await logChanges(tx, entity, previous ? [previous] : [], [record]);
+};
+
+const deleteRecord = async (
+  tx: WebTransaction,
+  entity: AuditEntity,
+  id: string
+) => {
+  const previous = await tx.get<Record<string, unknown>>(STORES[entity], id);
+  await tx.delete(STORES[entity], id);
+  if (previous) {
+    await logChanges(tx, entity, [previous], []);
+  }
+};
+
+const readSavingsRecord = async (tx: WebTransaction, month: string) => {
+  const [existing] = await tx.filter<MonthlySavings>(
+    STORES.monthlySavings,
+    (record) => record.month === month
+  );
+  if (existing) return existing;
+
+  const settings = await tx.get<FinancialSettings>(
+    STORES.financialSettings,
+    'default'
+  );
+  const now = new Date().toISOString();
+  const record: MonthlySavings = {
+    id: createId(),
+    month,
+    income: settings?.monthlyIncome || 0,
+    totalExpenses: 0,
+    totalSaved: 0,
+    savingsGoal: settings?.savingsGoal || 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putRecord(tx, 'monthlySavings', record);
+  return record;
+};
+
+const writeMonthlyExpenses = async (tx: WebTransaction, month: string) => {
+  const totalExpenses = sumConverted(
+    await readMonthExpenses(tx, month),
+    await loadConverter(tx)
+  );
+  const monthData = await readSavingsRecord(tx, month);
+  const totalSaved = monthData.income - totalExpenses;
+
+  await putRecord(tx, 'monthlySavings', {
+    ...monthData,
+    totalExpenses,
+    totalSaved: Math.max(0, totalSaved),
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+// Spent is derived from the expenses of the same category and month,
+// converted to the base currency. Only allocations whose spent changed are
+// written, so updatedAt tells when that last happened.
+const writeAllocationSpent = async (tx: WebTransaction, month: string) => {
+  const totals = totalByCategory(
+    await readMonthExpenses(tx, month),
+    await loadConverter(tx)
+  );
+  const allocations = await withCategoryNames(
+    await tx.filter<BudgetAllocation>(
+      STORES.budgetAllocations,
+      (allocation) => allocation.month === month
+    ),
+    tx
+  );
+
+  for (const { name, ...allocation } of allocations) {
+    const row = totals.find((total) => total.category === name);
+    const spent = row?.total || 0;
+    if (spent === allocation.spent) continue;
+    await putRecord(tx, 'budgetAllocations', {
+      ...allocation,
+      spent,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+};
+
+// Keeps the totals derived from the expenses store (monthly savings and
+// budget allocation spent) in line after every expense write.
+const refreshMonthTotals = async (tx: WebTransaction, month: string) => {
+  await writeMonthlyExpenses(tx, month);
+  await writeAllocationSpent(tx, month);
+};
+
+// Stored totals are in the base currency, so a new base currency or rate
+// means every month that has them must be recomputed.
+const refreshAllMonthTotals = async (tx: WebTransaction) => {
+  const savings = await tx.getAll<MonthlySavings>(STORES.monthlySavings);
+  const allocations = await tx.getAll<BudgetAllocation>(
+    STORES.budgetAllocations
+  );
+
+  for (const month of new Set(savings.map((record) => record.month))) {
+    await writeMonthlyExpenses(tx, month);
+  }
+  for (const month of new Set(
+    allocations.map((allocation) => allocation.month)
+  )) {
+    await writeAllocationSpent(tx, month);
+  }
+};
+
+// Moves the amounts typed in the old base currency to the new one; see
+// createBaseCurrencyConverter
+const convertBaseAmounts = async (
+  tx: WebTransaction,
+  from: string,
+  to: string
+) => {
+  const settings = await tx.get<FinancialSettings>(
+    STORES.financialSettings,
+    'default'
+  );
+  const savings = await tx.getAll<MonthlySavings>(STORES.monthlySavings);
+  const allocations = await tx.getAll<BudgetAllocation>(
+    STORES.budgetAllocations
+  );
+  const convert = createBaseCurrencyConverter(
+    await tx.getAll<ExchangeRate>(STORES.exchangeRates),
+    from,
+    to,
+    [
+      settings?.monthlyIncome,
+      settings?.savingsGoal,
+      settings?.currentSavings,
+      ...savings.flatMap((record) => [record.income, record.savingsGoal]),
+      ...allocations.map((allocation) => allocation.limit),
+    ]
+  );
+  const updatedAt = new Date().toISOString();
+
+  if (settings) {
+    await putRecord(tx, 'financialSettings', {
+      ...settings,
+      monthlyIncome: convert(settings.monthlyIncome),
+      savingsGoal: convert(settings.savingsGoal),
+      currentSavings: convert(settings.currentSavings || 0),
+      updatedAt,
+    });
+  }
+  for (const record of savings) {
+    await putRecord(tx, 'monthlySavings', {
+      ...record,
+      income: convert(record.income),
+      savingsGoal: convert(record.savingsGoal),
+      updatedAt,
+    });
+  }
+  for (const allocation of allocations) {
+    await putRecord(tx, 'budgetAllocations', {
+      ...allocation,
+      limit: convert(allocation.limit),
+      updatedAt,
+    });
+  }
+};
+
+// One budget per category and month, leaving out the trash
+const checkAllocationUnique = async (
+  tx: WebTransaction,
+  categoryId: string,
+  month: string
+) => {
+  const [duplicate] = await withCategoryNames(
+    await tx.filter<BudgetAllocation>(
+      STORES.budgetAllocations,
+      (other) =>
+        other.categoryId === categoryId &&
+        other.month === month &&
+        !other.deletedAt
+    ),
+    tx
+  );
+  if (duplicate) {
+    throw new Error(`${duplicate.name} already has a budget for ${month}`);
+  }
+};
+
+// A budget in the trash still holds its category and month, so it is purged
+// before another budget takes them
+const purgeTrashedAllocation = async (
+  tx: WebTransaction,
+  categoryId: string,
+  month: string
+) => {
+  const trashed = await tx.filter<BudgetAllocation>(
+    STORES.budgetAllocations,
+    (allocation) =>
+      allocation.categoryId === categoryId &&
+      allocation.month === month &&
+      !!allocation.deletedAt
+  );
+  for (const allocation of trashed) {
+    await deleteRecord(tx, 'budgetAllocations', allocation.id);
+  }
+};
+
+const deleteExpenseSplits = async (tx: WebTransaction, expenseId: string) => {
+  const splits = await tx.filter<ExpenseSplit>(
+    STORES.expenseSplits,
+    (split) => split.expenseId === expenseId
+  );
+  for (const split of splits) {
+    await deleteRecord(tx, 'expenseSplits', split.id);
+  }
+};
+
+const buildExpense = (id: string, expense: Omit<NewExpense, 'id'>): Expense => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    name: expense.name,
+    amount: expense.amount,
+    currency: expense.currency ?? DEFAULT_CURRENCY,
+    category: expense.category,
+    dueDate: expense.dueDate,
+    month: expense.month || getCurrentMonth(),
+    chargeDay: expense.chargeDay ?? null,
+    isPaid: expense.isPaid ?? false,
+    isRecurring: expense.isRecurring ?? false,
+    templateId: expense.templateId ?? null,
+    paidBy: expense.paidBy ?? null,
+    accountId: expense.accountId ?? null,
+    splitType: expense.splitType ?? null,
+    deletedAt: expense.deletedAt ?? null,
+    snoozedUntil: expense.snoozedUntil ?? null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Returns the expense before and after the update; month totals are left to
+// the caller
+const updateExpense = async (
+  tx: WebTransaction,
+  id: string,
+  updates: Partial<NewExpense>
+) => {
+  const previous = await tx.get<Expense>(STORES.expenses, id);
+  if (!previous) return { previous, updated: null };
+
+  const updated: Expense = {
+    ...previous,
+    ...updates,
+    updatedAt: new Date().toISOString(),
+  };
+  await putRecord(tx, 'expenses', updated);
+  // The payments made so far may cover a new amount, or no longer cover it
+  if (updates.amount !== undefined) {
+    const expensePayments = await readExpensePayments(tx, id);
+    if (expensePayments.length > 0) {
+      return { previous, updated: await refreshPaidStatus(tx, id) };
+    }
+  }
+  return { previous, updated };
+};
+
+const readExpensePayments = async (source: WebStoreReader, expenseId: string) =>
+  await source.filter<Payment>(
+    STORES.payments,
+    (payment) => payment.expenseId === expenseId
+  );
+
+// Marks the expense paid once its payments cover the amount, and unpaid when
+// they no longer do. Returns the expense as it is now.
+const refreshPaidStatus = async (
+  tx: WebTransaction,
+  expenseId: string
+): Promise<Expense | null> => {
+  const expense = await tx.get<Expense>(STORES.expenses, expenseId);
+  if (!expense) return null;
+  const isPaid = coversAmount(
+    expense.amount,
+    await readExpensePayments(tx, expenseId)
+  );
+  if (isPaid === expense.isPaid) return expense;
+  const { updated } = await updateExpense(tx, expenseId, { isPaid });
+  return updated;
+};
+
+const deleteExpensePayments = async (tx: WebTransaction, expenseId: string) => {
+  for (const payment of await readExpensePayments(tx, expenseId)) {
+    await deleteRecord(tx, 'payments', payment.id);
+  }
+};
+
+// Monthly Savings Services
+export const webMonthlySavingsService: MonthlySavingsRepository = {
+  async getByMonth(month: string) {
+    const result = await webDb.filter<MonthlySavings>(
+      STORES.monthlySavings,
+      (item) => item.month === month
+    );
+    return result[0] || null;
+  },
+
+  async getAll() {
+    const all = await webDb.getAll<MonthlySavings>(STORES.monthlySavings);
+    return all.sort((a, b) => b.month.localeCompare(a.month));
+  },
+
+  async create(data: Omit<NewMonthlySavings, 'id'>) {
+    const now = new Date().toISOString();
+    const newData: MonthlySavings = {
+      id: createId(),
+      month: data.month,
+      income: data.income,
+      totalExpenses: data.totalExpenses ?? 0,
+      totalSaved: data.totalSaved ?? 0,
+      savingsGoal: data.savingsGoal,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await webDb.transaction([STORES.monthlySavings, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'monthlySavings', newData)
+    );
+    return newData;
+  },
+
+  async update(month: string, updates: Partial<NewMonthlySavings>) {
+    const existing = await this.getByMonth(month);
+    if (!existing) return null;
+
+    const updated: MonthlySavings = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    await webDb.transaction([STORES.monthlySavings, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'monthlySavings', updated)
+    );
+    return updated;
+  },
+
+  async getOrCreateForMonth(month: string) {
+    return await webDb.transaction(
+      [STORES.monthlySavings, STORES.financialSettings, ...AUDIT_STORES],
+      (tx) => readSavingsRecord(tx, month)
+    );
+  },
+
+  async getSavingsByMonths(limit = 12) {
+    const all = await this.getAll();
+    return all.slice(0, limit);
+  },
+
+  async updateMonthlyExpenses(month: string) {
+    await webDb.transaction(EXPENSE_STORES, (tx) =>
+      writeMonthlyExpenses(tx, month)
+    );
+  },
+
+  async initializeCurrentMonth() {
+    const currentMonth = getCurrentMonth();
+    await this.getOrCreateForMonth(currentMonth);
+    return currentMonth;
+  },
+};
+
+// Member Services
+export const webMemberService: MemberRepository = {
+  async getAll() {
+    const members = await webDb.getAll<Member>(STORES.members);
+    return members.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async getById(id: string) {
+    return await webDb.get<Member>(STORES.members, id);
+  },
+
+  async create(member: Omit<NewMember, 'id'>) {
+    const now = new Date().toISOString();
+    const newMember: Member = {
+      id: createId(),
+      name: member.name.trim(),
+      isActive: member.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await webDb.transaction([STORES.members, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'members', newMember)
+    );
+    return newMember;
+  },
+
+  async update(id: string, updates: Partial<NewMember>) {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const updated: Member = {
+      ...existing,
+      ...updates,
+      name: (updates.name ?? existing.name).trim(),
+      updatedAt: new Date().toISOString(),
+    };
+    await webDb.transaction([STORES.members, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'members', updated)
+    );
+    return updated;
+  },
+
+  async delete(id: string) {
+    const paidEntities = [
+      'expenses',
+      'recurringExpenses',
+      'groceryLists',
+    ] as const;
+    const stores = [
+      ...paidEntities.map((entity) => STORES[entity]),
+      STORES.expenseSplits,
+      STORES.settlements,
+      STORES.members,
+      ...AUDIT_STORES,
+    ];
+    await webDb.transaction(stores, async (tx) => {
+      const member = await tx.get<Member>(STORES.members, id);
+      if (!member) return;
+      // A member in the balances is never deleted, as that would change
+      // everyone else's
+      const splits = await tx.filter<ExpenseSplit>(
+        STORES.expenseSplits,
+        (split) => split.memberId === id
+      );
+      const memberSettlements = await tx.filter<Settlement>(
+        STORES.settlements,
+        (settlement) =>
+          settlement.fromMemberId === id || settlement.toMemberId === id
+      );
+      const sharedPaid = await tx.filter<Expense>(
+        STORES.expenses,
+        (expense) => expense.paidBy === id && !!expense.splitType
+      );
+      if (splits.length + memberSettlements.length + sharedPaid.length > 0) {
+        throw new Error(
+          `${member.name} shares expenses or settlements; deactivate them instead`
+        );
+      }
+
+      for (const entity of paidEntities) {
+        const paid = await tx.filter<{ paidBy?: string | null }>(
+          STORES[entity],
+          (record) => record.paidBy === id
+        );
+        for (const record of paid) {
+          await putRecord(tx, entity, { ...record, paidBy: null });
+        }
+      }
+      const [device] = await tx.getAll<SyncDevice>(STORES.syncDevice);
+      if (device?.memberId === id) {
+        await tx.put(STORES.syncDevice, { ...device, memberId: null });
+      }
+      await deleteRecord(tx, 'members', id);
+    });
+  },
+};
 
 // Expense Services
-export const webExpenseService = {
+export const webExpenseService: ExpenseRepository = {
   async getAll() {
-    const expenses = await webDb.getAll<Expense>(STORES.expenses);
+    const expenses = await webDb.filter<Expense>(
+      STORES.expenses,
+      (expense) => !expense.deletedAt
+    );
     return expenses.sort(
       (a, b) =>
         new Date(b.createdAt || '').getTime() -
@@ -26,113 +720,927 @@ export const webExpenseService = {
     );
   },
 
+  async getByMonth(month?: string) {
+    const targetMonth = month || getCurrentMonth();
+    const expenses = await readMonthExpenses(webDb, targetMonth);
+    return expenses.sort(
+      (a, b) =>
+        new Date(b.createdAt || '').getTime() -
+        new Date(a.createdAt || '').getTime()
+    );
+  },
+
+  async getByDueDateRange(from: string, to: string) {
+    const expenses = await webDb.getAllByIndex<Expense>(
+      STORES.expenses,
+      INDEXES.expensesDueDate,
+      IDBKeyRange.bound(from, to)
+    );
+    return expenses.filter((expense) => !expense.deletedAt);
+  },
+
+  // IndexedDB cannot index a boolean, so the paid ones are left out after
+  // the due date index is read
+  async getUnpaidDueBefore(date: string) {
+    const expenses = await webDb.getAllByIndex<Expense>(
+      STORES.expenses,
+      INDEXES.expensesDueDate,
+      IDBKeyRange.upperBound(date, true)
+    );
+    return expenses.filter((expense) => !expense.isPaid && !expense.deletedAt);
+  },
+
   async getById(id: string) {
     return await webDb.get<Expense>(STORES.expenses, id);
   },
 
   async create(expense: Omit<NewExpense, 'id'>) {
-    const id = Date.now().toString();
+    const newExpense = buildExpense(createId(), expense);
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      await putRecord(tx, 'expenses', newExpense);
+      await refreshMonthTotals(tx, newExpense.month);
+    });
+    return newExpense;
+  },
+
+  async createMany(rows: Omit<NewExpense, 'id'>[]) {
+    const created = rows.map((expense) => buildExpense(createId(), expense));
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      for (const expense of created) {
+        await putRecord(tx, 'expenses', expense);
+      }
+      for (const month of new Set(created.map((expense) => expense.month))) {
+        await refreshMonthTotals(tx, month);
+      }
+    });
+    return created;
+  },
+
+  async update(id: string, updates: Partial<NewExpense>) {
+    return await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      const { previous, updated } = await updateExpense(tx, id, updates);
+      if (!previous || !updated) return null;
+
+      await refreshMonthTotals(tx, previous.month);
+      // Moving an expense to another month changes that month's totals too
+      if (updated.month !== previous.month) {
+        await refreshMonthTotals(tx, updated.month);
+      }
+      return updated;
+    });
+  },
+
+  // The splits stay with a trashed expense, so a restore brings them back
+  async delete(id: string) {
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      const { updated } = await updateExpense(tx, id, {
+        deletedAt: new Date().toISOString(),
+      });
+      if (updated) {
+        await refreshMonthTotals(tx, updated.month);
+      }
+    });
+  },
+
+  async restore(id: string) {
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      const { updated } = await updateExpense(tx, id, { deletedAt: null });
+      if (updated) {
+        await refreshMonthTotals(tx, updated.month);
+      }
+    });
+  },
+
+  async purge(id: string) {
+    const stores = [...EXPENSE_STORES, STORES.expenseSplits];
+    await webDb.transaction(stores, async (tx) => {
+      const expense = await tx.get<Expense>(STORES.expenses, id);
+      await deleteExpenseSplits(tx, id);
+      await deleteExpensePayments(tx, id);
+      await deleteRecord(tx, 'expenses', id);
+      if (expense) {
+        await refreshMonthTotals(tx, expense.month);
+      }
+    });
+  },
+
+  async getDeleted() {
+    const expenses = await webDb.filter<Expense>(
+      STORES.expenses,
+      (expense) => !!expense.deletedAt
+    );
+    return expenses.sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+  },
+
+  async getByTemplateId(templateId: string) {
+    const expenses = await webDb.filter<Expense>(
+      STORES.expenses,
+      (expense) => expense.templateId === templateId && !expense.deletedAt
+    );
+    return expenses.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  },
+
+  async getRecurringExpenses() {
+    return await webDb.filter<Expense>(
+      STORES.expenses,
+      (expense) => expense.isRecurring === true && !expense.deletedAt
+    );
+  },
+
+  async getTotalMonthlyExpenses(month?: string) {
+    const monthExpenses = await this.getByMonth(month);
+    return sumConverted(monthExpenses, await loadConverter());
+  },
+
+  async getTotalMonthlyPaid(month?: string) {
+    const targetMonth = month || getCurrentMonth();
+    return sumConverted(
+      await readMonthPaidAmounts(webDb, targetMonth),
+      await loadConverter()
+    );
+  },
+};
+
+// Expense Split Services
+export const webExpenseSplitService: ExpenseSplitRepository = {
+  async getAll() {
+    return await webDb.getAll<ExpenseSplit>(STORES.expenseSplits);
+  },
+
+  async getByExpenseId(expenseId: string) {
+    return await webDb.filter<ExpenseSplit>(
+      STORES.expenseSplits,
+      (split) => split.expenseId === expenseId
+    );
+  },
+
+  async set(expenseId: string, split: ExpenseSplitInput | null) {
+    const expense = await webExpenseService.getById(expenseId);
+    if (!expense) {
+      throw new Error('Expense not found');
+    }
+    if (split) {
+      validateSplit(expense.amount, split);
+    }
+
     const now = new Date().toISOString();
-    const newExpense: Expense = {
-      id,
-      name: expense.name,
-      amount: expense.amount,
-      category: expense.category,
-      dueDate: expense.dueDate,
-      isPaid: expense.isPaid ?? false,
-      isRecurring: expense.isRecurring ?? false,
+    await webDb.transaction(
+      [STORES.expenses, STORES.expenseSplits, ...AUDIT_STORES],
+      async (tx) => {
+        await deleteExpenseSplits(tx, expenseId);
+        for (const share of split?.shares ?? []) {
+          const newSplit: ExpenseSplit = {
+            id: createId(),
+            expenseId,
+            memberId: share.memberId,
+            value: split?.type === 'equal' ? null : share.value,
+            createdAt: now,
+            updatedAt: now,
+          };
+          await putRecord(tx, 'expenseSplits', newSplit);
+        }
+        await putRecord(tx, 'expenses', {
+          ...expense,
+          splitType: split?.type ?? null,
+          updatedAt: now,
+        });
+      }
+    );
+  },
+};
+
+// Payment Services
+const byPaymentDate = (a: Payment, b: Payment) =>
+  a.date.localeCompare(b.date) ||
+  (a.createdAt || '').localeCompare(b.createdAt || '');
+
+export const webPaymentService: PaymentRepository = {
+  async getAll() {
+    const all = await webDb.getAll<Payment>(STORES.payments);
+    return all.sort(byPaymentDate);
+  },
+
+  async getByExpenseId(expenseId: string) {
+    const expensePayments = await readExpensePayments(webDb, expenseId);
+    return expensePayments.sort(byPaymentDate);
+  },
+
+  async create(payment: Omit<NewPayment, 'id'>) {
+    const now = new Date().toISOString();
+    const created: Payment = {
+      id: createId(),
+      expenseId: payment.expenseId,
+      amount: payment.amount,
+      date: payment.date,
+      method: payment.method ?? null,
+      note: payment.note ?? null,
       createdAt: now,
       updatedAt: now,
     };
-    await webDb.put(STORES.expenses, newExpense);
-    return newExpense;
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      await putRecord(tx, 'payments', created);
+      await refreshPaidStatus(tx, created.expenseId);
+    });
+    return created;
   },
 
-  async update(id: string, updates: Partial<NewExpense>) {
-    const existing = await webDb.get<Expense>(STORES.expenses, id);
+  async update(
+    id: string,
+    updates: Partial<Omit<NewPayment, 'id' | 'expenseId'>>
+  ) {
+    return await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      const existing = await tx.get<Payment>(STORES.payments, id);
+      if (!existing) return null;
+      const updated: Payment = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      await putRecord(tx, 'payments', updated);
+      await refreshPaidStatus(tx, updated.expenseId);
+      return updated;
+    });
+  },
+
+  async delete(id: string) {
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      const payment = await tx.get<Payment>(STORES.payments, id);
+      await deleteRecord(tx, 'payments', id);
+      if (payment) {
+        await refreshPaidStatus(tx, payment.expenseId);
+      }
+    });
+  },
+};
+
+// Settlement Services
+export const webSettlementService: SettlementRepository = {
+  async getAll() {
+    const all = await webDb.getAll<Settlement>(STORES.settlements);
+    return all.sort(
+      (a, b) =>
+        b.date.localeCompare(a.date) ||
+        (b.createdAt || '').localeCompare(a.createdAt || '')
+    );
+  },
+
+  async create(settlement: Omit<NewSettlement, 'id'>) {
+    const [created] = await this.createMany([settlement]);
+    return created || null;
+  },
+
+  async createMany(rows: Omit<NewSettlement, 'id'>[]) {
+    const now = new Date().toISOString();
+    const created = rows.map(
+      (settlement): Settlement => ({
+        id: createId(),
+        fromMemberId: settlement.fromMemberId,
+        toMemberId: settlement.toMemberId,
+        amount: settlement.amount,
+        currency: settlement.currency ?? DEFAULT_CURRENCY,
+        date: settlement.date,
+        note: settlement.note ?? null,
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+    await webDb.transaction(
+      [STORES.settlements, ...AUDIT_STORES],
+      async (tx) => {
+        for (const settlement of created) {
+          await putRecord(tx, 'settlements', settlement);
+        }
+      }
+    );
+    return created;
+  },
+
+  async delete(id: string) {
+    await webDb.transaction([STORES.settlements, ...AUDIT_STORES], (tx) =>
+      deleteRecord(tx, 'settlements', id)
+    );
+  },
+};
+
+// Account Services
+export const webAccountService: AccountRepository = {
+  async getAll() {
+    const all = await webDb.getAll<Account>(STORES.accounts);
+    return all.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async getById(id: string) {
+    return await webDb.get<Account>(STORES.accounts, id);
+  },
+
+  async create(account: Omit<NewAccount, 'id'>) {
+    const now = new Date().toISOString();
+    const newAccount: Account = {
+      id: createId(),
+      name: account.name.trim(),
+      type: account.type,
+      currency: account.currency ?? DEFAULT_CURRENCY,
+      openingBalance: account.openingBalance ?? 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await webDb.transaction([STORES.accounts, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'accounts', newAccount)
+    );
+    return newAccount;
+  },
+
+  async update(id: string, updates: Partial<NewAccount>) {
+    const existing = await this.getById(id);
     if (!existing) return null;
 
-    const updated: Expense = {
+    const updated: Account = {
       ...existing,
       ...updates,
+      name: (updates.name ?? existing.name).trim(),
       updatedAt: new Date().toISOString(),
     };
-    await webDb.put(STORES.expenses, updated);
+    await webDb.transaction([STORES.accounts, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'accounts', updated)
+    );
     return updated;
   },
 
   async delete(id: string) {
-    await webDb.delete(STORES.expenses, id);
+    const linkedEntities = [
+      'expenses',
+      'recurringExpenses',
+      'incomes',
+    ] as const;
+    const stores = [
+      ...linkedEntities.map((entity) => STORES[entity]),
+      STORES.accountTransfers,
+      STORES.financialSettings,
+      STORES.accounts,
+      ...AUDIT_STORES,
+    ];
+    await webDb.transaction(stores, async (tx) => {
+      for (const entity of linkedEntities) {
+        const linked = await tx.filter<{ accountId?: string | null }>(
+          STORES[entity],
+          (record) => record.accountId === id
+        );
+        for (const record of linked) {
+          await putRecord(tx, entity, { ...record, accountId: null });
+        }
+      }
+      const transfers = await tx.filter<AccountTransfer>(
+        STORES.accountTransfers,
+        (transfer) =>
+          transfer.fromAccountId === id || transfer.toAccountId === id
+      );
+      for (const transfer of transfers) {
+        await deleteRecord(tx, 'accountTransfers', transfer.id);
+      }
+      const settings = await tx.get<FinancialSettings>(
+        STORES.financialSettings,
+        'default'
+      );
+      if (settings?.savingsAccountId === id) {
+        await putRecord(tx, 'financialSettings', {
+          ...settings,
+          savingsAccountId: null,
+        });
+      }
+      await deleteRecord(tx, 'accounts', id);
+    });
   },
 
-  async getRecurringExpenses() {
-    return await webDb.filter<Expense>(
-      STORES.expenses,
-      (expense) => expense.isRecurring === true
+  async getBalances() {
+    return getBalances(await readAccountActivity());
+  },
+
+  async getLedger(id: string) {
+    const activity = await readAccountActivity();
+    const account = activity.accounts.find((candidate) => candidate.id === id);
+    return account ? getLedger(account, activity) : [];
+  },
+};
+
+// Income Services
+export const webIncomeService: IncomeRepository = {
+  async getAll() {
+    const all = await webDb.getAll<Income>(STORES.incomes);
+    return all.sort(byDateDescending);
+  },
+
+  // Served by the date index
+  async getByMonth(month?: string) {
+    const targetMonth = month || getCurrentMonth();
+    const monthIncomes = await webDb.getAllByIndex<Income>(
+      STORES.incomes,
+      INDEXES.incomesDate,
+      IDBKeyRange.bound(`${targetMonth}-01`, `${targetMonth}-31`)
+    );
+    return monthIncomes.sort(byDateDescending);
+  },
+
+  async create(income: Omit<NewIncome, 'id'>) {
+    const now = new Date().toISOString();
+    const created: Income = {
+      id: createId(),
+      name: income.name.trim(),
+      amount: income.amount,
+      currency: income.currency ?? DEFAULT_CURRENCY,
+      date: income.date,
+      accountId: income.accountId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await webDb.transaction([STORES.incomes, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'incomes', created)
+    );
+    return created;
+  },
+
+  async update(id: string, updates: Partial<NewIncome>) {
+    return await webDb.transaction(
+      [STORES.incomes, ...AUDIT_STORES],
+      async (tx) => {
+        const existing = await tx.get<Income>(STORES.incomes, id);
+        if (!existing) return null;
+        const updated: Income = {
+          ...existing,
+          ...updates,
+          name: (updates.name ?? existing.name).trim(),
+          updatedAt: new Date().toISOString(),
+        };
+        await putRecord(tx, 'incomes', updated);
+        return updated;
+      }
     );
   },
 
-  async getTotalMonthlyExpenses() {
-    const recurringExpenses = await this.getRecurringExpenses();
-    return recurringExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+  async delete(id: string) {
+    await webDb.transaction([STORES.incomes, ...AUDIT_STORES], (tx) =>
+      deleteRecord(tx, 'incomes', id)
+    );
   },
 };
 
-// Budget Category Services
-export const webBudgetCategoryService = {
+// Account Transfer Services
+export const webAccountTransferService: AccountTransferRepository = {
   async getAll() {
-    const categories = await webDb.getAll<BudgetCategory>(
-      STORES.budgetCategories
+    const all = await webDb.getAll<AccountTransfer>(STORES.accountTransfers);
+    return all.sort(byDateDescending);
+  },
+
+  async create(transfer: Omit<NewAccountTransfer, 'id'>) {
+    validateTransfer(transfer);
+    const now = new Date().toISOString();
+    const created: AccountTransfer = {
+      id: createId(),
+      fromAccountId: transfer.fromAccountId,
+      toAccountId: transfer.toAccountId,
+      amount: transfer.amount,
+      toAmount: transfer.toAmount ?? null,
+      date: transfer.date,
+      note: transfer.note ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await webDb.transaction([STORES.accountTransfers, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'accountTransfers', created)
     );
-    return categories.sort((a, b) => a.name.localeCompare(b.name));
+    return created;
+  },
+
+  async delete(id: string) {
+    await webDb.transaction([STORES.accountTransfers, ...AUDIT_STORES], (tx) =>
+      deleteRecord(tx, 'accountTransfers', id)
+    );
+  },
+};
+
+// Recurring Expense Template Services
+export const webRecurringExpenseService: RecurringExpenseRepository = {
+  async getAll() {
+    const templates = await webDb.getAll<RecurringExpense>(
+      STORES.recurringExpenses
+    );
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
   },
 
   async getById(id: string) {
-    return await webDb.get<BudgetCategory>(STORES.budgetCategories, id);
+    return await webDb.get<RecurringExpense>(STORES.recurringExpenses, id);
   },
 
-  async create(category: Omit<NewBudgetCategory, 'id'>) {
-    const id = category.name.toLowerCase().replace(/\s+/g, '_');
+  async create(template: Omit<NewRecurringExpense, 'id'>) {
+    const id = createId();
     const now = new Date().toISOString();
-    const newCategory: BudgetCategory = {
-      ...category,
+    const newTemplate: RecurringExpense = {
       id,
+      name: template.name,
+      amount: template.amount,
+      currency: template.currency ?? DEFAULT_CURRENCY,
+      category: template.category,
+      frequency: template.frequency,
+      dayOfMonth: template.dayOfMonth ?? null,
+      startDate: template.startDate,
+      endDate: template.endDate ?? null,
+      paidBy: template.paidBy ?? null,
+      accountId: template.accountId ?? null,
+      isActive: template.isActive ?? true,
       createdAt: now,
       updatedAt: now,
     };
-    await webDb.put(STORES.budgetCategories, newCategory);
-    return newCategory;
+    await webDb.transaction([STORES.recurringExpenses, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'recurringExpenses', newTemplate)
+    );
+    return newTemplate;
   },
 
-  async update(id: string, updates: Partial<NewBudgetCategory>) {
-    const existing = await webDb.get<BudgetCategory>(
-      STORES.budgetCategories,
-      id
+  async update(
+    id: string,
+    updates: Partial<NewRecurringExpense>,
+    options: RecurringExpenseUpdateOptions = {}
+  ) {
+    return await webDb.transaction(
+      [...EXPENSE_STORES, STORES.recurringExpenses],
+      async (tx) => {
+        const existing = await tx.get<RecurringExpense>(
+          STORES.recurringExpenses,
+          id
+        );
+        if (!existing) return null;
+
+        const template: RecurringExpense = {
+          ...existing,
+          ...updates,
+          updatedAt: new Date().toISOString(),
+        };
+        await putRecord(tx, 'recurringExpenses', template);
+
+        const fromMonth = options.applyToUnpaidFrom;
+        if (fromMonth) {
+          const instances = await tx.filter<Expense>(
+            STORES.expenses,
+            (expense) => expense.templateId === id
+          );
+          const changedMonths = new Set<string>();
+          for (const instance of instances) {
+            if (instance.isPaid || instance.month < fromMonth) continue;
+            const { updated } = await updateExpense(
+              tx,
+              instance.id,
+              getInstanceUpdates(template, instance)
+            );
+            changedMonths.add(instance.month);
+            if (updated) changedMonths.add(updated.month);
+          }
+          for (const month of changedMonths) {
+            await refreshMonthTotals(tx, month);
+          }
+        }
+        return template;
+      }
+    );
+  },
+
+  async delete(id: string) {
+    await webDb.transaction(
+      [STORES.expenses, STORES.recurringExpenses, ...AUDIT_STORES],
+      async (tx) => {
+        // Generated expenses stay, they just lose the link to the template
+        const instances = await tx.filter<Expense>(
+          STORES.expenses,
+          (expense) => expense.templateId === id
+        );
+        for (const instance of instances) {
+          await putRecord(tx, 'expenses', {
+            ...instance,
+            templateId: null,
+          });
+        }
+        await deleteRecord(tx, 'recurringExpenses', id);
+      }
+    );
+  },
+
+  async generateForMonth(month: string) {
+    return await webDb.transaction(
+      [...EXPENSE_STORES, STORES.recurringExpenses, STORES.categorizationRules],
+      async (tx) => {
+        const templates = await tx.getAll<RecurringExpense>(
+          STORES.recurringExpenses
+        );
+        templates.sort((a, b) => a.name.localeCompare(b.name));
+        // Trashed instances count as generated, so deleting one is not
+        // undone by the next generation
+        const monthExpenses = await tx.filter<Expense>(
+          STORES.expenses,
+          (expense) => expense.month === month
+        );
+        const rules = sortRules(
+          await tx.getAll<CategorizationRule>(STORES.categorizationRules)
+        );
+
+        const created: Expense[] = [];
+        for (const template of templates) {
+          if (template.isActive === false) continue;
+          for (const dueDate of getMissingOccurrences(
+            template,
+            month,
+            monthExpenses
+          )) {
+            const instance = buildInstance(template, dueDate);
+            // Rules may recategorize an instance; it stays recurring either way
+            const result = categorize(rules, instance);
+            const expense = buildExpense(
+              createId(),
+              result ? { ...instance, category: result.category } : instance
+            );
+            await putRecord(tx, 'expenses', expense);
+            created.push(expense);
+          }
+        }
+        if (created.length > 0) {
+          await refreshMonthTotals(tx, month);
+        }
+        return created;
+      }
     );
+  },
+};
+
+// Category Services
+export const webCategoryService: CategoryRepository = {
+  async getAll() {
+    const categories = await webDb.getAll<Category>(STORES.categories);
+    return categories.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async getById(id: string) {
+    return await webDb.get<Category>(STORES.categories, id);
+  },
+
+  // Case-insensitive, so "housing" finds "Housing"
+  async getByName(name: string) {
+    const target = name.trim().toLowerCase();
+    const matches = await webDb.filter<Category>(
+      STORES.categories,
+      (category) => category.name.toLowerCase() === target
+    );
+    return matches[0] || null;
+  },
+
+  async getOrCreate(name: string) {
+    return await webDb.transaction(
+      [STORES.categories, ...AUDIT_STORES],
+      async (tx) => {
+        const target = name.trim().toLowerCase();
+        const [existing] = await tx.filter<Category>(
+          STORES.categories,
+          (category) => category.name.toLowerCase() === target
+        );
+        if (existing) return existing;
+
+        const now = new Date().toISOString();
+        const category: Category = {
+          id: createId(),
+          name: name.trim(),
+          reminderDays: DEFAULT_REMINDER_DAYS,
+          createdAt: now,
+          updatedAt: now,
+        };
+        await putRecord(tx, 'categories', category);
+        return category;
+      }
+    );
+  },
+
+  async update(id: string, updates: Partial<NewCategory>) {
+    const existing = await this.getById(id);
     if (!existing) return null;
 
-    const updated: BudgetCategory = {
+    const updated: Category = {
       ...existing,
       ...updates,
       updatedAt: new Date().toISOString(),
     };
-    await webDb.put(STORES.budgetCategories, updated);
+    await webDb.transaction([STORES.categories, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'categories', updated)
+    );
     return updated;
   },
+};
+
+// Budget Allocation Services
+const withCategoryNames = async (
+  allocations: BudgetAllocation[],
+  source: WebStoreReader = webDb
+): Promise<BudgetAllocationWithCategory[]> => {
+  const categories = await source.getAll<Category>(STORES.categories);
+  const names = new Map(
+    categories.map((category) => [category.id, category.name])
+  );
+  return allocations
+    .filter((allocation) => names.has(allocation.categoryId))
+    .map((allocation) => ({
+      ...allocation,
+      name: names.get(allocation.categoryId)!,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const setAllocationDeletedAt = async (id: string, deletedAt: string | null) => {
+  await webDb.transaction(
+    [STORES.budgetAllocations, ...AUDIT_STORES],
+    async (tx) => {
+      const existing = await tx.get<BudgetAllocation>(
+        STORES.budgetAllocations,
+        id
+      );
+      if (!existing) return;
+      await putRecord(tx, 'budgetAllocations', {
+        ...existing,
+        deletedAt,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  );
+};
+
+export const webBudgetAllocationService: BudgetAllocationRepository = {
+  async getAll() {
+    const allocations = await withCategoryNames(
+      await webDb.filter<BudgetAllocation>(
+        STORES.budgetAllocations,
+        (allocation) => !allocation.deletedAt
+      )
+    );
+    return allocations.sort((a, b) => a.month.localeCompare(b.month));
+  },
+
+  async getByMonth(month?: string) {
+    const targetMonth = month || getCurrentMonth();
+    return await withCategoryNames(
+      await webDb.filter<BudgetAllocation>(
+        STORES.budgetAllocations,
+        (allocation) =>
+          allocation.month === targetMonth && !allocation.deletedAt
+      )
+    );
+  },
 
+  async getById(id: string) {
+    const allocation = await webDb.get<BudgetAllocation>(
+      STORES.budgetAllocations,
+      id
+    );
+    if (!allocation) return null;
+    const [result] = await withCategoryNames([allocation]);
+    return result || null;
+  },
+
+  async create(allocation: Omit<NewBudgetAllocation, 'id'>) {
+    const month = allocation.month || getCurrentMonth();
+    const id = `${allocation.categoryId}_${month}`;
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      await checkAllocationUnique(tx, allocation.categoryId, month);
+      await purgeTrashedAllocation(tx, allocation.categoryId, month);
+
+      const now = new Date().toISOString();
+      await putRecord(tx, 'budgetAllocations', {
+        id,
+        categoryId: allocation.categoryId,
+        month,
+        limit: allocation.limit,
+        spent: allocation.spent ?? 0,
+        deletedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await writeAllocationSpent(tx, month);
+    });
+    return await this.getById(id);
+  },
+
+  // Ids are `${categoryId}_${month}`, so a budget moved to another category
+  // or month is replaced by one with the new id
+  async update(id: string, updates: Partial<NewBudgetAllocation>) {
+    const updatedId = await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      const existing = await tx.get<BudgetAllocation>(
+        STORES.budgetAllocations,
+        id
+      );
+      if (!existing) return null;
+
+      const updated: BudgetAllocation = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      if (
+        updated.categoryId === existing.categoryId &&
+        updated.month === existing.month
+      ) {
+        await putRecord(tx, 'budgetAllocations', updated);
+        return id;
+      }
+
+      await checkAllocationUnique(tx, updated.categoryId, updated.month);
+      await purgeTrashedAllocation(tx, updated.categoryId, updated.month);
+      const movedId = `${updated.categoryId}_${updated.month}`;
+      await deleteRecord(tx, 'budgetAllocations', id);
+      await putRecord(tx, 'budgetAllocations', { ...updated, id: movedId });
+      // Another category matches a different set of expenses
+      await writeAllocationSpent(tx, updated.month);
+      return movedId;
+    });
+    return updatedId ? await this.getById(updatedId) : null;
+  },
+
+  // Spent is still kept up to date in the trash, so a restored budget is
+  // right straight away
   async delete(id: string) {
-    await webDb.delete(STORES.budgetCategories, id);
+    await setAllocationDeletedAt(id, new Date().toISOString());
+  },
+
+  async restore(id: string) {
+    await setAllocationDeletedAt(id, null);
+  },
+
+  async purge(id: string) {
+    await webDb.transaction([STORES.budgetAllocations, ...AUDIT_STORES], (tx) =>
+      deleteRecord(tx, 'budgetAllocations', id)
+    );
+  },
+
+  async getDeleted() {
+    const allocations = await withCategoryNames(
+      await webDb.filter<BudgetAllocation>(
+        STORES.budgetAllocations,
+        (allocation) => !!allocation.deletedAt
+      )
+    );
+    return allocations.sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
   },
 
   async updateSpent(id: string, amount: number) {
-    return await this.update(id, { spent: amount });
+    await this.update(id, { spent: amount });
+  },
+
+  async recalculateSpent(month: string) {
+    await webDb.transaction(EXPENSE_STORES, (tx) =>
+      writeAllocationSpent(tx, month)
+    );
+  },
+
+  async createMonthlyBudgets(month: string, previousMonth?: string) {
+    if (!previousMonth) return;
+
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      const allocations = await tx.getAll<BudgetAllocation>(
+        STORES.budgetAllocations
+      );
+      // A trashed budget keeps its category out of the new month
+      const existing = allocations.filter(
+        (allocation) => allocation.month === month
+      );
+
+      let created = 0;
+      for (const allocation of allocations) {
+        if (allocation.month !== previousMonth || allocation.deletedAt)
+          continue;
+        const exists = existing.some(
+          (other) => other.categoryId === allocation.categoryId
+        );
+
+        if (!exists) {
+          const now = new Date().toISOString();
+          await putRecord(tx, 'budgetAllocations', {
+            id: `${allocation.categoryId}_${month}`,
+            categoryId: allocation.categoryId,
+            month,
+            limit: allocation.limit,
+            spent: 0,
+            deletedAt: null,
+            createdAt: now,
+            updatedAt: now,
+          });
+          created++;
+        }
+      }
+      if (created > 0) {
+        await writeAllocationSpent(tx, month);
+      }
+    });
   },
 };
 
 // Grocery List Services
-export const webGroceryListService = {
+export const webGroceryListService: GroceryListRepository = {
   async getAll() {
-    const lists = await webDb.getAll<GroceryList>(STORES.groceryLists);
+    const lists = await webDb.filter<GroceryList>(
+      STORES.groceryLists,
+      (list) => !list.deletedAt
+    );
 
     // Get items for each list
     const listsWithItems = await Promise.all(
@@ -158,16 +1666,22 @@ export const webGroceryListService = {
   },
 
   async create(list: Omit<NewGroceryList, 'id'>) {
-    const id = Date.now().toString();
+    const id = createId();
     const now = new Date().toISOString();
     const newList: GroceryList = {
-      ...list,
       id,
+      name: list.name,
+      totalCost: list.totalCost ?? 0,
+      currency: list.currency ?? DEFAULT_CURRENCY,
+      paidBy: list.paidBy ?? null,
+      deletedAt: null,
       createdAt: now,
       updatedAt: now,
     };
-    await webDb.put(STORES.groceryLists, newList);
-    return newList;
+    await webDb.transaction([STORES.groceryLists, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'groceryLists', newList)
+    );
+    return { ...newList, items: [] };
   },
 
   async update(id: string, updates: Partial<NewGroceryList>) {
@@ -179,23 +1693,209 @@ export const webGroceryListService = {
       ...updates,
       updatedAt: new Date().toISOString(),
     };
-    await webDb.put(STORES.groceryLists, updated);
-    return updated;
+    await webDb.transaction([STORES.groceryLists, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'groceryLists', updated)
+    );
+    return await this.getById(id);
   },
 
+  // Items stay with a trashed list, so a restore brings them back
   async delete(id: string) {
-    await webDb.delete(STORES.groceryLists, id);
+    await this.update(id, { deletedAt: new Date().toISOString() });
+  },
+
+  async restore(id: string) {
+    await this.update(id, { deletedAt: null });
+  },
+
+  // Items and their price history go with the list, as on native
+  async purge(id: string) {
+    await webDb.transaction(GROCERY_STORES, async (tx) => {
+      const items = await tx.filter<GroceryItem>(
+        STORES.groceryItems,
+        (item) => item.listId === id
+      );
+      for (const item of items) {
+        const history = await tx.filter<PriceHistory>(
+          STORES.priceHistory,
+          (entry) => entry.itemId === item.id
+        );
+        for (const entry of history) {
+          await deleteRecord(tx, 'priceHistory', entry.id);
+        }
+        await deleteRecord(tx, 'groceryItems', item.id);
+      }
+      await deleteRecord(tx, 'groceryLists', id);
+    });
+  },
+
+  async getDeleted() {
+    const lists = await webDb.filter<GroceryList>(
+      STORES.groceryLists,
+      (list) => !!list.deletedAt
+    );
+    return lists.sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
   },
 
   async updateTotalCost(id: string) {
-    const items = await webGroceryItemService.getByListId(id);
-    const totalCost = items.reduce((sum, item) => sum + item.totalCost, 0);
-    await this.update(id, { totalCost });
+    await webDb.transaction(GROCERY_STORES, (tx) => writeListTotal(tx, id));
   },
+
+  async createWithItems(
+    list: Omit<NewGroceryList, 'id' | 'totalCost'>,
+    items: GroceryItemDraft[]
+  ) {
+    const id = createId();
+    const now = new Date().toISOString();
+    const newList: GroceryList = {
+      id,
+      name: list.name,
+      totalCost: getListTotal(items),
+      currency: list.currency ?? DEFAULT_CURRENCY,
+      paidBy: list.paidBy ?? null,
+      deletedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await webDb.transaction(GROCERY_STORES, async (tx) => {
+      await putRecord(tx, 'groceryLists', newList);
+      for (const item of items) {
+        await insertGroceryItem(tx, buildGroceryItem(createId(), id, item));
+      }
+    });
+
+    return await this.getById(id);
+  },
+
+  async updateWithItems(
+    id: string,
+    updates: Partial<NewGroceryList>,
+    items: GroceryItemDraft[]
+  ) {
+    const now = new Date().toISOString();
+
+    const found = await webDb.transaction(GROCERY_STORES, async (tx) => {
+      const list = await tx.get<GroceryList>(STORES.groceryLists, id);
+      if (!list) return false;
+
+      const existing = await tx.filter<GroceryItem>(
+        STORES.groceryItems,
+        (item) => item.listId === id
+      );
+      const changes = diffGroceryItems(existing, items);
+      const existingById = new Map(existing.map((item) => [item.id, item]));
+
+      const removedIds = new Set(changes.removed);
+      const removedHistory = await tx.filter<PriceHistory>(
+        STORES.priceHistory,
+        (entry) => entry.itemId !== null && removedIds.has(entry.itemId)
+      );
+      for (const entry of removedHistory) {
+        await deleteRecord(tx, 'priceHistory', entry.id);
+      }
+      for (const itemId of changes.removed) {
+        await deleteRecord(tx, 'groceryItems', itemId);
+      }
+
+      for (const change of changes.updated) {
+        const item = existingById.get(change.id)!;
+        await putRecord(tx, 'groceryItems', {
+          ...item,
+          ...change.updates,
+          updatedAt: now,
+        });
+        if (change.priceChanged) {
+          await putRecord(
+            tx,
+            'priceHistory',
+            buildPriceHistory(change.id, change.updates.pricePerUnit!)
+          );
+        }
+      }
+
+      for (const item of changes.added) {
+        await insertGroceryItem(tx, buildGroceryItem(createId(), id, item));
+      }
+
+      await putRecord(tx, 'groceryLists', {
+        ...list,
+        ...updates,
+        totalCost: getListTotal(items),
+        updatedAt: now,
+      });
+      return true;
+    });
+
+    return found ? await this.getById(id) : null;
+  },
+};
+
+const GROCERY_STORES = [
+  ...AUDIT_STORES,
+  STORES.groceryLists,
+  STORES.groceryItems,
+  STORES.priceHistory,
+];
+
+const buildGroceryItem = (
+  id: string,
+  listId: string | null,
+  item: Omit<NewGroceryItem, 'id' | 'listId'>
+): GroceryItem => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    listId,
+    name: item.name,
+    quantity: item.quantity,
+    pricePerUnit: item.pricePerUnit,
+    totalCost: item.totalCost,
+    isPurchased: item.isPurchased ?? false,
+    storeLocation: item.storeLocation || null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const buildPriceHistory = (itemId: string, price: number): PriceHistory => {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    itemId,
+    price,
+    date: now.split('T')[0],
+    createdAt: now,
+  };
+};
+
+// New items start their price history at the current price
+const insertGroceryItem = async (tx: WebTransaction, item: GroceryItem) => {
+  await putRecord(tx, 'groceryItems', item);
+  await putRecord(
+    tx,
+    'priceHistory',
+    buildPriceHistory(item.id, item.pricePerUnit)
+  );
+};
+
+const writeListTotal = async (tx: WebTransaction, listId: string) => {
+  const list = await tx.get<GroceryList>(STORES.groceryLists, listId);
+  if (!list) return;
+
+  const items = await tx.filter<GroceryItem>(
+    STORES.groceryItems,
+    (item) => item.listId === listId
+  );
+  await putRecord(tx, 'groceryLists', {
+    ...list,
+    totalCost: getListTotal(items),
+    updatedAt: new Date().toISOString(),
+  });
 };
 
 // Grocery Item Services
-export const webGroceryItemService = {
+export const webGroceryItemService: GroceryItemRepository = {
   async getByListId(listId: string) {
     const items = await webDb.filter<GroceryItem>(
       STORES.groceryItems,
@@ -222,58 +1922,47 @@ export const webGroceryItemService = {
   },
 
   async create(item: Omit<NewGroceryItem, 'id'>) {
-    const id = Date.now().toString();
-    const now = new Date().toISOString();
-    const newItem: GroceryItem = {
-      ...item,
-      id,
-      createdAt: now,
-      updatedAt: now,
-    };
-    await webDb.put(STORES.groceryItems, newItem);
-
-    // Add price history entry
-    await webPriceHistoryService.create({
-      itemId: id,
-      price: item.pricePerUnit,
-      date: new Date().toISOString().split('T')[0],
+    const newItem = buildGroceryItem(createId(), item.listId ?? null, item);
+    await webDb.transaction(GROCERY_STORES, async (tx) => {
+      await insertGroceryItem(tx, newItem);
+      if (newItem.listId) {
+        await writeListTotal(tx, newItem.listId);
+      }
     });
-
-    // Update list total cost
-    if (item.listId) {
-      await webGroceryListService.updateTotalCost(item.listId);
-    }
-
-    return newItem;
+    return await this.getById(newItem.id);
   },
 
   async update(id: string, updates: Partial<NewGroceryItem>) {
-    const existing = await webDb.get<GroceryItem>(STORES.groceryItems, id);
-    if (!existing) return null;
+    const found = await webDb.transaction(GROCERY_STORES, async (tx) => {
+      const existing = await tx.get<GroceryItem>(STORES.groceryItems, id);
+      if (!existing) return false;
 
-    const updated: GroceryItem = {
-      ...existing,
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
-    await webDb.put(STORES.groceryItems, updated);
+      const updated: GroceryItem = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      await putRecord(tx, 'groceryItems', updated);
 
-    // Update list total cost if item belongs to a list
-    if (updated.listId) {
-      await webGroceryListService.updateTotalCost(updated.listId);
-    }
-
-    return updated;
+      // Update list total cost if item belongs to a list
+      if (updated.listId) {
+        await writeListTotal(tx, updated.listId);
+      }
+      return true;
+    });
+    return found ? await this.getById(id) : null;
   },
 
   async delete(id: string) {
-    const item = await webDb.get<GroceryItem>(STORES.groceryItems, id);
-    await webDb.delete(STORES.groceryItems, id);
+    await webDb.transaction(GROCERY_STORES, async (tx) => {
+      const item = await tx.get<GroceryItem>(STORES.groceryItems, id);
+      await deleteRecord(tx, 'groceryItems', id);
 
-    // Update list total cost if item belonged to a list
-    if (item?.listId) {
-      await webGroceryListService.updateTotalCost(item.listId);
-    }
+      // Update list total cost if item belonged to a list
+      if (item?.listId) {
+        await writeListTotal(tx, item.listId);
+      }
+    });
   },
 
   async togglePurchased(id: string) {
@@ -288,7 +1977,7 @@ export const webGroceryItemService = {
 };
 
 // Price History Services
-export const webPriceHistoryService = {
+export const webPriceHistoryService: PriceHistoryRepository = {
   async getByItemId(itemId: string) {
     const history = await webDb.filter<PriceHistory>(
       STORES.priceHistory,
@@ -300,24 +1989,30 @@ export const webPriceHistoryService = {
   },
 
   async create(history: Omit<NewPriceHistory, 'id'>) {
-    const id = Date.now().toString();
+    const id = createId();
     const now = new Date().toISOString();
     const newHistory: PriceHistory = {
-      ...history,
       id,
+      itemId: history.itemId ?? null,
+      price: history.price,
+      date: history.date,
       createdAt: now,
     };
-    await webDb.put(STORES.priceHistory, newHistory);
+    await webDb.transaction([STORES.priceHistory, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'priceHistory', newHistory)
+    );
     return newHistory;
   },
 
   async delete(id: string) {
-    await webDb.delete(STORES.priceHistory, id);
+    await webDb.transaction([STORES.priceHistory, ...AUDIT_STORES], (tx) =>
+      deleteRecord(tx, 'priceHistory', id)
+    );
   },
 };
 
 // Financial Settings Services
-export const webFinancialSettingsService = {
+export const webFinancialSettingsService: FinancialSettingsRepository = {
   async get() {
     return await webDb.get<FinancialSettings>(
       STORES.financialSettings,
@@ -331,10 +2026,14 @@ export const webFinancialSettingsService = {
       ...settings,
       id: 'default',
       currentSavings: settings.currentSavings ?? 0,
+      savingsAccountId: settings.savingsAccountId ?? null,
+      baseCurrency: settings.baseCurrency ?? DEFAULT_CURRENCY,
       createdAt: now,
       updatedAt: now,
     };
-    await webDb.put(STORES.financialSettings, newSettings);
+    await webDb.transaction([STORES.financialSettings, ...AUDIT_STORES], (tx) =>
+      putRecord(tx, 'financialSettings', newSettings)
+    );
     return newSettings;
   },
 
@@ -345,16 +2044,33 @@ export const webFinancialSettingsService = {
         monthlyIncome: updates.monthlyIncome ?? 0,
         savingsGoal: updates.savingsGoal ?? 0,
         currentSavings: updates.currentSavings ?? 0,
+        baseCurrency: updates.baseCurrency,
       });
     }
 
-    const updated: FinancialSettings = {
-      ...existing,
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
-    await webDb.put(STORES.financialSettings, updated);
-    return updated;
+    const previousCurrency = existing.baseCurrency || DEFAULT_CURRENCY;
+    const currencyChanged =
+      !!updates.baseCurrency && updates.baseCurrency !== previousCurrency;
+    return await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      // Amounts passed along with the new currency are already in it
+      if (currencyChanged) {
+        await convertBaseAmounts(tx, previousCurrency, updates.baseCurrency!);
+      }
+      const current = await tx.get<FinancialSettings>(
+        STORES.financialSettings,
+        'default'
+      );
+      const updated: FinancialSettings = {
+        ...(current ?? existing),
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      await putRecord(tx, 'financialSettings', updated);
+      if (currencyChanged) {
+        await refreshAllMonthTotals(tx);
+      }
+      return updated;
+    });
   },
 
   async updateSavings(amount: number) {
@@ -373,48 +2089,262 @@ export const webFinancialSettingsService = {
     return settings;
   },
 
-  async getDashboardData() {
+  async getDashboardData(month?: string) {
     const settings = await this.getOrCreate();
-    const totalExpenses = await webExpenseService.getTotalMonthlyExpenses();
+    const targetMonth = month || getCurrentMonth();
+    const totalExpenses = await webExpenseService.getTotalMonthlyExpenses(
+      targetMonth
+    );
+    const totalPaid = await webExpenseService.getTotalMonthlyPaid(targetMonth);
+    const currentSavings = await readCurrentSavings(settings);
 
-    const categories = await webBudgetCategoryService.getAll();
-    const totalBudgetLimit = categories.reduce(
-      (sum, cat) => sum + cat.limit,
+    const allocations = await webBudgetAllocationService.getByMonth(
+      targetMonth
+    );
+    const totalBudgetLimit = allocations.reduce(
+      (sum, allocation) => sum + allocation.limit,
       0
     );
-    const totalBudgetSpent = categories.reduce(
-      (sum, cat) => sum + (cat.spent || 0),
+    const totalBudgetSpent = allocations.reduce(
+      (sum, allocation) => sum + (allocation.spent || 0),
       0
     );
 
     return {
+      baseCurrency: settings.baseCurrency,
       monthlyIncome: settings.monthlyIncome,
       totalExpenses,
+      totalPaid,
       remainingIncome: settings.monthlyIncome - totalExpenses,
       savingsGoal: settings.savingsGoal,
-      currentSavings: settings.currentSavings || 0,
+      currentSavings,
       savingsProgress:
         settings.savingsGoal > 0
-          ? ((settings.currentSavings || 0) / settings.savingsGoal) * 100
+          ? (currentSavings / settings.savingsGoal) * 100
           : 0,
       totalBudgetLimit,
       totalBudgetSpent,
       remainingBudget: totalBudgetLimit - totalBudgetSpent,
+      memberTotals: totalByMember(
+        await webExpenseService.getByMonth(targetMonth),
+        await loadConverter()
+      ),
     };
   },
 
-  async getExpensesByCategory() {
-    const expenses = await webExpenseService.getRecurringExpenses();
-    const categoryTotals: Record<string, number> = {};
+  async getExpensesByCategory(month?: string) {
+    const expenses = await webExpenseService.getByMonth(month);
+    return totalByCategoryAndMember(expenses, await loadConverter());
+  },
+};
 
-    expenses.forEach((expense) => {
-      categoryTotals[expense.category] =
-        (categoryTotals[expense.category] || 0) + expense.amount;
+// Monthly Rollover Services
+export const webRolloverService: RolloverRepository = {
+  async getAll() {
+    const rollovers = await webDb.getAll<MonthlyRollover>(
+      STORES.monthlyRollovers
+    );
+    return rollovers.sort((a, b) => b.month.localeCompare(a.month));
+  },
+
+  async getLastRolledMonth() {
+    const rollovers = await this.getAll();
+    return rollovers[0]?.month ?? null;
+  },
+
+  async hasRolled(month: string) {
+    const rollover = await webDb.get<MonthlyRollover>(
+      STORES.monthlyRollovers,
+      month
+    );
+    return rollover !== null;
+  },
+
+  async markRolled(month: string) {
+    await webDb.put<MonthlyRollover>(STORES.monthlyRollovers, {
+      month,
+      rolledAt: new Date().toISOString(),
+    });
+  },
+};
+
+// Exchange Rate Services
+const saveWebRate = async (tx: WebTransaction, rate: ExchangeRateInput) => {
+  const fromCurrency = normalizeCurrency(rate.fromCurrency);
+  const toCurrency = normalizeCurrency(rate.toCurrency);
+  if (!(rate.rate > 0)) {
+    throw new Error(`Invalid exchange rate for ${fromCurrency}/${toCurrency}`);
+  }
+  const newRate: ExchangeRate = {
+    id: getExchangeRateId(fromCurrency, toCurrency),
+    fromCurrency,
+    toCurrency,
+    rate: rate.rate,
+    updatedAt: new Date().toISOString(),
+  };
+  await putRecord(tx, 'exchangeRates', newRate);
+  return newRate;
+};
+
+export const webExchangeRateService: ExchangeRateRepository = {
+  async getAll() {
+    const rates = await webDb.getAll<ExchangeRate>(STORES.exchangeRates);
+    return rates.sort((a, b) => a.id.localeCompare(b.id));
+  },
+
+  async getRate(fromCurrency: string, toCurrency: string) {
+    return findRate(
+      await this.getAll(),
+      normalizeCurrency(fromCurrency),
+      normalizeCurrency(toCurrency)
+    );
+  },
+
+  async upsert(rate: ExchangeRateInput) {
+    return await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      const saved = await saveWebRate(tx, rate);
+      await refreshAllMonthTotals(tx);
+      return saved;
+    });
+  },
+
+  async delete(id: string) {
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      await deleteRecord(tx, 'exchangeRates', id);
+      await refreshAllMonthTotals(tx);
+    });
+  },
+
+  // All or nothing: one invalid rate leaves the stored rates untouched
+  async import(rates: ExchangeRateInput[]) {
+    await webDb.transaction(EXPENSE_STORES, async (tx) => {
+      for (const rate of rates) {
+        await saveWebRate(tx, rate);
+      }
+      if (rates.length > 0) {
+        await refreshAllMonthTotals(tx);
+      }
     });
+    return rates.length;
+  },
+};
 
-    return Object.entries(categoryTotals).map(([category, total]) => ({
-      category,
-      total,
-    }));
+// Categorization Rule Services
+export const webCategorizationRuleService: CategorizationRuleRepository = {
+  async getAll() {
+    return sortRules(
+      await webDb.getAll<CategorizationRule>(STORES.categorizationRules)
+    );
+  },
+
+  async getById(id: string) {
+    return await webDb.get<CategorizationRule>(STORES.categorizationRules, id);
+  },
+
+  async create(rule: Omit<NewCategorizationRule, 'id'>) {
+    validateRule(rule);
+    return await webDb.transaction(
+      [STORES.categorizationRules, ...AUDIT_STORES],
+      async (tx) => {
+        const id = createId();
+        const now = new Date().toISOString();
+        const rules = sortRules(
+          await tx.getAll<CategorizationRule>(STORES.categorizationRules)
+        );
+        const newRule: CategorizationRule = {
+          id,
+          matchType: rule.matchType ?? 'contains',
+          pattern: rule.pattern ?? null,
+          minAmount: rule.minAmount ?? null,
+          maxAmount: rule.maxAmount ?? null,
+          category: rule.category,
+          isRecurring: rule.isRecurring ?? null,
+          priority:
+            rule.priority ??
+            (rules.length > 0 ? rules[rules.length - 1].priority + 1 : 0),
+          isActive: rule.isActive ?? true,
+          createdAt: now,
+          updatedAt: now,
+        };
+        await putRecord(tx, 'categorizationRules', newRule);
+        return newRule;
+      }
+    );
+  },
+
+  async update(id: string, updates: Partial<NewCategorizationRule>) {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const updated: CategorizationRule = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    validateRule(updated);
+    await webDb.transaction(
+      [STORES.categorizationRules, ...AUDIT_STORES],
+      (tx) => putRecord(tx, 'categorizationRules', updated)
+    );
+    return updated;
+  },
+
+  async delete(id: string) {
+    await webDb.transaction(
+      [STORES.categorizationRules, ...AUDIT_STORES],
+      (tx) => deleteRecord(tx, 'categorizationRules', id)
+    );
+  },
+
+  async reorder(ids: string[]) {
+    await webDb.transaction(
+      [STORES.categorizationRules, ...AUDIT_STORES],
+      async (tx) => {
+        for (const [priority, id] of ids.entries()) {
+          const rule = await tx.get<CategorizationRule>(
+            STORES.categorizationRules,
+            id
+          );
+          if (rule) {
+            await putRecord(tx, 'categorizationRules', { ...rule, priority });
+          }
+        }
+      }
+    );
+  },
+
+  async applyToMonth(month: string) {
+    return await webDb.transaction(
+      [...EXPENSE_STORES, STORES.categorizationRules],
+      async (tx) => {
+        const rules = sortRules(
+          await tx.getAll<CategorizationRule>(STORES.categorizationRules)
+        );
+        const monthExpenses = await readMonthExpenses(tx, month);
+
+        let changed = 0;
+        for (const expense of monthExpenses) {
+          const updates = getRuleUpdates(rules, expense);
+          if (!updates) continue;
+          await updateExpense(tx, expense.id, updates);
+          changed++;
+        }
+        if (changed > 0) {
+          await refreshMonthTotals(tx, month);
+        }
+        return changed;
+      }
+    );
+  },
+};
+
+// Change log Services
+export const webAuditService: AuditRepository = {
+  async getByRecord(entity: AuditEntity, entityId: string) {
+    const entries = await webDb.filter<AuditEntry>(
+      STORES.auditLog,
+      (entry) => entry.entity === entity && entry.entityId === entityId
+    );
+    return sortHistory(entries);
   },
 };
@@ -1,21 +1,120 @@
-import { eq, desc, sum, and } from 'drizzle-orm';
-import { getDb } from './database';
 import {
+  eq,
+  desc,
+  asc,
+  sum,
+  and,
+  or,
+  sql,
+  inArray,
+  isNull,
+  isNotNull,
+  gte,
+  lt,
+  lte,
+  getTableColumns,
+  type SQL,
+} from 'drizzle-orm';
+import { getDb, withTransaction, type DbTransaction } from './database';
+import { createId } from './ids';
+import {
+  members,
   expenses,
-  budgetCategories,
+  expenseSplits,
+  payments,
+  settlements,
+  accounts,
+  incomes,
+  accountTransfers,
+  categories,
+  budgetAllocations,
   groceryLists,
   groceryItems,
   priceHistory,
   financialSettings,
   monthlySavings,
+  monthlyRollovers,
+  recurringExpenses,
+  exchangeRates,
+  categorizationRules,
+  auditLog,
+  syncDevice,
   type NewExpense,
-  type NewBudgetCategory,
+  type NewCategory,
+  type NewBudgetAllocation,
   type NewGroceryList,
   type NewGroceryItem,
   type NewPriceHistory,
   type NewFinancialSettings,
   type NewMonthlySavings,
+  type NewRecurringExpense,
+  type NewCategorizationRule,
+  type NewMember,
+  type NewPayment,
+  type NewSettlement,
+  type NewAccount,
+  type NewIncome,
+  type NewAccountTransfer,
+  type FinancialSettings,
 } from './schema';
+import type {
+  ExpenseRepository,
+  CategoryRepository,
+  BudgetAllocationRepository,
+  GroceryListRepository,
+  GroceryItemRepository,
+  PriceHistoryRepository,
+  FinancialSettingsRepository,
+  MonthlySavingsRepository,
+  RolloverRepository,
+  RecurringExpenseRepository,
+  RecurringExpenseUpdateOptions,
+  ExchangeRateRepository,
+  ExchangeRateInput,
+  CategorizationRuleRepository,
+  MemberRepository,
+  ExpenseSplitRepository,
+  PaymentRepository,
+  SettlementRepository,
+  AccountRepository,
+  IncomeRepository,
+  AccountTransferRepository,
+  AuditRepository,
+} from './repositories';
+import {
+  buildInstance,
+  getInstanceUpdates,
+  getMissingOccurrences,
+} from './recurrence';
+import {
+  DEFAULT_CURRENCY,
+  createBaseCurrencyConverter,
+  createConverter,
+  findRate,
+  getExchangeRateId,
+  normalizeCurrency,
+  sumConverted,
+  totalByCategory,
+  totalByCategoryAndMember,
+  totalByMember,
+} from './currency';
+import {
+  diffGroceryItems,
+  getListTotal,
+  type GroceryItemDraft,
+} from './grocery';
+import { categorize, getRuleUpdates, validateRule } from './categorization';
+import { validateSplit, type ExpenseSplitInput } from './splits';
+import { coversAmount, getAmountPaid } from './payments';
+import {
+  getBalance,
+  getBalances,
+  getLedger,
+  validateTransfer,
+  type AccountActivity,
+} from './accounts';
+import { describeChanges, sortHistory, type AuditEntity } from './audit';
+import { getSyncTable } from './sync-tables';
 
 const getCurrentMonth = () => {
   const now = new Date();
@@ -24,8 +123,459 @@ const getCurrentMonth = () => {
     .padStart(2, '0')}`;
 };
 
+// Allocation rows joined with the name of their category
+const allocationColumns = {
+  ...getTableColumns(budgetAllocations),
+  name: categories.name,
+};
+
+// The helpers below run inside `withTransaction`, so the writes a service
+// method makes, including the derived totals, commit or roll back together.
+
+// Runs `write` and logs how it changed the rows of `entity` that `where`
+// selects; see db/audit.ts. Rows are read again by id afterwards, so a write
+// may change the columns `where` tests.
+const audited = <T>(
+  tx: DbTransaction,
+  entity: AuditEntity,
+  where: SQL | undefined,
+  write: () => T
+) => {
+  const { table, primaryKey, primaryKeyColumn } = getSyncTable(entity)!;
+  const read = (condition: SQL | undefined) =>
+    tx.select().from(table).where(condition).all() as Record<string, unknown>[];
+  const before = read(where);
+  const result = write();
+  const ids = before.map((row) => row[primaryKey]);
+  const after = read(
+    ids.length > 0 ? or(where, inArray(primaryKeyColumn, ids)) : where
+  );
+  const device = tx
+    .select({ memberId: syncDevice.memberId })
+    .from(syncDevice)
+    .get();
+  const entries = describeChanges(
+    entity,
+    before,
+    after,
+    device?.memberId ?? null
+  );
+  for (const entry of entries) {
+    tx.insert(auditLog).values(entry).run();
+  }
+  return result;
+};
+
+// Converter into the household base currency, read straight from the tables
+// so every service can use it without depending on the others.
+const readConverter = (tx: DbTransaction) => {
+  const settings = tx.select().from(financialSettings).limit(1).all();
+  const rates = tx.select().from(exchangeRates).all();
+  return createConverter(rates, settings[0]?.baseCurrency || DEFAULT_CURRENCY);
+};
+
+const readMonthExpenseAmounts = (tx: DbTransaction, month: string) =>
+  tx
+    .select({
+      category: expenses.category,
+      paidBy: expenses.paidBy,
+      amount: expenses.amount,
+      currency: expenses.currency,
+    })
+    .from(expenses)
+    .where(and(eq(expenses.month, month), isNull(expenses.deletedAt)))
+    .all();
+
+// What was paid toward each of the month's expenses, in its currency
+const readMonthPaidAmounts = (tx: DbTransaction, month: string) => {
+  const monthWhere = and(eq(expenses.month, month), isNull(expenses.deletedAt));
+  const monthExpenses = tx
+    .select({
+      id: expenses.id,
+      amount: expenses.amount,
+      currency: expenses.currency,
+      isPaid: expenses.isPaid,
+    })
+    .from(expenses)
+    .where(monthWhere)
+    .all();
+  const monthPayments = tx
+    .select({ expenseId: payments.expenseId, amount: payments.amount })
+    .from(payments)
+    .innerJoin(expenses, eq(payments.expenseId, expenses.id))
+    .where(monthWhere)
+    .all();
+  return monthExpenses.map((expense) => ({
+    amount: getAmountPaid(
+      { amount: expense.amount, isPaid: expense.isPaid ?? false },
+      monthPayments.filter((payment) => payment.expenseId === expense.id)
+    ),
+    currency: expense.currency,
+  }));
+};
+
+// Everything that moves money in or out of the accounts; see db/accounts.ts
+const readAccountActivity = (tx: DbTransaction): AccountActivity => {
+  const accountExpenseWhere = and(
+    isNotNull(expenses.accountId),
+    isNull(expenses.deletedAt)
+  );
+  return {
+    accounts: tx.select().from(accounts).all(),
+    expenses: tx
+      .select({
+        id: expenses.id,
+        name: expenses.name,
+        amount: expenses.amount,
+        currency: expenses.currency,
+        dueDate: expenses.dueDate,
+        isPaid: expenses.isPaid,
+        accountId: expenses.accountId,
+      })
+      .from(expenses)
+      .where(accountExpenseWhere)
+      .all(),
+    payments: tx
+      .select({
+        expenseId: payments.expenseId,
+        amount: payments.amount,
+        date: payments.date,
+      })
+      .from(payments)
+      .innerJoin(expenses, eq(payments.expenseId, expenses.id))
+      .where(accountExpenseWhere)
+      .all(),
+    incomes: tx
+      .select()
+      .from(incomes)
+      .where(isNotNull(incomes.accountId))
+      .all(),
+    transfers: tx.select().from(accountTransfers).all(),
+    rates: tx.select().from(exchangeRates).all(),
+  };
+};
+
+// The savings account's balance in the base currency when one is set, and
+// the amount typed in otherwise
+const readCurrentSavings = (tx: DbTransaction, settings: FinancialSettings) => {
+  const activity = readAccountActivity(tx);
+  const account = activity.accounts.find(
+    (candidate) => candidate.id === settings.savingsAccountId
+  );
+  if (!account) return settings.currentSavings || 0;
+  return readConverter(tx)(getBalance(account, activity), account.currency);
+};
+
+const readExpense = (tx: DbTransaction, id: string) =>
+  tx.select().from(expenses).where(eq(expenses.id, id)).get() ?? null;
+
+const readSavingsRecord = (tx: DbTransaction, month: string) => {
+  const existing = tx
+    .select()
+    .from(monthlySavings)
+    .where(eq(monthlySavings.month, month))
+    .get();
+  if (existing) return existing;
+
+  const settings = tx.select().from(financialSettings).limit(1).get();
+  audited(tx, 'monthlySavings', eq(monthlySavings.month, month), () =>
+    tx
+      .insert(monthlySavings)
+      .values({
+        id: createId(),
+        month,
+        income: settings?.monthlyIncome || 0,
+        savingsGoal: settings?.savingsGoal || 0,
+        totalExpenses: 0,
+        totalSaved: 0,
+      })
+      .run()
+  );
+  const created = tx
+    .select()
+    .from(monthlySavings)
+    .where(eq(monthlySavings.month, month))
+    .get();
+  if (!created) {
+    throw new Error(`Could not create savings record for ${month}`);
+  }
+  return created;
+};
+
+const writeMonthlyExpenses = (tx: DbTransaction, month: string) => {
+  const totalExpenses = sumConverted(
+    readMonthExpenseAmounts(tx, month),
+    readConverter(tx)
+  );
+  const monthData = readSavingsRecord(tx, month);
+  const totalSaved = monthData.income - totalExpenses;
+
+  audited(tx, 'monthlySavings', eq(monthlySavings.month, month), () =>
+    tx
+      .update(monthlySavings)
+      .set({
+        totalExpenses,
+        totalSaved: Math.max(0, totalSaved),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(monthlySavings.month, month))
+      .run()
+  );
+};
+
+// Spent is derived from the expenses of the same category and month,
+// converted to the base currency. Only allocations whose spent changed are
+// written, so updatedAt tells when that last happened.
+const writeAllocationSpent = (tx: DbTransaction, month: string) => {
+  const totals = totalByCategory(
+    readMonthExpenseAmounts(tx, month),
+    readConverter(tx)
+  );
+  const allocations = tx
+    .select(allocationColumns)
+    .from(budgetAllocations)
+    .innerJoin(categories, eq(budgetAllocations.categoryId, categories.id))
+    .where(eq(budgetAllocations.month, month))
+    .all();
+
+  audited(tx, 'budgetAllocations', eq(budgetAllocations.month, month), () => {
+    for (const allocation of allocations) {
+      const row = totals.find((total) => total.category === allocation.name);
+      const spent = row?.total || 0;
+      if (spent === allocation.spent) continue;
+      tx.update(budgetAllocations)
+        .set({ spent, updatedAt: new Date().toISOString() })
+        .where(eq(budgetAllocations.id, allocation.id))
+        .run();
+    }
+  });
+};
+
+// Keeps the totals derived from the expenses table (monthly savings and
+// budget allocation spent) in line after every expense write.
+const refreshMonthTotals = (tx: DbTransaction, month: string) => {
+  writeMonthlyExpenses(tx, month);
+  writeAllocationSpent(tx, month);
+};
+
+// Stored totals are in the base currency, so a new base currency or rate
+// means every month that has them must be recomputed.
+const refreshAllMonthTotals = (tx: DbTransaction) => {
+  const savingsMonths = tx
+    .selectDistinct({ month: monthlySavings.month })
+    .from(monthlySavings)
+    .all();
+  const budgetMonths = tx
+    .selectDistinct({ month: budgetAllocations.month })
+    .from(budgetAllocations)
+    .all();
+
+  for (const { month } of savingsMonths) {
+    writeMonthlyExpenses(tx, month);
+  }
+  for (const { month } of budgetMonths) {
+    writeAllocationSpent(tx, month);
+  }
+};
+
+// Moves the amounts typed in the old base currency to the new one; see
+// createBaseCurrencyConverter
+const convertBaseAmounts = (tx: DbTransaction, from: string, to: string) => {
+  const settings = tx.select().from(financialSettings).limit(1).get();
+  const savingsRecords = tx.select().from(monthlySavings).all();
+  const allocations = tx.select().from(budgetAllocations).all();
+  const convert = createBaseCurrencyConverter(
+    tx.select().from(exchangeRates).all(),
+    from,
+    to,
+    [
+      settings?.monthlyIncome,
+      settings?.savingsGoal,
+      settings?.currentSavings,
+      ...savingsRecords.flatMap((record) => [
+        record.income,
+        record.savingsGoal,
+      ]),
+      ...allocations.map((allocation) => allocation.limit),
+    ]
+  );
+  const updatedAt = new Date().toISOString();
+
+  if (settings) {
+    const where = eq(financialSettings.id, settings.id);
+    audited(tx, 'financialSettings', where, () =>
+      tx
+        .update(financialSettings)
+        .set({
+          monthlyIncome: convert(settings.monthlyIncome),
+          savingsGoal: convert(settings.savingsGoal),
+          currentSavings: convert(settings.currentSavings || 0),
+          updatedAt,
+        })
+        .where(where)
+        .run()
+    );
+  }
+  audited(tx, 'monthlySavings', undefined, () => {
+    for (const record of savingsRecords) {
+      tx.update(monthlySavings)
+        .set({
+          income: convert(record.income),
+          savingsGoal: convert(record.savingsGoal),
+          updatedAt,
+        })
+        .where(eq(monthlySavings.id, record.id))
+        .run();
+    }
+  });
+  audited(tx, 'budgetAllocations', undefined, () => {
+    for (const allocation of allocations) {
+      tx.update(budgetAllocations)
+        .set({ limit: convert(allocation.limit), updatedAt })
+        .where(eq(budgetAllocations.id, allocation.id))
+        .run();
+    }
+  });
+};
+
+// One budget per category and month, leaving out the trash
+const checkAllocationUnique = (
+  tx: DbTransaction,
+  categoryId: string,
+  month: string
+) => {
+  const duplicate = tx
+    .select(allocationColumns)
+    .from(budgetAllocations)
+    .innerJoin(categories, eq(budgetAllocations.categoryId, categories.id))
+    .where(
+      and(
+        eq(budgetAllocations.month, month),
+        eq(budgetAllocations.categoryId, categoryId),
+        isNull(budgetAllocations.deletedAt)
+      )
+    )
+    .get();
+  if (duplicate) {
+    throw new Error(`${duplicate.name} already has a budget for ${month}`);
+  }
+};
+
+// A budget in the trash still holds its category and month, so it is purged
+// before another budget takes them
+const purgeTrashedAllocation = (
+  tx: DbTransaction,
+  categoryId: string,
+  month: string
+) => {
+  const where = and(
+    eq(budgetAllocations.categoryId, categoryId),
+    eq(budgetAllocations.month, month),
+    isNotNull(budgetAllocations.deletedAt)
+  );
+  audited(tx, 'budgetAllocations', where, () =>
+    tx.delete(budgetAllocations).where(where).run()
+  );
+};
+
+// Month totals are left to the caller, so a batch refreshes each month once
+const insertExpense = (
+  tx: DbTransaction,
+  id: string,
+  expense: Omit<NewExpense, 'id'>
+) => {
+  const month = expense.month || getCurrentMonth();
+  audited(tx, 'expenses', eq(expenses.id, id), () =>
+    tx
+      .insert(expenses)
+      .values({ ...expense, id, month })
+      .run()
+  );
+  return readExpense(tx, id)!;
+};
+
+// Returns the expense before and after the update; month totals are left to
+// the caller
+const updateExpense = (
+  tx: DbTransaction,
+  id: string,
+  updates: Partial<NewExpense>
+) => {
+  const previous = readExpense(tx, id);
+  audited(tx, 'expenses', eq(expenses.id, id), () =>
+    tx
+      .update(expenses)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(expenses.id, id))
+      .run()
+  );
+  // The payments made so far may cover a new amount, or no longer cover it
+  if (updates.amount !== undefined && readPaymentAmounts(tx, id).length > 0) {
+    refreshPaidStatus(tx, id);
+  }
+  return { previous, updated: readExpense(tx, id) };
+};
+
+const readPaymentAmounts = (tx: DbTransaction, expenseId: string) =>
+  tx
+    .select({ amount: payments.amount })
+    .from(payments)
+    .where(eq(payments.expenseId, expenseId))
+    .all();
+
+// Marks the expense paid once its payments cover the amount, and unpaid when
+// they no longer do
+const refreshPaidStatus = (tx: DbTransaction, expenseId: string) => {
+  const expense = readExpense(tx, expenseId);
+  if (!expense) return;
+  const isPaid = coversAmount(
+    expense.amount,
+    readPaymentAmounts(tx, expenseId)
+  );
+  if (isPaid !== expense.isPaid) {
+    updateExpense(tx, expenseId, { isPaid });
+  }
+};
+
+const writeListTotal = (tx: DbTransaction, listId: string) => {
+  const items = tx
+    .select({ totalCost: groceryItems.totalCost })
+    .from(groceryItems)
+    .where(eq(groceryItems.listId, listId))
+    .all();
+  audited(tx, 'groceryLists', eq(groceryLists.id, listId), () =>
+    tx
+      .update(groceryLists)
+      .set({
+        totalCost: getListTotal(items),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(groceryLists.id, listId))
+      .run()
+  );
+};
+
+// New items start their price history at the current price
+const insertGroceryItem = (tx: DbTransaction, item: NewGroceryItem) => {
+  audited(tx, 'groceryItems', eq(groceryItems.id, item.id), () =>
+    tx.insert(groceryItems).values(item).run()
+  );
+  const historyId = createId();
+  audited(tx, 'priceHistory', eq(priceHistory.id, historyId), () =>
+    tx
+      .insert(priceHistory)
+      .values({
+        id: historyId,
+        itemId: item.id,
+        price: item.pricePerUnit,
+        date: new Date().toISOString().split('T')[0],
+      })
+      .run()
+  );
+};
+
 // Monthly Savings Services - Defined first to avoid circular dependencies
-export const monthlySavingsService = {
+export const monthlySavingsService: MonthlySavingsRepository = {
   async getByMonth(month: string) {
     const db = await getDb();
     const result = await db
@@ -44,40 +594,32 @@ export const monthlySavingsService = {
   },
 
   async create(data: Omit<NewMonthlySavings, 'id'>) {
-    const db = await getDb();
-    const id = `${data.month}-${Date.now()}`;
+    const id = createId();
     const newData = { ...data, id };
-    await db.insert(monthlySavings).values(newData);
+    await withTransaction((tx) =>
+      audited(tx, 'monthlySavings', eq(monthlySavings.id, id), () =>
+        tx.insert(monthlySavings).values(newData).run()
+      )
+    );
     return await this.getByMonth(data.month);
   },
 
   async update(month: string, updates: Partial<NewMonthlySavings>) {
-    const db = await getDb();
     const updateData = { ...updates, updatedAt: new Date().toISOString() };
-    await db
-      .update(monthlySavings)
-      .set(updateData)
-      .where(eq(monthlySavings.month, month));
+    await withTransaction((tx) =>
+      audited(tx, 'monthlySavings', eq(monthlySavings.month, month), () =>
+        tx
+          .update(monthlySavings)
+          .set(updateData)
+          .where(eq(monthlySavings.month, month))
+          .run()
+      )
+    );
     return await this.getByMonth(month);
   },
 
   async getOrCreateForMonth(month: string) {
-    let monthData = await this.getByMonth(month);
-    if (!monthData) {
-      // Get settings directly to avoid circular dependency
-      const db = await getDb();
-      const settings = await db.select().from(financialSettings).limit(1);
-      const settingsData = settings[0];
-
-      monthData = await this.create({
-        month,
-        income: settingsData?.monthlyIncome || 0,
-        savingsGoal: settingsData?.savingsGoal || 0,
-        totalExpenses: 0,
-        totalSaved: 0,
-      });
-    }
-    return monthData;
+    return await withTransaction((tx) => readSavingsRecord(tx, month));
   },
 
   async getSavingsByMonths(limit = 12) {
@@ -90,22 +632,7 @@ export const monthlySavingsService = {
   },
 
   async updateMonthlyExpenses(month: string) {
-    // This will be properly implemented after expenseService methods are available
-    // For now, just create a placeholder that works
-    const db = await getDb();
-    const result = await db
-      .select({ total: sum(expenses.amount) })
-      .from(expenses)
-      .where(eq(expenses.month, month));
-
-    const totalExpenses = Number(result[0]?.total || 0);
-    const monthData = await this.getOrCreateForMonth(month);
-    const totalSaved = monthData.income - totalExpenses;
-
-    await this.update(month, {
-      totalExpenses,
-      totalSaved: Math.max(0, totalSaved),
-    });
+    await withTransaction((tx) => writeMonthlyExpenses(tx, month));
   },
 
   async initializeCurrentMonth() {
@@ -115,11 +642,115 @@ export const monthlySavingsService = {
   },
 };
 
+// Member Services
+export const memberService: MemberRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db.select().from(members).orderBy(members.name);
+  },
+
+  async getById(id: string) {
+    const db = await getDb();
+    const result = await db.select().from(members).where(eq(members.id, id));
+    return result[0] || null;
+  },
+
+  async create(member: Omit<NewMember, 'id'>) {
+    const id = createId();
+    await withTransaction((tx) =>
+      audited(tx, 'members', eq(members.id, id), () =>
+        tx
+          .insert(members)
+          .values({ ...member, name: member.name.trim(), id })
+          .run()
+      )
+    );
+    return await this.getById(id);
+  },
+
+  async update(id: string, updates: Partial<NewMember>) {
+    const updateData = { ...updates, updatedAt: new Date().toISOString() };
+    if (updates.name !== undefined) updateData.name = updates.name.trim();
+    await withTransaction((tx) =>
+      audited(tx, 'members', eq(members.id, id), () =>
+        tx.update(members).set(updateData).where(eq(members.id, id)).run()
+      )
+    );
+    return await this.getById(id);
+  },
+
+  // The paid_by columns are added by ALTER TABLE, which cannot declare
+  // ON DELETE SET NULL, so the payers are cleared here. A member in the
+  // balances is never deleted, as that would change everyone else's.
+  async delete(id: string) {
+    await withTransaction((tx) => {
+      const member = tx.select().from(members).where(eq(members.id, id)).get();
+      if (!member) return;
+      const isShared =
+        tx
+          .select({ id: expenseSplits.id })
+          .from(expenseSplits)
+          .where(eq(expenseSplits.memberId, id))
+          .get() ??
+        tx
+          .select({ id: settlements.id })
+          .from(settlements)
+          .where(
+            or(eq(settlements.fromMemberId, id), eq(settlements.toMemberId, id))
+          )
+          .get() ??
+        tx
+          .select({ id: expenses.id })
+          .from(expenses)
+          .where(and(eq(expenses.paidBy, id), isNotNull(expenses.splitType)))
+          .get();
+      if (isShared) {
+        throw new Error(
+          `${member.name} shares expenses or settlements; deactivate them instead`
+        );
+      }
+
+      audited(tx, 'expenses', eq(expenses.paidBy, id), () =>
+        tx
+          .update(expenses)
+          .set({ paidBy: null })
+          .where(eq(expenses.paidBy, id))
+          .run()
+      );
+      audited(tx, 'recurringExpenses', eq(recurringExpenses.paidBy, id), () =>
+        tx
+          .update(recurringExpenses)
+          .set({ paidBy: null })
+          .where(eq(recurringExpenses.paidBy, id))
+          .run()
+      );
+      audited(tx, 'groceryLists', eq(groceryLists.paidBy, id), () =>
+        tx
+          .update(groceryLists)
+          .set({ paidBy: null })
+          .where(eq(groceryLists.paidBy, id))
+          .run()
+      );
+      tx.update(syncDevice)
+        .set({ memberId: null })
+        .where(eq(syncDevice.memberId, id))
+        .run();
+      audited(tx, 'members', eq(members.id, id), () =>
+        tx.delete(members).where(eq(members.id, id)).run()
+      );
+    });
+  },
+};
+
 // Expense Services
-export const expenseService = {
+export const expenseService: ExpenseRepository = {
   async getAll() {
     const db = await getDb();
-    return await db.select().from(expenses).orderBy(desc(expenses.createdAt));
+    return await db
+      .select()
+      .from(expenses)
+      .where(isNull(expenses.deletedAt))
+      .orderBy(desc(expenses.createdAt));
   },
 
   async getByMonth(month?: string) {
@@ -128,10 +759,42 @@ export const expenseService = {
     return await db
       .select()
       .from(expenses)
-      .where(eq(expenses.month, targetMonth))
+      .where(and(eq(expenses.month, targetMonth), isNull(expenses.deletedAt)))
       .orderBy(desc(expenses.createdAt));
   },
 
+  // Served by the due_date index
+  async getByDueDateRange(from: string, to: string) {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(expenses)
+      .where(
+        and(
+          gte(expenses.dueDate, from),
+          lte(expenses.dueDate, to),
+          isNull(expenses.deletedAt)
+        )
+      )
+      .orderBy(asc(expenses.dueDate));
+  },
+
+  // Served by the due_date index
+  async getUnpaidDueBefore(date: string) {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(expenses)
+      .where(
+        and(
+          lt(expenses.dueDate, date),
+          eq(expenses.isPaid, false),
+          isNull(expenses.deletedAt)
+        )
+      )
+      .orderBy(asc(expenses.dueDate));
+  },
+
   async getById(id: string) {
     const db = await getDb();
     const result = await db.select().from(expenses).where(eq(expenses.id, id));
@@ -139,170 +802,908 @@ export const expenseService = {
   },
 
   async create(expense: Omit<NewExpense, 'id'>) {
+    return await withTransaction((tx) => {
+      const created = insertExpense(tx, createId(), expense);
+      refreshMonthTotals(tx, created.month);
+      return created;
+    });
+  },
+
+  async createMany(rows: Omit<NewExpense, 'id'>[]) {
+    return await withTransaction((tx) => {
+      const created = rows.map((expense) =>
+        insertExpense(tx, createId(), expense)
+      );
+      for (const month of new Set(created.map((expense) => expense.month))) {
+        refreshMonthTotals(tx, month);
+      }
+      return created;
+    });
+  },
+
+  async update(id: string, updates: Partial<NewExpense>) {
+    return await withTransaction((tx) => {
+      const { previous, updated } = updateExpense(tx, id, updates);
+      if (previous) {
+        refreshMonthTotals(tx, previous.month);
+      }
+      // Moving an expense to another month changes that month's totals too
+      if (updated && updated.month !== previous?.month) {
+        refreshMonthTotals(tx, updated.month);
+      }
+      return updated;
+    });
+  },
+
+  // The splits stay with a trashed expense, so a restore brings them back
+  async delete(id: string) {
+    await withTransaction((tx) => {
+      const { updated } = updateExpense(tx, id, {
+        deletedAt: new Date().toISOString(),
+      });
+      if (updated) {
+        refreshMonthTotals(tx, updated.month);
+      }
+    });
+  },
+
+  async restore(id: string) {
+    await withTransaction((tx) => {
+      const { updated } = updateExpense(tx, id, { deletedAt: null });
+      if (updated) {
+        refreshMonthTotals(tx, updated.month);
+      }
+    });
+  },
+
+  async purge(id: string) {
+    await withTransaction((tx) => {
+      const expense = readExpense(tx, id);
+      audited(tx, 'expenseSplits', eq(expenseSplits.expenseId, id), () =>
+        tx.delete(expenseSplits).where(eq(expenseSplits.expenseId, id)).run()
+      );
+      audited(tx, 'payments', eq(payments.expenseId, id), () =>
+        tx.delete(payments).where(eq(payments.expenseId, id)).run()
+      );
+      audited(tx, 'expenses', eq(expenses.id, id), () =>
+        tx.delete(expenses).where(eq(expenses.id, id)).run()
+      );
+      if (expense) {
+        refreshMonthTotals(tx, expense.month);
+      }
+    });
+  },
+
+  async getDeleted() {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(expenses)
+      .where(isNotNull(expenses.deletedAt))
+      .orderBy(desc(expenses.deletedAt));
+  },
+
+  async getByTemplateId(templateId: string) {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(expenses)
+      .where(
+        and(eq(expenses.templateId, templateId), isNull(expenses.deletedAt))
+      )
+      .orderBy(expenses.dueDate);
+  },
+
+  async getRecurringExpenses() {
     const db = await getDb();
-    const id = Date.now().toString();
-    const month = expense.month || getCurrentMonth();
-    const newExpense = { ...expense, id, month };
-    await db.insert(expenses).values(newExpense);
-    await monthlySavingsService.updateMonthlyExpenses(month);
+    return await db
+      .select()
+      .from(expenses)
+      .where(and(eq(expenses.isRecurring, true), isNull(expenses.deletedAt)));
+  },
+
+  async getTotalMonthlyExpenses(month?: string) {
+    const targetMonth = month || getCurrentMonth();
+    return await withTransaction((tx) =>
+      sumConverted(readMonthExpenseAmounts(tx, targetMonth), readConverter(tx))
+    );
+  },
+
+  async getTotalMonthlyPaid(month?: string) {
+    const targetMonth = month || getCurrentMonth();
+    return await withTransaction((tx) =>
+      sumConverted(readMonthPaidAmounts(tx, targetMonth), readConverter(tx))
+    );
+  },
+};
+
+// Expense Split Services
+export const expenseSplitService: ExpenseSplitRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db.select().from(expenseSplits);
+  },
+
+  async getByExpenseId(expenseId: string) {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(expenseSplits)
+      .where(eq(expenseSplits.expenseId, expenseId));
+  },
+
+  async set(expenseId: string, split: ExpenseSplitInput | null) {
+    const expense = await expenseService.getById(expenseId);
+    if (!expense) {
+      throw new Error('Expense not found');
+    }
+    if (split) {
+      validateSplit(expense.amount, split);
+    }
+
+    await withTransaction((tx) => {
+      const where = eq(expenseSplits.expenseId, expenseId);
+      audited(tx, 'expenseSplits', where, () => {
+        tx.delete(expenseSplits).where(where).run();
+        for (const share of split?.shares ?? []) {
+          tx.insert(expenseSplits)
+            .values({
+              id: createId(),
+              expenseId,
+              memberId: share.memberId,
+              value: split?.type === 'equal' ? null : share.value,
+            })
+            .run();
+        }
+      });
+      audited(tx, 'expenses', eq(expenses.id, expenseId), () =>
+        tx
+          .update(expenses)
+          .set({
+            splitType: split?.type ?? null,
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(expenses.id, expenseId))
+          .run()
+      );
+    });
+  },
+};
+
+// Payment Services
+export const paymentService: PaymentRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(payments)
+      .orderBy(asc(payments.date), asc(payments.createdAt));
+  },
+
+  async getByExpenseId(expenseId: string) {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(payments)
+      .where(eq(payments.expenseId, expenseId))
+      .orderBy(asc(payments.date), asc(payments.createdAt));
+  },
+
+  async create(payment: Omit<NewPayment, 'id'>) {
+    return await withTransaction((tx) => {
+      const id = createId();
+      audited(tx, 'payments', eq(payments.id, id), () =>
+        tx
+          .insert(payments)
+          .values({ ...payment, id })
+          .run()
+      );
+      refreshPaidStatus(tx, payment.expenseId);
+      return tx.select().from(payments).where(eq(payments.id, id)).get()!;
+    });
+  },
+
+  async update(
+    id: string,
+    updates: Partial<Omit<NewPayment, 'id' | 'expenseId'>>
+  ) {
+    return await withTransaction((tx) => {
+      audited(tx, 'payments', eq(payments.id, id), () =>
+        tx
+          .update(payments)
+          .set({ ...updates, updatedAt: new Date().toISOString() })
+          .where(eq(payments.id, id))
+          .run()
+      );
+      const updated =
+        tx.select().from(payments).where(eq(payments.id, id)).get() ?? null;
+      if (updated) {
+        refreshPaidStatus(tx, updated.expenseId);
+      }
+      return updated;
+    });
+  },
+
+  async delete(id: string) {
+    await withTransaction((tx) => {
+      const payment = tx
+        .select()
+        .from(payments)
+        .where(eq(payments.id, id))
+        .get();
+      audited(tx, 'payments', eq(payments.id, id), () =>
+        tx.delete(payments).where(eq(payments.id, id)).run()
+      );
+      if (payment) {
+        refreshPaidStatus(tx, payment.expenseId);
+      }
+    });
+  },
+};
+
+// Settlement Services
+export const settlementService: SettlementRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(settlements)
+      .orderBy(desc(settlements.date), desc(settlements.createdAt));
+  },
+
+  async create(settlement: Omit<NewSettlement, 'id'>) {
+    const [created] = await this.createMany([settlement]);
+    return created || null;
+  },
+
+  async createMany(rows: Omit<NewSettlement, 'id'>[]) {
+    return await withTransaction((tx) =>
+      rows.map((settlement) => {
+        const id = createId();
+        audited(tx, 'settlements', eq(settlements.id, id), () =>
+          tx
+            .insert(settlements)
+            .values({ ...settlement, id })
+            .run()
+        );
+        return tx
+          .select()
+          .from(settlements)
+          .where(eq(settlements.id, id))
+          .get()!;
+      })
+    );
+  },
+
+  async delete(id: string) {
+    await withTransaction((tx) =>
+      audited(tx, 'settlements', eq(settlements.id, id), () =>
+        tx.delete(settlements).where(eq(settlements.id, id)).run()
+      )
+    );
+  },
+};
+
+// Account Services
+export const accountService: AccountRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db.select().from(accounts).orderBy(accounts.name);
+  },
+
+  async getById(id: string) {
+    const db = await getDb();
+    const result = await db.select().from(accounts).where(eq(accounts.id, id));
+    return result[0] || null;
+  },
+
+  async create(account: Omit<NewAccount, 'id'>) {
+    const id = createId();
+    await withTransaction((tx) =>
+      audited(tx, 'accounts', eq(accounts.id, id), () =>
+        tx
+          .insert(accounts)
+          .values({ ...account, name: account.name.trim(), id })
+          .run()
+      )
+    );
     return await this.getById(id);
   },
 
-  async update(id: string, updates: Partial<NewExpense>) {
+  async update(id: string, updates: Partial<NewAccount>) {
+    const updateData = { ...updates, updatedAt: new Date().toISOString() };
+    if (updates.name !== undefined) updateData.name = updates.name.trim();
+    await withTransaction((tx) =>
+      audited(tx, 'accounts', eq(accounts.id, id), () =>
+        tx.update(accounts).set(updateData).where(eq(accounts.id, id)).run()
+      )
+    );
+    return await this.getById(id);
+  },
+
+  // The account_id columns are added by ALTER TABLE, which cannot declare
+  // ON DELETE SET NULL, so they are cleared here
+  async delete(id: string) {
+    await withTransaction((tx) => {
+      const transferWhere = or(
+        eq(accountTransfers.fromAccountId, id),
+        eq(accountTransfers.toAccountId, id)
+      );
+      audited(tx, 'accountTransfers', transferWhere, () =>
+        tx.delete(accountTransfers).where(transferWhere).run()
+      );
+      audited(tx, 'expenses', eq(expenses.accountId, id), () =>
+        tx
+          .update(expenses)
+          .set({ accountId: null })
+          .where(eq(expenses.accountId, id))
+          .run()
+      );
+      audited(
+        tx,
+        'recurringExpenses',
+        eq(recurringExpenses.accountId, id),
+        () =>
+          tx
+            .update(recurringExpenses)
+            .set({ accountId: null })
+            .where(eq(recurringExpenses.accountId, id))
+            .run()
+      );
+      audited(tx, 'incomes', eq(incomes.accountId, id), () =>
+        tx
+          .update(incomes)
+          .set({ accountId: null })
+          .where(eq(incomes.accountId, id))
+          .run()
+      );
+      audited(
+        tx,
+        'financialSettings',
+        eq(financialSettings.savingsAccountId, id),
+        () =>
+          tx
+            .update(financialSettings)
+            .set({ savingsAccountId: null })
+            .where(eq(financialSettings.savingsAccountId, id))
+            .run()
+      );
+      audited(tx, 'accounts', eq(accounts.id, id), () =>
+        tx.delete(accounts).where(eq(accounts.id, id)).run()
+      );
+    });
+  },
+
+  async getBalances() {
+    return await withTransaction((tx) => getBalances(readAccountActivity(tx)));
+  },
+
+  async getLedger(id: string) {
+    return await withTransaction((tx) => {
+      const activity = readAccountActivity(tx);
+      const account = activity.accounts.find(
+        (candidate) => candidate.id === id
+      );
+      return account ? getLedger(account, activity) : [];
+    });
+  },
+};
+
+// Income Services
+export const incomeService: IncomeRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(incomes)
+      .orderBy(desc(incomes.date), desc(incomes.createdAt));
+  },
+
+  // Served by the date index
+  async getByMonth(month?: string) {
     const db = await getDb();
+    const targetMonth = month || getCurrentMonth();
+    return await db
+      .select()
+      .from(incomes)
+      .where(
+        and(
+          gte(incomes.date, `${targetMonth}-01`),
+          lte(incomes.date, `${targetMonth}-31`)
+        )
+      )
+      .orderBy(desc(incomes.date), desc(incomes.createdAt));
+  },
+
+  async create(income: Omit<NewIncome, 'id'>) {
+    const id = createId();
+    return await withTransaction((tx) => {
+      audited(tx, 'incomes', eq(incomes.id, id), () =>
+        tx
+          .insert(incomes)
+          .values({ ...income, name: income.name.trim(), id })
+          .run()
+      );
+      return tx.select().from(incomes).where(eq(incomes.id, id)).get()!;
+    });
+  },
+
+  async update(id: string, updates: Partial<NewIncome>) {
     const updateData = { ...updates, updatedAt: new Date().toISOString() };
-    const expense = await this.getById(id);
-    await db.update(expenses).set(updateData).where(eq(expenses.id, id));
-    if (expense) {
-      await monthlySavingsService.updateMonthlyExpenses(expense.month);
-    }
+    if (updates.name !== undefined) updateData.name = updates.name.trim();
+    return await withTransaction((tx) => {
+      audited(tx, 'incomes', eq(incomes.id, id), () =>
+        tx.update(incomes).set(updateData).where(eq(incomes.id, id)).run()
+      );
+      return tx.select().from(incomes).where(eq(incomes.id, id)).get() ?? null;
+    });
+  },
+
+  async delete(id: string) {
+    await withTransaction((tx) =>
+      audited(tx, 'incomes', eq(incomes.id, id), () =>
+        tx.delete(incomes).where(eq(incomes.id, id)).run()
+      )
+    );
+  },
+};
+
+// Account Transfer Services
+export const accountTransferService: AccountTransferRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(accountTransfers)
+      .orderBy(desc(accountTransfers.date), desc(accountTransfers.createdAt));
+  },
+
+  async create(transfer: Omit<NewAccountTransfer, 'id'>) {
+    validateTransfer(transfer);
+    const id = createId();
+    return await withTransaction((tx) => {
+      audited(tx, 'accountTransfers', eq(accountTransfers.id, id), () =>
+        tx
+          .insert(accountTransfers)
+          .values({ ...transfer, id })
+          .run()
+      );
+      return tx
+        .select()
+        .from(accountTransfers)
+        .where(eq(accountTransfers.id, id))
+        .get()!;
+    });
+  },
+
+  async delete(id: string) {
+    await withTransaction((tx) =>
+      audited(tx, 'accountTransfers', eq(accountTransfers.id, id), () =>
+        tx.delete(accountTransfers).where(eq(accountTransfers.id, id)).run()
+      )
+    );
+  },
+};
+
+// Recurring Expense Template Services
+export const recurringExpenseService: RecurringExpenseRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(recurringExpenses)
+      .orderBy(recurringExpenses.name);
+  },
+
+  async getById(id: string) {
+    const db = await getDb();
+    const result = await db
+      .select()
+      .from(recurringExpenses)
+      .where(eq(recurringExpenses.id, id));
+    return result[0] || null;
+  },
+
+  async create(template: Omit<NewRecurringExpense, 'id'>) {
+    const id = createId();
+    await withTransaction((tx) =>
+      audited(tx, 'recurringExpenses', eq(recurringExpenses.id, id), () =>
+        tx
+          .insert(recurringExpenses)
+          .values({ ...template, id })
+          .run()
+      )
+    );
     return await this.getById(id);
   },
 
-  async delete(id: string) {
+  async update(
+    id: string,
+    updates: Partial<NewRecurringExpense>,
+    options: RecurringExpenseUpdateOptions = {}
+  ) {
+    return await withTransaction((tx) => {
+      const updateData = { ...updates, updatedAt: new Date().toISOString() };
+      audited(tx, 'recurringExpenses', eq(recurringExpenses.id, id), () =>
+        tx
+          .update(recurringExpenses)
+          .set(updateData)
+          .where(eq(recurringExpenses.id, id))
+          .run()
+      );
+      const template =
+        tx
+          .select()
+          .from(recurringExpenses)
+          .where(eq(recurringExpenses.id, id))
+          .get() ?? null;
+
+      const fromMonth = options.applyToUnpaidFrom;
+      if (template && fromMonth) {
+        const instances = tx
+          .select()
+          .from(expenses)
+          .where(eq(expenses.templateId, id))
+          .all();
+        const changedMonths = new Set<string>();
+        for (const instance of instances) {
+          if (instance.isPaid || instance.month < fromMonth) continue;
+          const { updated } = updateExpense(
+            tx,
+            instance.id,
+            getInstanceUpdates(template, instance)
+          );
+          changedMonths.add(instance.month);
+          if (updated) changedMonths.add(updated.month);
+        }
+        for (const month of changedMonths) {
+          refreshMonthTotals(tx, month);
+        }
+      }
+      return template;
+    });
+  },
+
+  async delete(id: string) {
+    await withTransaction((tx) => {
+      // Generated expenses stay, they just lose the link to the template
+      audited(tx, 'expenses', eq(expenses.templateId, id), () =>
+        tx
+          .update(expenses)
+          .set({ templateId: null })
+          .where(eq(expenses.templateId, id))
+          .run()
+      );
+      audited(tx, 'recurringExpenses', eq(recurringExpenses.id, id), () =>
+        tx.delete(recurringExpenses).where(eq(recurringExpenses.id, id)).run()
+      );
+    });
+  },
+
+  async generateForMonth(month: string) {
+    return await withTransaction((tx) => {
+      const templates = tx
+        .select()
+        .from(recurringExpenses)
+        .orderBy(recurringExpenses.name)
+        .all();
+      // Trashed instances count as generated, so deleting one is not undone
+      // by the next generation
+      const monthExpenses = tx
+        .select()
+        .from(expenses)
+        .where(eq(expenses.month, month))
+        .all();
+      const rules = tx
+        .select()
+        .from(categorizationRules)
+        .orderBy(categorizationRules.priority, categorizationRules.createdAt)
+        .all();
+
+      const created = [];
+      for (const template of templates) {
+        if (template.isActive === false) continue;
+        for (const dueDate of getMissingOccurrences(
+          template,
+          month,
+          monthExpenses
+        )) {
+          const instance = buildInstance(template, dueDate);
+          // Rules may recategorize an instance; it stays recurring either way
+          const result = categorize(rules, instance);
+          created.push(
+            insertExpense(
+              tx,
+              createId(),
+              result ? { ...instance, category: result.category } : instance
+            )
+          );
+        }
+      }
+      if (created.length > 0) {
+        refreshMonthTotals(tx, month);
+      }
+      return created;
+    });
+  },
+};
+
+// Category Services
+export const categoryService: CategoryRepository = {
+  async getAll() {
     const db = await getDb();
-    const expense = await this.getById(id);
-    await db.delete(expenses).where(eq(expenses.id, id));
-    if (expense) {
-      await monthlySavingsService.updateMonthlyExpenses(expense.month);
-    }
+    return await db.select().from(categories).orderBy(categories.name);
   },
 
-  async getRecurringExpenses() {
+  async getById(id: string) {
     const db = await getDb();
-    return await db
+    const result = await db
       .select()
-      .from(expenses)
-      .where(eq(expenses.isRecurring, true));
+      .from(categories)
+      .where(eq(categories.id, id));
+    return result[0] || null;
   },
 
-  async getTotalMonthlyExpenses(month?: string) {
+  // Case-insensitive, so "housing" finds "Housing"
+  async getByName(name: string) {
     const db = await getDb();
-    const targetMonth = month || getCurrentMonth();
     const result = await db
-      .select({ total: sum(expenses.amount) })
-      .from(expenses)
-      .where(eq(expenses.month, targetMonth));
-    return Number(result[0]?.total || 0);
+      .select()
+      .from(categories)
+      .where(sql`lower(${categories.name}) = lower(${name.trim()})`);
+    return result[0] || null;
   },
 
-  async createRecurringExpensesForMonth(month: string) {
-    const recurringExpenses = await this.getRecurringExpenses();
-    const existingExpenses = await this.getByMonth(month);
+  async getOrCreate(name: string) {
+    return await withTransaction((tx) => {
+      const byName = sql`lower(${categories.name}) = lower(${name.trim()})`;
+      const existing = tx.select().from(categories).where(byName).get();
+      if (existing) return existing;
 
-    for (const recurring of recurringExpenses) {
-      const exists = existingExpenses.some(
-        (exp) =>
-          exp.name === recurring.name && exp.category === recurring.category
+      const id = createId();
+      audited(tx, 'categories', eq(categories.id, id), () =>
+        tx.insert(categories).values({ id, name: name.trim() }).run()
       );
+      return tx.select().from(categories).where(eq(categories.id, id)).get()!;
+    });
+  },
 
-      if (!exists && recurring.chargeDay) {
-        const [year, monthNum] = month.split('-').map(Number);
-        const dueDate = new Date(year, monthNum - 1, recurring.chargeDay);
-
-        await this.create({
-          name: recurring.name,
-          amount: recurring.amount,
-          category: recurring.category,
-          dueDate: dueDate.toISOString().split('T')[0],
-          month,
-          chargeDay: recurring.chargeDay,
-          isPaid: false,
-          isRecurring: false, // Monthly instance, not the recurring template
-        });
-      }
-    }
+  async update(id: string, updates: Partial<NewCategory>) {
+    const updateData = { ...updates, updatedAt: new Date().toISOString() };
+    await withTransaction((tx) =>
+      audited(tx, 'categories', eq(categories.id, id), () =>
+        tx.update(categories).set(updateData).where(eq(categories.id, id)).run()
+      )
+    );
+    return await this.getById(id);
   },
 };
 
-// Budget Category Services
-export const budgetCategoryService = {
+// Budget Allocation Services
+export const budgetAllocationService: BudgetAllocationRepository = {
   async getAll() {
     const db = await getDb();
     return await db
-      .select()
-      .from(budgetCategories)
-      .orderBy(budgetCategories.name);
+      .select(allocationColumns)
+      .from(budgetAllocations)
+      .innerJoin(categories, eq(budgetAllocations.categoryId, categories.id))
+      .where(isNull(budgetAllocations.deletedAt))
+      .orderBy(budgetAllocations.month, categories.name);
   },
 
   async getByMonth(month?: string) {
     const db = await getDb();
     const targetMonth = month || getCurrentMonth();
     return await db
-      .select()
-      .from(budgetCategories)
-      .where(eq(budgetCategories.month, targetMonth))
-      .orderBy(budgetCategories.name);
+      .select(allocationColumns)
+      .from(budgetAllocations)
+      .innerJoin(categories, eq(budgetAllocations.categoryId, categories.id))
+      .where(
+        and(
+          eq(budgetAllocations.month, targetMonth),
+          isNull(budgetAllocations.deletedAt)
+        )
+      )
+      .orderBy(categories.name);
   },
 
   async getById(id: string) {
     const db = await getDb();
     const result = await db
-      .select()
-      .from(budgetCategories)
-      .where(eq(budgetCategories.id, id));
+      .select(allocationColumns)
+      .from(budgetAllocations)
+      .innerJoin(categories, eq(budgetAllocations.categoryId, categories.id))
+      .where(eq(budgetAllocations.id, id));
     return result[0] || null;
   },
 
-  async create(category: Omit<NewBudgetCategory, 'id'>) {
-    const db = await getDb();
-    const month = category.month || getCurrentMonth();
-    const id = `${category.name.toLowerCase().replace(/\s+/g, '_')}_${month}`;
-    const newCategory = { ...category, id, month };
-    await db.insert(budgetCategories).values(newCategory);
+  async create(allocation: Omit<NewBudgetAllocation, 'id'>) {
+    const month = allocation.month || getCurrentMonth();
+    const id = `${allocation.categoryId}_${month}`;
+    await withTransaction((tx) => {
+      checkAllocationUnique(tx, allocation.categoryId, month);
+      purgeTrashedAllocation(tx, allocation.categoryId, month);
+
+      audited(tx, 'budgetAllocations', eq(budgetAllocations.id, id), () =>
+        tx
+          .insert(budgetAllocations)
+          .values({ ...allocation, id, month })
+          .run()
+      );
+      writeAllocationSpent(tx, month);
+    });
     return await this.getById(id);
   },
 
-  async update(id: string, updates: Partial<NewBudgetCategory>) {
-    const db = await getDb();
-    const updateData = { ...updates, updatedAt: new Date().toISOString() };
-    await db
-      .update(budgetCategories)
-      .set(updateData)
-      .where(eq(budgetCategories.id, id));
-    return await this.getById(id);
+  // Ids are `${categoryId}_${month}`, so a budget moved to another category
+  // or month is replaced by one with the new id
+  async update(id: string, updates: Partial<NewBudgetAllocation>) {
+    const updatedId = await withTransaction((tx) => {
+      const previous = tx
+        .select()
+        .from(budgetAllocations)
+        .where(eq(budgetAllocations.id, id))
+        .get();
+      if (!previous) return id;
+
+      const updated = {
+        ...previous,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      if (
+        updated.categoryId === previous.categoryId &&
+        updated.month === previous.month
+      ) {
+        audited(tx, 'budgetAllocations', eq(budgetAllocations.id, id), () =>
+          tx
+            .update(budgetAllocations)
+            .set(updated)
+            .where(eq(budgetAllocations.id, id))
+            .run()
+        );
+        return id;
+      }
+
+      checkAllocationUnique(tx, updated.categoryId, updated.month);
+      purgeTrashedAllocation(tx, updated.categoryId, updated.month);
+      const movedId = `${updated.categoryId}_${updated.month}`;
+      audited(tx, 'budgetAllocations', eq(budgetAllocations.id, id), () =>
+        tx.delete(budgetAllocations).where(eq(budgetAllocations.id, id)).run()
+      );
+      audited(tx, 'budgetAllocations', eq(budgetAllocations.id, movedId), () =>
+        tx
+          .insert(budgetAllocations)
+          .values({ ...updated, id: movedId })
+          .run()
+      );
+      // Another category matches a different set of expenses
+      writeAllocationSpent(tx, updated.month);
+      return movedId;
+    });
+    return await this.getById(updatedId);
   },
 
+  // Spent is still kept up to date in the trash, so a restored budget is
+  // right straight away
   async delete(id: string) {
+    const now = new Date().toISOString();
+    await withTransaction((tx) =>
+      audited(tx, 'budgetAllocations', eq(budgetAllocations.id, id), () =>
+        tx
+          .update(budgetAllocations)
+          .set({ deletedAt: now, updatedAt: now })
+          .where(eq(budgetAllocations.id, id))
+          .run()
+      )
+    );
+  },
+
+  async restore(id: string) {
+    await withTransaction((tx) =>
+      audited(tx, 'budgetAllocations', eq(budgetAllocations.id, id), () =>
+        tx
+          .update(budgetAllocations)
+          .set({ deletedAt: null, updatedAt: new Date().toISOString() })
+          .where(eq(budgetAllocations.id, id))
+          .run()
+      )
+    );
+  },
+
+  async purge(id: string) {
+    await withTransaction((tx) =>
+      audited(tx, 'budgetAllocations', eq(budgetAllocations.id, id), () =>
+        tx.delete(budgetAllocations).where(eq(budgetAllocations.id, id)).run()
+      )
+    );
+  },
+
+  async getDeleted() {
     const db = await getDb();
-    await db.delete(budgetCategories).where(eq(budgetCategories.id, id));
+    return await db
+      .select(allocationColumns)
+      .from(budgetAllocations)
+      .innerJoin(categories, eq(budgetAllocations.categoryId, categories.id))
+      .where(isNotNull(budgetAllocations.deletedAt))
+      .orderBy(desc(budgetAllocations.deletedAt));
   },
 
   async updateSpent(id: string, amount: number) {
-    const db = await getDb();
-    await db
-      .update(budgetCategories)
-      .set({ spent: amount })
-      .where(eq(budgetCategories.id, id));
+    await withTransaction((tx) =>
+      audited(tx, 'budgetAllocations', eq(budgetAllocations.id, id), () =>
+        tx
+          .update(budgetAllocations)
+          .set({ spent: amount, updatedAt: new Date().toISOString() })
+          .where(eq(budgetAllocations.id, id))
+          .run()
+      )
+    );
+  },
+
+  async recalculateSpent(month: string) {
+    await withTransaction((tx) => writeAllocationSpent(tx, month));
   },
 
   async createMonthlyBudgets(month: string, previousMonth?: string) {
-    if (previousMonth) {
-      const previousCategories = await this.getByMonth(previousMonth);
-      for (const category of previousCategories) {
-        const existingCategory = await this.getByMonth(month);
-        const exists = existingCategory.some((c) => c.name === category.name);
+    if (!previousMonth) return;
+
+    await withTransaction((tx) => {
+      const previousAllocations = tx
+        .select()
+        .from(budgetAllocations)
+        .where(
+          and(
+            eq(budgetAllocations.month, previousMonth),
+            isNull(budgetAllocations.deletedAt)
+          )
+        )
+        .all();
+      // A trashed budget keeps its category out of the new month
+      const existing = tx
+        .select()
+        .from(budgetAllocations)
+        .where(eq(budgetAllocations.month, month))
+        .all();
+
+      let created = 0;
+      for (const allocation of previousAllocations) {
+        const exists = existing.some(
+          (other) => other.categoryId === allocation.categoryId
+        );
 
         if (!exists) {
-          await this.create({
-            name: category.name,
-            limit: category.limit,
-            spent: 0,
-            month,
-          });
+          const id = `${allocation.categoryId}_${month}`;
+          audited(tx, 'budgetAllocations', eq(budgetAllocations.id, id), () =>
+            tx
+              .insert(budgetAllocations)
+              .values({
+                id,
+                categoryId: allocation.categoryId,
+                limit: allocation.limit,
+                spent: 0,
+                month,
+              })
+              .run()
+          );
+          created++;
         }
       }
-    }
+      if (created > 0) {
+        writeAllocationSpent(tx, month);
+      }
+    });
   },
 };
 
 // Grocery List Services
-export const groceryListService = {
+export const groceryListService: GroceryListRepository = {
   async getAll() {
     const db = await getDb();
     const lists = await db
       .select()
       .from(groceryLists)
+      .where(isNull(groceryLists.deletedAt))
       .orderBy(desc(groceryLists.createdAt));
 
     // Get items for each list
@@ -329,41 +1730,193 @@ export const groceryListService = {
   },
 
   async create(list: Omit<NewGroceryList, 'id'>) {
-    const db = await getDb();
-    const id = Date.now().toString();
+    const id = createId();
     const newList = { ...list, id };
-    await db.insert(groceryLists).values(newList);
+    await withTransaction((tx) =>
+      audited(tx, 'groceryLists', eq(groceryLists.id, id), () =>
+        tx.insert(groceryLists).values(newList).run()
+      )
+    );
     return await this.getById(id);
   },
 
   async update(id: string, updates: Partial<NewGroceryList>) {
-    const db = await getDb();
     const updateData = { ...updates, updatedAt: new Date().toISOString() };
-    await db
-      .update(groceryLists)
-      .set(updateData)
-      .where(eq(groceryLists.id, id));
+    await withTransaction((tx) =>
+      audited(tx, 'groceryLists', eq(groceryLists.id, id), () =>
+        tx
+          .update(groceryLists)
+          .set(updateData)
+          .where(eq(groceryLists.id, id))
+          .run()
+      )
+    );
     return await this.getById(id);
   },
 
+  // Items stay with a trashed list, so a restore brings them back
   async delete(id: string) {
+    const now = new Date().toISOString();
+    await withTransaction((tx) =>
+      audited(tx, 'groceryLists', eq(groceryLists.id, id), () =>
+        tx
+          .update(groceryLists)
+          .set({ deletedAt: now, updatedAt: now })
+          .where(eq(groceryLists.id, id))
+          .run()
+      )
+    );
+  },
+
+  async restore(id: string) {
+    await withTransaction((tx) =>
+      audited(tx, 'groceryLists', eq(groceryLists.id, id), () =>
+        tx
+          .update(groceryLists)
+          .set({ deletedAt: null, updatedAt: new Date().toISOString() })
+          .where(eq(groceryLists.id, id))
+          .run()
+      )
+    );
+  },
+
+  // Items and their price history go with the list; they are deleted here
+  // rather than by the cascade so that the change log records them
+  async purge(id: string) {
+    await withTransaction((tx) => {
+      const itemIds = tx
+        .select({ id: groceryItems.id })
+        .from(groceryItems)
+        .where(eq(groceryItems.listId, id))
+        .all()
+        .map((item) => item.id);
+      const historyWhere = inArray(priceHistory.itemId, itemIds);
+      audited(tx, 'priceHistory', historyWhere, () =>
+        tx.delete(priceHistory).where(historyWhere).run()
+      );
+      audited(tx, 'groceryItems', eq(groceryItems.listId, id), () =>
+        tx.delete(groceryItems).where(eq(groceryItems.listId, id)).run()
+      );
+      audited(tx, 'groceryLists', eq(groceryLists.id, id), () =>
+        tx.delete(groceryLists).where(eq(groceryLists.id, id)).run()
+      );
+    });
+  },
+
+  async getDeleted() {
     const db = await getDb();
-    await db.delete(groceryLists).where(eq(groceryLists.id, id));
+    return await db
+      .select()
+      .from(groceryLists)
+      .where(isNotNull(groceryLists.deletedAt))
+      .orderBy(desc(groceryLists.deletedAt));
   },
 
   async updateTotalCost(id: string) {
-    const db = await getDb();
-    const items = await groceryItemService.getByListId(id);
-    const totalCost = items.reduce((sum, item) => sum + item.totalCost, 0);
-    await db
-      .update(groceryLists)
-      .set({ totalCost })
-      .where(eq(groceryLists.id, id));
+    await withTransaction((tx) => writeListTotal(tx, id));
+  },
+
+  async createWithItems(
+    list: Omit<NewGroceryList, 'id' | 'totalCost'>,
+    items: GroceryItemDraft[]
+  ) {
+    const id = createId();
+
+    await withTransaction((tx) => {
+      audited(tx, 'groceryLists', eq(groceryLists.id, id), () =>
+        tx
+          .insert(groceryLists)
+          .values({ ...list, id, totalCost: getListTotal(items) })
+          .run()
+      );
+      items.forEach((item) => {
+        insertGroceryItem(tx, {
+          ...item,
+          id: createId(),
+          listId: id,
+          storeLocation: item.storeLocation || null,
+          isPurchased: false,
+        });
+      });
+    });
+
+    return await this.getById(id);
+  },
+
+  async updateWithItems(
+    id: string,
+    updates: Partial<NewGroceryList>,
+    items: GroceryItemDraft[]
+  ) {
+    const now = new Date().toISOString();
+    const today = now.split('T')[0];
+
+    await withTransaction((tx) => {
+      const existing = tx
+        .select()
+        .from(groceryItems)
+        .where(eq(groceryItems.listId, id))
+        .all();
+      const changes = diffGroceryItems(existing, items);
+
+      for (const itemId of changes.removed) {
+        audited(tx, 'priceHistory', eq(priceHistory.itemId, itemId), () =>
+          tx.delete(priceHistory).where(eq(priceHistory.itemId, itemId)).run()
+        );
+        audited(tx, 'groceryItems', eq(groceryItems.id, itemId), () =>
+          tx.delete(groceryItems).where(eq(groceryItems.id, itemId)).run()
+        );
+      }
+
+      changes.updated.forEach((change) => {
+        audited(tx, 'groceryItems', eq(groceryItems.id, change.id), () =>
+          tx
+            .update(groceryItems)
+            .set({ ...change.updates, updatedAt: now })
+            .where(eq(groceryItems.id, change.id))
+            .run()
+        );
+        if (change.priceChanged) {
+          const historyId = createId();
+          audited(tx, 'priceHistory', eq(priceHistory.id, historyId), () =>
+            tx
+              .insert(priceHistory)
+              .values({
+                id: historyId,
+                itemId: change.id,
+                price: change.updates.pricePerUnit!,
+                date: today,
+              })
+              .run()
+          );
+        }
+      });
+
+      changes.added.forEach((item) => {
+        insertGroceryItem(tx, {
+          ...item,
+          id: createId(),
+          listId: id,
+          storeLocation: item.storeLocation || null,
+          isPurchased: false,
+        });
+      });
+
+      audited(tx, 'groceryLists', eq(groceryLists.id, id), () =>
+        tx
+          .update(groceryLists)
+          .set({ ...updates, totalCost: getListTotal(items), updatedAt: now })
+          .where(eq(groceryLists.id, id))
+          .run()
+      );
+    });
+
+    return await this.getById(id);
   },
 };
 
 // Grocery Item Services
-export const groceryItemService = {
+export const groceryItemService: GroceryItemRepository = {
   async getByListId(listId: string) {
     const db = await getDb();
     const items = await db
@@ -395,56 +1948,62 @@ export const groceryItemService = {
   },
 
   async create(item: Omit<NewGroceryItem, 'id'>) {
-    const db = await getDb();
-    const id = Date.now().toString();
-    const newItem = { ...item, id };
-    await db.insert(groceryItems).values(newItem);
-
-    // Add price history entry
-    await priceHistoryService.create({
-      itemId: id,
-      price: item.pricePerUnit,
-      date: new Date().toISOString().split('T')[0],
+    const id = createId();
+    await withTransaction((tx) => {
+      insertGroceryItem(tx, { ...item, id });
+      if (item.listId) {
+        writeListTotal(tx, item.listId);
+      }
     });
-
-    // Update list total cost
-    if (item.listId) {
-      await groceryListService.updateTotalCost(item.listId);
-    }
-
     return await this.getById(id);
   },
 
   async update(id: string, updates: Partial<NewGroceryItem>) {
-    const db = await getDb();
-    const updateData = { ...updates, updatedAt: new Date().toISOString() };
-    await db
-      .update(groceryItems)
-      .set(updateData)
-      .where(eq(groceryItems.id, id));
-
-    // Update list total cost if item belongs to a list
-    const item = await this.getById(id);
-    if (item?.listId) {
-      await groceryListService.updateTotalCost(item.listId);
-    }
+    await withTransaction((tx) => {
+      const updateData = { ...updates, updatedAt: new Date().toISOString() };
+      audited(tx, 'groceryItems', eq(groceryItems.id, id), () =>
+        tx
+          .update(groceryItems)
+          .set(updateData)
+          .where(eq(groceryItems.id, id))
+          .run()
+      );
 
+      // Update list total cost if item belongs to a list
+      const item = tx
+        .select()
+        .from(groceryItems)
+        .where(eq(groceryItems.id, id))
+        .get();
+      if (item?.listId) {
+        writeListTotal(tx, item.listId);
+      }
+    });
     return await this.getById(id);
   },
 
   async delete(id: string) {
-    const db = await getDb();
-    const item = await this.getById(id);
-    await db.delete(groceryItems).where(eq(groceryItems.id, id));
+    await withTransaction((tx) => {
+      const item = tx
+        .select()
+        .from(groceryItems)
+        .where(eq(groceryItems.id, id))
+        .get();
+      audited(tx, 'priceHistory', eq(priceHistory.itemId, id), () =>
+        tx.delete(priceHistory).where(eq(priceHistory.itemId, id)).run()
+      );
+      audited(tx, 'groceryItems', eq(groceryItems.id, id), () =>
+        tx.delete(groceryItems).where(eq(groceryItems.id, id)).run()
+      );
 
-    // Update list total cost if item belonged to a list
-    if (item?.listId) {
-      await groceryListService.updateTotalCost(item.listId);
-    }
+      // Update list total cost if item belonged to a list
+      if (item?.listId) {
+        writeListTotal(tx, item.listId);
+      }
+    });
   },
 
   async togglePurchased(id: string) {
-    const db = await getDb();
     const item = await this.getById(id);
     if (!item) return null;
 
@@ -456,7 +2015,7 @@ export const groceryItemService = {
 };
 
 // Price History Services
-export const priceHistoryService = {
+export const priceHistoryService: PriceHistoryRepository = {
   async getByItemId(itemId: string) {
     const db = await getDb();
     return await db
@@ -467,21 +2026,32 @@ export const priceHistoryService = {
   },
 
   async create(history: Omit<NewPriceHistory, 'id'>) {
-    const db = await getDb();
-    const id = Date.now().toString();
+    const id = createId();
     const newHistory = { ...history, id };
-    await db.insert(priceHistory).values(newHistory);
-    return newHistory;
+    await withTransaction((tx) =>
+      audited(tx, 'priceHistory', eq(priceHistory.id, id), () =>
+        tx.insert(priceHistory).values(newHistory).run()
+      )
+    );
+    const db = await getDb();
+    const result = await db
+      .select()
+      .from(priceHistory)
+      .where(eq(priceHistory.id, id));
+    return result[0];
   },
 
   async delete(id: string) {
-    const db = await getDb();
-    await db.delete(priceHistory).where(eq(priceHistory.id, id));
+    await withTransaction((tx) =>
+      audited(tx, 'priceHistory', eq(priceHistory.id, id), () =>
+        tx.delete(priceHistory).where(eq(priceHistory.id, id)).run()
+      )
+    );
   },
 };
 
 // Financial Settings Services
-export const financialSettingsService = {
+export const financialSettingsService: FinancialSettingsRepository = {
   async get() {
     const db = await getDb();
     const result = await db.select().from(financialSettings).limit(1);
@@ -489,27 +2059,44 @@ export const financialSettingsService = {
   },
 
   async create(settings: Omit<NewFinancialSettings, 'id'>) {
-    const db = await getDb();
     const id = 'default';
     const newSettings = {
       id,
       monthlyIncome: settings.monthlyIncome,
       savingsGoal: settings.savingsGoal,
       currentSavings: settings.currentSavings ?? 0,
+      savingsAccountId: settings.savingsAccountId ?? null,
+      baseCurrency: settings.baseCurrency ?? DEFAULT_CURRENCY,
       createdAt: null,
       updatedAt: null,
     };
-    await db.insert(financialSettings).values(newSettings);
+    await withTransaction((tx) =>
+      audited(tx, 'financialSettings', eq(financialSettings.id, id), () =>
+        tx.insert(financialSettings).values(newSettings).run()
+      )
+    );
     return newSettings;
   },
 
   async update(updates: Partial<NewFinancialSettings>) {
-    const db = await getDb();
-    const updateData = { ...updates, updatedAt: new Date().toISOString() };
-    await db
-      .update(financialSettings)
-      .set(updateData)
-      .where(eq(financialSettings.id, 'default'));
+    await withTransaction((tx) => {
+      const previous = tx.select().from(financialSettings).limit(1).get();
+      const previousCurrency = previous?.baseCurrency || DEFAULT_CURRENCY;
+      const currencyChanged =
+        !!updates.baseCurrency && updates.baseCurrency !== previousCurrency;
+      // Amounts passed along with the new currency are already in it
+      if (currencyChanged) {
+        convertBaseAmounts(tx, previousCurrency, updates.baseCurrency!);
+      }
+      const updateData = { ...updates, updatedAt: new Date().toISOString() };
+      const where = eq(financialSettings.id, 'default');
+      audited(tx, 'financialSettings', where, () =>
+        tx.update(financialSettings).set(updateData).where(where).run()
+      );
+      if (currencyChanged) {
+        refreshAllMonthTotals(tx);
+      }
+    });
     return await this.get();
   },
 
@@ -529,56 +2116,310 @@ export const financialSettingsService = {
     return settings;
   },
 
-  async getDashboardData() {
+  async getDashboardData(month?: string) {
     const db = await getDb();
     const settings = await this.getOrCreate();
-    const currentMonth = getCurrentMonth();
+    const targetMonth = month || getCurrentMonth();
     const totalExpenses = await expenseService.getTotalMonthlyExpenses(
-      currentMonth
+      targetMonth
+    );
+    const totalPaid = await expenseService.getTotalMonthlyPaid(targetMonth);
+    const memberTotals = await withTransaction((tx) =>
+      totalByMember(readMonthExpenseAmounts(tx, targetMonth), readConverter(tx))
+    );
+    const currentSavings = await withTransaction((tx) =>
+      readCurrentSavings(tx, settings)
     );
 
     const budgetResult = await db
       .select({
-        totalLimit: sum(budgetCategories.limit),
-        totalSpent: sum(budgetCategories.spent),
+        totalLimit: sum(budgetAllocations.limit),
+        totalSpent: sum(budgetAllocations.spent),
       })
-      .from(budgetCategories)
-      .where(eq(budgetCategories.month, currentMonth));
+      .from(budgetAllocations)
+      .where(
+        and(
+          eq(budgetAllocations.month, targetMonth),
+          isNull(budgetAllocations.deletedAt)
+        )
+      );
 
     const totalBudgetLimit = Number(budgetResult[0]?.totalLimit || 0);
     const totalBudgetSpent = Number(budgetResult[0]?.totalSpent || 0);
 
     return {
+      baseCurrency: settings.baseCurrency,
       monthlyIncome: settings.monthlyIncome,
       totalExpenses,
+      totalPaid,
       remainingIncome: settings.monthlyIncome - totalExpenses,
       savingsGoal: settings.savingsGoal,
-      currentSavings: settings.currentSavings || 0,
+      currentSavings,
       savingsProgress:
         settings.savingsGoal > 0
-          ? ((settings.currentSavings || 0) / settings.savingsGoal) * 100
+          ? (currentSavings / settings.savingsGoal) * 100
           : 0,
       totalBudgetLimit,
       totalBudgetSpent,
       remainingBudget: totalBudgetLimit - totalBudgetSpent,
+      memberTotals,
     };
   },
 
   async getExpensesByCategory(month?: string) {
-    const db = await getDb();
     const targetMonth = month || getCurrentMonth();
+    return await withTransaction((tx) =>
+      totalByCategoryAndMember(
+        readMonthExpenseAmounts(tx, targetMonth),
+        readConverter(tx)
+      )
+    );
+  },
+};
+
+// Monthly Rollover Services
+export const rolloverService: RolloverRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(monthlyRollovers)
+      .orderBy(desc(monthlyRollovers.month));
+  },
+
+  async getLastRolledMonth() {
+    const db = await getDb();
     const result = await db
-      .select({
-        category: expenses.category,
-        total: sum(expenses.amount),
+      .select()
+      .from(monthlyRollovers)
+      .orderBy(desc(monthlyRollovers.month))
+      .limit(1);
+    return result[0]?.month ?? null;
+  },
+
+  async hasRolled(month: string) {
+    const db = await getDb();
+    const result = await db
+      .select()
+      .from(monthlyRollovers)
+      .where(eq(monthlyRollovers.month, month));
+    return result.length > 0;
+  },
+
+  async markRolled(month: string) {
+    const db = await getDb();
+    await db
+      .insert(monthlyRollovers)
+      .values({ month, rolledAt: new Date().toISOString() })
+      .onConflictDoNothing();
+  },
+};
+
+// Exchange Rate Services
+const saveRate = (tx: DbTransaction, rate: ExchangeRateInput) => {
+  const fromCurrency = normalizeCurrency(rate.fromCurrency);
+  const toCurrency = normalizeCurrency(rate.toCurrency);
+  if (!(rate.rate > 0)) {
+    throw new Error(`Invalid exchange rate for ${fromCurrency}/${toCurrency}`);
+  }
+  const updatedAt = new Date().toISOString();
+  const id = getExchangeRateId(fromCurrency, toCurrency);
+  audited(tx, 'exchangeRates', eq(exchangeRates.id, id), () =>
+    tx
+      .insert(exchangeRates)
+      .values({ id, fromCurrency, toCurrency, rate: rate.rate, updatedAt })
+      .onConflictDoUpdate({
+        target: exchangeRates.id,
+        set: { rate: rate.rate, updatedAt },
       })
-      .from(expenses)
-      .where(eq(expenses.month, targetMonth))
-      .groupBy(expenses.category);
+      .run()
+  );
+};
+
+export const exchangeRateService: ExchangeRateRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(exchangeRates)
+      .orderBy(exchangeRates.fromCurrency, exchangeRates.toCurrency);
+  },
+
+  async getRate(fromCurrency: string, toCurrency: string) {
+    return findRate(
+      await this.getAll(),
+      normalizeCurrency(fromCurrency),
+      normalizeCurrency(toCurrency)
+    );
+  },
+
+  async upsert(rate: ExchangeRateInput) {
+    await withTransaction((tx) => {
+      saveRate(tx, rate);
+      refreshAllMonthTotals(tx);
+    });
+    const db = await getDb();
+    const result = await db
+      .select()
+      .from(exchangeRates)
+      .where(
+        eq(
+          exchangeRates.id,
+          getExchangeRateId(
+            normalizeCurrency(rate.fromCurrency),
+            normalizeCurrency(rate.toCurrency)
+          )
+        )
+      );
+    return result[0] || null;
+  },
+
+  async delete(id: string) {
+    await withTransaction((tx) => {
+      audited(tx, 'exchangeRates', eq(exchangeRates.id, id), () =>
+        tx.delete(exchangeRates).where(eq(exchangeRates.id, id)).run()
+      );
+      refreshAllMonthTotals(tx);
+    });
+  },
+
+  // All or nothing: one invalid rate leaves the stored rates untouched
+  async import(rates: ExchangeRateInput[]) {
+    await withTransaction((tx) => {
+      for (const rate of rates) {
+        saveRate(tx, rate);
+      }
+      if (rates.length > 0) {
+        refreshAllMonthTotals(tx);
+      }
+    });
+    return rates.length;
+  },
+};
+
+// Categorization Rule Services
+export const categorizationRuleService: CategorizationRuleRepository = {
+  async getAll() {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(categorizationRules)
+      .orderBy(categorizationRules.priority, categorizationRules.createdAt);
+  },
+
+  async getById(id: string) {
+    const db = await getDb();
+    const result = await db
+      .select()
+      .from(categorizationRules)
+      .where(eq(categorizationRules.id, id));
+    return result[0] || null;
+  },
+
+  async create(rule: Omit<NewCategorizationRule, 'id'>) {
+    validateRule(rule);
+    const id = createId();
+    await withTransaction((tx) => {
+      const last = tx
+        .select()
+        .from(categorizationRules)
+        .orderBy(desc(categorizationRules.priority))
+        .limit(1)
+        .get();
+      const priority = rule.priority ?? (last ? last.priority + 1 : 0);
+      audited(tx, 'categorizationRules', eq(categorizationRules.id, id), () =>
+        tx
+          .insert(categorizationRules)
+          .values({ ...rule, id, priority })
+          .run()
+      );
+    });
+    return await this.getById(id);
+  },
+
+  async update(id: string, updates: Partial<NewCategorizationRule>) {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+    validateRule({ ...existing, ...updates });
+
+    const updateData = { ...updates, updatedAt: new Date().toISOString() };
+    await withTransaction((tx) =>
+      audited(tx, 'categorizationRules', eq(categorizationRules.id, id), () =>
+        tx
+          .update(categorizationRules)
+          .set(updateData)
+          .where(eq(categorizationRules.id, id))
+          .run()
+      )
+    );
+    return await this.getById(id);
+  },
 
-    return result.map((row) => ({
-      category: row.category,
-      total: Number(row.total || 0),
-    }));
+  async delete(id: string) {
+    await withTransaction((tx) =>
+      audited(tx, 'categorizationRules', eq(categorizationRules.id, id), () =>
+        tx
+          .delete(categorizationRules)
+          .where(eq(categorizationRules.id, id))
+          .run()
+      )
+    );
+  },
+
+  async reorder(ids: string[]) {
+    await withTransaction((tx) =>
+      audited(
+        tx,
+        'categorizationRules',
+        inArray(categorizationRules.id, ids),
+        () => {
+          for (const [priority, id] of ids.entries()) {
+            tx.update(categorizationRules)
+              .set({ priority })
+              .where(eq(categorizationRules.id, id))
+              .run();
+          }
+        }
+      )
+    );
+  },
+
+  async applyToMonth(month: string) {
+    return await withTransaction((tx) => {
+      const rules = tx
+        .select()
+        .from(categorizationRules)
+        .orderBy(categorizationRules.priority, categorizationRules.createdAt)
+        .all();
+      const monthExpenses = tx
+        .select()
+        .from(expenses)
+        .where(and(eq(expenses.month, month), isNull(expenses.deletedAt)))
+        .all();
+
+      let changed = 0;
+      for (const expense of monthExpenses) {
+        const updates = getRuleUpdates(rules, expense);
+        if (!updates) continue;
+        updateExpense(tx, expense.id, updates);
+        changed++;
+      }
+      if (changed > 0) {
+        refreshMonthTotals(tx, month);
+      }
+      return changed;
+    });
+  },
+};
+
+// Change log Services
+export const auditService: AuditRepository = {
+  async getByRecord(entity: AuditEntity, entityId: string) {
+    const db = await getDb();
+    const entries = await db
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.entity, entity), eq(auditLog.entityId, entityId)));
+    return sortHistory(entries);
   },
 };
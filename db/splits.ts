@@ -0,0 +1,241 @@
+// Shared expenses and settling up between household members.
+//
+// A shared expense has a payer (`paidBy`), a split type and one
+// `expense_splits` row per member who shares it. Each member's part is worked
+// out from the expense amount whenever it is needed, so editing the amount
+// divides the new amount. Balances net every shared expense and settlement
+// across all months: a positive balance is owed to the member, a negative one
+// is owed by them. Works against the repository interfaces, so the same
+// engine serves the SQLite and the IndexedDB services.
+import type { Expense, ExpenseSplit, Settlement, SplitType } from './schema';
+import type {
+  ExpenseRepository,
+  ExpenseSplitRepository,
+  SettlementRepository,
+} from './repositories';
+import type { Converter } from './currency';
+import { allocateMoney, sumMoney, type Cents } from './money';
+
+export interface SplitShare {
+  memberId: string;
+  // A percentage, a number of shares or exact cents; unused for equal splits
+  value: number | null;
+}
+
+export interface ExpenseSplitInput {
+  type: SplitType;
+  shares: SplitShare[];
+}
+
+export interface MemberAmount {
+  memberId: string;
+  amount: Cents;
+}
+
+export interface MemberBalance {
+  memberId: string;
+  balance: Cents;
+}
+
+export interface Transfer {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: Cents;
+}
+
+export interface SplitServices {
+  expenses: ExpenseRepository;
+  splits: ExpenseSplitRepository;
+  settlements: SettlementRepository;
+}
+
+export type SharedExpense = Pick<
+  Expense,
+  'id' | 'amount' | 'currency' | 'paidBy' | 'splitType'
+>;
+
+// Typed percentages such as 33.33 + 33.33 + 33.34 may carry float noise
+const PERCENT_TOLERANCE = 0.001;
+
+export const validateSplit = (amount: Cents, split: ExpenseSplitInput) => {
+  if (split.shares.length === 0) {
+    throw new Error('A split needs at least one member');
+  }
+  const memberIds = new Set(split.shares.map((share) => share.memberId));
+  if (memberIds.size !== split.shares.length) {
+    throw new Error('A member can only appear once in a split');
+  }
+  if (split.type === 'equal') return;
+
+  const values = split.shares.map((share) => share.value ?? 0);
+  if (values.some((value) => !Number.isFinite(value))) {
+    throw new Error('Every member needs a split value');
+  }
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  switch (split.type) {
+    case 'percentage':
+      if (values.some((value) => value < 0)) {
+        throw new Error('Percentages cannot be negative');
+      }
+      if (Math.abs(total - 100) > PERCENT_TOLERANCE) {
+        throw new Error(`Percentages add up to ${total}%, not 100%`);
+      }
+      break;
+    case 'shares':
+      if (values.some((value) => value < 0) || total <= 0) {
+        throw new Error('Shares must be positive');
+      }
+      break;
+    case 'exact':
+      if (values.some((value) => !Number.isInteger(value))) {
+        throw new Error('Exact amounts must be whole cents');
+      }
+      if (total !== amount) {
+        throw new Error('Exact amounts must add up to the expense amount');
+      }
+      break;
+  }
+};
+
+// Each member's part of `amount`, without losing a cent. Exact amounts that
+// no longer add up, because the expense amount was edited afterwards, are
+// scaled to the new amount.
+export const allocateSplit = (
+  amount: Cents,
+  split: ExpenseSplitInput
+): MemberAmount[] => {
+  const values = split.shares.map((share) =>
+    split.type === 'equal' ? 1 : share.value ?? 0
+  );
+  const amounts =
+    split.type === 'exact' && sumMoney(values) === amount
+      ? values
+      : allocateMoney(amount, values);
+  return split.shares.map((share, index) => ({
+    memberId: share.memberId,
+    amount: amounts[index],
+  }));
+};
+
+const addToBalance = (
+  balances: Map<string, Cents>,
+  memberId: string,
+  amount: Cents
+) => {
+  balances.set(memberId, (balances.get(memberId) || 0) + amount);
+};
+
+// Net balance of every member, in the base currency, largest credit first.
+// The payer is credited with the other members' parts and each member is
+// charged their own, so the balances always add up to zero. A settlement
+// moves its amount from the payer's debt to the receiver's credit.
+export const calculateBalances = (
+  expenses: SharedExpense[],
+  splits: Pick<ExpenseSplit, 'expenseId' | 'memberId' | 'value'>[],
+  settlements: Pick<
+    Settlement,
+    'fromMemberId' | 'toMemberId' | 'amount' | 'currency'
+  >[],
+  convert: Converter
+): MemberBalance[] => {
+  const splitsByExpense = new Map<string, SplitShare[]>();
+  for (const split of splits) {
+    const shares = splitsByExpense.get(split.expenseId) || [];
+    shares.push({ memberId: split.memberId, value: split.value });
+    splitsByExpense.set(split.expenseId, shares);
+  }
+
+  const balances = new Map<string, Cents>();
+  for (const expense of expenses) {
+    const shares = splitsByExpense.get(expense.id);
+    if (!expense.splitType || !expense.paidBy || !shares) continue;
+
+    // Storage order differs between backends; sorting decides the same way
+    // on both which member a leftover cent goes to
+    const parts = allocateSplit(expense.amount, {
+      type: expense.splitType,
+      shares: [...shares].sort((a, b) => a.memberId.localeCompare(b.memberId)),
+    });
+    for (const part of parts) {
+      if (part.memberId === expense.paidBy) continue;
+      const owed = convert(part.amount, expense.currency);
+      addToBalance(balances, part.memberId, -owed);
+      addToBalance(balances, expense.paidBy, owed);
+    }
+  }
+
+  for (const settlement of settlements) {
+    const amount = convert(settlement.amount, settlement.currency);
+    addToBalance(balances, settlement.fromMemberId, amount);
+    addToBalance(balances, settlement.toMemberId, -amount);
+  }
+
+  return Array.from(balances, ([memberId, balance]) => ({
+    memberId,
+    balance,
+  }))
+    .filter(({ balance }) => balance !== 0)
+    .sort((a, b) => b.balance - a.balance);
+};
+
+// Transfers that bring every balance to zero. The largest debt is always
+// paid towards the largest credit, so each transfer clears at least one
+// member and there is at most one transfer fewer than members with a balance.
+export const minimizeTransfers = (balances: MemberBalance[]): Transfer[] => {
+  const creditors = balances
+    .filter(({ balance }) => balance > 0)
+    .map((entry) => ({ ...entry }));
+  const debtors = balances
+    .filter(({ balance }) => balance < 0)
+    .map((entry) => ({ memberId: entry.memberId, balance: -entry.balance }));
+
+  const transfers: Transfer[] = [];
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.balance - a.balance);
+    debtors.sort((a, b) => b.balance - a.balance);
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = Math.min(creditor.balance, debtor.balance);
+
+    transfers.push({
+      fromMemberId: debtor.memberId,
+      toMemberId: creditor.memberId,
+      amount,
+    });
+    creditor.balance -= amount;
+    debtor.balance -= amount;
+    if (creditor.balance === 0) creditors.shift();
+    if (debtor.balance === 0) debtors.shift();
+  }
+  return transfers;
+};
+
+export const getBalances = async (
+  services: SplitServices,
+  convert: Converter
+) => {
+  const [expenses, splits, settlements] = await Promise.all([
+    services.expenses.getAll(),
+    services.splits.getAll(),
+    services.settlements.getAll(),
+  ]);
+  return calculateBalances(expenses, splits, settlements, convert);
+};
+
+// Records the transfers that settle every balance, in the base currency, and
+// returns them
+export const settleUp = async (
+  services: SplitServices,
+  convert: Converter,
+  currency: string,
+  date: string
+) => {
+  const transfers = minimizeTransfers(await getBalances(services, convert));
+  if (transfers.length > 0) {
+    await services.settlements.createMany(
+      transfers.map((transfer) => ({ ...transfer, currency, date }))
+    );
+  }
+  return transfers;
+};
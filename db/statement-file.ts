@@ -0,0 +1,29 @@
+// Lets the user pick a bank statement and reads it as text, on native and
+// web alike.
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+export interface StatementFile {
+  name: string;
+  text: string;
+}
+
+// Null when the user cancels the picker
+export const pickStatementFile = async (): Promise<StatementFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    // OFX/QFX have no registered MIME type on most platforms
+    type: '*/*',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets[0]) return null;
+
+  const asset = result.assets[0];
+  const text =
+    Platform.OS === 'web'
+      ? asset.file
+        ? await asset.file.text()
+        : await (await fetch(asset.uri)).text()
+      : await FileSystem.readAsStringAsync(asset.uri);
+  return { name: asset.name, text };
+};
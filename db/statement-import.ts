@@ -0,0 +1,370 @@
+// Bank statement import. Parses CSV (through a column mapping), OFX and QFX
+// statements into expenses, then builds a preview that flags rows already
+// present so nothing is imported twice. Pure functions; the screen reads the
+// file and commits the selected rows.
+import type { CategorizationRule, Expense, NewExpense } from './schema';
+import { parseMoney, type Cents } from './money';
+import { normalizeCurrency } from './currency';
+import { categorize, type RuleResult } from './categorization';
+
+export type StatementFormat = 'csv' | 'ofx';
+
+// One posted transaction. `amount` is positive for money going out (an
+// expense) and negative for money coming in.
+export interface StatementTransaction {
+  date: string; // Format: YYYY-MM-DD
+  description: string;
+  amount: Cents;
+  currency: string | null;
+  externalId: string | null; // OFX FITID
+}
+
+export interface StatementParseResult {
+  transactions: StatementTransaction[];
+  // 1-based row (CSV, header included) or transaction number (OFX)
+  errors: { line: number; reason: string }[];
+}
+
+// QFX is Quicken's branded OFX; both are detected from the content too, in
+// case the file lost its extension along the way
+export const detectStatementFormat = (
+  filename: string,
+  text: string
+): StatementFormat =>
+  /\.(ofx|qfx)$/i.test(filename) || /<OFX>/i.test(text) ? 'ofx' : 'csv';
+
+// OFX
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Works for SGML (OFX 1.x, leaf tags left open) and XML (OFX 2.x)
+const readOfxField = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : null;
+};
+
+// DTPOSTED is YYYYMMDD, optionally followed by a time and time zone
+const parseOfxDate = (value: string | null) => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+export const parseOfx = (text: string): StatementParseResult => {
+  const currency = readOfxField(text, 'CURDEF');
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  const result: StatementParseResult = { transactions: [], errors: [] };
+  blocks.forEach((block, index) => {
+    const date = parseOfxDate(readOfxField(block, 'DTPOSTED'));
+    const amount = parseMoney(readOfxField(block, 'TRNAMT') || '');
+    const description =
+      readOfxField(block, 'NAME') || readOfxField(block, 'MEMO') || '';
+
+    if (!date || amount === null) {
+      result.errors.push({
+        line: index + 1,
+        reason: !date ? 'Missing posting date' : 'Invalid amount',
+      });
+      return;
+    }
+    result.transactions.push({
+      date,
+      description,
+      // OFX amounts are signed from the account's point of view
+      amount: -amount,
+      currency: currency ? normalizeCurrency(currency) : null,
+      externalId: readOfxField(block, 'FITID'),
+    });
+  });
+  return result;
+};
+
+// CSV
+
+const detectDelimiter = (line: string) => {
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: line.split(delimiter).length,
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+// RFC 4180: quoted fields may hold delimiters, doubled quotes and newlines
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell !== ''));
+};
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export const statementDateFormats: StatementDateFormat[] = [
+  'YYYY-MM-DD',
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+];
+
+// Column indexes into each CSV row. Amounts come either from one signed
+// `amount` column or from separate `debit` and `credit` columns.
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  dateFormat: StatementDateFormat;
+  // Most banks print money going out as a negative amount
+  expensesAreNegative: boolean;
+}
+
+export const parseStatementDate = (
+  text: string,
+  format: StatementDateFormat
+) => {
+  const parts = text
+    .trim()
+    .split(/[^\d]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (parts.length < 3) return null;
+
+  const [year, month, day] =
+    format === 'YYYY-MM-DD'
+      ? parts
+      : format === 'MM/DD/YYYY'
+      ? [parts[2], parts[0], parts[1]]
+      : [parts[2], parts[1], parts[0]];
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  return `${fullYear}-${String(month).padStart(2, '0')}-${String(day).padStart(
+    2,
+    '0'
+  )}`;
+};
+
+const findColumn = (header: string[], pattern: RegExp) => {
+  const index = header.findIndex((cell) => pattern.test(cell.toLowerCase()));
+  return index === -1 ? null : index;
+};
+
+// Best guess from the header row and the dates; the user confirms
+// or corrects it before the preview
+export const guessCsvMapping = (rows: string[][]): CsvColumnMapping => {
+  const [header = []] = rows;
+  const date = findColumn(header, /date|posted|fecha/) ?? 0;
+  const debit = findColumn(header, /debit|withdrawal|paid out|money out/);
+  const credit = findColumn(header, /credit|deposit|paid in|money in/);
+  const amount =
+    debit !== null && credit !== null
+      ? null
+      : findColumn(header, /amount|value|importe|sum/) ?? header.length - 1;
+
+  // A leading day above 12 anywhere in the file settles DD/MM vs MM/DD
+  const dates = rows.slice(1).map((row) => row[date] || '');
+  const dateFormat: StatementDateFormat = /^\d{4}/.test(dates[0] || '')
+    ? 'YYYY-MM-DD'
+    : dates.some((value) => Number(value.split(/[^\d]+/)[0]) > 12)
+    ? 'DD/MM/YYYY'
+    : 'MM/DD/YYYY';
+
+  return {
+    date,
+    description:
+      findColumn(header, /desc|payee|name|memo|details|narrative|concept/) ??
+      (date === 1 ? 0 : 1),
+    amount,
+    debit: amount === null ? debit : null,
+    credit: amount === null ? credit : null,
+    dateFormat,
+    expensesAreNegative: true,
+  };
+};
+
+// The first row is the header and is skipped
+export const mapCsvRows = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  currency: string | null = null
+): StatementParseResult => {
+  const result: StatementParseResult = { transactions: [], errors: [] };
+
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2;
+    const date = parseStatementDate(
+      row[mapping.date] || '',
+      mapping.dateFormat
+    );
+    if (!date) {
+      result.errors.push({ line, reason: 'Invalid date' });
+      return;
+    }
+
+    let amount: Cents | null;
+    if (mapping.amount !== null) {
+      const value = parseMoney(row[mapping.amount] || '');
+      amount =
+        value === null ? null : mapping.expensesAreNegative ? -value : value;
+    } else {
+      const debit = parseMoney(row[mapping.debit ?? -1] || '');
+      const credit = parseMoney(row[mapping.credit ?? -1] || '');
+      amount =
+        debit === null && credit === null
+          ? null
+          : Math.abs(debit || 0) - Math.abs(credit || 0);
+    }
+    if (amount === null) {
+      result.errors.push({ line, reason: 'Invalid amount' });
+      return;
+    }
+
+    result.transactions.push({
+      date,
+      description: row[mapping.description] || '',
+      amount,
+      currency,
+      externalId: null,
+    });
+  });
+  return result;
+};
+
+// Preview
+
+export type Categorizer = (
+  expense: Pick<NewExpense, 'name' | 'amount'>
+) => RuleResult | null;
+
+export interface ImportPreviewRow {
+  key: string;
+  expense: Omit<NewExpense, 'id'>;
+  // Already stored, or repeated earlier in the same statement
+  duplicate: boolean;
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  // Money coming in is not an expense and is left out
+  skippedCredits: number;
+}
+
+const normalizeDescription = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const getDuplicateKey = (date: string, amount: Cents, description: string) =>
+  `${date}|${amount}|${normalizeDescription(description)}`;
+
+// Reuses the category of the latest expense with the same description
+export const learnCategories = (existing: Expense[]): Categorizer => {
+  const categories = new Map<string, { dueDate: string; category: string }>();
+  for (const expense of existing) {
+    const key = normalizeDescription(expense.name);
+    const known = categories.get(key);
+    if (!known || expense.dueDate > known.dueDate) {
+      categories.set(key, {
+        dueDate: expense.dueDate,
+        category: expense.category,
+      });
+    }
+  }
+  return (expense) => {
+    const known = categories.get(normalizeDescription(expense.name));
+    return known ? { category: known.category } : null;
+  };
+};
+
+export const buildImportPreview = (
+  transactions: StatementTransaction[],
+  existing: Expense[],
+  options: {
+    currency: string;
+    // Categorization rules win; otherwise earlier expenses are the guide
+    rules?: CategorizationRule[];
+    fallbackCategory?: string;
+  }
+): ImportPreview => {
+  const learned = learnCategories(existing);
+  const categorizer: Categorizer = (expense) =>
+    categorize(options.rules ?? [], expense) ?? learned(expense);
+  const seen = new Set(
+    existing.map((expense) =>
+      getDuplicateKey(expense.dueDate, expense.amount, expense.name)
+    )
+  );
+
+  const rows: ImportPreviewRow[] = [];
+  let skippedCredits = 0;
+  transactions.forEach((transaction, index) => {
+    if (transaction.amount <= 0) {
+      skippedCredits++;
+      return;
+    }
+
+    const name = transaction.description || 'Imported expense';
+    const key = getDuplicateKey(transaction.date, transaction.amount, name);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    const result = categorizer({ name, amount: transaction.amount });
+
+    rows.push({
+      key: transaction.externalId || `${key}|${index}`,
+      duplicate,
+      expense: {
+        name,
+        amount: transaction.amount,
+        currency: transaction.currency || options.currency,
+        category: result?.category || options.fallbackCategory || 'Other',
+        dueDate: transaction.date,
+        month: transaction.date.slice(0, 7),
+        chargeDay: null,
+        isPaid: true,
+        isRecurring: result?.isRecurring ?? false,
+      },
+    });
+  });
+  return { rows, skippedCredits };
+};
@@ -0,0 +1,152 @@
+// A small HTTP server that lets peers on the local network sync with this
+// device. It speaks just enough HTTP/1.1 for one POST per connection, on top
+// of react-native-tcp-socket, which needs a development build; the module is
+// loaded on start so that Expo Go and the web app still run without it.
+import type TcpSocket from 'react-native-tcp-socket';
+import type { SyncRequest } from './sync';
+import {
+  SYNC_PATH,
+  encodeSyncMessage,
+  type SyncHandler,
+} from './sync-transport';
+
+// A sync sends whole tables the first time, so this is generous
+const MAX_REQUEST_BYTES = 50 * 1024 * 1024;
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  204: 'No Content',
+  400: 'Bad Request',
+  404: 'Not Found',
+  413: 'Payload Too Large',
+};
+
+// The web app syncs from a browser, which asks first. Any page may ask, but
+// only a request with the pairing code or a paired device's key is answered
+// with data (see receiveSync).
+const CORS_HEADERS = [
+  'Access-Control-Allow-Origin: *',
+  'Access-Control-Allow-Methods: POST, OPTIONS',
+  'Access-Control-Allow-Headers: Content-Type',
+];
+
+export interface HttpRequest {
+  method: string;
+  path: string;
+  body: string;
+}
+
+export interface SyncServer {
+  stop(): Promise<void>;
+}
+
+// Returns null until the whole request has arrived. `data` holds one
+// character per byte, as read with the latin1 encoding.
+export const parseHttpRequest = (data: string): HttpRequest | null => {
+  const headerEnd = data.indexOf('\r\n\r\n');
+  if (headerEnd === -1) return null;
+
+  const [requestLine, ...headerLines] = data.slice(0, headerEnd).split('\r\n');
+  const [method, path] = requestLine.split(' ');
+  const lengthHeader = headerLines.find((line) =>
+    line.toLowerCase().startsWith('content-length:')
+  );
+  const length = lengthHeader ? Number(lengthHeader.split(':')[1]) : 0;
+  if (!method || !path || !Number.isInteger(length) || length < 0) {
+    throw new Error('Malformed request');
+  }
+
+  const body = data.slice(headerEnd + 4);
+  if (body.length < length) return null;
+  return { method, path, body: body.slice(0, length) };
+};
+
+const respond = (socket: TcpSocket.Socket, status: number, body?: unknown) => {
+  const content = body === undefined ? '' : encodeSyncMessage(body);
+  const headers = [
+    `HTTP/1.1 ${status} ${STATUS_TEXT[status]}`,
+    ...CORS_HEADERS,
+    'Content-Type: application/json',
+    `Content-Length: ${content.length}`,
+    'Connection: close',
+  ];
+  socket.end(`${headers.join('\r\n')}\r\n\r\n${content}`, 'latin1');
+};
+
+const handleRequest = async (
+  socket: TcpSocket.Socket,
+  request: HttpRequest,
+  handler: SyncHandler
+) => {
+  if (request.method === 'OPTIONS') {
+    respond(socket, 204);
+    return;
+  }
+  if (request.method !== 'POST' || request.path !== SYNC_PATH) {
+    respond(socket, 404, { error: 'Not found' });
+    return;
+  }
+
+  try {
+    const response = await handler(JSON.parse(request.body) as SyncRequest);
+    respond(socket, 200, response);
+  } catch (error) {
+    respond(socket, 400, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+export const startSyncServer = async (
+  handler: SyncHandler,
+  port: number
+): Promise<SyncServer> => {
+  const { default: tcp } = await import('react-native-tcp-socket');
+
+  const server = tcp.createServer((socket) => {
+    let data = '';
+    let handled = false;
+    socket.setEncoding('latin1');
+    socket.on('data', (chunk) => {
+      if (handled) return;
+      data += chunk.toString();
+      if (data.length > MAX_REQUEST_BYTES) {
+        handled = true;
+        respond(socket, 413, { error: 'Too much data in one sync' });
+        return;
+      }
+
+      let request: HttpRequest | null;
+      try {
+        request = parseHttpRequest(data);
+      } catch (error) {
+        handled = true;
+        respond(socket, 400, { error: (error as Error).message });
+        return;
+      }
+      if (request) {
+        handled = true;
+        handleRequest(socket, request, handler);
+      }
+    });
+    socket.on('error', (error) => {
+      console.error('❌ Sync connection failed:', error);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen({ port, host: '0.0.0.0' }, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  console.log(`🔄 Sync server listening on port ${port}`);
+
+  return {
+    stop: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+      }),
+  };
+};
@@ -0,0 +1,84 @@
+// Sync bookkeeping in IndexedDB; the engine is in db/sync.ts
+import { webDb, STORES } from './database-web';
+import type { NewSyncPeer, SyncDevice, SyncPeer, SyncRecord } from './schema';
+import { newSyncDevice, type SyncRow, type SyncSnapshot } from './sync';
+import { SYNC_TABLES } from './sync-tables';
+import type { SyncRepository } from './repositories';
+
+export const webSyncService: SyncRepository = {
+  async getDevice() {
+    const [device] = await webDb.getAll<SyncDevice>(STORES.syncDevice);
+    if (device) return device;
+
+    const created = newSyncDevice() as SyncDevice;
+    await webDb.put(STORES.syncDevice, created);
+    return created;
+  },
+
+  async updateDevice(updates) {
+    const device = await this.getDevice();
+    const updated: SyncDevice = {
+      ...device,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    await webDb.put(STORES.syncDevice, updated);
+    return updated;
+  },
+
+  async getPeers() {
+    const peers = await webDb.getAll<SyncPeer>(STORES.syncPeers);
+    return peers.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async savePeer(peer: NewSyncPeer) {
+    const existing = await webDb.get<SyncPeer>(STORES.syncPeers, peer.id);
+    const now = new Date().toISOString();
+    const saved: SyncPeer = {
+      address: null,
+      receivedSeq: 0,
+      sentSeq: 0,
+      lastSyncedAt: null,
+      createdAt: now,
+      ...existing,
+      ...peer,
+      updatedAt: peer.updatedAt ?? now,
+    };
+    await webDb.put(STORES.syncPeers, saved);
+  },
+
+  async deletePeer(id: string) {
+    await webDb.delete(STORES.syncPeers, id);
+  },
+
+  async update(work) {
+    const storeNames = [
+      ...SYNC_TABLES.map((table) => STORES[table.name]),
+      STORES.syncRecords,
+    ];
+    return await webDb.transaction(storeNames, async (tx) => {
+      const rows = Object.fromEntries(
+        await Promise.all(
+          SYNC_TABLES.map(async (table) => [
+            table.name,
+            await tx.getAll<SyncRow>(STORES[table.name]),
+          ])
+        )
+      ) as SyncSnapshot['rows'];
+      const records = await tx.getAll<SyncRecord>(STORES.syncRecords);
+
+      const update = work({ rows, records });
+
+      for (const { table, rowId } of update.deletes) {
+        await tx.delete(STORES[table], rowId);
+      }
+      for (const { table, row } of update.upserts) {
+        await tx.put(STORES[table], row);
+      }
+      for (const record of update.records) {
+        await tx.put(STORES.syncRecords, record);
+      }
+      return update.result;
+    });
+  },
+};
@@ -0,0 +1,84 @@
+// Sync bookkeeping in SQLite; the engine is in db/sync.ts
+import { eq } from 'drizzle-orm';
+import { getDb, withTransaction } from './database';
+import { syncDevice, syncPeers, syncRecords, type NewSyncPeer } from './schema';
+import { newSyncDevice, type SyncRow, type SyncSnapshot } from './sync';
+import { SYNC_TABLES, type SyncTableName } from './sync-tables';
+import type { SyncRepository } from './repositories';
+
+export const syncService: SyncRepository = {
+  async getDevice() {
+    const db = await getDb();
+    const [device] = await db.select().from(syncDevice);
+    if (device) return device;
+
+    const created = newSyncDevice();
+    await db.insert(syncDevice).values(created);
+    return (await db.select().from(syncDevice))[0];
+  },
+
+  async updateDevice(updates) {
+    const device = await this.getDevice();
+    const db = await getDb();
+    await db
+      .update(syncDevice)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(syncDevice.id, device.id));
+    return (await db.select().from(syncDevice))[0];
+  },
+
+  async getPeers() {
+    const db = await getDb();
+    return await db.select().from(syncPeers).orderBy(syncPeers.name);
+  },
+
+  async savePeer(peer: NewSyncPeer) {
+    const db = await getDb();
+    const { id, createdAt, ...updates } = peer;
+    await db
+      .insert(syncPeers)
+      .values(peer)
+      .onConflictDoUpdate({ target: syncPeers.id, set: updates });
+  },
+
+  async deletePeer(id: string) {
+    const db = await getDb();
+    await db.delete(syncPeers).where(eq(syncPeers.id, id));
+  },
+
+  async update(work) {
+    return await withTransaction((tx) => {
+      const rows = Object.fromEntries(
+        SYNC_TABLES.map((table) => [
+          table.name,
+          tx.select().from(table.table).all() as SyncRow[],
+        ])
+      ) as SyncSnapshot['rows'];
+      const records = tx.select().from(syncRecords).all();
+
+      const { upserts, deletes, result, ...writes } = work({ rows, records });
+
+      const tableOf = (name: SyncTableName) =>
+        SYNC_TABLES.find((table) => table.name === name)!;
+      for (const { table: name, rowId } of deletes) {
+        const table = tableOf(name);
+        tx.delete(table.table).where(eq(table.primaryKeyColumn, rowId)).run();
+      }
+      for (const { table: name, row } of upserts) {
+        const table = tableOf(name);
+        tx.insert(table.table)
+          .values(row)
+          .onConflictDoUpdate({ target: table.primaryKeyColumn, set: row })
+          .run();
+      }
+      for (const record of writes.records) {
+        const { id, ...updates } = record;
+        tx.insert(syncRecords)
+          .values(record)
+          .onConflictDoUpdate({ target: syncRecords.id, set: updates })
+          .run();
+      }
+      return result;
+    });
+  },
+};
@@ -0,0 +1,125 @@
+// The tables that sync between devices, described from db/schema.ts: their
+// columns, primary key, unique keys and foreign keys. Table names are the
+// schema export names, which are also the IndexedDB store names, so both
+// backends read and write the same records.
+import { getTableColumns } from 'drizzle-orm';
+import {
+  getTableConfig,
+  type SQLiteColumn,
+  type SQLiteTable,
+} from 'drizzle-orm/sqlite-core';
+import * as schema from './schema';
+
+const TABLES = {
+  members: schema.members,
+  accounts: schema.accounts,
+  recurringExpenses: schema.recurringExpenses,
+  expenses: schema.expenses,
+  expenseSplits: schema.expenseSplits,
+  payments: schema.payments,
+  settlements: schema.settlements,
+  incomes: schema.incomes,
+  accountTransfers: schema.accountTransfers,
+  categories: schema.categories,
+  budgetAllocations: schema.budgetAllocations,
+  groceryLists: schema.groceryLists,
+  groceryItems: schema.groceryItems,
+  priceHistory: schema.priceHistory,
+  monthlySavings: schema.monthlySavings,
+  financialSettings: schema.financialSettings,
+  exchangeRates: schema.exchangeRates,
+  categorizationRules: schema.categorizationRules,
+  monthlyRollovers: schema.monthlyRollovers,
+  // Synced like the data, so every device shows who changed what anywhere
+  auditLog: schema.auditLog,
+};
+
+export type SyncTableName = keyof typeof TABLES;
+
+// Records every device generates on its own, such as the instances of a
+// recurring expense, have no unique index but must not be doubled by a sync
+const GENERATED_KEYS: Partial<Record<SyncTableName, string[][]>> = {
+  expenses: [['templateId', 'dueDate']],
+};
+
+export interface SyncReference {
+  field: string;
+  table: SyncTableName;
+  onDelete: 'cascade' | 'set null';
+}
+
+export interface SyncTable {
+  name: SyncTableName;
+  table: SQLiteTable;
+  primaryKey: string;
+  primaryKeyColumn: SQLiteColumn;
+  fields: string[];
+  uniqueKeys: string[][];
+  references: SyncReference[];
+}
+
+const describeTable = (name: SyncTableName): SyncTable => {
+  const table = TABLES[name];
+  const config = getTableConfig(table);
+  const columns = Object.entries(getTableColumns(table));
+  const fieldOf = (column: { name: string }) =>
+    columns.find(([, candidate]) => candidate.name === column.name)![0];
+  const tableNameOf = (foreignTable: SQLiteTable) =>
+    (Object.keys(TABLES) as SyncTableName[]).find(
+      (candidate) => TABLES[candidate] === foreignTable
+    )!;
+
+  const [primaryKey, primaryKeyColumn] = columns.find(
+    ([, column]) => column.primary
+  )!;
+
+  return {
+    name,
+    table,
+    primaryKey,
+    primaryKeyColumn,
+    fields: columns.map(([field]) => field),
+    uniqueKeys: [
+      ...columns
+        .filter(([, column]) => column.isUnique)
+        .map(([field]) => [field]),
+      ...config.indexes
+        .filter((index) => index.config.unique)
+        .map((index) =>
+          index.config.columns.map((column) => fieldOf(column as SQLiteColumn))
+        ),
+      ...(GENERATED_KEYS[name] ?? []),
+    ],
+    references: config.foreignKeys.map((foreignKey) => {
+      const reference = foreignKey.reference();
+      return {
+        field: fieldOf(reference.columns[0]),
+        table: tableNameOf(reference.foreignTable),
+        onDelete: foreignKey.onDelete === 'cascade' ? 'cascade' : 'set null',
+      };
+    }),
+  };
+};
+
+// Parents before the tables that refer to them, so rows can be written in
+// this order and deleted in reverse
+const sortByDependency = (tables: SyncTable[]) => {
+  const sorted: SyncTable[] = [];
+  const visit = (table: SyncTable) => {
+    if (sorted.includes(table)) return;
+    for (const reference of table.references) {
+      const parent = tables.find(({ name }) => name === reference.table)!;
+      if (parent !== table) visit(parent);
+    }
+    sorted.push(table);
+  };
+  tables.forEach(visit);
+  return sorted;
+};
+
+export const SYNC_TABLES = sortByDependency(
+  (Object.keys(TABLES) as SyncTableName[]).map(describeTable)
+);
+
+export const getSyncTable = (name: string) =>
+  SYNC_TABLES.find((table) => table.name === name) ?? null;
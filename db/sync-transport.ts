@@ -0,0 +1,70 @@
+// How sync messages travel between devices: JSON over HTTP on the local
+// network, or straight to a handler in the same process, which is how two
+// peers are run side by side without a network
+import type { SyncRequest, SyncResponse, SyncTransport } from './sync';
+
+export const SYNC_PORT = 8765;
+export const SYNC_PATH = '/sync';
+
+const SYNC_TIMEOUT_MS = 30000;
+
+// Answers one request; the server and the loopback transport both call it
+export type SyncHandler = (request: SyncRequest) => Promise<SyncResponse>;
+
+// "192.168.1.20" or "http://192.168.1.20:8765/" becomes "192.168.1.20:8765"
+export const normalizeAddress = (address: string) => {
+  const host = address
+    .trim()
+    .replace(/^https?:\/\//i, '')
+    .replace(/\/.*$/, '');
+  if (!host) throw new Error('Enter the address shown on the other device');
+  return /:\d+$/.test(host) ? host : `${host}:${SYNC_PORT}`;
+};
+
+// Escapes everything outside ASCII, so a message has as many bytes as
+// characters and the server can read the body by its length
+export const encodeSyncMessage = (message: unknown) =>
+  JSON.stringify(message).replace(
+    /[\u007f-\uffff]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+
+export const createHttpTransport =
+  (address: string): SyncTransport =>
+  async (request) => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), SYNC_TIMEOUT_MS);
+    try {
+      const response = await fetch(
+        `http://${normalizeAddress(address)}${SYNC_PATH}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: encodeSyncMessage(request),
+          signal: controller.signal,
+        }
+      );
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body?.error ?? `Sync failed (HTTP ${response.status})`);
+      }
+      return body as SyncResponse;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`${address} did not answer in time`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+// Hands the request to a handler in this process. Messages still go through
+// JSON, so they arrive as they would over the network.
+export const createLoopbackTransport =
+  (handler: SyncHandler): SyncTransport =>
+  async (request) => {
+    const received = JSON.parse(encodeSyncMessage(request)) as SyncRequest;
+    const response = await handler(received);
+    return JSON.parse(encodeSyncMessage(response)) as SyncResponse;
+  };
@@ -0,0 +1,663 @@
+// Peer-to-peer sync between the devices of a household.
+//
+// Every synced row (see db/sync-tables.ts) has a sync record with a version
+// of each field: its value, when it was set and on which device. Changes are
+// found at the start of every sync by comparing the rows with their records,
+// so any write, whichever service made it, is picked up; a changed field is
+// stamped with the row's `updatedAt`. A deleted row leaves a tombstone.
+//
+// Peers exchange the records changed since they last met and merge them
+// field by field: the newer version wins and a tie goes to the higher device
+// id. A tombstone always wins, so a deleted record stays deleted. Rows that
+// clash on a unique key afterwards, such as the same category created on two
+// devices, are folded into the one with the lowest id and references to the
+// others are moved over. Every device resolves the same way, so peers agree
+// once they have seen the same changes.
+//
+// Works against the SyncRepository interface, so the SQLite and the
+// IndexedDB backends share the engine and can sync with each other.
+import { getRandomValues } from 'expo-crypto';
+import type {
+  FieldVersion,
+  NewSyncDevice,
+  NewSyncPeer,
+  SyncDevice,
+  SyncPeer,
+  SyncRecord,
+} from './schema';
+import type { SyncRepository } from './repositories';
+import { createId } from './ids';
+import {
+  SYNC_TABLES,
+  getSyncTable,
+  type SyncTable,
+  type SyncTableName,
+} from './sync-tables';
+
+// Bumped whenever the messages change
+export const SYNC_PROTOCOL = 2;
+
+// Wrong pairing codes in a row before pairing locks for a while
+export const MAX_PAIRING_ATTEMPTS = 5;
+export const PAIRING_LOCKOUT_MS = 5 * 60 * 1000;
+
+// Devices only sync when they have the same synced tables and fields, i.e.
+// run the same version of the schema
+export const SYNC_SCHEMA = SYNC_TABLES.map(
+  (table) => `${table.name}(${table.fields.join(',')})`
+).join(';');
+
+export type SyncRow = Record<string, unknown>;
+
+export interface SyncSnapshot {
+  rows: Record<SyncTableName, SyncRow[]>;
+  records: SyncRecord[];
+}
+
+export interface SyncWrites {
+  // Parents before children
+  upserts: { table: SyncTableName; row: SyncRow }[];
+  // Children before parents
+  deletes: { table: SyncTableName; rowId: string }[];
+  records: SyncRecord[];
+}
+
+export type SyncUpdate<T> = SyncWrites & { result: T };
+
+export interface SyncRequest {
+  protocol: number;
+  schema: string;
+  code: string; // The receiver's pairing code, or the pair's key once paired
+  deviceId: string;
+  name: string;
+  address: string | null; // Where the receiver can call back, if anywhere
+  since: number; // The receiver's changes the sender already has
+  seq: number; // The sender's latest change
+  changes: SyncRecord[];
+}
+
+export interface SyncResponse {
+  protocol: number;
+  schema: string;
+  deviceId: string;
+  name: string;
+  seq: number;
+  changes: SyncRecord[];
+  key: string | null; // The pair's key from now on, when the request paired
+}
+
+export type SyncTransport = (request: SyncRequest) => Promise<SyncResponse>;
+
+// Who to sync with; a device being paired has no id yet
+export type SyncTarget = Pick<
+  SyncPeer,
+  'name' | 'address' | 'code' | 'receivedSeq' | 'sentSeq'
+> & { id: string | null };
+
+// Wrong pairing codes the listening device has seen, kept while it runs
+export interface PairingGuard {
+  failures: number;
+  lockedUntil: number;
+}
+
+// What the sync screen shows
+export interface SyncStatus {
+  device: SyncDevice;
+  // Where peers reach this device; null when it cannot be reached
+  address: string | null;
+  peers: SyncPeer[];
+}
+
+export interface SyncResult {
+  peer: NewSyncPeer;
+  // Changes from the peer that altered this device's data
+  applied: number;
+}
+
+// Six digits, typed on the other device when pairing
+export const createPairingCode = () => {
+  const [value] = getRandomValues(new Uint32Array(1));
+  return String(value % 1000000).padStart(6, '0');
+};
+
+// Shared by two devices once they are paired, and too long to guess
+const createPeerKey = () =>
+  Array.from(getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+
+export const createPairingGuard = (): PairingGuard => ({
+  failures: 0,
+  lockedUntil: 0,
+});
+
+export const newSyncDevice = (): NewSyncDevice => {
+  const id = createId();
+  const now = new Date().toISOString();
+  return {
+    id,
+    name: `Device ${id.slice(-4).toUpperCase()}`,
+    code: createPairingCode(),
+    isEnabled: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+interface WorkingSet {
+  deviceId: string;
+  now: string;
+  rows: Map<SyncTableName, Map<string, SyncRow>>;
+  records: Map<string, SyncRecord>;
+  seq: number;
+  changed: Set<string>;
+  upserts: Map<string, { table: SyncTableName; row: SyncRow }>;
+  deletes: Map<string, { table: SyncTableName; rowId: string }>;
+}
+
+const recordId = (table: SyncTableName, rowId: string) => `${table}/${rowId}`;
+
+const toTime = (value: unknown) => {
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+// A local change must beat the version it replaces, even when that version
+// came from a device whose clock runs ahead
+const after = (candidate: string, previous?: string) => {
+  const last = toTime(previous);
+  if (!last || candidate > last) return candidate;
+  return new Date(Date.parse(last) + 1).toISOString();
+};
+
+const isNewer = (version: FieldVersion, current?: FieldVersion) =>
+  !current ||
+  version.at > current.at ||
+  (version.at === current.at && version.by > current.by);
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const valuesOf = (table: SyncTable, fields: Record<string, FieldVersion>) => {
+  const row: SyncRow = {};
+  for (const field of table.fields) {
+    if (fields[field]) row[field] = fields[field].value;
+  }
+  return row;
+};
+
+const openWorkingSet = (
+  snapshot: SyncSnapshot,
+  deviceId: string
+): WorkingSet => ({
+  deviceId,
+  now: new Date().toISOString(),
+  rows: new Map(
+    SYNC_TABLES.map((table) => [
+      table.name,
+      new Map(
+        (snapshot.rows[table.name] ?? []).map((row) => [
+          String(row[table.primaryKey]),
+          row,
+        ])
+      ),
+    ])
+  ),
+  records: new Map(snapshot.records.map((record) => [record.id, record])),
+  seq: snapshot.records.reduce((max, record) => Math.max(max, record.seq), 0),
+  changed: new Set(),
+  upserts: new Map(),
+  deletes: new Map(),
+});
+
+const saveRecord = (ws: WorkingSet, record: SyncRecord) => {
+  ws.seq += 1;
+  ws.records.set(record.id, { ...record, seq: ws.seq });
+  ws.changed.add(record.id);
+};
+
+const writeRow = (
+  ws: WorkingSet,
+  table: SyncTable,
+  rowId: string,
+  row: SyncRow
+) => {
+  const id = recordId(table.name, rowId);
+  ws.rows.get(table.name)!.set(rowId, row);
+  ws.upserts.set(id, { table: table.name, row });
+  ws.deletes.delete(id);
+};
+
+const tombstone = (
+  ws: WorkingSet,
+  table: SyncTableName,
+  rowId: string,
+  deletedAt: string
+) => {
+  const id = recordId(table, rowId);
+  const record = ws.records.get(id);
+  if (record?.deletedAt) return false;
+
+  saveRecord(ws, {
+    id,
+    table,
+    rowId,
+    fields: record?.fields ?? {},
+    deletedAt,
+    seq: 0,
+  });
+  if (ws.rows.get(table)!.delete(rowId)) {
+    ws.upserts.delete(id);
+    ws.deletes.set(id, { table, rowId });
+  }
+  return true;
+};
+
+// Sets a field on this device, e.g. to move a reference to the row that won
+// a unique key
+const setField = (
+  ws: WorkingSet,
+  table: SyncTable,
+  rowId: string,
+  field: string,
+  value: unknown
+) => {
+  const record = ws.records.get(recordId(table.name, rowId))!;
+  const version: FieldVersion = {
+    value,
+    at: after(ws.now, record.fields[field]?.at),
+    by: ws.deviceId,
+  };
+  saveRecord(ws, {
+    ...record,
+    fields: { ...record.fields, [field]: version },
+  });
+  writeRow(ws, table, rowId, {
+    ...ws.rows.get(table.name)!.get(rowId),
+    [field]: value,
+  });
+};
+
+// Records what changed on this device since the last sync
+const trackLocalChanges = (ws: WorkingSet) => {
+  for (const table of SYNC_TABLES) {
+    for (const [rowId, row] of ws.rows.get(table.name)!) {
+      const id = recordId(table.name, rowId);
+      const record = ws.records.get(id);
+      if (record?.deletedAt) {
+        // Deleted on another device and written again here, e.g. by seeding
+        ws.rows.get(table.name)!.delete(rowId);
+        ws.deletes.set(id, { table: table.name, rowId });
+        continue;
+      }
+
+      const rowTime =
+        toTime(row.updatedAt) ?? (record ? null : toTime(row.createdAt));
+      const fields = { ...record?.fields };
+      let changed = !record;
+      for (const field of table.fields) {
+        const previous = fields[field];
+        const value = row[field] ?? null;
+        if (previous && sameValue(previous.value, value)) continue;
+
+        // A row whose `updatedAt` was not moved still changed now
+        const candidate =
+          rowTime && (!previous || rowTime > previous.at) ? rowTime : ws.now;
+        fields[field] = {
+          value,
+          at: after(candidate, previous?.at),
+          by: ws.deviceId,
+        };
+        changed = true;
+      }
+      if (changed) {
+        saveRecord(ws, {
+          id,
+          table: table.name,
+          rowId,
+          fields,
+          deletedAt: null,
+          seq: 0,
+        });
+      }
+    }
+  }
+
+  for (const record of [...ws.records.values()]) {
+    const table = getSyncTable(record.table);
+    if (
+      table &&
+      !record.deletedAt &&
+      !ws.rows.get(table.name)!.has(record.rowId)
+    ) {
+      tombstone(ws, table.name, record.rowId, ws.now);
+    }
+  }
+};
+
+// Returns whether the incoming record changed anything here
+const mergeRecord = (ws: WorkingSet, incoming: SyncRecord) => {
+  const table = getSyncTable(incoming.table);
+  if (!table) return false;
+  const id = recordId(table.name, incoming.rowId);
+  const local = ws.records.get(id);
+  if (local?.deletedAt) return false;
+  if (incoming.deletedAt) {
+    return tombstone(ws, table.name, incoming.rowId, incoming.deletedAt);
+  }
+
+  const fields = { ...local?.fields };
+  let changed = false;
+  for (const [field, version] of Object.entries(incoming.fields)) {
+    if (isNewer(version, fields[field])) {
+      fields[field] = version;
+      changed = true;
+    }
+  }
+  if (!changed) return false;
+
+  saveRecord(ws, {
+    id,
+    table: table.name,
+    rowId: incoming.rowId,
+    fields,
+    deletedAt: null,
+    seq: 0,
+  });
+  writeRow(ws, table, incoming.rowId, {
+    ...ws.rows.get(table.name)!.get(incoming.rowId),
+    ...valuesOf(table, fields),
+  });
+  return true;
+};
+
+// The newer fields of the losing row are kept on the winner
+const foldInto = (
+  ws: WorkingSet,
+  table: SyncTable,
+  loserId: string,
+  winnerId: string
+) => {
+  const loser = ws.records.get(recordId(table.name, loserId))!;
+  const winner = ws.records.get(recordId(table.name, winnerId))!;
+  const fields = { ...winner.fields };
+  let changed = false;
+  for (const [field, version] of Object.entries(loser.fields)) {
+    if (field !== table.primaryKey && isNewer(version, fields[field])) {
+      fields[field] = version;
+      changed = true;
+    }
+  }
+  if (changed) {
+    saveRecord(ws, { ...winner, fields });
+    writeRow(ws, table, winnerId, {
+      ...ws.rows.get(table.name)!.get(winnerId),
+      ...valuesOf(table, fields),
+    });
+  }
+  tombstone(ws, table.name, loserId, ws.now);
+};
+
+// Keeps the merged rows valid: references to deleted rows follow their
+// foreign key's on delete rule, and rows sharing a unique key are folded
+// into the one with the lowest id
+const resolveConstraints = (ws: WorkingSet) => {
+  const replaced = new Map<SyncTableName, Map<string, string>>();
+
+  for (const table of SYNC_TABLES) {
+    const rows = ws.rows.get(table.name)!;
+    for (const [rowId, row] of [...rows]) {
+      for (const reference of table.references) {
+        const target = row[reference.field];
+        if (target === null || target === undefined) continue;
+
+        const winner = replaced.get(reference.table)?.get(String(target));
+        if (winner) {
+          setField(ws, table, rowId, reference.field, winner);
+        } else if (!ws.rows.get(reference.table)!.has(String(target))) {
+          if (reference.onDelete === 'cascade') {
+            tombstone(ws, table.name, rowId, ws.now);
+            break;
+          }
+          setField(ws, table, rowId, reference.field, null);
+        }
+      }
+    }
+
+    const losers = new Map<string, string>();
+    for (const key of table.uniqueKeys) {
+      const groups = new Map<string, string[]>();
+      for (const [rowId, row] of rows) {
+        const values = key.map((field) => row[field] ?? null);
+        if (values.includes(null)) continue;
+        const group = JSON.stringify(values);
+        groups.set(group, [...(groups.get(group) ?? []), rowId]);
+      }
+      for (const rowIds of groups.values()) {
+        const [winnerId, ...loserIds] = rowIds.sort();
+        for (const loserId of loserIds) {
+          foldInto(ws, table, loserId, winnerId);
+          losers.set(loserId, winnerId);
+        }
+      }
+    }
+    replaced.set(table.name, losers);
+  }
+};
+
+const mergeChanges = (ws: WorkingSet, changes: SyncRecord[]) => {
+  let applied = 0;
+  for (const change of changes) {
+    if (mergeRecord(ws, change)) applied += 1;
+  }
+  resolveConstraints(ws);
+  return applied;
+};
+
+// A cursor past this device's latest change dates from before a backup was
+// restored here; the peer then gets everything again
+const checkCursor = (ws: WorkingSet, since: number) =>
+  since > ws.seq ? 0 : since;
+
+const collectChanges = (ws: WorkingSet, since: number) =>
+  [...ws.records.values()]
+    .filter((record) => record.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+
+const toWrites = (ws: WorkingSet): SyncWrites => {
+  const order = (name: SyncTableName) =>
+    SYNC_TABLES.findIndex((table) => table.name === name);
+  return {
+    upserts: [...ws.upserts.values()].sort(
+      (a, b) => order(a.table) - order(b.table)
+    ),
+    deletes: [...ws.deletes.values()].sort(
+      (a, b) => order(b.table) - order(a.table)
+    ),
+    records: [...ws.changed].map((id) => ws.records.get(id)!),
+  };
+};
+
+// Tracks local changes, then runs `work`, all in one transaction
+const runSync = <T>(
+  repository: SyncRepository,
+  deviceId: string,
+  work: (ws: WorkingSet) => T
+) =>
+  repository.update((snapshot) => {
+    const ws = openWorkingSet(snapshot, deviceId);
+    trackLocalChanges(ws);
+    const result = work(ws);
+    return { ...toWrites(ws), result };
+  });
+
+const checkCompatible = (message: { protocol: number; schema: string }) => {
+  if (message.protocol !== SYNC_PROTOCOL || message.schema !== SYNC_SCHEMA) {
+    throw new Error(
+      'The devices run different versions of the app; update both and try again'
+    );
+  }
+};
+
+// A device pairs with the code this one shows. Too many wrong codes lock
+// pairing for a while and change the code, so it cannot be guessed.
+const checkPairingCode = async (
+  repository: SyncRepository,
+  device: SyncDevice,
+  code: string,
+  guard: PairingGuard
+) => {
+  const now = Date.now();
+  if (now < guard.lockedUntil) {
+    throw new Error('Too many wrong pairing codes; try again in a few minutes');
+  }
+  if (code === device.code) {
+    guard.failures = 0;
+    return;
+  }
+
+  guard.failures += 1;
+  if (guard.failures >= MAX_PAIRING_ATTEMPTS) {
+    guard.failures = 0;
+    guard.lockedUntil = now + PAIRING_LOCKOUT_MS;
+    await repository.updateDevice({ code: createPairingCode() });
+  }
+  throw new Error('Wrong pairing code');
+};
+
+// Answers a peer's request: merges its changes and returns ours. The peer is
+// remembered, so this device can start the next sync itself. A paired peer
+// sends the key the two share; any other request must carry the pairing
+// code, which then makes a new key and is replaced, so it works only once.
+export const receiveSync = async (
+  repository: SyncRepository,
+  request: SyncRequest,
+  guard: PairingGuard
+) => {
+  checkCompatible(request);
+  const device = await repository.getDevice();
+  if (!device.isEnabled) {
+    throw new Error('Sync is turned off on this device');
+  }
+  const existing = (await repository.getPeers()).find(
+    (peer) => peer.id === request.deviceId
+  );
+  const isPaired = existing !== undefined && request.code === existing.code;
+  if (!isPaired) {
+    await checkPairingCode(repository, device, request.code, guard);
+  }
+  const key = isPaired ? null : createPeerKey();
+
+  const { response, applied } = await runSync(repository, device.id, (ws) => {
+    const since = checkCursor(ws, request.since);
+    const applied = mergeChanges(ws, request.changes);
+    const response: SyncResponse = {
+      protocol: SYNC_PROTOCOL,
+      schema: SYNC_SCHEMA,
+      deviceId: device.id,
+      name: device.name,
+      seq: ws.seq,
+      changes: collectChanges(ws, since),
+      key,
+    };
+    return { response, applied };
+  });
+
+  const now = new Date().toISOString();
+  await repository.savePeer({
+    id: request.deviceId,
+    name: request.name,
+    address: request.address ?? existing?.address ?? null,
+    code: key ?? request.code,
+    receivedSeq: request.seq,
+    sentSeq: request.since,
+    lastSyncedAt: now,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  });
+  if (key) {
+    await repository.updateDevice({ code: createPairingCode() });
+  }
+  return { response, applied };
+};
+
+// Sends our changes to a peer and merges theirs. `address` is where the peer
+// can call this device back, if anywhere.
+export const syncWithPeer = async (
+  repository: SyncRepository,
+  target: SyncTarget,
+  transport: SyncTransport,
+  address: string | null
+): Promise<SyncResult> => {
+  const device = await repository.getDevice();
+  const request = await runSync(
+    repository,
+    device.id,
+    (ws): SyncRequest => ({
+      protocol: SYNC_PROTOCOL,
+      schema: SYNC_SCHEMA,
+      code: target.code,
+      deviceId: device.id,
+      name: device.name,
+      address,
+      since: target.receivedSeq,
+      seq: ws.seq,
+      changes: collectChanges(ws, checkCursor(ws, target.sentSeq)),
+    })
+  );
+
+  const response = await transport(request);
+  checkCompatible(response);
+  if (target.id && response.deviceId !== target.id) {
+    throw new Error(`Another device answered at ${target.address}`);
+  }
+
+  const applied = await runSync(repository, device.id, (ws) =>
+    mergeChanges(ws, response.changes)
+  );
+
+  const now = new Date().toISOString();
+  const peer: NewSyncPeer = {
+    id: response.deviceId,
+    name: response.name,
+    address: target.address,
+    code: response.key ?? target.code,
+    receivedSeq: response.seq,
+    sentSeq: request.seq,
+    lastSyncedAt: now,
+    updatedAt: now,
+  };
+  await repository.savePeer(peer);
+  return { peer, applied };
+};
+
+// Syncs with every peer that can be called, one after the other. A peer
+// that cannot be reached does not stop the others.
+export const syncWithPeers = async (
+  repository: SyncRepository,
+  createTransport: (address: string) => SyncTransport,
+  address: string | null
+) => {
+  const results: SyncResult[] = [];
+  const failures: { peer: SyncPeer; error: string }[] = [];
+  for (const peer of await repository.getPeers()) {
+    if (!peer.address) continue;
+    try {
+      results.push(
+        await syncWithPeer(
+          repository,
+          peer,
+          createTransport(peer.address),
+          address
+        )
+      );
+    } catch (error) {
+      failures.push({
+        peer,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return { results, failures };
+};
@@ -0,0 +1,184 @@
+// Both storage backends behind the shared repository interfaces, so one
+// scenario can run against each. Every backend starts empty: the SQLite one
+// at the latest migration, the IndexedDB one at the latest web version.
+import { getTableConfig } from 'drizzle-orm/sqlite-core';
+import { failTestWrites, resetTestDatabase } from './expo-sqlite';
+import { webDb } from '../database-web';
+import { getSyncTable, type SyncTableName } from '../sync-tables';
+import {
+  expenseService,
+  categoryService,
+  budgetAllocationService,
+  groceryListService,
+  groceryItemService,
+  financialSettingsService,
+  monthlySavingsService,
+  rolloverService,
+  recurringExpenseService,
+  exchangeRateService,
+  categorizationRuleService,
+  memberService,
+  expenseSplitService,
+  paymentService,
+  settlementService,
+  accountService,
+  incomeService,
+  accountTransferService,
+  auditService,
+} from '../services';
+import {
+  webExpenseService,
+  webCategoryService,
+  webBudgetAllocationService,
+  webGroceryListService,
+  webGroceryItemService,
+  webFinancialSettingsService,
+  webMonthlySavingsService,
+  webRolloverService,
+  webRecurringExpenseService,
+  webExchangeRateService,
+  webCategorizationRuleService,
+  webMemberService,
+  webExpenseSplitService,
+  webPaymentService,
+  webSettlementService,
+  webAccountService,
+  webIncomeService,
+  webAccountTransferService,
+  webAuditService,
+} from '../services-web';
+import type {
+  ExpenseRepository,
+  CategoryRepository,
+  BudgetAllocationRepository,
+  GroceryListRepository,
+  GroceryItemRepository,
+  FinancialSettingsRepository,
+  MonthlySavingsRepository,
+  RolloverRepository,
+  RecurringExpenseRepository,
+  ExchangeRateRepository,
+  CategorizationRuleRepository,
+  MemberRepository,
+  ExpenseSplitRepository,
+  PaymentRepository,
+  SettlementRepository,
+  AccountRepository,
+  IncomeRepository,
+  AccountTransferRepository,
+  AuditRepository,
+} from '../repositories';
+
+export interface Backend {
+  name: string;
+  reset: () => Promise<void>;
+  // Makes every write to the table fail until the returned function is
+  // called, to check what a unit of work that fails part way leaves behind
+  failWrites: (table: SyncTableName) => () => void;
+  expenses: ExpenseRepository;
+  categories: CategoryRepository;
+  budgetAllocations: BudgetAllocationRepository;
+  groceryLists: GroceryListRepository;
+  groceryItems: GroceryItemRepository;
+  financialSettings: FinancialSettingsRepository;
+  monthlySavings: MonthlySavingsRepository;
+  rollovers: RolloverRepository;
+  recurringExpenses: RecurringExpenseRepository;
+  exchangeRates: ExchangeRateRepository;
+  categorizationRules: CategorizationRuleRepository;
+  members: MemberRepository;
+  expenseSplits: ExpenseSplitRepository;
+  payments: PaymentRepository;
+  settlements: SettlementRepository;
+  accounts: AccountRepository;
+  incomes: IncomeRepository;
+  accountTransfers: AccountTransferRepository;
+  audit: AuditRepository;
+}
+
+// Store names are the table names; see db/sync-tables.ts
+const failIndexedDbWrites = (storeName: string) => {
+  const prototype = IDBObjectStore.prototype;
+  const originals = {
+    put: prototype.put,
+    add: prototype.add,
+    delete: prototype.delete,
+  };
+  (Object.keys(originals) as (keyof typeof originals)[]).forEach((method) => {
+    const original = originals[method] as (
+      this: IDBObjectStore,
+      ...args: unknown[]
+    ) => IDBRequest;
+    (prototype as unknown as Record<string, unknown>)[method] = function (
+      this: IDBObjectStore,
+      ...args: unknown[]
+    ) {
+      if (this.name === storeName) {
+        throw new DOMException(
+          `Injected failure writing ${storeName}`,
+          'UnknownError'
+        );
+      }
+      return original.apply(this, args);
+    };
+  });
+  return () => {
+    Object.assign(prototype, originals);
+  };
+};
+
+export const sqliteBackend: Backend = {
+  name: 'SQLite',
+  reset: resetTestDatabase,
+  failWrites: (table) =>
+    failTestWrites(getTableConfig(getSyncTable(table)!.table).name),
+  expenses: expenseService,
+  categories: categoryService,
+  budgetAllocations: budgetAllocationService,
+  groceryLists: groceryListService,
+  groceryItems: groceryItemService,
+  financialSettings: financialSettingsService,
+  monthlySavings: monthlySavingsService,
+  rollovers: rolloverService,
+  recurringExpenses: recurringExpenseService,
+  exchangeRates: exchangeRateService,
+  categorizationRules: categorizationRuleService,
+  members: memberService,
+  expenseSplits: expenseSplitService,
+  payments: paymentService,
+  settlements: settlementService,
+  accounts: accountService,
+  incomes: incomeService,
+  accountTransfers: accountTransferService,
+  audit: auditService,
+};
+
+export const indexedDbBackend: Backend = {
+  name: 'IndexedDB',
+  reset: async () => {
+    await webDb.reset();
+    await webDb.init();
+  },
+  failWrites: (table) => failIndexedDbWrites(table),
+  expenses: webExpenseService,
+  categories: webCategoryService,
+  budgetAllocations: webBudgetAllocationService,
+  groceryLists: webGroceryListService,
+  groceryItems: webGroceryItemService,
+  financialSettings: webFinancialSettingsService,
+  monthlySavings: webMonthlySavingsService,
+  rollovers: webRolloverService,
+  recurringExpenses: webRecurringExpenseService,
+  exchangeRates: webExchangeRateService,
+  categorizationRules: webCategorizationRuleService,
+  members: webMemberService,
+  expenseSplits: webExpenseSplitService,
+  payments: webPaymentService,
+  settlements: webSettlementService,
+  accounts: webAccountService,
+  incomes: webIncomeService,
+  accountTransfers: webAccountTransferService,
+  audit: webAuditService,
+};
+
+export const backends = [sqliteBackend, indexedDbBackend];
@@ -0,0 +1,6 @@
+// Stand-in for expo-crypto in tests, where its native module is missing
+import { webcrypto } from 'crypto';
+
+export const getRandomValues = <T extends Uint8Array | Uint32Array>(
+  array: T
+): T => webcrypto.getRandomValues(array);
@@ -0,0 +1,129 @@
+// In-memory stand-in for expo-sqlite in tests, backed by sql.js. Only what
+// drizzle's expo-sqlite driver calls is implemented: prepared statements run
+// synchronously, like the native module runs them.
+import fs from 'fs';
+import path from 'path';
+import type { BindParams, Database, SqlJsStatic, SqlValue } from 'sql.js';
+// The WebAssembly build cannot open a database inside jest's sandbox
+import initSqlJs from 'sql.js/dist/sql-asm.js';
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+
+let SQL: SqlJsStatic | null = null;
+let current: Database | null = null;
+
+const getCurrent = () => {
+  if (!current) {
+    throw new Error('Call resetTestDatabase() before using the database');
+  }
+  return current;
+};
+
+// SQLite has no booleans and sql.js rejects undefined
+const toParams = (params: unknown[] = []): BindParams =>
+  params.map((param): SqlValue => {
+    if (param === undefined) return null;
+    if (typeof param === 'boolean') return param ? 1 : 0;
+    return param as SqlValue;
+  });
+
+// Table that failTestWrites makes every insert, update and delete fail on
+let failingTable: string | null = null;
+const WRITE_TARGET = /^\s*(?:insert into|update|delete from)\s+"(\w+)"/i;
+
+const execute = (sql: string, params: unknown[] | undefined, raw: boolean) => {
+  const database = getCurrent();
+  if (failingTable && WRITE_TARGET.exec(sql)?.[1] === failingTable) {
+    throw new Error(`Injected failure writing ${failingTable}`);
+  }
+  const statement = database.prepare(sql);
+  const rows: unknown[] = [];
+  try {
+    statement.bind(toParams(params));
+    while (statement.step()) {
+      rows.push(raw ? statement.get() : statement.getAsObject());
+    }
+  } finally {
+    statement.free();
+  }
+  return {
+    changes: database.getRowsModified(),
+    lastInsertRowId: 0,
+    getAllSync: () => rows,
+    getFirstSync: () => rows[0] ?? null,
+  };
+};
+
+const readJournal = (): { entries: { tag: string }[] } =>
+  JSON.parse(
+    fs.readFileSync(path.join(MIGRATIONS_DIR, 'meta', '_journal.json'), 'utf8')
+  );
+
+// How many journal entries the current database has run
+let applied = 0;
+
+const startOver = async () => {
+  SQL ??= await initSqlJs();
+  current?.close();
+  current = new SQL.Database();
+  applied = 0;
+};
+
+// Runs the migrations the database has not run yet, up to and including
+// `lastTag` when one is given
+export const migrateTestDatabase = (lastTag?: string) => {
+  const database = getCurrent();
+  const { entries } = readJournal();
+  while (applied < entries.length) {
+    const { tag } = entries[applied];
+    const sql = fs.readFileSync(
+      path.join(MIGRATIONS_DIR, `${tag}.sql`),
+      'utf8'
+    );
+    for (const statement of sql.split('--> statement-breakpoint')) {
+      if (statement.trim()) database.run(statement);
+    }
+    applied++;
+    if (tag === lastTag) return;
+  }
+};
+
+// Starts over with an empty database at the latest schema, migrated from
+// the same SQL files the app ships
+export const resetTestDatabase = async () => {
+  await startOver();
+  migrateTestDatabase();
+};
+
+// Starts over with a database left at an older migration, so a test can
+// write the data a later migration has to carry over
+export const resetTestDatabaseTo = async (lastTag: string) => {
+  await startOver();
+  migrateTestDatabase(lastTag);
+};
+
+// Makes every write to `table` fail, the way a full disk would, until the
+// returned function is called
+export const failTestWrites = (table: string) => {
+  failingTable = table;
+  return () => {
+    failingTable = null;
+  };
+};
+
+// Runs a query outside drizzle, e.g. to check what a failed write left behind
+export const queryTestDatabase = (sql: string, params?: unknown[]) =>
+  execute(sql, params, false).getAllSync() as Record<string, SqlValue>[];
+
+export const openDatabaseSync = () => ({
+  prepareSync: (sql: string) => ({
+    executeSync: (params?: unknown[]) => execute(sql, params, false),
+    executeForRawResultSync: (params?: unknown[]) => execute(sql, params, true),
+  }),
+});
+
+export const openDatabaseAsync = async () => {
+  throw new Error('Tests run the native backend only through openDatabaseSync');
+};
+
+export const addDatabaseChangeListener = () => ({ remove: () => {} });
@@ -0,0 +1,5 @@
+// The asm.js build of sql.js has the same API as the WebAssembly one
+declare module 'sql.js/dist/sql-asm.js' {
+  import initSqlJs from 'sql.js';
+  export default initSqlJs;
+}